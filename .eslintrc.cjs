@@ -0,0 +1,34 @@
+module.exports = {
+  root: true,
+  parser: '@typescript-eslint/parser',
+  parserOptions: {
+    ecmaVersion: 2022,
+    sourceType: 'module'
+  },
+  plugins: ['@typescript-eslint'],
+  extends: [
+    'eslint:recommended',
+    'plugin:@typescript-eslint/recommended'
+  ],
+  env: {
+    node: true,
+    es2022: true
+  },
+  ignorePatterns: ['dist/', 'node_modules/'],
+  rules: {
+    // catch (error: any) is the convention for reading error.message / error.code
+    '@typescript-eslint/no-explicit-any': 'warn',
+    '@typescript-eslint/no-unused-vars': ['error', {
+      argsIgnorePattern: '^_',
+      varsIgnorePattern: '^_',
+      ignoreRestSiblings: true
+    }],
+    // declare global { namespace Express { ... } } augments Request
+    '@typescript-eslint/no-namespace': ['error', { allowDeclarations: true }],
+    // Request<{}, {}, Body> is how Express types a body-only handler
+    '@typescript-eslint/ban-types': ['error', {
+      extendDefaults: true,
+      types: { '{}': false }
+    }]
+  }
+};
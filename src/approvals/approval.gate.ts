@@ -0,0 +1,90 @@
+/**
+ * Approval gate - gated routes store a proposal instead of enqueuing
+ * (see approval.manager.ts)
+ *
+ * RESPONSES:
+ * - 202 → proposal pending (approve with POST /approvals/:proposalId/approve)
+ * - 200 → proposer's own approval met the threshold, job enqueued (jobId)
+ * - 403 INVALID_APPROVER_KEY → X-Approver-Key sent but matches no approver
+ * - 500 APPROVAL_EXECUTION_FAILED → approved but the job could not be enqueued
+ */
+
+import { Request, Response } from 'express';
+import { createProposal, identifyApprover } from './approval.manager.js';
+import * as alerting from '../monitoring/alerting.js';
+import logger from '../utils/logger.js';
+
+export { requiresApproval } from './approval.manager.js';
+
+export const APPROVER_KEY_HEADER = 'X-Approver-Key';
+
+/**
+ * 403 for an X-Approver-Key that matches no approver (critical alert)
+ */
+export function rejectApproverKey(req: Request, res: Response): void {
+  logger.error('[Approvals] 🚫 Invalid approver key', {
+    ip: req.ip,
+    endpoint: req.path
+  });
+
+  void alerting.sendCritical('INVALID_APPROVER_KEY', {
+    ip: req.ip,
+    method: req.method,
+    endpoint: req.originalUrl
+  }, `INVALID_APPROVER_KEY:${req.ip}`);
+
+  res.status(403).json({
+    success: false,
+    error: 'INVALID_APPROVER_KEY',
+    message: `${APPROVER_KEY_HEADER} does not match any approver`
+  });
+}
+
+/**
+ * Create the proposal for a gated action and send it
+ */
+export async function respondWithProposal(req: Request, res: Response, type: string, jobData: any): Promise<void> {
+  const key = req.get(APPROVER_KEY_HEADER);
+  const approver = identifyApprover(key);
+
+  if (key !== undefined && !approver) {
+    rejectApproverKey(req, res);
+    return;
+  }
+
+  const proposal = await createProposal(type, jobData, {
+    approver,
+    client: req.apiClient?.name,
+    ip: req.ip || 'unknown'
+  });
+
+  if (proposal.status === 'executed') {
+    res.json({
+      success: true,
+      jobId: proposal.jobId,
+      proposalId: proposal.id,
+      message: 'Approved by the proposer - transaction queued'
+    });
+    return;
+  }
+
+  if (proposal.status === 'failed') {
+    res.status(500).json({
+      success: false,
+      error: 'APPROVAL_EXECUTION_FAILED',
+      proposalId: proposal.id,
+      message: proposal.error
+    });
+    return;
+  }
+
+  res.status(202).json({
+    success: true,
+    approvalRequired: true,
+    proposalId: proposal.id,
+    threshold: proposal.threshold,
+    approvals: proposal.approvals,
+    expiresAt: proposal.expiresAt,
+    message: `Pending approval (${proposal.approvals.length}/${proposal.threshold}) - approve with POST /approvals/${proposal.id}/approve`
+  });
+}
@@ -0,0 +1,337 @@
+/**
+ * Approval Manager - M-of-N approvals for sensitive actions
+ *
+ * FLOW:
+ * 1. A gated route (see config/approvals.ts) stores a proposal holding the
+ *    job it would have enqueued; a valid X-Approver-Key on that request counts
+ *    as the first approval
+ * 2. Approvers approve or reject it with their own key
+ * 3. Threshold reached → the job is enqueued (status executed, jobId kept)
+ * - One rejection closes the proposal
+ * - Pending proposals expire after APPROVAL_TTL_MS
+ *
+ * STORAGE (Redis, kept 30 days after creation):
+ * - relayer:approvals:proposal:<id> → proposal with its audit trail (history)
+ * - relayer:approvals:index         → ZSET of ids by creation time
+ * - Every change runs under relayer:approvals:lock:<id>, so concurrent
+ *   approvals never enqueue the job twice
+ */
+
+import crypto from 'crypto';
+import { APPROVAL_CONFIG } from '../config/app.config.js';
+import { enqueueTransaction } from '../queues/tx.queue.js';
+import { redis, redisKey } from '../utils/redis.js';
+import * as alerting from '../monitoring/alerting.js';
+import logger from '../utils/logger.js';
+
+export type ProposalStatus = 'pending' | 'executed' | 'rejected' | 'expired' | 'failed';
+
+export type ProposalEvent = 'proposed' | 'approved' | 'rejected' | 'executed' | 'failed' | 'expired';
+
+export interface ProposalAuditEntry {
+  event: ProposalEvent;
+  at: string;
+  by: string;                           // Approver name, client:<name> (API client) or system
+  ip?: string;
+  comment?: string;
+  jobId?: string;
+  error?: string;
+}
+
+export interface ActionProposal {
+  id: string;
+  type: string;                         // Job type enqueued once approved
+  data: any;                            // Job data
+  threshold: number;
+  status: ProposalStatus;
+  proposedBy: string;
+  proposedAt: string;
+  expiresAt: string;
+  approvals: string[];                  // Approver names
+  rejectedBy?: string;
+  jobId?: string;
+  error?: string;
+  history: ProposalAuditEntry[];
+}
+
+/**
+ * Rejected approval request (code + HTTP status for the controller)
+ */
+export class ApprovalError extends Error {
+  constructor(readonly code: string, message: string, readonly status: number) {
+    super(message);
+    this.name = 'ApprovalError';
+  }
+}
+
+const INDEX_KEY = redisKey('approvals', 'index');
+const RETENTION_MS = 30 * 24 * 3600 * 1000;
+const LOCK_TTL_MS = 10000;
+
+const approverDigests = APPROVAL_CONFIG.approvers.map(approver => ({
+  name: approver.name,
+  digest: crypto.createHash('sha256').update(approver.key).digest()
+}));
+
+function proposalKey(id: string): string {
+  return redisKey('approvals', 'proposal', id);
+}
+
+/**
+ * Approver name for an X-Approver-Key value (undefined when no approver matches)
+ * - Constant time: every approver digest is compared
+ */
+export function identifyApprover(key: string | undefined): string | undefined {
+  if (typeof key !== 'string' || key.length === 0) {
+    return undefined;
+  }
+
+  const digest = crypto.createHash('sha256').update(key).digest();
+  let match: string | undefined;
+
+  for (const approver of approverDigests) {
+    if (crypto.timingSafeEqual(digest, approver.digest)) {
+      match = approver.name;
+    }
+  }
+
+  return match;
+}
+
+/**
+ * True when the job type must go through a proposal
+ */
+export function requiresApproval(type: string): boolean {
+  return APPROVAL_CONFIG.enabled && APPROVAL_CONFIG.thresholds[type] !== undefined;
+}
+
+async function saveProposal(proposal: ActionProposal): Promise<void> {
+  const ttlMs = Date.parse(proposal.proposedAt) + RETENTION_MS - Date.now();
+  await redis.set(proposalKey(proposal.id), JSON.stringify(proposal), 'PX', Math.max(ttlMs, 1000));
+}
+
+async function loadProposal(id: string): Promise<ActionProposal | undefined> {
+  const raw = await redis.get(proposalKey(id));
+  return raw ? JSON.parse(raw) as ActionProposal : undefined;
+}
+
+/**
+ * Pending proposal past its expiry → expired (returns true when it changed)
+ */
+function expireIfDue(proposal: ActionProposal): boolean {
+  if (proposal.status !== 'pending' || Date.parse(proposal.expiresAt) > Date.now()) {
+    return false;
+  }
+
+  proposal.status = 'expired';
+  proposal.history.push({ event: 'expired', at: proposal.expiresAt, by: 'system' });
+  return true;
+}
+
+/**
+ * Enqueue the proposal's job (threshold reached)
+ */
+async function execute(proposal: ActionProposal): Promise<void> {
+  try {
+    const job = await enqueueTransaction(proposal.type, proposal.data);
+
+    proposal.status = 'executed';
+    proposal.jobId = job.id.toString();
+    proposal.history.push({ event: 'executed', at: new Date().toISOString(), by: 'system', jobId: proposal.jobId });
+
+    logger.warn('[Approvals] ✅ Proposal approved - job enqueued', {
+      proposalId: proposal.id,
+      type: proposal.type,
+      approvals: proposal.approvals,
+      jobId: proposal.jobId
+    });
+    void alerting.sendWarning('APPROVAL_EXECUTED', {
+      proposalId: proposal.id,
+      type: proposal.type,
+      approvals: proposal.approvals,
+      jobId: proposal.jobId
+    }, `APPROVAL_EXECUTED:${proposal.id}`);
+
+  } catch (error: any) {
+    proposal.status = 'failed';
+    proposal.error = error.message;
+    proposal.history.push({ event: 'failed', at: new Date().toISOString(), by: 'system', error: error.message });
+
+    logger.error('[Approvals] ❌ Failed to enqueue approved proposal', {
+      proposalId: proposal.id,
+      type: proposal.type,
+      error: error.message
+    });
+  }
+}
+
+/**
+ * Run a change on one proposal under its lock and save it
+ */
+async function updateProposal(
+  id: string,
+  change: (proposal: ActionProposal) => Promise<void> | void
+): Promise<ActionProposal> {
+  const lockKey = redisKey('approvals', 'lock', id);
+  const token = crypto.randomUUID();
+
+  if (!(await redis.set(lockKey, token, 'PX', LOCK_TTL_MS, 'NX'))) {
+    throw new ApprovalError('PROPOSAL_BUSY', 'Proposal is being updated, retry shortly', 409);
+  }
+
+  try {
+    const proposal = await loadProposal(id);
+    if (!proposal) {
+      throw new ApprovalError('PROPOSAL_NOT_FOUND', `Proposal ${id} not found`, 404);
+    }
+
+    if (expireIfDue(proposal)) {
+      await saveProposal(proposal);
+    }
+
+    if (proposal.status !== 'pending') {
+      throw new ApprovalError('PROPOSAL_CLOSED', `Proposal is ${proposal.status}`, 409);
+    }
+
+    await change(proposal);
+    await saveProposal(proposal);
+
+    return proposal;
+  } finally {
+    if ((await redis.get(lockKey)) === token) {
+      await redis.del(lockKey);
+    }
+  }
+}
+
+/**
+ * Store a proposal for a gated action (executes at once if the proposer's
+ * approval already meets the threshold)
+ */
+export async function createProposal(
+  type: string,
+  data: any,
+  proposer: { approver?: string; client?: string; ip: string }
+): Promise<ActionProposal> {
+  const now = Date.now();
+  const by = proposer.approver ?? `client:${proposer.client ?? 'unknown'}`;
+
+  const proposal: ActionProposal = {
+    id: crypto.randomUUID(),
+    type,
+    data,
+    threshold: APPROVAL_CONFIG.thresholds[type],
+    status: 'pending',
+    proposedBy: by,
+    proposedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + APPROVAL_CONFIG.ttlMs).toISOString(),
+    approvals: proposer.approver ? [proposer.approver] : [],
+    history: [{ event: 'proposed', at: new Date(now).toISOString(), by, ip: proposer.ip }]
+  };
+
+  if (proposer.approver) {
+    proposal.history.push({ event: 'approved', at: proposal.proposedAt, by: proposer.approver, ip: proposer.ip });
+  }
+
+  if (proposal.approvals.length >= proposal.threshold) {
+    await execute(proposal);
+  }
+
+  await saveProposal(proposal);
+  await redis.multi()
+    .zadd(INDEX_KEY, now, proposal.id)
+    .zremrangebyscore(INDEX_KEY, '-inf', now - RETENTION_MS)
+    .exec();
+
+  logger.warn('[Approvals] 📝 Approval requested', {
+    proposalId: proposal.id,
+    type,
+    proposedBy: by,
+    threshold: proposal.threshold,
+    approvals: proposal.approvals.length
+  });
+
+  if (proposal.status === 'pending') {
+    void alerting.sendWarning('APPROVAL_REQUESTED', {
+      proposalId: proposal.id,
+      type,
+      proposedBy: by,
+      threshold: proposal.threshold,
+      expiresAt: proposal.expiresAt
+    }, `APPROVAL_REQUESTED:${proposal.id}`);
+  }
+
+  return proposal;
+}
+
+/**
+ * Record an approval (enqueues the job when the threshold is reached)
+ */
+export async function approveProposal(id: string, approver: string, ip: string, comment?: string): Promise<ActionProposal> {
+  return updateProposal(id, async proposal => {
+    if (proposal.approvals.includes(approver)) {
+      throw new ApprovalError('ALREADY_APPROVED', `${approver} already approved this proposal`, 409);
+    }
+
+    proposal.approvals.push(approver);
+    proposal.history.push({ event: 'approved', at: new Date().toISOString(), by: approver, ip, comment });
+
+    logger.info('[Approvals] 👍 Proposal approved', {
+      proposalId: id,
+      approver,
+      approvals: `${proposal.approvals.length}/${proposal.threshold}`
+    });
+
+    if (proposal.approvals.length >= proposal.threshold) {
+      await execute(proposal);
+    }
+  });
+}
+
+/**
+ * Reject (closes the proposal)
+ */
+export async function rejectProposal(id: string, approver: string, ip: string, comment?: string): Promise<ActionProposal> {
+  const proposal = await updateProposal(id, proposal => {
+    proposal.status = 'rejected';
+    proposal.rejectedBy = approver;
+    proposal.history.push({ event: 'rejected', at: new Date().toISOString(), by: approver, ip, comment });
+  });
+
+  logger.warn('[Approvals] 👎 Proposal rejected', { proposalId: id, approver, comment });
+  void alerting.sendWarning('APPROVAL_REJECTED', {
+    proposalId: id,
+    type: proposal.type,
+    rejectedBy: approver,
+    comment
+  }, `APPROVAL_REJECTED:${id}`);
+
+  return proposal;
+}
+
+/**
+ * One proposal (expired ones are reported as expired)
+ */
+export async function getProposal(id: string): Promise<ActionProposal | undefined> {
+  const proposal = await loadProposal(id);
+  if (proposal) expireIfDue(proposal);
+  return proposal;
+}
+
+/**
+ * Newest proposals first (optionally one status)
+ */
+export async function listProposals(options: { status?: ProposalStatus; limit: number }): Promise<ActionProposal[]> {
+  const ids = await redis.zrevrange(INDEX_KEY, 0, -1);
+  const proposals: ActionProposal[] = [];
+
+  for (const id of ids) {
+    const proposal = await getProposal(id);
+    if (!proposal || (options.status && proposal.status !== options.status)) continue;
+
+    proposals.push(proposal);
+    if (proposals.length === options.limit) break;
+  }
+
+  return proposals;
+}
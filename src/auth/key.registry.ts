@@ -0,0 +1,225 @@
+/**
+ * API Key Registry - Named clients with scoped, hashed keys
+ *
+ * STORAGE (Redis):
+ * - relayer:api-clients         → hash of client name → ApiClientRecord
+ * - relayer:api-clients:by-hash → hash of sha256(key) → client name
+ * - Keys are never stored: only their sha256 and a short prefix for logs
+ *
+ * KEYS:
+ * - rly_<43 base64url chars> (256 random bits), shown once on create/rotate
+ * - Rotation keeps the previous key valid for a grace period (0 = revoked at once)
+ * - Optional expiry and per-client rate limit (RATE_LIMIT_PER_MINUTE otherwise)
+ *
+ * Managed with `pnpm apikey:create|rotate|revoke|list` (scripts/api-keys.ts).
+ * RELAYER_API_KEY still works as the client "legacy" with every scope
+ * unless LEGACY_API_KEY_ENABLED=false.
+ */
+
+import crypto from 'crypto';
+import { redis, redisKey } from '../utils/redis.js';
+
+export const API_SCOPES = ['read', 'raffle:write', 'compliance:write', 'system:admin'] as const;
+
+export type ApiScope = typeof API_SCOPES[number];
+
+export const CLIENT_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,31}$/;
+
+export const LEGACY_CLIENT_NAME = 'legacy';
+
+export interface ApiClientRecord {
+  name: string;
+  scopes: ApiScope[];
+  keyHash: string;                      // sha256 hex of the current key
+  keyPrefix: string;                    // First characters, to recognise a key
+  rateLimitPerMinute?: number;
+  expiresAt?: string;
+  createdAt: string;
+  rotatedAt?: string;
+  previousKeyHash?: string;             // Still accepted until previousKeyExpiresAt
+  previousKeyExpiresAt?: string;
+  revokedAt?: string;
+}
+
+/**
+ * Identity attached to an authenticated request (req.apiClient)
+ */
+export interface AuthenticatedClient {
+  name: string;
+  scopes: readonly ApiScope[];
+  rateLimitPerMinute?: number;
+}
+
+export type KeyCheck =
+  | { ok: true; client: AuthenticatedClient }
+  | { ok: false; reason: 'unknown' | 'revoked' | 'expired'; name?: string };
+
+const CLIENTS_KEY = redisKey('api-clients');
+const BY_HASH_KEY = redisKey('api-clients', 'by-hash');
+const KEY_PREFIX_LENGTH = 12;
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Constant-time comparison of two sha256 hex digests
+ */
+export function sameHash(a: string, b: string): boolean {
+  const left = Buffer.from(a, 'hex');
+  const right = Buffer.from(b, 'hex');
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+function generateKey(): string {
+  return `rly_${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+async function loadClient(name: string): Promise<ApiClientRecord | undefined> {
+  const raw = await redis.hget(CLIENTS_KEY, name);
+  return raw ? JSON.parse(raw) as ApiClientRecord : undefined;
+}
+
+export function parseScopes(value: string): ApiScope[] {
+  const scopes = value.split(',').map(scope => scope.trim()).filter(scope => scope.length > 0);
+  const unknown = scopes.filter(scope => !(API_SCOPES as readonly string[]).includes(scope));
+
+  if (scopes.length === 0 || unknown.length > 0) {
+    throw new Error(`Scopes must be a comma-separated list of ${API_SCOPES.join(', ')}${unknown.length > 0 ? ` (unknown: ${unknown.join(', ')})` : ''}`);
+  }
+
+  return [...new Set(scopes)] as ApiScope[];
+}
+
+/**
+ * Resolve a presented key (lookup by sha256, then a constant-time check)
+ */
+export async function checkApiKey(key: string): Promise<KeyCheck> {
+  const hash = hashApiKey(key);
+  const name = await redis.hget(BY_HASH_KEY, hash);
+  const client = name ? await loadClient(name) : undefined;
+
+  if (!client) {
+    return { ok: false, reason: 'unknown' };
+  }
+
+  const now = Date.now();
+  const current = sameHash(hash, client.keyHash);
+  const previous = client.previousKeyHash !== undefined
+    && sameHash(hash, client.previousKeyHash)
+    && Date.parse(client.previousKeyExpiresAt!) > now;
+
+  if (!current && !previous) {
+    return { ok: false, reason: 'unknown' };
+  }
+
+  if (client.revokedAt) {
+    return { ok: false, reason: 'revoked', name: client.name };
+  }
+
+  if (client.expiresAt && Date.parse(client.expiresAt) <= now) {
+    return { ok: false, reason: 'expired', name: client.name };
+  }
+
+  return {
+    ok: true,
+    client: {
+      name: client.name,
+      scopes: client.scopes,
+      rateLimitPerMinute: client.rateLimitPerMinute
+    }
+  };
+}
+
+/**
+ * Register a client and return its key (shown once)
+ */
+export async function createClient(options: {
+  name: string;
+  scopes: ApiScope[];
+  rateLimitPerMinute?: number;
+  expiresAt?: string;
+}): Promise<{ client: ApiClientRecord; key: string }> {
+  if (!CLIENT_NAME_PATTERN.test(options.name) || options.name === LEGACY_CLIENT_NAME) {
+    throw new Error(`Client name must be 1-32 lowercase letters, digits, . _ or - (and not "${LEGACY_CLIENT_NAME}")`);
+  }
+
+  const key = generateKey();
+  const client: ApiClientRecord = {
+    name: options.name,
+    scopes: options.scopes,
+    keyHash: hashApiKey(key),
+    keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+    rateLimitPerMinute: options.rateLimitPerMinute,
+    expiresAt: options.expiresAt,
+    createdAt: new Date().toISOString()
+  };
+
+  if (!(await redis.hsetnx(CLIENTS_KEY, client.name, JSON.stringify(client)))) {
+    throw new Error(`Client "${client.name}" already exists (rotate or revoke it instead)`);
+  }
+  await redis.hset(BY_HASH_KEY, client.keyHash, client.name);
+
+  return { client, key };
+}
+
+/**
+ * Issue a new key; the old one stays valid for graceMs (0 = invalid at once)
+ */
+export async function rotateClient(name: string, graceMs: number): Promise<{ client: ApiClientRecord; key: string }> {
+  const existing = await loadClient(name);
+  if (!existing || existing.revokedAt) {
+    throw new Error(`Client "${name}" not found or revoked`);
+  }
+
+  const key = generateKey();
+  const now = Date.now();
+  const client: ApiClientRecord = {
+    ...existing,
+    keyHash: hashApiKey(key),
+    keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+    rotatedAt: new Date(now).toISOString(),
+    previousKeyHash: graceMs > 0 ? existing.keyHash : undefined,
+    previousKeyExpiresAt: graceMs > 0 ? new Date(now + graceMs).toISOString() : undefined
+  };
+
+  const multi = redis.multi()
+    .hset(CLIENTS_KEY, name, JSON.stringify(client))
+    .hset(BY_HASH_KEY, client.keyHash, name);
+
+  // Keys from before the last rotation never come back
+  if (existing.previousKeyHash) multi.hdel(BY_HASH_KEY, existing.previousKeyHash);
+  if (graceMs === 0) multi.hdel(BY_HASH_KEY, existing.keyHash);
+
+  await multi.exec();
+
+  return { client, key };
+}
+
+/**
+ * Revoke every key of a client (the record is kept for the audit trail)
+ */
+export async function revokeClient(name: string): Promise<ApiClientRecord> {
+  const existing = await loadClient(name);
+  if (!existing) {
+    throw new Error(`Client "${name}" not found`);
+  }
+
+  const client: ApiClientRecord = { ...existing, revokedAt: existing.revokedAt ?? new Date().toISOString() };
+  const multi = redis.multi()
+    .hset(CLIENTS_KEY, name, JSON.stringify(client))
+    .hdel(BY_HASH_KEY, existing.keyHash);
+
+  if (existing.previousKeyHash) multi.hdel(BY_HASH_KEY, existing.previousKeyHash);
+
+  await multi.exec();
+
+  return client;
+}
+
+export async function listClients(): Promise<ApiClientRecord[]> {
+  const all = await redis.hgetall(CLIENTS_KEY);
+  return Object.values(all)
+    .map(raw => JSON.parse(raw) as ApiClientRecord)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
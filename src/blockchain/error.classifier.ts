@@ -0,0 +1,256 @@
+/**
+ * Error Classifier - Decode reverts and decide whether a failure is retryable
+ *
+ * PROBLEM:
+ * - Every failure went to the retry queue, so deterministic reverts
+ *   (already executed, already blocked, paused) were sent 3 more times
+ *
+ * CLASSES:
+ * - permanent-revert   → contract rejected the call (never retried)
+ * - insufficient-funds → signer cannot pay gas (never retried, needs funding)
+ * - gas-cap            → gas limit or fee above the job type's cap (never retried)
+ * - transient-network  → RPC unreachable / rate limited (retried)
+ * - nonce-conflict     → nonce taken or replacement rejected (retried)
+ * - timeout            → no receipt in time / stuck tx cancelled (retried)
+ * - unknown            → anything else (retried, previous behavior)
+ *
+ * REVERT DECODING:
+ * - Revert data is decoded with the RifasPlatform ABI (custom errors) and
+ *   the builtin Error(string) / Panic(uint256)
+ * - Mined reverts carry no data: the tx is replayed with eth_call at its
+ *   block to recover the reason (best effort)
+ *
+ * Classified errors are rethrown as "<class>: <reason>" so the class
+ * survives in Bull's failedReason (see parseClassifiedMessage)
+ */
+
+import { ethers } from 'ethers';
+import { contract, signer } from '../index.js';
+import logger from '../utils/logger.js';
+
+export type ErrorClass =
+  | 'permanent-revert'
+  | 'insufficient-funds'
+  | 'gas-cap'
+  | 'transient-network'
+  | 'nonce-conflict'
+  | 'timeout'
+  | 'unknown';
+
+export const ERROR_CLASSES: ErrorClass[] = [
+  'permanent-revert',
+  'insufficient-funds',
+  'gas-cap',
+  'transient-network',
+  'nonce-conflict',
+  'timeout',
+  'unknown'
+];
+
+const RETRYABLE_CLASSES: ReadonlySet<ErrorClass> = new Set<ErrorClass>([
+  'transient-network',
+  'nonce-conflict',
+  'timeout',
+  'unknown'
+]);
+
+export interface DecodedRevert {
+  name: string;            // Custom error name, 'Error' or 'Panic'
+  signature: string;
+  args: string[];
+  reason: string;          // Human-readable (revert string, panic reason or Name(args))
+}
+
+export interface ClassifiedError {
+  errorClass: ErrorClass;
+  retryable: boolean;
+  reason: string;
+  code?: string;
+  revert?: DecodedRevert;
+}
+
+const NONCE_CONFLICT_CODES = new Set(['NONCE_EXPIRED', 'REPLACEMENT_UNDERPRICED', 'TRANSACTION_REPLACED', 'NONCE_CONSUMED']);
+const TIMEOUT_CODES = new Set(['TIMEOUT', 'TX_CANCELLED']);
+const NETWORK_CODES = new Set(['NETWORK_ERROR', 'SERVER_ERROR', 'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN']);
+
+const MESSAGE_PATTERN = new RegExp(`^(${ERROR_CLASSES.join('|')}): (.*)$`, 's');
+
+/**
+ * Decode raw revert data (custom error, Error(string) or Panic(uint256))
+ */
+export function decodeRevertData(data: string | null | undefined): DecodedRevert | undefined {
+  if (!data || data === '0x' || !ethers.isHexString(data)) {
+    return undefined;
+  }
+
+  try {
+    const parsed = contract.interface.parseError(data);
+    if (!parsed) return undefined;
+
+    const args = parsed.args.map((arg: any) => arg.toString());
+    let reason = `${parsed.name}(${args.join(', ')})`;
+
+    if (parsed.name === 'Error') {
+      reason = args[0];
+    } else if (parsed.name === 'Panic') {
+      reason = `Panic(${args[0]})`;
+    }
+
+    return { name: parsed.name, signature: parsed.signature, args, reason };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Revert data can sit at different depths depending on the provider path
+ */
+function findRevertData(error: any): string | undefined {
+  const candidates = [
+    error?.data,
+    error?.info?.error?.data,
+    error?.error?.data,
+    error?.error?.error?.data
+  ];
+
+  return candidates.find(data => typeof data === 'string' && data.startsWith('0x'));
+}
+
+/**
+ * Replay a mined-and-reverted tx at its block to recover the revert data
+ */
+async function replayRevert(receipt: ethers.TransactionReceipt): Promise<DecodedRevert | undefined> {
+  try {
+    const provider = signer.provider!;
+    const tx = await provider.getTransaction(receipt.hash);
+    if (!tx) return undefined;
+
+    await provider.call({
+      to: tx.to,
+      from: tx.from,
+      data: tx.data,
+      value: tx.value,
+      gasLimit: tx.gasLimit,
+      blockTag: receipt.blockNumber
+    });
+
+    // Call succeeded on replay (state-dependent revert) - nothing to decode
+    return undefined;
+  } catch (error: any) {
+    return decodeRevertData(findRevertData(error)) ?? (error.reason ? {
+      name: 'Error',
+      signature: 'Error(string)',
+      args: [error.reason],
+      reason: error.reason
+    } : undefined);
+  }
+}
+
+function classifyByCode(error: any): ErrorClass {
+  const code: string | undefined = error?.code;
+  const message = `${error?.shortMessage ?? ''} ${error?.message ?? ''}`.toLowerCase();
+
+  if (code === 'INSUFFICIENT_FUNDS' || message.includes('insufficient funds')) {
+    return 'insufficient-funds';
+  }
+
+  if (code === 'GAS_LIMIT_ABOVE_CAP' || code === 'GAS_FEE_ABOVE_CAP') {
+    return 'gas-cap';
+  }
+
+  if (
+    (code && NONCE_CONFLICT_CODES.has(code)) ||
+    message.includes('nonce too low') ||
+    message.includes('nonce has already been used') ||
+    message.includes('already known') ||
+    message.includes('replacement transaction underpriced')
+  ) {
+    return 'nonce-conflict';
+  }
+
+  if (code === 'CALL_EXCEPTION' || message.includes('execution reverted')) {
+    return 'permanent-revert';
+  }
+
+  if ((code && TIMEOUT_CODES.has(code)) || message.includes('timed out') || message.includes('timeout')) {
+    return 'timeout';
+  }
+
+  if (
+    (code && NETWORK_CODES.has(code)) ||
+    message.includes('missing response') ||
+    message.includes('too many requests') ||
+    message.includes('rate limit') ||
+    message.includes('socket hang up')
+  ) {
+    return 'transient-network';
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Classify a failure and decode its revert reason when there is one
+ */
+export async function classifyError(error: any): Promise<ClassifiedError> {
+  // Already classified by an earlier layer
+  if (error?.errorClass) {
+    return {
+      errorClass: error.errorClass,
+      retryable: error.retryable,
+      reason: error.reason,
+      code: error.code,
+      revert: error.revert
+    };
+  }
+
+  const errorClass = classifyByCode(error);
+  let revert: DecodedRevert | undefined;
+
+  if (errorClass === 'permanent-revert') {
+    revert = decodeRevertData(findRevertData(error));
+
+    if (!revert && error?.receipt) {
+      revert = await replayRevert(error.receipt);
+    }
+
+    if (!revert && error?.reason) {
+      revert = { name: 'Error', signature: 'Error(string)', args: [error.reason], reason: error.reason };
+    }
+  }
+
+  const classified: ClassifiedError = {
+    errorClass,
+    retryable: RETRYABLE_CLASSES.has(errorClass),
+    reason: revert?.reason ?? error?.shortMessage ?? error?.message ?? String(error),
+    code: error?.code,
+    revert
+  };
+
+  logger.debug('[ErrorClassifier] Failure classified', {
+    errorClass: classified.errorClass,
+    retryable: classified.retryable,
+    reason: classified.reason,
+    code: classified.code
+  });
+
+  return classified;
+}
+
+/**
+ * Build the error rethrown to Bull ("<class>: <reason>", original receipt kept)
+ */
+export function toClassifiedError(original: any, classified: ClassifiedError): Error {
+  return Object.assign(new Error(`${classified.errorClass}: ${classified.reason}`), {
+    ...classified,
+    receipt: original?.receipt
+  });
+}
+
+/**
+ * Recover class and reason from a stored failure message
+ */
+export function parseClassifiedMessage(message: string | undefined): { errorClass: ErrorClass; reason: string } | undefined {
+  const match = message ? MESSAGE_PATTERN.exec(message) : null;
+  return match ? { errorClass: match[1] as ErrorClass, reason: match[2] } : undefined;
+}
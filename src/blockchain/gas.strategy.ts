@@ -0,0 +1,204 @@
+/**
+ * Gas Strategy - Fee parameters, per-job caps and deferral of non-urgent jobs
+ *
+ * PRICING MODE (GAS_PRICING_MODE):
+ * - eip1559 → maxFeePerGas / maxPriorityFeePerGas (type 2)
+ * - legacy  → gasPrice (type 0) - BSC validators price by gasPrice, base fee is 0
+ * - auto    → eip1559 if the latest block has a non-zero baseFeePerGas (detected once)
+ *
+ * CAPS (per job type, GAS_CAPS overrides the GAS_MAX_* defaults):
+ * - Gas limit above cap → job fails (class gas-cap, not retried)
+ * - Current fee above cap → job fails before signing (class gas-cap)
+ * - EIP-1559 maxFeePerGas is clamped to the cap
+ * - Emergency routes only obey caps set explicitly in GAS_CAPS
+ *
+ * DEFERRAL:
+ * - GAS_DEFER_JOB_TYPES (default archive-raffles, withdraw-fees) picked up
+ *   while the fee is above GAS_DEFER_THRESHOLD_GWEI wait GAS_DEFER_DELAY_MS
+ */
+
+import { ethers } from 'ethers';
+import { signer } from '../index.js';
+import { GAS_CONFIG, NETWORK_CONFIG } from '../config/app.config.js';
+import logger from '../utils/logger.js';
+
+export type FeeMode = 'eip1559' | 'legacy';
+
+export interface FeeParams {
+  mode: FeeMode;
+  type: number;
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  currentFee: bigint;          // What a tx pays now (gasPrice or baseFee + tip)
+}
+
+export interface GasCaps {
+  gasLimit: bigint;
+  maxFee?: bigint;             // undefined → no fee cap
+}
+
+export interface DeferDecision {
+  defer: boolean;
+  currentFeeGwei: string;
+  thresholdGwei: string;
+  delayMs: number;
+}
+
+// Direct-send routes that must not be blocked by the default fee cap
+const CAP_EXEMPT_TYPES = new Set(['emergency-pause', 'emergency-unpause']);
+
+let detectedMode: FeeMode | undefined;
+
+/**
+ * Error raised when a job would exceed its caps (classified as gas-cap)
+ */
+export class GasCapError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'GAS_LIMIT_ABOVE_CAP' | 'GAS_FEE_ABOVE_CAP'
+  ) {
+    super(message);
+    this.name = 'GasCapError';
+  }
+}
+
+/**
+ * Caps for a job type (GAS_CAPS entry, else global defaults)
+ */
+export function getGasCaps(jobType: string): GasCaps {
+  const override = GAS_CONFIG.caps[jobType] || {};
+  const exempt = CAP_EXEMPT_TYPES.has(jobType);
+
+  const maxFeeGwei = override.maxFeeGwei ?? (exempt ? undefined : GAS_CONFIG.maxFeeGwei);
+
+  return {
+    gasLimit: BigInt(override.gasLimit ?? GAS_CONFIG.maxGasLimit),
+    maxFee: maxFeeGwei !== undefined ? ethers.parseUnits(maxFeeGwei.toString(), 'gwei') : undefined
+  };
+}
+
+/**
+ * Pricing mode in use (configured or detected from the latest block)
+ */
+export async function getFeeMode(): Promise<FeeMode> {
+  if (GAS_CONFIG.pricingMode !== 'auto') {
+    return GAS_CONFIG.pricingMode;
+  }
+
+  if (!detectedMode) {
+    const block = await signer.provider!.getBlock('latest');
+    detectedMode = block?.baseFeePerGas && block.baseFeePerGas > 0n ? 'eip1559' : 'legacy';
+
+    logger.info('[GasStrategy] Fee mode detected', {
+      mode: detectedMode,
+      baseFeePerGas: block?.baseFeePerGas?.toString()
+    });
+  }
+
+  return detectedMode;
+}
+
+/**
+ * Current network fee (without caps)
+ */
+async function readNetworkFee(mode: FeeMode): Promise<FeeParams> {
+  const provider = signer.provider!;
+
+  if (mode === 'legacy') {
+    const feeData = await provider.getFeeData();
+    const gasPrice = feeData.gasPrice ?? 0n;
+    return { mode, type: 0, gasPrice, currentFee: gasPrice };
+  }
+
+  const [block, feeData] = await Promise.all([
+    provider.getBlock('latest'),
+    provider.getFeeData()
+  ]);
+
+  const baseFee = block?.baseFeePerGas ?? 0n;
+  const priorityFee = GAS_CONFIG.priorityFeeGwei !== undefined
+    ? ethers.parseUnits(GAS_CONFIG.priorityFeeGwei, 'gwei')
+    : feeData.maxPriorityFeePerGas ?? 0n;
+
+  return {
+    mode,
+    type: 2,
+    // Headroom for two full blocks of base fee increases
+    maxFeePerGas: baseFee * 2n + priorityFee,
+    maxPriorityFeePerGas: priorityFee,
+    currentFee: baseFee + priorityFee
+  };
+}
+
+/**
+ * Fee parameters for a job, enforcing its fee cap
+ */
+export async function getFeeParams(jobType: string): Promise<FeeParams> {
+  const mode = await getFeeMode();
+  const fees = await readNetworkFee(mode);
+  const caps = getGasCaps(jobType);
+
+  if (caps.maxFee !== undefined && fees.currentFee > caps.maxFee) {
+    throw new GasCapError(
+      `Network fee ${ethers.formatUnits(fees.currentFee, 'gwei')} gwei is above the ${jobType} cap of ${ethers.formatUnits(caps.maxFee, 'gwei')} gwei`,
+      'GAS_FEE_ABOVE_CAP'
+    );
+  }
+
+  if (caps.maxFee !== undefined && fees.maxFeePerGas !== undefined && fees.maxFeePerGas > caps.maxFee) {
+    fees.maxFeePerGas = caps.maxFee;
+  }
+
+  return fees;
+}
+
+/**
+ * Reject gas limits above the job type's cap
+ */
+export function enforceGasLimitCap(jobType: string, gasLimit: bigint): void {
+  const caps = getGasCaps(jobType);
+
+  if (gasLimit > caps.gasLimit) {
+    throw new GasCapError(
+      `Gas limit ${gasLimit} is above the ${jobType} cap of ${caps.gasLimit}`,
+      'GAS_LIMIT_ABOVE_CAP'
+    );
+  }
+}
+
+/**
+ * Should a job wait for cheaper gas?
+ */
+export async function shouldDefer(jobType: string): Promise<DeferDecision> {
+  const decision: DeferDecision = {
+    defer: false,
+    currentFeeGwei: '0',
+    thresholdGwei: GAS_CONFIG.deferThresholdGwei,
+    delayMs: GAS_CONFIG.deferDelayMs
+  };
+
+  if (!GAS_CONFIG.deferJobTypes.includes(jobType)) {
+    return decision;
+  }
+
+  const { currentFee } = await readNetworkFee(await getFeeMode());
+
+  decision.currentFeeGwei = ethers.formatUnits(currentFee, 'gwei');
+  decision.defer = currentFee > ethers.parseUnits(GAS_CONFIG.deferThresholdGwei, 'gwei');
+
+  return decision;
+}
+
+/**
+ * Effective gas price and total cost of a mined transaction
+ */
+export function describeCost(receipt: ethers.TransactionReceipt) {
+  return {
+    effectiveGasPrice: receipt.gasPrice.toString(),
+    effectiveGasPriceGwei: ethers.formatUnits(receipt.gasPrice, 'gwei'),
+    totalCost: receipt.fee.toString(),
+    totalCostNative: ethers.formatEther(receipt.fee),
+    nativeSymbol: NETWORK_CONFIG.nativeSymbol
+  };
+}
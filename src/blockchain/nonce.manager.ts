@@ -0,0 +1,272 @@
+/**
+ * Nonce Manager - Redis-backed nonce allocation for a signing wallet
+ *
+ * WHY:
+ * - ethers' implicit getNonce('pending') is only correct with one tx in
+ *   flight, which forced concurrency=1 and a tx.wait() per job
+ * - Direct-send paths (emergency pause) used getNonce('latest') and could
+ *   collide with a worker tx still in the mempool
+ *
+ * MODEL (per wallet address):
+ * - relayer:nonce:<address>:next     → next nonce to hand out
+ * - relayer:nonce:<address>:inflight → hash nonce → { jobId, txHash?, allocatedAt, released? }
+ *
+ * LIFECYCLE:
+ * 1. allocate()      → atomic take of the next nonce (Lua)
+ * 2. markBroadcast() → tx accepted by the node
+ * 3. confirm()       → tx mined (success or revert both consume the nonce)
+ *    release()       → signing/broadcast failed before reaching the node
+ *
+ * STARTUP:
+ * - sync() resets 'next' to the chain's pending nonce and drops entries the
+ *   chain already consumed or never received
+ * - One relayer instance per wallet (sync would reset a sibling's allocations)
+ */
+
+import { ethers } from 'ethers';
+import { redis, redisKey } from '../utils/redis.js';
+import logger from '../utils/logger.js';
+
+export interface InflightNonce {
+  jobId: string;
+  txHash?: string;
+  allocatedAt: number;
+  released?: boolean;
+}
+
+export interface NonceGapReport {
+  address: string;
+  chainLatest: number;     // Nonces below this are mined
+  chainPending: number;    // Next nonce the node expects (contiguous mempool)
+  nextNonce: number;       // Next nonce the allocator will hand out
+  inflight: number;        // Allocated and not yet confirmed
+  gaps: number[];          // Nonces the node will wait for but nobody is sending
+}
+
+// Allocated-but-not-broadcast nonces younger than this are still being signed
+const GAP_GRACE_MS = 30_000;
+
+const ALLOCATE_SCRIPT = `
+local nonce = redis.call('GET', KEYS[1])
+if not nonce then return -1 end
+redis.call('SET', KEYS[1], tonumber(nonce) + 1)
+redis.call('HSET', KEYS[2], nonce, ARGV[1])
+return tonumber(nonce)
+`;
+
+// Roll 'next' back if the released nonce was the last one handed out,
+// otherwise keep it as a released entry (a gap to fill)
+const RELEASE_SCRIPT = `
+local nextNonce = tonumber(redis.call('GET', KEYS[1]))
+local nonce = tonumber(ARGV[1])
+if nextNonce == nonce + 1 then
+  redis.call('SET', KEYS[1], nonce)
+  redis.call('HDEL', KEYS[2], ARGV[1])
+  return 1
+end
+redis.call('HSET', KEYS[2], ARGV[1], ARGV[2])
+return 0
+`;
+
+export class NonceManager {
+  private readonly nextKey: string;
+  private readonly inflightKey: string;
+
+  constructor(
+    private readonly address: string,
+    private readonly provider: ethers.Provider
+  ) {
+    this.nextKey = redisKey('nonce', address.toLowerCase(), 'next');
+    this.inflightKey = redisKey('nonce', address.toLowerCase(), 'inflight');
+  }
+
+  /**
+   * Resync allocator with the chain (call on startup, before processing jobs)
+   */
+  async sync(): Promise<{ nextNonce: number; dropped: number[] }> {
+    const [chainLatest, chainPending, inflight] = await Promise.all([
+      this.provider.getTransactionCount(this.address, 'latest'),
+      this.provider.getTransactionCount(this.address, 'pending'),
+      this.getInflight()
+    ]);
+
+    const dropped: number[] = [];
+    const multi = redis.multi();
+
+    for (const nonce of inflight.keys()) {
+      if (nonce < chainLatest) {
+        // Mined while we were down
+        multi.hdel(this.inflightKey, nonce.toString());
+      } else if (nonce >= chainPending) {
+        // Never reached the node (or dropped) - the nonce will be reused
+        dropped.push(nonce);
+        multi.hdel(this.inflightKey, nonce.toString());
+      }
+    }
+
+    multi.set(this.nextKey, chainPending);
+    await multi.exec();
+
+    if (dropped.length > 0) {
+      logger.warn('[NonceManager] ⚠️  Dropped in-flight nonces unknown to the node', {
+        address: this.address,
+        dropped: dropped.map(nonce => ({ nonce, jobId: inflight.get(nonce)?.jobId }))
+      });
+    }
+
+    logger.info('[NonceManager] ✅ Nonce synced from chain', {
+      address: this.address,
+      chainLatest,
+      chainPending,
+      inflight: inflight.size - dropped.length
+    });
+
+    return { nextNonce: chainPending, dropped };
+  }
+
+  /**
+   * Take the next nonce for a job
+   */
+  async allocate(jobId: string): Promise<number> {
+    const entry: InflightNonce = { jobId, allocatedAt: Date.now() };
+    const nonce = await redis.eval(ALLOCATE_SCRIPT, 2, this.nextKey, this.inflightKey, JSON.stringify(entry)) as number;
+
+    if (nonce < 0) {
+      throw new Error(`Nonce manager not synced for ${this.address}`);
+    }
+
+    return nonce;
+  }
+
+  /**
+   * Record the hash of the tx broadcast with this nonce
+   */
+  async markBroadcast(nonce: number, jobId: string, txHash: string): Promise<void> {
+    const entry = await this.getEntry(nonce);
+
+    // A broadcast fills a released nonce - it is no longer a gap
+    const broadcast: InflightNonce = {
+      jobId,
+      txHash,
+      allocatedAt: entry?.allocatedAt ?? Date.now()
+    };
+
+    await redis.hset(this.inflightKey, nonce.toString(), JSON.stringify(broadcast));
+  }
+
+  /**
+   * Nonce consumed on-chain (mined, whatever the receipt status)
+   */
+  async confirm(nonce: number): Promise<void> {
+    await redis.hdel(this.inflightKey, nonce.toString());
+  }
+
+  /**
+   * Give back a nonce whose tx never reached the node
+   * Returns true if the allocator rolled back (no gap created)
+   */
+  async release(nonce: number, jobId: string): Promise<boolean> {
+    const entry: InflightNonce = { jobId, allocatedAt: Date.now(), released: true };
+    const rolledBack = await redis.eval(
+      RELEASE_SCRIPT, 2, this.nextKey, this.inflightKey, nonce.toString(), JSON.stringify(entry)
+    ) as number;
+
+    if (!rolledBack) {
+      logger.warn('[NonceManager] ⚠️  Released nonce left a gap', {
+        address: this.address,
+        nonce,
+        jobId
+      });
+    }
+
+    return rolledBack === 1;
+  }
+
+  /**
+   * Compare allocator state with the chain and list nonce gaps
+   */
+  async detectGaps(): Promise<NonceGapReport> {
+    const [chainLatest, chainPending, nextRaw, inflight] = await Promise.all([
+      this.provider.getTransactionCount(this.address, 'latest'),
+      this.provider.getTransactionCount(this.address, 'pending'),
+      redis.get(this.nextKey),
+      this.getInflight()
+    ]);
+
+    const nextNonce = nextRaw !== null ? parseInt(nextRaw, 10) : chainPending;
+    const now = Date.now();
+    const gaps: number[] = [];
+
+    // Prune entries the chain has consumed (gap fillers, crashed confirmations)
+    const mined = [...inflight.keys()].filter(nonce => nonce < chainLatest);
+    if (mined.length > 0) {
+      await redis.hdel(this.inflightKey, ...mined.map(nonce => nonce.toString()));
+    }
+
+    // The node holds everything below chainPending - only the range above can have holes
+    for (let nonce = chainPending; nonce < nextNonce; nonce++) {
+      const entry = inflight.get(nonce);
+
+      const isGap =
+        !entry ||
+        entry.released === true ||
+        (!entry.txHash && now - entry.allocatedAt > GAP_GRACE_MS);
+
+      if (isGap) {
+        gaps.push(nonce);
+      }
+    }
+
+    return {
+      address: this.address,
+      chainLatest,
+      chainPending,
+      nextNonce,
+      inflight: inflight.size - mined.length,
+      gaps
+    };
+  }
+
+  /**
+   * Fill each gap with a zero-value self-transfer so queued txs can be mined
+   */
+  async fillGaps(signer: ethers.Signer): Promise<string[]> {
+    const report = await this.detectGaps();
+    const hashes: string[] = [];
+
+    for (const nonce of report.gaps) {
+      const tx = await signer.sendTransaction({
+        to: this.address,
+        value: 0n,
+        nonce
+      });
+
+      await this.markBroadcast(nonce, 'nonce-gap-filler', tx.hash);
+      hashes.push(tx.hash);
+
+      logger.warn('[NonceManager] 🩹 Nonce gap filled with self-transfer', {
+        address: this.address,
+        nonce,
+        txHash: tx.hash
+      });
+    }
+
+    return hashes;
+  }
+
+  private async getEntry(nonce: number): Promise<InflightNonce | undefined> {
+    const raw = await redis.hget(this.inflightKey, nonce.toString());
+    return raw ? JSON.parse(raw) as InflightNonce : undefined;
+  }
+
+  private async getInflight(): Promise<Map<number, InflightNonce>> {
+    const raw = await redis.hgetall(this.inflightKey);
+    const entries = new Map<number, InflightNonce>();
+
+    for (const [nonce, value] of Object.entries(raw)) {
+      entries.set(parseInt(nonce, 10), JSON.parse(value) as InflightNonce);
+    }
+
+    return entries;
+  }
+}
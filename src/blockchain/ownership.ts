@@ -0,0 +1,272 @@
+/**
+ * Ownership - Two-step transferOwnership() and guarded renounceOwnership()
+ *
+ * TRANSFER:
+ * 1. Propose (API key + admin IP) → stored in relayer:ownership:proposal,
+ *    executable after OWNERSHIP_TRANSFER_DELAY_MS, expires
+ *    OWNERSHIP_CONFIRM_WINDOW_MS later
+ * 2. Confirm with the second credential (OWNERSHIP_CONFIRM_KEY) once the delay
+ *    passed, from another API client than the proposer → transferOwnership()
+ *    from the owner wallet, waits for confirmation
+ * - One proposal at a time; any admin can cancel it during the delay
+ * - A failed transfer consumes the proposal (propose again)
+ *
+ * RENOUNCE:
+ * - Refused unless OWNERSHIP_RENOUNCE_BREAK_GLASS=true (and the second credential)
+ *
+ * Every step is kept in relayer:ownership:log and raises an alert.
+ */
+
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { contract, signer } from '../index.js';
+import { CONTRACT_ADDRESS, OWNERSHIP_CONFIG } from '../config/app.config.js';
+import { submitContractTransaction, waitForConfirmation } from './tx.sender.js';
+import { redis, redisKey } from '../utils/redis.js';
+import * as alerting from '../monitoring/alerting.js';
+import logger from '../utils/logger.js';
+
+export interface OwnershipProposal {
+  id: string;
+  newOwner: string;
+  currentOwner: string;
+  reason?: string;
+  proposedBy: string;                   // Requester (client@ip)
+  proposerClient: string;               // API client - cannot confirm its own proposal
+  proposedAt: string;
+  executableAt: string;
+  expiresAt: string;
+}
+
+export type OwnershipAction =
+  | 'proposed'
+  | 'cancelled'
+  | 'transferred'
+  | 'transfer-failed'
+  | 'renounce-blocked'
+  | 'renounced'
+  | 'renounce-failed';
+
+export interface OwnershipLogEntry {
+  action: OwnershipAction;
+  at: string;
+  by: string;
+  proposalId?: string;
+  newOwner?: string;
+  txHash?: string;
+  error?: string;
+}
+
+/**
+ * Rejected ownership request (code + HTTP status for the controller)
+ */
+export class OwnershipError extends Error {
+  constructor(readonly code: string, message: string, readonly status: number) {
+    super(message);
+    this.name = 'OwnershipError';
+  }
+}
+
+const PROPOSAL_KEY = redisKey('ownership', 'proposal');
+const LOG_KEY = redisKey('ownership', 'log');
+const LOG_SIZE = 200;
+
+async function record(entry: OwnershipLogEntry): Promise<void> {
+  await redis.multi()
+    .lpush(LOG_KEY, JSON.stringify(entry))
+    .ltrim(LOG_KEY, 0, LOG_SIZE - 1)
+    .exec();
+}
+
+export async function getPendingProposal(): Promise<OwnershipProposal | undefined> {
+  const raw = await redis.get(PROPOSAL_KEY);
+  return raw ? JSON.parse(raw) as OwnershipProposal : undefined;
+}
+
+/**
+ * Current owner, pending proposal and recent history (GET /ownership)
+ */
+export async function getOwnershipState() {
+  const [owner, proposal, log] = await Promise.all([
+    contract.owner() as Promise<string>,
+    getPendingProposal(),
+    redis.lrange(LOG_KEY, 0, 49)
+  ]);
+
+  return {
+    contractAddress: CONTRACT_ADDRESS,
+    owner,
+    signer: signer.address,
+    signerIsOwner: owner.toLowerCase() === signer.address.toLowerCase(),
+    proposal,
+    transferDelayMs: OWNERSHIP_CONFIG.transferDelayMs,
+    confirmationsEnabled: OWNERSHIP_CONFIG.confirmKey !== undefined,
+    renounceBreakGlass: OWNERSHIP_CONFIG.renounceBreakGlass,
+    log: log.map(item => JSON.parse(item) as OwnershipLogEntry)
+  };
+}
+
+/**
+ * Step 1 - record a transfer proposal (nothing is sent)
+ */
+export async function proposeTransfer(newOwner: string, by: string, client: string, reason?: string): Promise<OwnershipProposal> {
+  if (!ethers.isAddress(newOwner) || newOwner === ethers.ZeroAddress) {
+    throw new OwnershipError('INVALID_NEW_OWNER', 'newOwner must be a non-zero address (use renounce to give up ownership)', 400);
+  }
+
+  const currentOwner: string = await contract.owner();
+  const target = ethers.getAddress(newOwner);
+
+  if (target === ethers.getAddress(currentOwner) || target === ethers.getAddress(CONTRACT_ADDRESS)) {
+    throw new OwnershipError('INVALID_NEW_OWNER', 'newOwner must differ from the current owner and the contract', 400);
+  }
+
+  const now = Date.now();
+  const proposal: OwnershipProposal = {
+    id: crypto.randomUUID(),
+    newOwner: target,
+    currentOwner,
+    reason,
+    proposedBy: by,
+    proposerClient: client,
+    proposedAt: new Date(now).toISOString(),
+    executableAt: new Date(now + OWNERSHIP_CONFIG.transferDelayMs).toISOString(),
+    expiresAt: new Date(now + OWNERSHIP_CONFIG.transferDelayMs + OWNERSHIP_CONFIG.confirmWindowMs).toISOString()
+  };
+
+  const stored = await redis.set(
+    PROPOSAL_KEY,
+    JSON.stringify(proposal),
+    'PX',
+    OWNERSHIP_CONFIG.transferDelayMs + OWNERSHIP_CONFIG.confirmWindowMs,
+    'NX'
+  );
+  if (!stored) {
+    throw new OwnershipError('PROPOSAL_PENDING', 'Another ownership transfer is pending - cancel it first', 409);
+  }
+
+  await record({ action: 'proposed', at: proposal.proposedAt, by, proposalId: proposal.id, newOwner: target });
+
+  logger.warn('[Ownership] 🔑 Ownership transfer proposed', { ...proposal });
+  void alerting.sendCritical('OWNERSHIP_TRANSFER_PROPOSED', { ...proposal }, `OWNERSHIP_TRANSFER_PROPOSED:${proposal.id}`);
+
+  return proposal;
+}
+
+/**
+ * Drop the pending proposal
+ */
+export async function cancelTransfer(proposalId: string, by: string): Promise<OwnershipProposal> {
+  const proposal = await getPendingProposal();
+
+  if (!proposal || proposal.id !== proposalId || (await redis.del(PROPOSAL_KEY)) === 0) {
+    throw new OwnershipError('PROPOSAL_NOT_FOUND', 'No pending ownership transfer with this id', 404);
+  }
+
+  await record({ action: 'cancelled', at: new Date().toISOString(), by, proposalId, newOwner: proposal.newOwner });
+
+  logger.warn('[Ownership] Ownership transfer cancelled', { proposalId, by });
+  void alerting.sendWarning('OWNERSHIP_TRANSFER_CANCELLED', { proposalId, newOwner: proposal.newOwner, by });
+
+  return proposal;
+}
+
+/**
+ * Pending proposal the client may execute (delay passed) - throws otherwise
+ */
+export async function getExecutableProposal(proposalId: string, client: string): Promise<OwnershipProposal> {
+  const proposal = await getPendingProposal();
+
+  if (!proposal || proposal.id !== proposalId) {
+    throw new OwnershipError('PROPOSAL_NOT_FOUND', 'No pending ownership transfer with this id (expired, cancelled or executed)', 404);
+  }
+
+  if (client === proposal.proposerClient) {
+    throw new OwnershipError('SAME_CLIENT_CONFIRM', 'The transfer must be confirmed by another API client than the one that proposed it', 403);
+  }
+
+  const remainingMs = Date.parse(proposal.executableAt) - Date.now();
+  if (remainingMs > 0) {
+    throw new OwnershipError(
+      'TRANSFER_DELAY_ACTIVE',
+      `Transfer can be confirmed at ${proposal.executableAt} (${Math.ceil(remainingMs / 1000)}s left)`,
+      409
+    );
+  }
+
+  return proposal;
+}
+
+/**
+ * Step 2 - send transferOwnership() for a proposal whose delay passed
+ */
+export async function confirmTransfer(
+  proposalId: string,
+  by: string,
+  client: string
+): Promise<{ proposal: OwnershipProposal; receipt: ethers.TransactionReceipt }> {
+  const proposal = await getExecutableProposal(proposalId, client);
+
+  // Consume first - two confirmations never send twice
+  if ((await redis.del(PROPOSAL_KEY)) === 0) {
+    throw new OwnershipError('PROPOSAL_NOT_FOUND', 'Ownership transfer already confirmed or cancelled', 404);
+  }
+
+  logger.warn('[Ownership] 🔑 Sending transferOwnership()', { proposalId, newOwner: proposal.newOwner, by });
+
+  try {
+    const submitted = await submitContractTransaction(`ownership-transfer-${proposal.id}`, 'transferOwnership', [proposal.newOwner], {
+      jobType: 'transfer-ownership'
+    });
+    const receipt = await waitForConfirmation(submitted);
+
+    await record({ action: 'transferred', at: new Date().toISOString(), by, proposalId, newOwner: proposal.newOwner, txHash: receipt.hash });
+
+    logger.warn('[Ownership] 🔑 CONTRACT OWNERSHIP TRANSFERRED - this relayer no longer signs owner-only calls', {
+      newOwner: proposal.newOwner,
+      txHash: receipt.hash
+    });
+    void alerting.sendCritical('OWNERSHIP_TRANSFERRED', {
+      previousOwner: proposal.currentOwner,
+      newOwner: proposal.newOwner,
+      txHash: receipt.hash,
+      by
+    }, `OWNERSHIP_TRANSFERRED:${proposal.id}`);
+
+    return { proposal, receipt };
+  } catch (error: any) {
+    await record({ action: 'transfer-failed', at: new Date().toISOString(), by, proposalId, newOwner: proposal.newOwner, error: error.message });
+    void alerting.sendCritical('OWNERSHIP_TRANSFER_FAILED', { proposalId, newOwner: proposal.newOwner, error: error.message });
+    throw error;
+  }
+}
+
+/**
+ * renounceOwnership() - only with OWNERSHIP_RENOUNCE_BREAK_GLASS=true
+ */
+export async function renounceOwnership(by: string): Promise<ethers.TransactionReceipt> {
+  if (!OWNERSHIP_CONFIG.renounceBreakGlass) {
+    await record({ action: 'renounce-blocked', at: new Date().toISOString(), by });
+    logger.error('[Ownership] 🚫 renounceOwnership() refused (OWNERSHIP_RENOUNCE_BREAK_GLASS not set)', { by });
+    void alerting.sendCritical('OWNERSHIP_RENOUNCE_BLOCKED', { by }, `OWNERSHIP_RENOUNCE_BLOCKED:${by}`);
+
+    throw new OwnershipError('RENOUNCE_BLOCKED', 'renounceOwnership is disabled (set OWNERSHIP_RENOUNCE_BREAK_GLASS=true to allow it)', 403);
+  }
+
+  logger.error('[Ownership] 🚨 BREAK GLASS - sending renounceOwnership()', { by });
+
+  try {
+    const submitted = await submitContractTransaction(`ownership-renounce-${Date.now()}`, 'renounceOwnership', [], {
+      jobType: 'renounce-ownership'
+    });
+    const receipt = await waitForConfirmation(submitted);
+
+    await record({ action: 'renounced', at: new Date().toISOString(), by, txHash: receipt.hash });
+    void alerting.sendCritical('OWNERSHIP_RENOUNCED', { by, txHash: receipt.hash });
+
+    return receipt;
+  } catch (error: any) {
+    await record({ action: 'renounce-failed', at: new Date().toISOString(), by, error: error.message });
+    throw error;
+  }
+}
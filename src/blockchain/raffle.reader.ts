@@ -0,0 +1,162 @@
+/**
+ * Raffle Reader - Typed raffle reads for GET /raffles*
+ *
+ * - getRaffle()          → RaffleView (amounts as strings, status by name)
+ * - hasTicketInRaffle()  → participation check
+ * - nextRaffleId() + scanRaffles() → paginated list by id
+ *
+ * CACHE:
+ * - Every read is cached in Redis for RAFFLE_CACHE_TTL_MS (relayer:cache:*),
+ *   shared by every relayer instance; 0 disables it
+ * - Concurrent misses for the same key share one RPC call
+ */
+
+import { contract } from '../index.js';
+import { RAFFLE_READ_CONFIG } from '../config/app.config.js';
+import { RaffleStatus, decodeRaffle, getRaffleStatusName } from '../utils/raffle.js';
+import { redis, redisKey } from '../utils/redis.js';
+import logger from '../utils/logger.js';
+
+export interface RaffleView {
+  raffleId: string;
+  ticketPrice: string;                  // Token base units (see GET /token-decimals)
+  maxTickets: string;
+  minTickets: string;
+  currentTickets: string;
+  expiresAt: string;                    // Unix seconds
+  status: string;                       // RaffleStatus name, e.g. FILLING
+  statusCode: number;
+}
+
+export interface RaffleListItem {
+  raffleId: string;
+  status: string;
+  statusCode: number;
+}
+
+export interface RafflePage {
+  nextRaffleId: string;
+  startId: string;
+  nextStartId: string | null;           // null when the end was reached
+  raffles: Array<RaffleListItem | RaffleView>;
+}
+
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Read through the cache (value must be JSON-serializable)
+ */
+async function cached<T>(key: string, read: () => Promise<T>): Promise<T> {
+  if (RAFFLE_READ_CONFIG.cacheTtlMs === 0) {
+    return read();
+  }
+
+  const cacheKey = redisKey('cache', key);
+
+  try {
+    const hit = await redis.get(cacheKey);
+    if (hit !== null) return JSON.parse(hit) as T;
+  } catch (error: any) {
+    // Cache trouble must not break reads
+    logger.warn('[RaffleReader] Cache read failed', { key, error: error.message });
+  }
+
+  const pending = inFlight.get(cacheKey);
+  if (pending) return pending as Promise<T>;
+
+  const promise = read()
+    .then(async value => {
+      await redis.set(cacheKey, JSON.stringify(value), 'PX', RAFFLE_READ_CONFIG.cacheTtlMs).catch(() => undefined);
+      return value;
+    })
+    .finally(() => inFlight.delete(cacheKey));
+
+  inFlight.set(cacheKey, promise);
+  return promise;
+}
+
+export async function getNextRaffleId(): Promise<bigint> {
+  return BigInt(await cached('next-raffle-id', async () => (await contract.nextRaffleId()).toString()));
+}
+
+/**
+ * Raffle details (undefined when the id was never created)
+ */
+export async function getRaffleView(raffleId: bigint): Promise<RaffleView | undefined> {
+  if (raffleId >= await getNextRaffleId()) {
+    return undefined;
+  }
+
+  const view = await cached(`raffle:${raffleId}`, async () => {
+    const raffle = decodeRaffle(await contract.getRaffle(raffleId));
+
+    // Unused slot (ids that were never assigned read as zeroes)
+    if (raffle.maxTickets === 0n) return null;
+
+    return {
+      raffleId: raffleId.toString(),
+      ticketPrice: raffle.ticketPrice.toString(),
+      maxTickets: raffle.maxTickets.toString(),
+      minTickets: raffle.minTickets.toString(),
+      currentTickets: raffle.currentTickets.toString(),
+      expiresAt: raffle.expiresAt.toString(),
+      status: getRaffleStatusName(raffle.status),
+      statusCode: raffle.status
+    };
+  });
+
+  return view ?? undefined;
+}
+
+export async function hasTicket(raffleId: bigint, address: string): Promise<boolean> {
+  return cached(`ticket:${raffleId}:${address.toLowerCase()}`, async () =>
+    Boolean(await contract.hasTicketInRaffle(raffleId, address))
+  );
+}
+
+/**
+ * One page of raffles by id, from startId up (optionally only one status)
+ * - Scans in batches of pageSize until pageSize raffles matched or the end
+ */
+export async function listRaffles(options: {
+  startId: bigint;
+  limit: number;
+  status?: RaffleStatus;
+  details: boolean;
+}): Promise<RafflePage> {
+  const nextRaffleId = await getNextRaffleId();
+  const batchSize = BigInt(options.limit);
+  const items: RaffleListItem[] = [];
+  let cursor = options.startId;
+
+  while (cursor < nextRaffleId && items.length < options.limit) {
+    const end = cursor + batchSize < nextRaffleId ? cursor + batchSize : nextRaffleId;
+    const batch = await cached(`scan:${cursor}:${end}`, async () => {
+      const [ids, statuses] = await contract.scanRaffles(cursor, end);
+      return (ids as bigint[]).map((id, index) => ({ id: id.toString(), statusCode: Number(statuses[index]) }));
+    });
+
+    for (const { id, statusCode } of batch) {
+      cursor = BigInt(id) + 1n;
+      if (options.status !== undefined && statusCode !== options.status) continue;
+
+      items.push({ raffleId: id, status: getRaffleStatusName(statusCode), statusCode });
+      if (items.length === options.limit) break;
+    }
+
+    // Batch without ids past the cursor (empty slots) - move on
+    if (items.length < options.limit) cursor = end;
+  }
+
+  const raffles = options.details
+    ? (await Promise.all(items.map(item => getRaffleView(BigInt(item.raffleId)))))
+      .filter((view): view is RaffleView => view !== undefined)
+    : items;
+
+  return {
+    nextRaffleId: nextRaffleId.toString(),
+    startId: options.startId.toString(),
+    nextStartId: cursor < nextRaffleId ? cursor.toString() : null,
+    raffles
+  };
+}
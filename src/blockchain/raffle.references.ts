@@ -0,0 +1,112 @@
+/**
+ * Raffle References - Backend referenceId → on-chain raffleId
+ *
+ * Written by the worker when a create-raffle job is mined (RaffleCreated log
+ * of the receipt), kept without TTL in relayer:raffles:by-reference:<referenceId>
+ * so the mapping outlives Bull's job history (removeOnComplete: 100).
+ *
+ * Raffles created before this mapping existed (or outside the relayer) are
+ * resolved from the event indexer's RaffleCreated events instead.
+ *
+ * The reverse mapping (relayer:raffles:by-id:<raffleId> → referenceId) gives
+ * wallet pools one routing key per raffle: create-raffle only carries the
+ * referenceId, later jobs only the raffleId.
+ */
+
+import { RaffleCreatedEvent } from '../utils/raffle.js';
+import { findEvents } from '../indexer/event.store.js';
+import { redis, redisKey } from '../utils/redis.js';
+
+export interface RaffleReference extends RaffleCreatedEvent {
+  jobId?: string;
+  txHash: string;
+  blockNumber: number;
+  recordedAt: string;
+  source: 'job' | 'indexer';
+}
+
+function referenceKey(referenceId: string): string {
+  return redisKey('raffles', 'by-reference', referenceId);
+}
+
+function raffleIdKey(raffleId: string): string {
+  return redisKey('raffles', 'by-id', raffleId);
+}
+
+/**
+ * Store the mapping for a mined create-raffle job (idempotent)
+ */
+export async function saveRaffleReference(
+  event: RaffleCreatedEvent,
+  origin: { jobId: string; txHash: string; blockNumber: number }
+): Promise<void> {
+  const reference: RaffleReference = {
+    ...event,
+    ...origin,
+    recordedAt: new Date().toISOString(),
+    source: 'job'
+  };
+
+  await redis.set(referenceKey(event.referenceId), JSON.stringify(reference));
+  await redis.set(raffleIdKey(event.raffleId), event.referenceId);
+}
+
+/**
+ * Resolve a referenceId (stored mapping first, then indexed events)
+ */
+export async function getRaffleReference(referenceId: string): Promise<RaffleReference | undefined> {
+  const raw = await redis.get(referenceKey(referenceId));
+  if (raw) {
+    return JSON.parse(raw) as RaffleReference;
+  }
+
+  const [event] = await findEvents({ name: 'RaffleCreated', referenceId, limit: 1 });
+  if (!event) {
+    return undefined;
+  }
+
+  return {
+    raffleId: event.args.contractRaffleId,
+    templateId: event.args.templateId,
+    referenceId: event.args.referenceId,
+    ticketPrice: event.args.ticketPrice,
+    maxTickets: event.args.maxTickets,
+    minTickets: event.args.minTickets,
+    expiresAt: event.args.expiresAt,
+    jobId: event.jobId,
+    txHash: event.transactionHash,
+    blockNumber: event.blockNumber,
+    recordedAt: new Date(event.blockTimestamp * 1000).toISOString(),
+    source: 'indexer'
+  };
+}
+
+/**
+ * Resolve a raffleId back to its referenceId (stored mapping first, then indexed events)
+ */
+export async function getRaffleReferenceId(raffleId: string): Promise<string | undefined> {
+  const referenceId = await redis.get(raffleIdKey(raffleId));
+  if (referenceId) {
+    return referenceId;
+  }
+
+  const [event] = await findEvents({ name: 'RaffleCreated', raffleId, limit: 1 });
+  return event?.args.referenceId;
+}
+
+/**
+ * Wallet pool routing key of a job: the referenceId of its raffle
+ * Raffles unknown to the relayer and the indexer fall back to their raffleId
+ */
+export async function getRaffleRoutingKey(data: any): Promise<string | undefined> {
+  if (data?.referenceId !== undefined && data.referenceId !== null) {
+    return data.referenceId.toString();
+  }
+
+  const raffleId = data?.raffleId ?? data?.raffleIds?.[0];
+  if (raffleId === undefined || raffleId === null) {
+    return undefined;
+  }
+
+  return (await getRaffleReferenceId(raffleId.toString())) ?? raffleId.toString();
+}
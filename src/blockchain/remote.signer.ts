@@ -0,0 +1,262 @@
+/**
+ * Remote Signer - ethers signer whose key lives in a separate signing service
+ *
+ * TRANSPORT:
+ * - SIGNER_REMOTE_URL = https://host:port[/prefix] or unix:///path/to/signer.sock
+ * - JSON over HTTP (also over the unix socket), `Authorization: Bearer <token>`
+ *   when SIGNER_REMOTE_AUTH_TOKEN is set
+ *
+ * PROTOCOL (v1):
+ * - GET  /v1/address
+ *     → 200 { "address": "0x..." }
+ * - POST /v1/sign-transaction
+ *     { "chainId": "97", "unsignedTransaction": "0x02f8...", "transaction": { to, nonce, data, ... } }
+ *     → 200 { "signedTransaction": "0x..." }
+ *   `transaction` is the decoded view of `unsignedTransaction` (numbers as
+ *   decimal strings) for the signer's policy checks; the signer must sign
+ *   the serialized bytes, not the view
+ * - POST /v1/sign-message { "message": "0x..." (raw bytes, hex) }
+ *     → 200 { "signature": "0x..." }
+ * - POST /v1/sign-typed-data { "domain": {...}, "types": {...}, "value": {...} }
+ *     → 200 { "signature": "0x..." }
+ * - Refusals / failures → non-2xx { "error": "CODE", "message": "..." }
+ *
+ * Every answer is verified locally: the signed tx must recover to the
+ * signer address and hash to the transaction that was sent, signatures
+ * must recover to the signer address. A signer that alters a transaction
+ * is rejected (code REMOTE_SIGNER_MISMATCH).
+ *
+ * A local stub implementing this protocol: src/dev/remote-signer-stub.ts
+ */
+
+import http from 'http';
+import https from 'https';
+import { ethers } from 'ethers';
+import logger from '../utils/logger.js';
+
+export interface RemoteSignerOptions {
+  url: string;
+  authToken?: string;
+  timeoutMs: number;
+}
+
+/**
+ * Remote signer refused, failed or answered with a bad signature
+ */
+export class RemoteSignerError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'REMOTE_SIGNER_ERROR' | 'REMOTE_SIGNER_MISMATCH',
+    public readonly remoteCode?: string
+  ) {
+    super(message);
+    this.name = 'RemoteSignerError';
+  }
+}
+
+/**
+ * Minimal JSON client for the signing service (HTTP, HTTPS or unix socket)
+ */
+class RemoteSignerClient {
+  private readonly target: { socketPath?: string; base?: URL };
+
+  constructor(private readonly options: RemoteSignerOptions) {
+    this.target = options.url.startsWith('unix://')
+      ? { socketPath: options.url.slice('unix://'.length) }
+      : { base: new URL(options.url) };
+  }
+
+  get description(): string {
+    return this.target.socketPath ? `unix:${this.target.socketPath}` : this.target.base!.host;
+  }
+
+  request<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+    const { socketPath, base } = this.target;
+    const transport = base?.protocol === 'https:' ? https : http;
+
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (payload !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      headers['Content-Length'] = Buffer.byteLength(payload).toString();
+    }
+    if (this.options.authToken) {
+      headers.Authorization = `Bearer ${this.options.authToken}`;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const req = transport.request({
+        method,
+        headers,
+        timeout: this.options.timeoutMs,
+        ...(socketPath
+          ? { socketPath, path }
+          : {
+              hostname: base!.hostname,
+              port: base!.port || undefined,
+              path: `${base!.pathname.replace(/\/$/, '')}${path}`
+            })
+      }, res => {
+        let raw = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => { raw += chunk; });
+        res.on('end', () => {
+          let parsed: any;
+          try {
+            parsed = raw ? JSON.parse(raw) : {};
+          } catch {
+            reject(new RemoteSignerError(`Remote signer returned invalid JSON (HTTP ${res.statusCode})`, 'REMOTE_SIGNER_ERROR'));
+            return;
+          }
+
+          if (!res.statusCode || res.statusCode < 200 || res.statusCode >= 300) {
+            reject(new RemoteSignerError(
+              `Remote signer refused ${path}: ${parsed.message ?? `HTTP ${res.statusCode}`}`,
+              'REMOTE_SIGNER_ERROR',
+              parsed.error
+            ));
+            return;
+          }
+
+          resolve(parsed as T);
+        });
+      });
+
+      // Timeouts surface as ETIMEDOUT (transient, retried by the worker)
+      req.on('timeout', () => req.destroy(Object.assign(new Error('Remote signer timed out'), { code: 'ETIMEDOUT' })));
+      req.on('error', reject);
+
+      if (payload !== undefined) {
+        req.write(payload);
+      }
+      req.end();
+    });
+  }
+}
+
+/**
+ * Decimal-string view of a transaction for the signer's policy checks
+ */
+function describeTransaction(tx: ethers.Transaction): Record<string, unknown> {
+  return {
+    type: tx.type,
+    chainId: tx.chainId.toString(),
+    nonce: tx.nonce,
+    to: tx.to,
+    value: tx.value.toString(),
+    data: tx.data,
+    gasLimit: tx.gasLimit.toString(),
+    gasPrice: tx.gasPrice?.toString(),
+    maxFeePerGas: tx.maxFeePerGas?.toString(),
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString()
+  };
+}
+
+export class RemoteSigner extends ethers.AbstractSigner {
+  private constructor(
+    readonly address: string,
+    private readonly client: RemoteSignerClient,
+    provider: ethers.Provider | null
+  ) {
+    super(provider);
+  }
+
+  /**
+   * Ask the signing service for its address and build the signer
+   */
+  static async create(options: RemoteSignerOptions, provider: ethers.Provider | null): Promise<RemoteSigner> {
+    const client = new RemoteSignerClient(options);
+    const { address } = await client.request<{ address: string }>('GET', '/v1/address');
+
+    if (!address || !ethers.isAddress(address)) {
+      throw new RemoteSignerError(`Remote signer returned an invalid address: ${address}`, 'REMOTE_SIGNER_ERROR');
+    }
+
+    logger.info('[RemoteSigner] Connected', { signer: client.description, address });
+
+    return new RemoteSigner(ethers.getAddress(address), client, provider);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: ethers.Provider | null): RemoteSigner {
+    return new RemoteSigner(this.address, this.client, provider);
+  }
+
+  async signTransaction(request: ethers.TransactionRequest): Promise<string> {
+    const tx = ethers.copyRequest(request);
+
+    // Same address resolution as ethers' BaseWallet
+    const { to, from } = await ethers.resolveProperties({
+      to: tx.to ? ethers.resolveAddress(tx.to, this.provider) : undefined,
+      from: tx.from ? ethers.resolveAddress(tx.from, this.provider) : undefined
+    });
+
+    if (to != null) tx.to = to;
+    if (from != null && ethers.getAddress(from) !== this.address) {
+      throw new RemoteSignerError(`Transaction from ${from} cannot be signed by ${this.address}`, 'REMOTE_SIGNER_MISMATCH');
+    }
+    delete tx.from;
+
+    const unsigned = ethers.Transaction.from(tx as ethers.TransactionLike<string>);
+
+    const { signedTransaction } = await this.client.request<{ signedTransaction: string }>('POST', '/v1/sign-transaction', {
+      chainId: unsigned.chainId.toString(),
+      unsignedTransaction: unsigned.unsignedSerialized,
+      transaction: describeTransaction(unsigned)
+    });
+
+    const signed = ethers.Transaction.from(signedTransaction);
+
+    if (signed.from !== this.address || signed.unsignedHash !== unsigned.unsignedHash) {
+      throw new RemoteSignerError(
+        `Remote signer returned a transaction that does not match the request (from ${signed.from})`,
+        'REMOTE_SIGNER_MISMATCH'
+      );
+    }
+
+    return signed.serialized;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const bytes = typeof message === 'string' ? ethers.toUtf8Bytes(message) : message;
+
+    const { signature } = await this.client.request<{ signature: string }>('POST', '/v1/sign-message', {
+      message: ethers.hexlify(bytes)
+    });
+
+    if (ethers.verifyMessage(bytes, signature) !== this.address) {
+      throw new RemoteSignerError('Remote signer message signature does not recover to the signer', 'REMOTE_SIGNER_MISMATCH');
+    }
+
+    return signature;
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    // Resolve ENS names before sending (the signer only sees addresses)
+    const resolved = await ethers.TypedDataEncoder.resolveNames(
+      domain,
+      types,
+      value,
+      async (name: string) => ethers.resolveAddress(name, this.provider)
+    );
+
+    const { signature } = await this.client.request<{ signature: string }>('POST', '/v1/sign-typed-data', {
+      domain: resolved.domain,
+      types,
+      value: JSON.parse(JSON.stringify(resolved.value, (_key, item) => (typeof item === 'bigint' ? item.toString() : item)))
+    });
+
+    if (ethers.verifyTypedData(resolved.domain, types, resolved.value, signature) !== this.address) {
+      throw new RemoteSignerError('Remote signer typed-data signature does not recover to the signer', 'REMOTE_SIGNER_MISMATCH');
+    }
+
+    return signature;
+  }
+}
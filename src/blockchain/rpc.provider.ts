@@ -0,0 +1,581 @@
+/**
+ * Failover RPC Provider - Several RPC endpoints behind one ethers provider
+ *
+ * PROBLEM:
+ * - A single JsonRpcProvider meant that one down or lagging node failed
+ *   every executor run, every read route and every send
+ *
+ * MODEL:
+ * - RPC_URLS lists the endpoints (RPC_URL alone = one endpoint)
+ * - Every JSON-RPC request goes to the ACTIVE endpoint; signer, contract,
+ *   nonce manager and tracker use this provider unchanged
+ * - Transport failures (connection refused, timeout, HTTP 5xx/429) and
+ *   node rate limits fail over to the next endpoint by health score.
+ *   JSON-RPC errors (reverts, nonce too low) are answers, not failures
+ * - The active endpoint is sticky: no switching while it keeps answering
+ *   (mempool and receipt visibility differ between nodes)
+ *
+ * HEALTH:
+ * - score = 100 × success ratio (last 20 requests) - latency penalty
+ *   - blocks behind penalty
+ * - RPC_FAILURE_THRESHOLD consecutive failures → down for RPC_COOLDOWN_MS,
+ *   then tried again
+ * - eth_chainId is checked before an endpoint serves its first request and
+ *   again after every cooldown; an endpoint on another chain is excluded
+ *   for good (state wrong-chain)
+ * - Heights are probed every RPC_HEALTH_CHECK_INTERVAL_MS; an endpoint
+ *   more than RPC_MAX_BLOCK_LAG blocks behind the highest is stale and
+ *   only used when no fresh endpoint is left
+ *
+ * SENDS:
+ * - eth_sendRawTransaction fails over like any request. If the first node
+ *   received the tx before the connection broke, the next one answers
+ *   "already known" - that is reported as success with the tx hash
+ *
+ * QUORUM READS:
+ * - quorumRead() runs a read on every fresh endpoint pinned to the same
+ *   block and requires RPC_QUORUM identical answers (1 = active endpoint only)
+ */
+
+import { ethers } from 'ethers';
+import { RPC_CONFIG } from '../config/app.config.js';
+import { rpcRequestDuration } from '../monitoring/metrics.js';
+import logger from '../utils/logger.js';
+
+export type RpcEndpointState = 'healthy' | 'stale' | 'down' | 'wrong-chain';
+
+export interface RpcEndpointStatus {
+  url: string;                 // Host only (paths often carry API keys)
+  active: boolean;
+  state: RpcEndpointState;
+  score: number;
+  latencyMs: number;           // Moving average
+  requests: number;
+  errors: number;
+  consecutiveErrors: number;
+  lastError?: string;
+  lastErrorAt?: string;
+  blockNumber?: number;
+  blocksBehind?: number;
+  lastCheckedAt?: string;
+  downUntil?: string;
+}
+
+export interface RpcStatus {
+  endpoints: RpcEndpointStatus[];
+  activeUrl: string;
+  highestBlock?: number;
+  failovers: number;
+  quorum: number;
+}
+
+export interface QuorumResult<T> {
+  value: T;
+  blockNumber: number;
+  agreeing: number;            // Endpoints that returned the accepted value
+  queried: number;
+}
+
+/**
+ * Quorum read could not be satisfied (codes RPC_QUORUM_UNAVAILABLE / RPC_QUORUM_NOT_REACHED)
+ */
+export class RpcQuorumError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'RPC_QUORUM_UNAVAILABLE' | 'RPC_QUORUM_NOT_REACHED',
+    public readonly answers: { url: string; value?: string; error?: string }[] = []
+  ) {
+    super(message);
+    this.name = 'RpcQuorumError';
+  }
+}
+
+const SCORE_WINDOW = 20;
+const LATENCY_SMOOTHING = 0.2;
+const MAX_LATENCY_PENALTY = 30;
+const BLOCK_LAG_PENALTY = 10;
+
+// JSON-RPC error codes that mean "this node cannot serve you right now"
+// (-32005 limit exceeded; -32603 is not here - hardhat reports reverts with it)
+const NODE_ERROR_CODES = new Set([-32005]);
+const ALREADY_KNOWN_PATTERN = /already known|known transaction|already imported/i;
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url.substring(0, 30);
+  }
+}
+
+/**
+ * JSON for comparing quorum answers (bigints and Result arrays included)
+ */
+function serialize(value: any): string {
+  return JSON.stringify(value, (_key, item) => (typeof item === 'bigint' ? item.toString() : item));
+}
+
+class RpcEndpoint {
+  readonly provider: ethers.JsonRpcProvider;
+  readonly host: string;
+
+  requests = 0;
+  errors = 0;
+  consecutiveErrors = 0;
+  latencyMs = 0;
+  lastError?: string;
+  lastErrorAt?: number;
+  blockNumber?: number;
+  lastCheckedAt?: number;
+  downUntil = 0;
+  stale = false;
+  chainVerified = false;       // eth_chainId matched since startup / the last cooldown
+  wrongChainId?: bigint;       // Set once the endpoint answered another chain id
+
+  private recent: boolean[] = [];
+
+  constructor(readonly url: string, network: ethers.Network) {
+    const request = new ethers.FetchRequest(url);
+    request.timeout = RPC_CONFIG.requestTimeoutMs;
+
+    this.provider = new ethers.JsonRpcProvider(request, network, {
+      staticNetwork: network,
+      batchMaxCount: 1
+    });
+    this.host = hostOf(url);
+  }
+
+  get down(): boolean {
+    return this.downUntil > Date.now();
+  }
+
+  get state(): RpcEndpointState {
+    if (this.wrongChainId !== undefined) return 'wrong-chain';
+    if (this.down) return 'down';
+    return this.stale ? 'stale' : 'healthy';
+  }
+
+  score(highestBlock?: number): number {
+    const successRatio = this.recent.length > 0
+      ? this.recent.filter(ok => ok).length / this.recent.length
+      : 1;
+    const latencyPenalty = Math.min(this.latencyMs / 20, MAX_LATENCY_PENALTY);
+    const lagPenalty = highestBlock !== undefined && this.blockNumber !== undefined
+      ? (highestBlock - this.blockNumber) * BLOCK_LAG_PENALTY
+      : 0;
+
+    return Math.max(0, Math.round(100 * successRatio - latencyPenalty - lagPenalty));
+  }
+
+  recordSuccess(latencyMs: number): void {
+    this.requests++;
+    this.consecutiveErrors = 0;
+    this.latencyMs = this.latencyMs === 0
+      ? latencyMs
+      : Math.round(this.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING);
+    this.pushOutcome(true);
+  }
+
+  recordFailure(error: any): void {
+    this.requests++;
+    this.errors++;
+    this.consecutiveErrors++;
+    this.lastError = error?.shortMessage ?? error?.message ?? String(error);
+    this.lastErrorAt = Date.now();
+    this.pushOutcome(false);
+
+    if (this.consecutiveErrors >= RPC_CONFIG.failureThreshold) {
+      this.downUntil = Date.now() + RPC_CONFIG.cooldownMs;
+      // The node may come back pointed elsewhere
+      this.chainVerified = false;
+    }
+  }
+
+  private pushOutcome(ok: boolean): void {
+    this.recent.push(ok);
+    if (this.recent.length > SCORE_WINDOW) {
+      this.recent.shift();
+    }
+  }
+}
+
+export class FailoverProvider extends ethers.JsonRpcApiProvider {
+  private readonly endpoints: RpcEndpoint[];
+  private readonly chainId: bigint;
+  private active: RpcEndpoint;
+  private highestBlock?: number;
+  private failovers = 0;
+  private healthTimer?: NodeJS.Timeout;
+
+  constructor(urls: string[], chainId: number) {
+    const network = ethers.Network.from(chainId);
+    super(network, { staticNetwork: network, batchMaxCount: 1 });
+
+    this.endpoints = urls.map(url => new RpcEndpoint(url, network));
+    this.chainId = network.chainId;
+    this.active = this.endpoints[0];
+  }
+
+  /**
+   * Startup check: every endpoint must serve the expected chain
+   * Unreachable endpoints are marked down; throws if none is usable
+   */
+  async verifyEndpoints(): Promise<void> {
+    for (const endpoint of this.endpoints) {
+      if (await this.verifyChain(endpoint)) continue;
+
+      // A wrong chain is a misconfiguration, not an outage
+      if (endpoint.wrongChainId !== undefined) {
+        throw new Error(`RPC endpoint ${endpoint.host} serves chain ${endpoint.wrongChainId}, expected ${this.chainId}`);
+      }
+
+      // Verified by the health check or on first use once it answers
+      endpoint.downUntil = Date.now() + RPC_CONFIG.cooldownMs;
+      logger.warn('[RpcProvider] Endpoint unreachable at startup', {
+        url: endpoint.host,
+        error: endpoint.lastError
+      });
+    }
+
+    if (this.endpoints.every(endpoint => endpoint.down)) {
+      throw new Error('No RPC endpoint reachable');
+    }
+
+    await this.checkHeights();
+    this.active = this.rankEndpoints()[0];
+  }
+
+  /**
+   * Check eth_chainId unless already verified since startup / the last cooldown
+   * false = unreachable (failure recorded) or serving another chain (excluded for good)
+   */
+  private async verifyChain(endpoint: RpcEndpoint): Promise<boolean> {
+    if (endpoint.chainVerified) return true;
+    if (endpoint.wrongChainId !== undefined) return false;
+
+    let chainId: bigint;
+
+    try {
+      chainId = BigInt(await endpoint.provider.send('eth_chainId', []));
+    } catch (error: any) {
+      endpoint.recordFailure(error);
+      return false;
+    }
+
+    if (chainId !== this.chainId) {
+      endpoint.wrongChainId = chainId;
+      logger.error('❌ [RpcProvider] Endpoint serves another chain - excluded', {
+        url: endpoint.host,
+        chainId: chainId.toString(),
+        expected: this.chainId.toString()
+      });
+      return false;
+    }
+
+    endpoint.chainVerified = true;
+    return true;
+  }
+
+  // ============================================================================
+  // REQUEST ROUTING
+  // ============================================================================
+
+  /**
+   * Available endpoints, best first (active first while it is usable)
+   */
+  private rankEndpoints(): RpcEndpoint[] {
+    const byScore = (a: RpcEndpoint, b: RpcEndpoint) =>
+      b.score(this.highestBlock) - a.score(this.highestBlock) ||
+      this.endpoints.indexOf(a) - this.endpoints.indexOf(b);
+
+    const usable = this.endpoints.filter(endpoint => endpoint.wrongChainId === undefined);
+    const up = usable.filter(endpoint => !endpoint.down);
+    const fresh = up.filter(endpoint => !endpoint.stale).sort(byScore);
+    const stale = up.filter(endpoint => endpoint.stale).sort(byScore);
+    // Down endpoints last - better a cooling node than no answer
+    const down = usable.filter(endpoint => endpoint.down).sort(byScore);
+
+    const ranked = [...fresh, ...stale, ...down];
+
+    if (fresh.includes(this.active)) {
+      return [this.active, ...ranked.filter(endpoint => endpoint !== this.active)];
+    }
+
+    return ranked;
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult | ethers.JsonRpcError>> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    const method = payloads.length === 1 ? payloads[0].method : 'batch';
+    let lastError: any;
+    let failedOver = false;
+
+    for (const endpoint of this.rankEndpoints()) {
+      if (!(await this.verifyChain(endpoint))) {
+        lastError = endpoint.wrongChainId !== undefined
+          ? new Error(`RPC endpoint ${endpoint.host} serves chain ${endpoint.wrongChainId}, expected ${this.chainId}`)
+          : new Error(`RPC endpoint ${endpoint.host} failed the chain id check: ${endpoint.lastError}`);
+        failedOver = true;
+        continue;
+      }
+
+      const started = Date.now();
+
+      try {
+        const results = await endpoint.provider._send(payload);
+        const nodeError = results.find(
+          result => 'error' in result && NODE_ERROR_CODES.has(Number((result as ethers.JsonRpcError).error.code))
+        ) as ethers.JsonRpcError | undefined;
+
+        if (nodeError) {
+          throw Object.assign(new Error(nodeError.error.message), { code: nodeError.error.code });
+        }
+
+        endpoint.recordSuccess(Date.now() - started);
+        rpcRequestDuration.observe({ endpoint: endpoint.host, method, outcome: 'success' }, (Date.now() - started) / 1000);
+        this.setActive(endpoint);
+
+        return failedOver ? this.acceptKnownTransactions(payloads, results) : results;
+      } catch (error: any) {
+        endpoint.recordFailure(error);
+        rpcRequestDuration.observe({ endpoint: endpoint.host, method, outcome: 'error' }, (Date.now() - started) / 1000);
+        lastError = error;
+        failedOver = true;
+
+        logger.warn('[RpcProvider] Request failed, trying next endpoint', {
+          url: endpoint.host,
+          method,
+          error: endpoint.lastError,
+          consecutiveErrors: endpoint.consecutiveErrors
+        });
+      }
+    }
+
+    throw lastError ?? new Error(`No RPC endpoint serves chain ${this.chainId}`);
+  }
+
+  /**
+   * A raw tx resent after a broken connection may already be in the mempool
+   */
+  private acceptKnownTransactions(
+    payloads: ethers.JsonRpcPayload[],
+    results: Array<ethers.JsonRpcResult | ethers.JsonRpcError>
+  ): Array<ethers.JsonRpcResult | ethers.JsonRpcError> {
+    return results.map(result => {
+      const request = payloads.find(item => item.id === result.id);
+
+      if (
+        request?.method === 'eth_sendRawTransaction' &&
+        'error' in result &&
+        ALREADY_KNOWN_PATTERN.test((result as ethers.JsonRpcError).error.message ?? '')
+      ) {
+        const txHash = ethers.keccak256((request.params as string[])[0]);
+        logger.info('[RpcProvider] Transaction already known after failover', { txHash });
+        return { id: result.id, result: txHash };
+      }
+
+      return result;
+    });
+  }
+
+  private setActive(endpoint: RpcEndpoint): void {
+    if (endpoint === this.active) return;
+
+    this.failovers++;
+    logger.warn('🔀 RPC failover', {
+      from: this.active.host,
+      to: endpoint.host,
+      fromState: this.active.state,
+      failovers: this.failovers
+    });
+    this.active = endpoint;
+  }
+
+  // ============================================================================
+  // HEALTH CHECKS
+  // ============================================================================
+
+  /**
+   * Probe every endpoint's height and mark the lagging ones stale
+   */
+  async checkHeights(): Promise<void> {
+    await Promise.all(this.endpoints.map(async endpoint => {
+      if (!(await this.verifyChain(endpoint))) return;
+
+      const started = Date.now();
+
+      try {
+        endpoint.blockNumber = await endpoint.provider.getBlockNumber();
+        endpoint.lastCheckedAt = Date.now();
+        endpoint.recordSuccess(Date.now() - started);
+        rpcRequestDuration.observe({ endpoint: endpoint.host, method: 'eth_blockNumber', outcome: 'success' }, (Date.now() - started) / 1000);
+        // A successful probe ends the cooldown early
+        endpoint.downUntil = 0;
+      } catch (error: any) {
+        endpoint.recordFailure(error);
+        rpcRequestDuration.observe({ endpoint: endpoint.host, method: 'eth_blockNumber', outcome: 'error' }, (Date.now() - started) / 1000);
+      }
+    }));
+
+    const heights = this.endpoints
+      .filter(endpoint => !endpoint.down && endpoint.chainVerified && endpoint.blockNumber !== undefined)
+      .map(endpoint => endpoint.blockNumber!);
+
+    if (heights.length === 0) {
+      logger.error('❌ [RpcProvider] No RPC endpoint answered the height probe');
+      return;
+    }
+
+    this.highestBlock = Math.max(...heights);
+
+    for (const endpoint of this.endpoints) {
+      const wasStale = endpoint.stale;
+      const behind = endpoint.blockNumber !== undefined ? this.highestBlock - endpoint.blockNumber : 0;
+      endpoint.stale = behind > RPC_CONFIG.maxBlockLag;
+
+      if (endpoint.stale && !wasStale) {
+        logger.warn('⚠️  [RpcProvider] Endpoint block height is stale', {
+          url: endpoint.host,
+          blockNumber: endpoint.blockNumber,
+          highestBlock: this.highestBlock,
+          behind
+        });
+      } else if (!endpoint.stale && wasStale) {
+        logger.info('[RpcProvider] Endpoint caught up', { url: endpoint.host, blockNumber: endpoint.blockNumber });
+      }
+    }
+
+    // Leave a stale active endpoint for a fresh one
+    if (this.active.stale || this.active.down) {
+      const [best] = this.rankEndpoints();
+      if (best) this.setActive(best);
+    }
+  }
+
+  startHealthChecks(): void {
+    if (this.healthTimer || RPC_CONFIG.healthCheckIntervalMs <= 0) return;
+
+    this.healthTimer = setInterval(() => {
+      this.checkHeights().catch(error => {
+        logger.error('❌ [RpcProvider] Health check failed', { error: error.message });
+      });
+    }, RPC_CONFIG.healthCheckIntervalMs);
+  }
+
+  stopHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = undefined;
+    }
+  }
+
+  // ============================================================================
+  // QUORUM READS
+  // ============================================================================
+
+  /**
+   * Run a read on every fresh endpoint at one block and require RPC_QUORUM matching answers
+   * @param read - Called once per endpoint with that endpoint's provider and the pinned block
+   */
+  async quorumRead<T>(read: (runner: ethers.Provider, blockTag: number) => Promise<T>): Promise<QuorumResult<T>> {
+    if (RPC_CONFIG.quorum <= 1) {
+      const blockNumber = await this.getBlockNumber();
+      return { value: await read(this, blockNumber), blockNumber, agreeing: 1, queried: 1 };
+    }
+
+    const candidates = this.endpoints.filter(endpoint => endpoint.chainVerified && !endpoint.down && !endpoint.stale);
+
+    if (candidates.length < RPC_CONFIG.quorum) {
+      throw new RpcQuorumError(
+        `Quorum of ${RPC_CONFIG.quorum} needs ${RPC_CONFIG.quorum} fresh endpoints, ${candidates.length} available`,
+        'RPC_QUORUM_UNAVAILABLE'
+      );
+    }
+
+    // Pin to a block every candidate has (lowest known height)
+    const blockNumber = Math.min(...candidates.map(endpoint => endpoint.blockNumber ?? this.highestBlock ?? 0));
+
+    const answers = await Promise.all(candidates.map(async endpoint => {
+      const started = Date.now();
+
+      try {
+        const value = await read(endpoint.provider, blockNumber);
+        endpoint.recordSuccess(Date.now() - started);
+        rpcRequestDuration.observe({ endpoint: endpoint.host, method: 'quorum-read', outcome: 'success' }, (Date.now() - started) / 1000);
+        return { endpoint, value, key: serialize(value) };
+      } catch (error: any) {
+        endpoint.recordFailure(error);
+        rpcRequestDuration.observe({ endpoint: endpoint.host, method: 'quorum-read', outcome: 'error' }, (Date.now() - started) / 1000);
+        return { endpoint, error: error.shortMessage ?? error.message };
+      }
+    }));
+
+    const tally = new Map<string, number>();
+    for (const answer of answers) {
+      if (answer.key !== undefined) {
+        tally.set(answer.key, (tally.get(answer.key) ?? 0) + 1);
+      }
+    }
+
+    const [bestKey, agreeing] = [...tally.entries()].sort((a, b) => b[1] - a[1])[0] ?? [undefined, 0];
+    const summary = answers.map(answer => ({ url: answer.endpoint.host, value: answer.key, error: answer.error }));
+
+    if (bestKey === undefined || agreeing < RPC_CONFIG.quorum) {
+      logger.error('❌ [RpcProvider] Quorum not reached', { blockNumber, quorum: RPC_CONFIG.quorum, answers: summary });
+      throw new RpcQuorumError(
+        `Only ${agreeing} of ${answers.length} endpoints agreed at block ${blockNumber} (quorum ${RPC_CONFIG.quorum})`,
+        'RPC_QUORUM_NOT_REACHED',
+        summary
+      );
+    }
+
+    if (agreeing < answers.length) {
+      logger.warn('⚠️  [RpcProvider] Endpoints disagree on a quorum read', { blockNumber, answers: summary });
+    }
+
+    const accepted = answers.find(answer => answer.key === bestKey)!;
+
+    return { value: accepted.value as T, blockNumber, agreeing, queried: answers.length };
+  }
+
+  // ============================================================================
+  // MONITORING
+  // ============================================================================
+
+  getStatus(): RpcStatus {
+    const toIso = (ms?: number) => (ms ? new Date(ms).toISOString() : undefined);
+
+    return {
+      endpoints: this.endpoints.map(endpoint => ({
+        url: endpoint.host,
+        active: endpoint === this.active,
+        state: endpoint.state,
+        score: endpoint.score(this.highestBlock),
+        latencyMs: endpoint.latencyMs,
+        requests: endpoint.requests,
+        errors: endpoint.errors,
+        consecutiveErrors: endpoint.consecutiveErrors,
+        lastError: endpoint.lastError,
+        lastErrorAt: toIso(endpoint.lastErrorAt),
+        blockNumber: endpoint.blockNumber,
+        blocksBehind: this.highestBlock !== undefined && endpoint.blockNumber !== undefined
+          ? this.highestBlock - endpoint.blockNumber
+          : undefined,
+        lastCheckedAt: toIso(endpoint.lastCheckedAt),
+        downUntil: endpoint.down ? toIso(endpoint.downUntil) : undefined
+      })),
+      activeUrl: this.active.host,
+      highestBlock: this.highestBlock,
+      failovers: this.failovers,
+      quorum: RPC_CONFIG.quorum
+    };
+  }
+
+  destroy(): void {
+    this.stopHealthChecks();
+    for (const endpoint of this.endpoints) {
+      endpoint.provider.destroy();
+    }
+    super.destroy();
+  }
+}
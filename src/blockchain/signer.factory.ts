@@ -0,0 +1,113 @@
+/**
+ * Signer Factory - Build the owner signer from the configured backend
+ *
+ * BACKENDS (SIGNER_BACKEND):
+ * - keystore → encrypted JSON keystore (SIGNER_KEYSTORE_PATH) unlocked with
+ *              the password in SIGNER_KEYSTORE_PASSWORD_FILE
+ * - remote   → signing service over HTTP(S) or a unix socket
+ *              (SIGNER_REMOTE_URL, protocol in remote.signer.ts)
+ * - env      → plaintext ADMIN_PRIVATE_KEY, development only
+ *              (refused in production by env.ts)
+ *
+ * SIGNER_ADDRESS optionally pins the expected address for any backend;
+ * startup fails if the unlocked key or the remote signer differs.
+ *
+ * Operator wallets (OPERATOR_WALLETS) use the same backends and checks.
+ */
+
+import fs from 'fs';
+import { ethers } from 'ethers';
+import { SIGNER_CONFIG } from '../config/app.config.js';
+import { RemoteSigner } from './remote.signer.js';
+import logger from '../utils/logger.js';
+
+/**
+ * Any backend: an ethers signer with a synchronous address
+ */
+export type RelayerSigner = ethers.AbstractSigner & { readonly address: string };
+
+/**
+ * Backend settings for one key (SIGNER_CONFIG or an operator wallet)
+ */
+export interface SignerSettings {
+  backend: 'env' | 'keystore' | 'remote';
+  privateKey?: string;
+  keystorePath?: string;
+  keystorePasswordFile?: string;
+  remoteUrl?: string;
+  remoteAuthToken?: string;
+  remoteTimeoutMs: number;
+  expectedAddress?: string;
+}
+
+/**
+ * Read a secret file (trailing newline stripped), warning on loose permissions
+ */
+function readSecretFile(path: string): string {
+  const stats = fs.statSync(path);
+
+  if (process.platform !== 'win32' && (stats.mode & 0o077) !== 0) {
+    logger.warn('⚠️  Secret file is readable by group/others - chmod 600 recommended', { path });
+  }
+
+  return fs.readFileSync(path, 'utf-8').replace(/\r?\n$/, '');
+}
+
+async function loadKeystoreSigner(settings: SignerSettings, provider: ethers.Provider): Promise<RelayerSigner> {
+  const keystorePath = settings.keystorePath!;
+
+  if (!fs.existsSync(keystorePath)) {
+    throw new Error(`Keystore not found at ${keystorePath}`);
+  }
+
+  const keystore = fs.readFileSync(keystorePath, 'utf-8');
+  const password = readSecretFile(settings.keystorePasswordFile!);
+
+  // scrypt - takes a few seconds by design
+  const wallet = await ethers.Wallet.fromEncryptedJson(keystore, password);
+
+  return wallet.connect(provider);
+}
+
+/**
+ * Create a signer from backend settings, connected to the provider
+ */
+export async function createSignerFromSettings(
+  settings: SignerSettings,
+  provider: ethers.Provider,
+  label: string
+): Promise<RelayerSigner> {
+  let signer: RelayerSigner;
+
+  switch (settings.backend) {
+    case 'keystore':
+      signer = await loadKeystoreSigner(settings, provider);
+      break;
+
+    case 'remote':
+      signer = await RemoteSigner.create({
+        url: settings.remoteUrl!,
+        authToken: settings.remoteAuthToken,
+        timeoutMs: settings.remoteTimeoutMs
+      }, provider);
+      break;
+
+    case 'env':
+      logger.warn(`⚠️  Signing ${label} with a plaintext private key (backend env) - development only`);
+      signer = new ethers.Wallet(settings.privateKey!, provider);
+      break;
+  }
+
+  if (settings.expectedAddress && ethers.getAddress(settings.expectedAddress) !== signer.address) {
+    throw new Error(`Signer address ${signer.address} (${label}) does not match the expected address ${settings.expectedAddress}`);
+  }
+
+  return signer;
+}
+
+/**
+ * Create the owner signer for SIGNER_BACKEND, connected to the provider
+ */
+export async function createSigner(provider: ethers.Provider): Promise<RelayerSigner> {
+  return createSignerFromSettings(SIGNER_CONFIG, provider, 'owner');
+}
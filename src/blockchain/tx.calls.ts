@@ -0,0 +1,107 @@
+/**
+ * Contract Calls - Map a job type + job data to the RifasPlatform call it sends
+ *
+ * Single source for the worker executors (what gets signed) and the
+ * simulator (what gets eth_call'd for pre-flight checks and dry runs),
+ * so a dry run always simulates exactly what the worker would send.
+ */
+
+import { ethers } from 'ethers';
+
+export interface ContractCall {
+  method: string;
+  args: any[];
+  gasBufferPercent?: number;   // Estimate gas and add this margin (complex calls)
+}
+
+/**
+ * Job types sent through the queue plus the direct-send emergency routes
+ */
+export type ContractCallType =
+  | 'create-raffle'
+  | 'execute-raffle'
+  | 'cancel-raffle'
+  | 'execute-refund'
+  | 'retry-randomness'
+  | 'pause-contract'
+  | 'unpause-contract'
+  | 'add-to-blocklist'
+  | 'add-to-blocklist-batch'
+  | 'remove-from-blocklist'
+  | 'withdraw-fees'
+  | 'archive-raffles'
+  | 'emergency-pause'
+  | 'emergency-unpause'
+  | 'transfer-ownership'
+  | 'renounce-ownership';
+
+/**
+ * Build the contract call for a job
+ * Throws for unknown types (same as the worker)
+ */
+export function buildContractCall(type: string, data: any): ContractCall {
+  switch (type) {
+    case 'create-raffle':
+      return {
+        method: 'createRaffle',
+        args: [
+          BigInt(data.templateId),
+          BigInt(data.referenceId),
+          ethers.parseUnits(data.ticketPrice, 18),
+          BigInt(data.maxTickets),
+          BigInt(data.minTickets),
+          BigInt(data.durationSeconds)
+        ]
+      };
+
+    case 'execute-raffle':
+      // Complex VRF request - estimate with +20% buffer
+      return { method: 'executeRaffle', args: [BigInt(data.raffleId)], gasBufferPercent: 20 };
+
+    case 'cancel-raffle':
+      return { method: 'cancelRaffle', args: [BigInt(data.raffleId)], gasBufferPercent: 20 };
+
+    case 'execute-refund':
+      return { method: 'executeRefundBatch', args: [BigInt(data.raffleId)], gasBufferPercent: 20 };
+
+    case 'retry-randomness':
+      // New VRF request - same buffer as executeRaffle
+      return { method: 'retryRandomness', args: [BigInt(data.raffleId)], gasBufferPercent: 20 };
+
+    case 'pause-contract':
+      return { method: 'pause', args: [] };
+
+    case 'unpause-contract':
+      return { method: 'unpause', args: [] };
+
+    case 'add-to-blocklist':
+      return { method: 'addToBlocklist', args: [data.address, data.reason] };
+
+    case 'add-to-blocklist-batch':
+      return { method: 'addToBlocklistBatch', args: [data.addresses, data.reasons] };
+
+    case 'remove-from-blocklist':
+      return { method: 'removeFromBlocklist', args: [data.address] };
+
+    case 'withdraw-fees':
+      return { method: 'withdrawPlatformFees', args: [] };
+
+    case 'archive-raffles':
+      return { method: 'archiveRaffles', args: [data.raffleIds] };
+
+    case 'emergency-pause':
+      return { method: 'emergencyPause', args: [] };
+
+    case 'emergency-unpause':
+      return { method: 'emergencyUnpause', args: [] };
+
+    case 'transfer-ownership':
+      return { method: 'transferOwnership', args: [data.newOwner] };
+
+    case 'renounce-ownership':
+      return { method: 'renounceOwnership', args: [] };
+
+    default:
+      throw new Error(`Unknown transaction type: ${type}`);
+  }
+}
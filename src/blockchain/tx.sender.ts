@@ -0,0 +1,196 @@
+/**
+ * Transaction Sender - Single path for every signed contract call
+ *
+ * SUBMISSION (serialized per wallet, in pickup order):
+ * - simulate → estimate gas → fees → allocate nonce → sign → broadcast → record in TxTracker
+ * - A call that would revert fails here (decoded reason, no gas spent)
+ * - Gas limit and fees follow the job type's caps (gas.strategy.ts)
+ * - Explicit nonce from the NonceManager (never ethers' implicit getNonce)
+ * - A job that already has a pending/mined broadcast is RESUMED, never
+ *   resubmitted (retries after a timeout cannot run the action twice)
+ *
+ * CONFIRMATION (concurrent, decoupled):
+ * - Each job waits for its own nonce to be consumed (tx.tracker.ts),
+ *   bumping fees if it gets stuck
+ * - Several jobs can be broadcast before the first one is mined
+ *
+ * Used by the worker executors AND direct-send routes (emergency pause)
+ * so both draw from the same nonce sequence.
+ *
+ * WALLETS:
+ * - Each hot wallet (wallet.pool.ts) has its own nonce lane and its own
+ *   submission lock - wallets submit in parallel, each one in order
+ */
+
+import { ethers } from 'ethers';
+import { contract } from '../index.js';
+import { OWNER_WALLET_ID } from '../config/wallets.js';
+import { getWallet } from './wallet.pool.js';
+import {
+  getTrackedTransaction,
+  clearTrackedTransaction,
+  trackBroadcast,
+  waitUntilMined
+} from './tx.tracker.js';
+import { simulateContractCall } from './tx.simulator.js';
+import { getFeeParams, enforceGasLimitCap, getGasCaps } from './gas.strategy.js';
+import { toClassifiedError } from './error.classifier.js';
+import { recordGasCost } from '../monitoring/balance.monitor.js';
+import { observeMinedTransaction } from '../monitoring/metrics.js';
+import logger from '../utils/logger.js';
+
+export interface SubmittedTransaction {
+  jobId: string;
+  walletId: string;        // Wallet whose nonce lane the tx uses
+  jobType: string;
+  broadcastAt: number;     // First broadcast (ms epoch, confirmation latency)
+  nonce: number;
+  txHash: string;          // First broadcast (replacements may change the mined hash)
+  resumed: boolean;        // True if an earlier attempt already broadcast this job
+}
+
+export interface SubmitOptions {
+  jobType: string;             // Selects gas caps (see gas.strategy.ts)
+  gasBufferPercent?: number;   // Margin added to the gas estimate
+  walletId?: string;           // Signing wallet (default: owner)
+}
+
+// Promise chains used as in-process mutexes for submissions (one per wallet)
+const submissionTails = new Map<string, Promise<unknown>>();
+
+function withSubmissionLock<T>(walletId: string, fn: () => Promise<T>): Promise<T> {
+  const run = (submissionTails.get(walletId) ?? Promise.resolve()).then(fn, fn);
+  submissionTails.set(walletId, run.catch(() => undefined));
+  return run;
+}
+
+/**
+ * Transaction was mined but reverted (CALL_EXCEPTION with the receipt)
+ */
+export function isRevertError(error: any): boolean {
+  return error?.code === 'CALL_EXCEPTION' && !!error.receipt;
+}
+
+/**
+ * Sign and broadcast a contract call with an allocated nonce
+ * On failure before broadcast the nonce is released
+ */
+export async function submitContractTransaction(
+  jobId: string,
+  method: string,
+  args: any[],
+  options: SubmitOptions
+): Promise<SubmittedTransaction> {
+  const wallet = getWallet(options.walletId ?? OWNER_WALLET_ID);
+  const { signer, nonceManager } = wallet;
+
+  // Retry of a job already broadcast: keep following the same nonce
+  const tracked = await getTrackedTransaction(jobId);
+  if (tracked && tracked.status !== 'failed') {
+    logger.warn('[TxSender] ♻️  Resuming tracked transaction (not resubmitting)', {
+      jobId,
+      nonce: tracked.nonce,
+      status: tracked.status,
+      broadcasts: tracked.broadcasts.length
+    });
+
+    return {
+      jobId,
+      walletId: wallet.id,
+      jobType: options.jobType,
+      broadcastAt: Date.parse(tracked.broadcasts[0].broadcastAt),
+      nonce: tracked.nonce,
+      txHash: tracked.broadcasts[0].hash,
+      resumed: true
+    };
+  }
+
+  if (tracked) {
+    // Previous attempt lost its nonce (cancelled / consumed) - start over
+    await clearTrackedTransaction(jobId);
+  }
+
+  return withSubmissionLock(wallet.id, async () => {
+    // Pre-flight: eth_call against pending state before anything is signed
+    // (inside the lock, so the wallet's previous submission is already pending)
+    const simulation = await simulateContractCall(method, args, { signer });
+    if (!simulation.success) {
+      logger.warn('[TxSender] 🧪 Simulation failed, not broadcasting', {
+        jobId,
+        method,
+        wallet: wallet.id,
+        errorClass: simulation.classification!.errorClass,
+        reason: simulation.classification!.reason
+      });
+
+      throw toClassifiedError(simulation.error, simulation.classification!);
+    }
+
+    const request = await (contract.connect(signer) as ethers.Contract)[method].populateTransaction(...args);
+
+    const gasEstimate = await signer.estimateGas(request);
+    const gasLimit = gasEstimate * BigInt(100 + (options.gasBufferPercent ?? 0)) / 100n;
+    enforceGasLimitCap(options.jobType, gasLimit);
+
+    const { mode: _mode, currentFee: _currentFee, ...fees } = await getFeeParams(options.jobType);
+
+    const nonce = await nonceManager.allocate(jobId);
+
+    let populated: ethers.TransactionLike<string>;
+    let tx: ethers.TransactionResponse;
+    try {
+      populated = await signer.populateTransaction({ ...request, ...fees, gasLimit, nonce });
+      tx = await signer.sendTransaction(populated);
+    } catch (error: any) {
+      await nonceManager.release(nonce, jobId);
+      throw error;
+    }
+
+    await nonceManager.markBroadcast(nonce, jobId, tx.hash);
+    await trackBroadcast(jobId, populated, tx.hash, getGasCaps(options.jobType).maxFee);
+
+    logger.info('[TxSender] 📤 Transaction broadcast', {
+      jobId,
+      method,
+      wallet: wallet.id,
+      nonce,
+      txHash: tx.hash,
+      gasLimit: gasLimit.toString(),
+      ...(fees.gasPrice !== undefined
+        ? { gasPrice: fees.gasPrice.toString() }
+        : { maxFeePerGas: fees.maxFeePerGas?.toString(), maxPriorityFeePerGas: fees.maxPriorityFeePerGas?.toString() })
+    });
+
+    return {
+      jobId,
+      walletId: wallet.id,
+      jobType: options.jobType,
+      broadcastAt: Date.now(),
+      nonce,
+      txHash: tx.hash,
+      resumed: false
+    };
+  });
+}
+
+/**
+ * Wait for the receipt of a submitted transaction
+ * (whichever broadcast - original or fee-bumped replacement - gets mined)
+ * Mined costs, reverts included, feed the wallet's runway estimate and metrics
+ */
+export async function waitForConfirmation(
+  submitted: SubmittedTransaction
+): Promise<ethers.TransactionReceipt> {
+  try {
+    const receipt = await waitUntilMined(submitted.jobId);
+    observeMinedTransaction(submitted.jobType, receipt, submitted.broadcastAt);
+    await recordGasCost(submitted.walletId, receipt);
+    return receipt;
+  } catch (error: any) {
+    if (error.receipt) {
+      observeMinedTransaction(submitted.jobType, error.receipt, submitted.broadcastAt);
+      await recordGasCost(submitted.walletId, error.receipt);
+    }
+    throw error;
+  }
+}
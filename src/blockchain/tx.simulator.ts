@@ -0,0 +1,85 @@
+/**
+ * Transaction Simulator - Pre-flight eth_call against pending state
+ *
+ * WHY:
+ * - Only a few executors estimated gas before sending; the rest broadcast
+ *   blindly and paid gas for reverts (already executed, paused, blocked...)
+ *
+ * USED BY:
+ * - tx.sender.ts before every new signature (resumed jobs are not re-simulated)
+ * - POST routes with `dryRun: true` (validate without enqueuing)
+ *
+ * The call runs from the signing wallet's address with blockTag 'pending',
+ * so txs already in the mempool (earlier jobs) are taken into account.
+ */
+
+import { ethers } from 'ethers';
+import { contract } from '../index.js';
+import { WALLET_CONFIG } from '../config/app.config.js';
+import { resolveWalletRoute } from '../config/wallets.js';
+import { buildContractCall } from './tx.calls.js';
+import { classifyError, ClassifiedError } from './error.classifier.js';
+import { getWallet } from './wallet.pool.js';
+import { getRaffleRoutingKey } from './raffle.references.js';
+
+export interface SimulationResult {
+  success: boolean;
+  method: string;
+  returnValue?: string;        // Stringified static call result
+  gasEstimate?: string;        // Only when requested (dry runs)
+  classification?: ClassifiedError;
+  error?: any;                 // Original error (kept for rethrow with receipt/code)
+}
+
+export interface SimulationOptions {
+  estimateGas?: boolean;
+  signer?: ethers.Signer;      // Wallet that will sign (default: owner)
+}
+
+function stringify(value: any): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (Array.isArray(value)) return JSON.stringify(value.map(item => stringify(item)));
+  return value.toString();
+}
+
+/**
+ * Simulate a contract call - never throws, failures are classified
+ */
+export async function simulateContractCall(
+  method: string,
+  args: any[],
+  options: SimulationOptions = {}
+): Promise<SimulationResult> {
+  const target = options.signer ? (contract.connect(options.signer) as ethers.Contract) : contract;
+
+  try {
+    const returnValue = await target[method].staticCall(...args, { blockTag: 'pending' });
+
+    const gasEstimate = options.estimateGas
+      ? await target[method].estimateGas(...args, { blockTag: 'pending' })
+      : undefined;
+
+    return {
+      success: true,
+      method,
+      returnValue: stringify(returnValue),
+      gasEstimate: gasEstimate?.toString()
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      method,
+      classification: await classifyError(error),
+      error
+    };
+  }
+}
+
+/**
+ * Simulate the call a job would send (dry runs), from the wallet it is routed to
+ */
+export async function simulateJob(type: string, data: any): Promise<SimulationResult> {
+  const call = buildContractCall(type, data);
+  const wallet = getWallet(await resolveWalletRoute(WALLET_CONFIG.routes, type, data, getRaffleRoutingKey));
+  return simulateContractCall(call.method, call.args, { estimateGas: true, signer: wallet.signer });
+}
@@ -0,0 +1,371 @@
+/**
+ * Transaction Tracker - Follows every broadcast of a job until its nonce is consumed
+ *
+ * PROBLEM:
+ * - A tx stuck in the mempool kept the job waiting until Bull's timeout
+ * - The retry then resubmitted with a fresh nonce while the original could
+ *   still be mined → the same action ran twice
+ *
+ * MODEL:
+ * - One record per logical job (relayer:txtracker:<jobId>, 7 day TTL)
+ * - Every broadcast hash points back to its job (relayer:txtracker:hash:<hash>)
+ * - Record holds the nonce, the signed request and every broadcast hash
+ * - A retry of the same job resumes the record instead of resubmitting
+ *
+ * STUCK HANDLING (same nonce, replace-by-fee):
+ * 1. No receipt after STUCK_TX_BUMP_BLOCKS → rebroadcast with fees +STUCK_TX_BUMP_PERCENT
+ * 2. After STUCK_TX_MAX_BUMPS replacements → cancel (0-value self-transfer)
+ *    (also when the next replacement would exceed the job's fee cap)
+ *
+ * OUTCOME:
+ * - Any of our hashes mined with NETWORK confirmations → success (or revert / cancelled)
+ * - Nonce consumed but none of our hashes mined (seen twice) → failed
+ *
+ * Replacements are signed by the wallet that sent the original (record.from).
+ */
+
+import { ethers } from 'ethers';
+import { provider } from '../index.js';
+import { getOwnerWallet, getWalletByAddress, HotWallet } from './wallet.pool.js';
+import { STUCK_TX_CONFIG, NETWORK_CONFIG } from '../config/app.config.js';
+import { redis, redisKey } from '../utils/redis.js';
+import logger from '../utils/logger.js';
+
+export type BroadcastKind = 'original' | 'replacement' | 'cancel';
+
+export interface BroadcastRecord {
+  hash: string;
+  kind: BroadcastKind;
+  blockNumber: number;            // Chain height when broadcast
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  broadcastAt: string;
+}
+
+export interface TrackedRequest {
+  to: string;
+  data: string;
+  value: string;
+  gasLimit: string;
+  chainId: string;
+  type: number;
+}
+
+export interface TrackedTransaction {
+  jobId: string;
+  from: string;
+  nonce: number;
+  request: TrackedRequest;
+  feeCap?: string;                // Max fee per gas for replacements (gas.strategy.ts)
+  broadcasts: BroadcastRecord[];
+  status: 'pending' | 'mined' | 'failed';
+  minedHash?: string;
+  failure?: string;
+  nonceConsumedSeenAt?: string;   // First time the nonce was seen consumed without our receipt
+  createdAt: string;
+}
+
+const RECORD_TTL_SECONDS = 7 * 24 * 60 * 60;
+const CANCEL_GAS_LIMIT = 21000n;
+
+// In-process waits per job (a timed-out job and its retry share one poll loop)
+const activeWaits = new Map<string, Promise<ethers.TransactionReceipt>>();
+
+function recordKey(jobId: string): string {
+  return redisKey('txtracker', jobId);
+}
+
+function hashKey(txHash: string): string {
+  return redisKey('txtracker', 'hash', txHash.toLowerCase());
+}
+
+async function saveRecord(record: TrackedTransaction): Promise<void> {
+  const multi = redis.multi().set(recordKey(record.jobId), JSON.stringify(record), 'EX', RECORD_TTL_SECONDS);
+
+  // hash → job, so mined events can be traced back to the job (event indexer)
+  for (const broadcast of record.broadcasts) {
+    multi.set(hashKey(broadcast.hash), record.jobId, 'EX', RECORD_TTL_SECONDS);
+  }
+
+  await multi.exec();
+}
+
+function feeFields(tx: ethers.TransactionLike): Pick<BroadcastRecord, 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'> {
+  return {
+    gasPrice: tx.gasPrice != null ? tx.gasPrice.toString() : undefined,
+    maxFeePerGas: tx.maxFeePerGas != null ? tx.maxFeePerGas.toString() : undefined,
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas != null ? tx.maxPriorityFeePerGas.toString() : undefined
+  };
+}
+
+function bump(value: bigint, current?: bigint | null): bigint {
+  const bumped = value * BigInt(100 + STUCK_TX_CONFIG.bumpPercent) / 100n + 1n;
+  // Never replace below what the network currently asks for
+  return current != null && current > bumped ? current : bumped;
+}
+
+/**
+ * Wallet that owns the record's nonce
+ */
+function walletFor(record: TrackedTransaction): HotWallet {
+  return getWalletByAddress(record.from) ?? getOwnerWallet();
+}
+
+/**
+ * Get the tracking record for a job (undefined if never broadcast)
+ */
+export async function getTrackedTransaction(jobId: string): Promise<TrackedTransaction | undefined> {
+  const raw = await redis.get(recordKey(jobId));
+  return raw ? JSON.parse(raw) as TrackedTransaction : undefined;
+}
+
+/**
+ * Job that broadcast a transaction hash (undefined if not ours or expired)
+ */
+export async function getJobIdForTxHash(txHash: string): Promise<string | undefined> {
+  return (await redis.get(hashKey(txHash))) ?? undefined;
+}
+
+/**
+ * Forget a job's record (failed record → next attempt submits fresh)
+ */
+export async function clearTrackedTransaction(jobId: string): Promise<void> {
+  await redis.del(recordKey(jobId));
+}
+
+/**
+ * Record the first broadcast of a job
+ */
+export async function trackBroadcast(
+  jobId: string,
+  populated: ethers.TransactionLike,
+  txHash: string,
+  feeCap?: bigint
+): Promise<TrackedTransaction> {
+  const blockNumber = await provider.getBlockNumber();
+
+  const record: TrackedTransaction = {
+    jobId,
+    from: ethers.getAddress(populated.from as string),
+    nonce: Number(populated.nonce),
+    request: {
+      to: populated.to as string,
+      data: populated.data ?? '0x',
+      value: (populated.value ?? 0n).toString(),
+      gasLimit: (populated.gasLimit ?? 0n).toString(),
+      chainId: (populated.chainId ?? 0n).toString(),
+      type: populated.type ?? 2
+    },
+    feeCap: feeCap?.toString(),
+    broadcasts: [{
+      hash: txHash,
+      kind: 'original',
+      blockNumber,
+      ...feeFields(populated),
+      broadcastAt: new Date().toISOString()
+    }],
+    status: 'pending',
+    createdAt: new Date().toISOString()
+  };
+
+  await saveRecord(record);
+  return record;
+}
+
+/**
+ * Rebroadcast at the same nonce with higher fees (replacement or cancel)
+ */
+async function rebroadcast(record: TrackedTransaction, kind: 'replacement' | 'cancel'): Promise<void> {
+  const wallet = walletFor(record);
+  const last = record.broadcasts[record.broadcasts.length - 1];
+  const feeData = await provider.getFeeData();
+
+  const fees: ethers.TransactionLike = last.maxFeePerGas !== undefined
+    ? {
+      maxFeePerGas: bump(BigInt(last.maxFeePerGas), feeData.maxFeePerGas),
+      maxPriorityFeePerGas: bump(BigInt(last.maxPriorityFeePerGas ?? '0'), feeData.maxPriorityFeePerGas)
+    }
+    : {
+      gasPrice: bump(BigInt(last.gasPrice ?? '0'), feeData.gasPrice)
+    };
+
+  // Replacement above the job's fee cap → free the nonce instead (cancel costs 21000 gas)
+  const newFee = BigInt(fees.maxFeePerGas ?? fees.gasPrice ?? 0n);
+  if (kind === 'replacement' && record.feeCap !== undefined && newFee > BigInt(record.feeCap)) {
+    logger.warn('[TxTracker] Replacement would exceed fee cap, cancelling instead', {
+      jobId: record.jobId,
+      nonce: record.nonce,
+      fee: newFee.toString(),
+      feeCap: record.feeCap
+    });
+    kind = 'cancel';
+  }
+
+  const txRequest: ethers.TransactionRequest = kind === 'cancel'
+    ? {
+      to: record.from,
+      data: '0x',
+      value: 0n,
+      gasLimit: CANCEL_GAS_LIMIT
+    }
+    : {
+      to: record.request.to,
+      data: record.request.data,
+      value: BigInt(record.request.value),
+      gasLimit: BigInt(record.request.gasLimit)
+    };
+
+  try {
+    const tx = await wallet.signer.sendTransaction({
+      ...txRequest,
+      ...fees,
+      nonce: record.nonce,
+      chainId: BigInt(record.request.chainId),
+      type: record.request.type
+    } as ethers.TransactionRequest);
+
+    record.broadcasts.push({
+      hash: tx.hash,
+      kind,
+      blockNumber: await provider.getBlockNumber(),
+      ...feeFields(fees),
+      broadcastAt: new Date().toISOString()
+    });
+    await saveRecord(record);
+    await wallet.nonceManager.markBroadcast(record.nonce, record.jobId, tx.hash);
+
+    logger.warn(`[TxTracker] ⛽ Stuck transaction ${kind === 'cancel' ? 'CANCELLED' : 'replaced'} with higher fee`, {
+      jobId: record.jobId,
+      nonce: record.nonce,
+      previousHash: last.hash,
+      newHash: tx.hash,
+      ...feeFields(fees)
+    });
+  } catch (error: any) {
+    // 'nonce too low' / 'already known': something got mined - next poll resolves it
+    logger.warn(`[TxTracker] ${kind} broadcast rejected`, {
+      jobId: record.jobId,
+      nonce: record.nonce,
+      error: error.shortMessage || error.message
+    });
+  }
+}
+
+async function failRecord(record: TrackedTransaction, code: string, message: string): Promise<never> {
+  record.status = 'failed';
+  record.failure = message;
+  await saveRecord(record);
+  await walletFor(record).nonceManager.confirm(record.nonce);
+
+  throw Object.assign(new Error(message), { code });
+}
+
+/**
+ * No receipt for any broadcast: detect a foreign tx on our nonce or a stuck tx
+ */
+async function checkUnmined(record: TrackedTransaction): Promise<void> {
+  // Nonce consumed without any of our receipts?
+  const latestNonce = await provider.getTransactionCount(record.from, 'latest');
+  if (latestNonce > record.nonce) {
+    // Receipts can lag the nonce by a poll - require two observations
+    if (record.nonceConsumedSeenAt) {
+      await failRecord(
+        record,
+        'NONCE_CONSUMED',
+        `Nonce ${record.nonce} was consumed by a transaction not issued for job ${record.jobId}`
+      );
+    }
+
+    record.nonceConsumedSeenAt = new Date().toISOString();
+    await saveRecord(record);
+    return;
+  }
+
+  // Stuck? Replace, then cancel as last resort
+  const blockNumber = await provider.getBlockNumber();
+  const last = record.broadcasts[record.broadcasts.length - 1];
+
+  if (blockNumber - last.blockNumber >= STUCK_TX_CONFIG.bumpBlocks) {
+    const replacements = record.broadcasts.filter(b => b.kind === 'replacement').length;
+    const cancelled = record.broadcasts.some(b => b.kind === 'cancel');
+
+    if (replacements < STUCK_TX_CONFIG.maxBumps) {
+      await rebroadcast(record, 'replacement');
+    } else if (!cancelled) {
+      await rebroadcast(record, 'cancel');
+    }
+  }
+}
+
+async function pollUntilMined(jobId: string): Promise<ethers.TransactionReceipt> {
+  for (;;) {
+    const record = await getTrackedTransaction(jobId);
+
+    if (!record) {
+      throw new Error(`No tracked transaction for job ${jobId}`);
+    }
+
+    if (record.status === 'failed') {
+      throw Object.assign(new Error(record.failure || 'Tracked transaction failed'), { code: 'TX_FAILED' });
+    }
+
+    // 1. Did any of our broadcasts get mined? (newest first)
+    let awaitingConfirmations = false;
+
+    for (const broadcast of [...record.broadcasts].reverse()) {
+      const receipt = await provider.getTransactionReceipt(broadcast.hash);
+      if (!receipt) continue;
+
+      // Profile's confirmation depth (a reorg drops the receipt - polling continues)
+      if (await receipt.confirmations() < NETWORK_CONFIG.confirmations) {
+        awaitingConfirmations = true;
+        break;
+      }
+
+      record.status = 'mined';
+      record.minedHash = receipt.hash;
+      await saveRecord(record);
+      await walletFor(record).nonceManager.confirm(record.nonce);
+
+      if (broadcast.kind === 'cancel') {
+        record.status = 'failed';
+        record.failure = `Transaction cancelled: nonce ${record.nonce} consumed by self-transfer ${receipt.hash}`;
+        await saveRecord(record);
+        throw Object.assign(new Error(record.failure), { code: 'TX_CANCELLED', receipt });
+      }
+
+      if (receipt.status === 0) {
+        throw Object.assign(new Error(`Transaction reverted on-chain (${receipt.hash})`), {
+          code: 'CALL_EXCEPTION',
+          receipt
+        });
+      }
+
+      return receipt;
+    }
+
+    // 2-3. Not mined yet (waiting for depth skips nonce / stuck checks)
+    if (!awaitingConfirmations) {
+      await checkUnmined(record);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, STUCK_TX_CONFIG.pollIntervalMs));
+  }
+}
+
+/**
+ * Wait until the job's nonce is consumed
+ * - Resolves with the receipt of whichever of our broadcasts was mined
+ * - Rejects on revert (CALL_EXCEPTION), cancel (TX_CANCELLED) or foreign tx (NONCE_CONSUMED)
+ */
+export function waitUntilMined(jobId: string): Promise<ethers.TransactionReceipt> {
+  const existing = activeWaits.get(jobId);
+  if (existing) {
+    return existing;
+  }
+
+  const wait = pollUntilMined(jobId).finally(() => activeWaits.delete(jobId));
+  activeWaits.set(jobId, wait);
+  return wait;
+}
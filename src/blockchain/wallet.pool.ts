@@ -0,0 +1,99 @@
+/**
+ * Wallet Pool - Owner signer plus operator hot wallets (OPERATOR_WALLETS)
+ *
+ * Each wallet has its own NonceManager (nonce lane), queues (tx.queue.ts
+ * lanes) and submission lock (tx.sender.ts), so wallets sign and broadcast
+ * in parallel while jobs on one wallet stay ordered.
+ *
+ * The owner wallet is the index.ts signer; operators are created here with
+ * the same backends (signer.factory.ts). See config/wallets.ts for routing.
+ */
+
+import { ethers } from 'ethers';
+import { WALLET_CONFIG } from '../config/app.config.js';
+import { OWNER_WALLET_ID } from '../config/wallets.js';
+import { NonceManager } from './nonce.manager.js';
+import { createSignerFromSettings, RelayerSigner } from './signer.factory.js';
+import logger from '../utils/logger.js';
+
+export interface HotWallet {
+  id: string;
+  role: 'owner' | 'operator';
+  signer: RelayerSigner;
+  address: string;
+  nonceManager: NonceManager;
+}
+
+const wallets = new Map<string, HotWallet>();
+
+/**
+ * Register the owner wallet and unlock + nonce-sync every operator wallet
+ * (call on startup, before processing jobs)
+ */
+export async function initWalletPool(
+  owner: { signer: RelayerSigner; nonceManager: NonceManager },
+  provider: ethers.Provider
+): Promise<void> {
+  wallets.set(OWNER_WALLET_ID, {
+    id: OWNER_WALLET_ID,
+    role: 'owner',
+    signer: owner.signer,
+    address: owner.signer.address,
+    nonceManager: owner.nonceManager
+  });
+
+  for (const settings of WALLET_CONFIG.operators) {
+    const signer = await createSignerFromSettings(settings, provider, `operator ${settings.id}`);
+
+    // Two lanes on one address would hand out the same nonces
+    const duplicate = getWalletByAddress(signer.address);
+    if (duplicate) {
+      throw new Error(`Operator wallet ${settings.id} has the same address as ${duplicate.id} (${signer.address})`);
+    }
+
+    const nonceManager = new NonceManager(signer.address, provider);
+    await nonceManager.sync();
+
+    wallets.set(settings.id, {
+      id: settings.id,
+      role: 'operator',
+      signer,
+      address: signer.address,
+      nonceManager
+    });
+
+    logger.info(`   Operator wallet: ${settings.id} → ${signer.address} (${settings.backend})`);
+  }
+}
+
+/**
+ * Wallet by id (throws for unknown ids - routes are validated at startup)
+ */
+export function getWallet(walletId: string): HotWallet {
+  const wallet = wallets.get(walletId);
+
+  if (!wallet) {
+    throw new Error(`Unknown wallet: ${walletId}`);
+  }
+
+  return wallet;
+}
+
+export function getOwnerWallet(): HotWallet {
+  return getWallet(OWNER_WALLET_ID);
+}
+
+/**
+ * All wallets, owner first
+ */
+export function getWallets(): HotWallet[] {
+  return [...wallets.values()];
+}
+
+/**
+ * Wallet that signs for an address (tracked transactions store `from`)
+ */
+export function getWalletByAddress(address: string): HotWallet | undefined {
+  const normalized = address.toLowerCase();
+  return getWallets().find(wallet => wallet.address.toLowerCase() === normalized);
+}
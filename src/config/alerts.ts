@@ -0,0 +1,68 @@
+/**
+ * 🔔 ALERTING
+ * Notifiers (ALERT_NOTIFIERS) and delivery rules
+ *
+ * NOTIFIERS (JSON array, each with an optional minSeverity):
+ * - webhook → POST JSON, HMAC-signed when `secret` is set
+ * - slack   → Slack-compatible incoming webhook ({ text, blocks })
+ * - smtp    → email through an SMTP server
+ * - file    → one JSON line per alert (tests, log shipping)
+ *
+ * DELIVERY:
+ * - Same dedup key within ALERT_DEDUP_WINDOW_MS → sent once, repeats counted
+ * - At most ALERT_MAX_PER_HOUR notifications per hour (criticals included)
+ * - During ALERT_QUIET_HOURS (UTC) only criticals are sent
+ */
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+export type AlertNotifierSettings =
+  | { type: 'webhook'; name?: string; minSeverity?: AlertSeverity; url: string; secret?: string }
+  | { type: 'slack'; name?: string; minSeverity?: AlertSeverity; url: string }
+  | {
+      type: 'smtp';
+      name?: string;
+      minSeverity?: AlertSeverity;
+      host: string;
+      port?: number;
+      secure?: boolean;
+      user?: string;
+      password?: string;
+      from: string;
+      to: string[];
+    }
+  | { type: 'file'; name?: string; minSeverity?: AlertSeverity; path: string };
+
+export interface QuietHours {
+  start: number;                  // Minutes after 00:00 UTC
+  end: number;                    // May be lower than start (crosses midnight)
+}
+
+/**
+ * Parse "HH:MM-HH:MM" (UTC); undefined when malformed
+ */
+export function parseQuietHours(value: string): QuietHours | undefined {
+  const match = /^(\d{2}):(\d{2})-(\d{2}):(\d{2})$/.exec(value.trim());
+
+  if (!match) return undefined;
+
+  const [startHours, startMinutes, endHours, endMinutes] = match.slice(1).map(Number);
+
+  if (startHours > 23 || endHours > 23 || startMinutes > 59 || endMinutes > 59) return undefined;
+
+  return { start: startHours * 60 + startMinutes, end: endHours * 60 + endMinutes };
+}
+
+export function isWithinQuietHours(quietHours: QuietHours, date: Date = new Date()): boolean {
+  const minutes = date.getUTCHours() * 60 + date.getUTCMinutes();
+
+  return quietHours.start <= quietHours.end
+    ? minutes >= quietHours.start && minutes < quietHours.end
+    : minutes >= quietHours.start || minutes < quietHours.end;
+}
+
+export function severityRank(severity: AlertSeverity): number {
+  return ALERT_SEVERITIES.indexOf(severity);
+}
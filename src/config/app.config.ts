@@ -24,13 +24,160 @@ export const RATE_LIMIT_CONFIG = {
 };
 
 export const NETWORK_CONFIG = {
-  chainId: 31337, // Hardhat local
-  name: env.nodeEnv === 'production' ? 'bsc' : 'hardhat',
-  rpcUrl: env.rpcUrl
+  chainId: env.network.chainId,
+  name: env.network.name,
+  nativeSymbol: env.network.nativeSymbol,
+  confirmations: env.network.confirmations,
+  explorerTxUrl: env.network.explorerTxUrl
+};
+
+export const RPC_CONFIG = {
+  urls: env.rpcUrls,
+  healthCheckIntervalMs: env.rpcHealthCheckIntervalMs,
+  maxBlockLag: env.rpcMaxBlockLag,
+  failureThreshold: env.rpcFailureThreshold,
+  cooldownMs: env.rpcCooldownMs,
+  requestTimeoutMs: env.rpcRequestTimeoutMs,
+  quorum: env.rpcQuorum
+};
+
+export const TX_WORKER_CONFIG = {
+  concurrency: env.txWorkerConcurrency,
+  nonceGapCheckIntervalMs: env.nonceGapCheckIntervalMs,
+  nonceGapAutofill: env.nonceGapAutofill
+};
+
+export const STUCK_TX_CONFIG = {
+  bumpBlocks: env.stuckTxBumpBlocks,
+  maxBumps: env.stuckTxMaxBumps,
+  bumpPercent: env.stuckTxBumpPercent,
+  pollIntervalMs: env.txPollIntervalMs
+};
+
+export const WEBHOOK_CONFIG = {
+  enabled: env.webhookSecret !== '',
+  globalUrl: env.webhookUrl,
+  secret: env.webhookSecret,
+  maxAttempts: env.webhookMaxAttempts,
+  timeoutMs: env.webhookTimeoutMs,
+  allowedHosts: env.webhookAllowedHosts
+};
+
+export const GAS_CONFIG = {
+  pricingMode: env.gasPricingMode,
+  priorityFeeGwei: env.gasPriorityFeeGwei,
+  maxFeeGwei: env.gasMaxFeeGwei,
+  maxGasLimit: env.gasMaxGasLimit,
+  caps: env.gasCaps,
+  deferThresholdGwei: env.gasDeferThresholdGwei,
+  deferJobTypes: env.gasDeferJobTypes,
+  deferDelayMs: env.gasDeferDelayMs
+};
+
+export const IDEMPOTENCY_CONFIG = {
+  windowSeconds: env.idempotencyWindowSeconds
+};
+
+export const BALANCE_CONFIG = {
+  checkIntervalMs: env.balanceCheckIntervalMs,
+  warnThreshold: env.balanceWarnThreshold,
+  criticalThreshold: env.balanceCriticalThreshold,
+  pauseJobTypes: env.balancePauseJobTypes,
+  pauseDelayMs: env.balancePauseDelayMs,
+  runwaySamples: env.balanceRunwaySamples
+};
+
+export const HEALTH_CONFIG = {
+  windowMs: env.healthWindowMs,
+  evaluationIntervalMs: env.healthEvaluationIntervalMs,
+  minSamples: env.healthMinSamples,
+  rules: env.healthRules
+};
+
+export const ALERT_CONFIG = {
+  notifiers: env.alertNotifiers,
+  dedupWindowMs: env.alertDedupWindowMs,
+  maxPerHour: env.alertMaxPerHour,
+  quietHours: env.alertQuietHours,
+  timeoutMs: env.alertTimeoutMs
+};
+
+export const INVARIANT_CONFIG = {
+  enabled: env.invariantWatchdogEnabled,
+  checkBlocks: env.invariantCheckBlocks,
+  pollIntervalMs: env.invariantPollIntervalMs,
+  historySize: env.invariantHistorySize,
+  autoPause: env.invariantAutoPause,
+  pauseAfter: env.invariantPauseAfter,
+  pauseCooldownMs: env.invariantPauseCooldownMs
+};
+
+export const INDEXER_CONFIG = {
+  enabled: env.indexerEnabled,
+  startBlock: env.indexerStartBlock,
+  confirmations: env.indexerConfirmations,
+  batchBlocks: env.indexerBatchBlocks,
+  pollIntervalMs: env.indexerPollIntervalMs
+};
+
+export const VRF_WATCHER_CONFIG = {
+  enabled: env.vrfWatcherEnabled,
+  stuckBlocks: env.vrfStuckBlocks,
+  maxRetries: env.vrfMaxRetries,
+  intervalMs: env.vrfWatcherIntervalMs
+};
+
+export const RAFFLE_READ_CONFIG = {
+  cacheTtlMs: env.raffleCacheTtlMs
+};
+
+export const OWNERSHIP_CONFIG = {
+  confirmKey: env.ownershipConfirmKey,
+  transferDelayMs: env.ownershipTransferDelayMs,
+  confirmWindowMs: env.ownershipConfirmWindowMs,
+  renounceBreakGlass: env.ownershipRenounceBreakGlass
+};
+
+export const APPROVAL_CONFIG = {
+  enabled: env.approvers.length > 0,
+  approvers: env.approvers,
+  thresholds: env.approvalThresholds,
+  ttlMs: env.approvalTtlMs
+};
+
+export const API_KEY_CONFIG = {
+  legacyKeyEnabled: env.legacyApiKeyEnabled
+};
+
+export const EXECUTOR_CONFIG = {
+  enabled: env.executorEnabled,
+  dryRun: env.executorDryRun,
+  intervalMs: env.executorIntervalMs,
+  scanBatchSize: env.executorScanBatchSize,
+  dedupTtlSeconds: env.executorDedupTtlSeconds
+};
+
+export const SIGNER_CONFIG = {
+  backend: env.signerBackend,
+  privateKey: env.adminPrivateKey,
+  keystorePath: env.signerKeystorePath,
+  keystorePasswordFile: env.signerKeystorePasswordFile,
+  remoteUrl: env.signerRemoteUrl,
+  remoteAuthToken: env.signerRemoteAuthToken,
+  remoteTimeoutMs: env.signerRemoteTimeoutMs,
+  expectedAddress: env.signerExpectedAddress
+};
+
+// Operator wallets share the owner's remote signer timeout
+export const WALLET_CONFIG = {
+  operators: env.operatorWallets.map(wallet => ({
+    ...wallet,
+    remoteTimeoutMs: env.signerRemoteTimeoutMs
+  })),
+  routes: env.walletRoutes
 };
 
 export const CONTRACT_ADDRESS = env.contractAddress;
-export const PRIVATE_KEY = env.adminPrivateKey;
 
 // ============================================
 // STARTUP LOG
@@ -40,7 +187,10 @@ console.log('✅ Relayer configuration loaded:', {
   network: NETWORK_CONFIG.name,
   chainId: NETWORK_CONFIG.chainId,
   contractAddress: CONTRACT_ADDRESS,
+  signer: SIGNER_CONFIG.backend,
+  operatorWallets: WALLET_CONFIG.operators.length,
   port: SERVER_CONFIG.port,
   rateLimit: `${RATE_LIMIT_CONFIG.requestsPerMinute}/min`,
-  ipWhitelist: ALLOWED_IPS.length > 0 ? `${ALLOWED_IPS.length} IPs` : 'disabled'
+  ipWhitelist: ALLOWED_IPS.length > 0 ? `${ALLOWED_IPS.length} IPs` : 'disabled',
+  webhooks: WEBHOOK_CONFIG.enabled ? (WEBHOOK_CONFIG.globalUrl || 'per-request only') : 'disabled'
 });
@@ -0,0 +1,46 @@
+/**
+ * ✅ MULTI-PARTY APPROVALS
+ * Named approvers (APPROVERS) and per-action thresholds (APPROVAL_THRESHOLDS)
+ *
+ * With approvers configured, APPROVAL_ACTION_TYPES no longer run on the first
+ * request: the route stores a proposal, approvers approve or reject it with
+ * their own key (X-Approver-Key), and the job is enqueued once the action's
+ * threshold is reached. One rejection closes the proposal.
+ *
+ * - Unset APPROVERS → approvals disabled (routes enqueue immediately)
+ *
+ * WHY EMERGENCY-PAUSE IS NOT GATED:
+ * - It is the response to an exploit in progress: waiting for a second
+ *   approver while funds drain defeats its purpose
+ * - The invariant watchdog sends it on its own (INVARIANT_AUTO_PAUSE) and
+ *   could not wait for approvals either
+ * - It only stops the contract - the worst a stolen admin key can do with it
+ *   is a pause, and emergency-unpause (the way back) is gated
+ * - It stays behind system:admin, the admin IP check and the sensitive rate
+ *   limit, and raises an alert like every sensitive operation
+ */
+
+export interface ApproverSettings {
+  name: string;                   // Shown in proposals and logs
+  key: string;                    // Sent as X-Approver-Key (32+ chars)
+}
+
+export type ApprovalThresholds = Record<string, number>;
+
+/**
+ * Job types that need approvals (when APPROVERS is set)
+ */
+export const APPROVAL_ACTION_TYPES: readonly string[] = [
+  'pause-contract',
+  'unpause-contract',
+  'emergency-unpause',
+  'add-to-blocklist',
+  'add-to-blocklist-batch',
+  'remove-from-blocklist',
+  'withdraw-fees',
+  'archive-raffles'
+];
+
+export const APPROVER_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,31}$/;
+
+export const MIN_APPROVER_KEY_LENGTH = 32;
@@ -8,13 +8,49 @@
 
 import dotenv from 'dotenv';
 import logger from '../utils/logger.js';
+import {
+  NetworkProfile,
+  NetworkProfileName,
+  NETWORK_PROFILES,
+  NETWORK_PROFILE_NAMES,
+  CUSTOM_NETWORK_DEFAULTS
+} from './networks.js';
+import {
+  OperatorWalletSettings,
+  WalletRoutes,
+  OWNER_WALLET_ID,
+  OWNER_ONLY_JOB_TYPES,
+  WALLET_ID_PATTERN
+} from './wallets.js';
+import { HealthRules, HEALTH_RULE_IDS, DEFAULT_HEALTH_RULES, isHealthRuleId } from './health.js';
+import { AlertNotifierSettings, QuietHours, ALERT_SEVERITIES, parseQuietHours } from './alerts.js';
+import {
+  ApproverSettings,
+  ApprovalThresholds,
+  APPROVAL_ACTION_TYPES,
+  APPROVER_NAME_PATTERN,
+  MIN_APPROVER_KEY_LENGTH
+} from './approvals.js';
 
 // Load .env file FIRST (before any validation)
 dotenv.config();
 
+export type SignerBackend = 'env' | 'keystore' | 'remote';
+
 interface EnvironmentConfig {
-  // Critical: Admin wallet with contract ownership
-  adminPrivateKey: string;
+  // Critical: Signer holding contract ownership (see blockchain/signer.factory.ts)
+  signerBackend: SignerBackend;
+  adminPrivateKey?: string;           // env backend (dev only)
+  signerKeystorePath?: string;        // keystore backend
+  signerKeystorePasswordFile?: string;
+  signerRemoteUrl?: string;           // remote backend (http(s):// or unix://)
+  signerRemoteAuthToken?: string;
+  signerRemoteTimeoutMs: number;
+  signerExpectedAddress?: string;     // Optional pin for any backend
+  
+  // Operator hot wallets and job routing (see config/wallets.ts)
+  operatorWallets: OperatorWalletSettings[];
+  walletRoutes: WalletRoutes;
   
   // Critical: Relayer API authentication
   relayerApiKey: string;
@@ -22,12 +58,15 @@ interface EnvironmentConfig {
   // Critical: Redis for transaction queue
   redisUrl: string;
   
-  // Critical: Blockchain RPC endpoint
-  rpcUrl: string;
+  // Critical: Blockchain RPC endpoints (RPC_URLS, or RPC_URL alone)
+  rpcUrls: string[];
   
   // Critical: Smart contract address
   contractAddress: string;
   
+  // Network profile (chain id, confirmations, gas defaults, explorer)
+  network: NetworkProfile;
+  
   // Environment
   nodeEnv: 'development' | 'production' | 'test';
   
@@ -41,6 +80,113 @@ interface EnvironmentConfig {
   
   // Logging
   logLevel: string;
+  
+  // Webhooks (optional - disabled when WEBHOOK_SECRET is empty)
+  webhookUrl: string;
+  webhookSecret: string;
+  webhookMaxAttempts: number;
+  webhookTimeoutMs: number;
+  webhookAllowedHosts: string[];      // Hosts a per-request callbackUrl may target (empty = any public host)
+  
+  // Transaction worker
+  txWorkerConcurrency: number;
+  nonceGapCheckIntervalMs: number;
+  nonceGapAutofill: boolean;
+  txJobTimeoutMs: number;
+  
+  // Stuck transaction handling
+  stuckTxBumpBlocks: number;
+  stuckTxMaxBumps: number;
+  stuckTxBumpPercent: number;
+  txPollIntervalMs: number;
+  
+  // Gas strategy
+  gasPricingMode: 'auto' | 'eip1559' | 'legacy';
+  gasPriorityFeeGwei?: string;
+  gasMaxFeeGwei: string;
+  gasMaxGasLimit: number;
+  gasCaps: Record<string, { maxFeeGwei?: string; gasLimit?: number }>;
+  gasDeferThresholdGwei: string;
+  gasDeferJobTypes: string[];
+  gasDeferDelayMs: number;
+  
+  // Idempotency keys
+  idempotencyWindowSeconds: number;
+  
+  // Signer balance monitoring
+  balanceCheckIntervalMs: number;
+  balanceWarnThreshold: string;       // Native currency units
+  balanceCriticalThreshold: string;
+  balancePauseJobTypes: string[];
+  balancePauseDelayMs: number;
+  balanceRunwaySamples: number;
+  
+  // Sliding-window queue health (see config/health.ts)
+  healthWindowMs: number;
+  healthEvaluationIntervalMs: number;
+  healthMinSamples: number;
+  healthRules: HealthRules;
+  
+  // Alerting (see config/alerts.ts)
+  alertNotifiers: AlertNotifierSettings[];
+  alertDedupWindowMs: number;
+  alertMaxPerHour: number;
+  alertQuietHours?: QuietHours;
+  alertTimeoutMs: number;
+  
+  // Accounting invariant watchdog
+  invariantWatchdogEnabled: boolean;
+  invariantCheckBlocks: number;
+  invariantPollIntervalMs: number;
+  invariantHistorySize: number;
+  invariantAutoPause: boolean;
+  invariantPauseAfter: number;        // Consecutive violated readings
+  invariantPauseCooldownMs: number;
+  
+  // Event indexer
+  indexerEnabled: boolean;
+  indexerStartBlock?: number;         // Unset → chain head on first run
+  indexerConfirmations: number;
+  indexerBatchBlocks: number;
+  indexerPollIntervalMs: number;
+  
+  // VRF watcher (raffles stuck in DRAWING)
+  vrfWatcherEnabled: boolean;
+  vrfStuckBlocks: number;
+  vrfMaxRetries: number;
+  vrfWatcherIntervalMs: number;
+  
+  // Raffle reads (GET /raffles*)
+  raffleCacheTtlMs: number;           // 0 = no cache
+  
+  // Ownership transfer (two-step)
+  ownershipConfirmKey?: string;       // Second credential for confirmations (unset → confirmations disabled)
+  ownershipTransferDelayMs: number;
+  ownershipConfirmWindowMs: number;
+  ownershipRenounceBreakGlass: boolean;
+  
+  // Multi-party approvals (see config/approvals.ts)
+  approvers: ApproverSettings[];      // Empty → approvals disabled
+  approvalThresholds: ApprovalThresholds;
+  approvalTtlMs: number;
+  
+  // API keys (see auth/key.registry.ts)
+  legacyApiKeyEnabled: boolean;       // RELAYER_API_KEY accepted as client "legacy" (every scope)
+  
+  // RPC failover and quorum reads
+  rpcHealthCheckIntervalMs: number;
+  rpcMaxBlockLag: number;
+  rpcFailureThreshold: number;
+  rpcCooldownMs: number;
+  rpcRequestTimeoutMs: number;
+  rpcQuorum: number;
+  
+  // Automatic raffle executor
+  executorEnabled: boolean;
+  executorDryRun: boolean;
+  executorIntervalMs: number;
+  executorScanBatchSize: number;
+  executorDedupTtlSeconds: number;
 }
 
 /**
@@ -72,6 +218,449 @@ function getOptionalEnv(key: string, defaultValue: string): string {
   return value.trim();
 }
 
+/**
+ * Resolve the signer backend settings (SIGNER_BACKEND)
+ * Production must pick keystore or remote - a plaintext env key is dev only
+ */
+function loadSignerSettings(nodeEnv: string): Pick<
+  EnvironmentConfig,
+  | 'signerBackend'
+  | 'adminPrivateKey'
+  | 'signerKeystorePath'
+  | 'signerKeystorePasswordFile'
+  | 'signerRemoteUrl'
+  | 'signerRemoteAuthToken'
+  | 'signerRemoteTimeoutMs'
+  | 'signerExpectedAddress'
+> {
+  const signerBackend = (nodeEnv === 'production'
+    ? getRequiredEnv('SIGNER_BACKEND')
+    : getOptionalEnv('SIGNER_BACKEND', 'env')) as SignerBackend;
+  
+  if (!['env', 'keystore', 'remote'].includes(signerBackend)) {
+    logger.error('❌ FATAL: SIGNER_BACKEND must be env, keystore or remote');
+    process.exit(1);
+  }
+  
+  if (signerBackend === 'env' && nodeEnv === 'production') {
+    logger.error('❌ FATAL: SIGNER_BACKEND=env (plaintext ADMIN_PRIVATE_KEY) is refused in production');
+    logger.error('   Use SIGNER_BACKEND=keystore or SIGNER_BACKEND=remote');
+    process.exit(1);
+  }
+  
+  if (signerBackend !== 'env' && process.env.ADMIN_PRIVATE_KEY?.trim()) {
+    logger.warn(`⚠️  ADMIN_PRIVATE_KEY is set but ignored (SIGNER_BACKEND=${signerBackend}) - remove it from the environment`);
+  }
+  
+  const signerExpectedAddress = process.env.SIGNER_ADDRESS?.trim() || undefined;
+  if (signerExpectedAddress && !/^0x[a-fA-F0-9]{40}$/.test(signerExpectedAddress)) {
+    logger.error('❌ FATAL: SIGNER_ADDRESS must be 0x followed by 40 hex characters');
+    process.exit(1);
+  }
+  
+  const signerRemoteTimeoutMs = parseInt(getOptionalEnv('SIGNER_REMOTE_TIMEOUT_MS', '10000'), 10);
+  
+  if (signerBackend === 'env') {
+    const adminPrivateKey = getRequiredEnv('ADMIN_PRIVATE_KEY');
+    
+    // Validate private key format (0x + 64 hex chars)
+    if (!/^0x[a-fA-F0-9]{64}$/.test(adminPrivateKey)) {
+      logger.error('❌ FATAL: ADMIN_PRIVATE_KEY must be 0x followed by 64 hex characters');
+      process.exit(1);
+    }
+    
+    return { signerBackend, adminPrivateKey, signerRemoteTimeoutMs, signerExpectedAddress };
+  }
+  
+  if (signerBackend === 'keystore') {
+    return {
+      signerBackend,
+      signerKeystorePath: getRequiredEnv('SIGNER_KEYSTORE_PATH'),
+      signerKeystorePasswordFile: getRequiredEnv('SIGNER_KEYSTORE_PASSWORD_FILE'),
+      signerRemoteTimeoutMs,
+      signerExpectedAddress
+    };
+  }
+  
+  const signerRemoteUrl = getRequiredEnv('SIGNER_REMOTE_URL');
+  
+  if (!/^(https?|unix):\/\//.test(signerRemoteUrl)) {
+    logger.error('❌ FATAL: SIGNER_REMOTE_URL must start with http://, https:// or unix://');
+    process.exit(1);
+  }
+  
+  if (nodeEnv === 'production' && signerRemoteUrl.startsWith('http://') && !/^http:\/\/(127\.0\.0\.1|localhost)[:/]/.test(signerRemoteUrl)) {
+    logger.error('❌ FATAL: SIGNER_REMOTE_URL must use https:// or a unix socket in production (plain http only to localhost)');
+    process.exit(1);
+  }
+  
+  return {
+    signerBackend,
+    signerRemoteUrl,
+    signerRemoteAuthToken: process.env.SIGNER_REMOTE_AUTH_TOKEN?.trim() || undefined,
+    signerRemoteTimeoutMs,
+    signerExpectedAddress
+  };
+}
+
+/**
+ * HEALTH_RULES overrides merged over DEFAULT_HEALTH_RULES
+ */
+function loadHealthRules(): HealthRules {
+  let overrides: Record<string, any>;
+  
+  try {
+    overrides = JSON.parse(getOptionalEnv('HEALTH_RULES', '{}'));
+  } catch {
+    logger.error('❌ FATAL: HEALTH_RULES must be valid JSON, e.g. {"failure-rate":{"warning":5,"critical":20}}');
+    process.exit(1);
+  }
+  
+  if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+    logger.error('❌ FATAL: HEALTH_RULES must be a JSON object of rule → {warning, critical}');
+    process.exit(1);
+  }
+  
+  const rules = structuredClone(DEFAULT_HEALTH_RULES);
+  
+  for (const [id, override] of Object.entries(overrides)) {
+    if (!isHealthRuleId(id)) {
+      logger.error(`❌ FATAL: HEALTH_RULES "${id}" is not a rule (${HEALTH_RULE_IDS.join(', ')})`);
+      process.exit(1);
+    }
+    
+    const rule = rules[id];
+    
+    for (const level of ['warning', 'critical'] as const) {
+      const value = override?.[level];
+      
+      if (value === undefined) continue;
+      
+      if (value !== null && (typeof value !== 'number' || !isFinite(value) || value < 0)) {
+        logger.error(`❌ FATAL: HEALTH_RULES "${id}".${level} must be a non-negative number or null`);
+        process.exit(1);
+      }
+      
+      rule[level] = value;
+    }
+    
+    if (rule.warning !== null && rule.critical !== null && rule.critical < rule.warning) {
+      logger.error(`❌ FATAL: HEALTH_RULES "${id}" critical must not be below warning`);
+      process.exit(1);
+    }
+  }
+  
+  return rules;
+}
+
+/**
+ * ALERT_NOTIFIERS (JSON array) with per-type required fields
+ */
+function loadAlertNotifiers(): AlertNotifierSettings[] {
+  let notifiers: any[];
+  
+  try {
+    notifiers = JSON.parse(getOptionalEnv('ALERT_NOTIFIERS', '[]'));
+  } catch {
+    logger.error('❌ FATAL: ALERT_NOTIFIERS must be valid JSON, e.g. [{"type":"slack","url":"https://hooks.slack.com/services/..."}]');
+    process.exit(1);
+  }
+  
+  if (!Array.isArray(notifiers)) {
+    logger.error('❌ FATAL: ALERT_NOTIFIERS must be a JSON array');
+    process.exit(1);
+  }
+  
+  const required: Record<AlertNotifierSettings['type'], string[]> = {
+    webhook: ['url'],
+    slack: ['url'],
+    smtp: ['host', 'from'],
+    file: ['path']
+  };
+  
+  notifiers.forEach((notifier, index) => {
+    const label = notifier?.name ?? `#${index}`;
+    
+    if (!(notifier?.type in required)) {
+      logger.error(`❌ FATAL: ALERT_NOTIFIERS ${label} type must be webhook, slack, smtp or file`);
+      process.exit(1);
+    }
+    
+    for (const field of required[notifier.type as AlertNotifierSettings['type']]) {
+      if (typeof notifier[field] !== 'string' || notifier[field].trim() === '') {
+        logger.error(`❌ FATAL: ALERT_NOTIFIERS ${label} (${notifier.type}) requires ${field}`);
+        process.exit(1);
+      }
+    }
+    
+    if (notifier.url && !/^https?:\/\//.test(notifier.url)) {
+      logger.error(`❌ FATAL: ALERT_NOTIFIERS ${label} url must start with http:// or https://`);
+      process.exit(1);
+    }
+    
+    if (notifier.type === 'smtp' && (!Array.isArray(notifier.to) || notifier.to.length === 0)) {
+      logger.error(`❌ FATAL: ALERT_NOTIFIERS ${label} (smtp) requires a non-empty "to" array`);
+      process.exit(1);
+    }
+    
+    if (notifier.minSeverity !== undefined && !ALERT_SEVERITIES.includes(notifier.minSeverity)) {
+      logger.error(`❌ FATAL: ALERT_NOTIFIERS ${label} minSeverity must be ${ALERT_SEVERITIES.join(', ')}`);
+      process.exit(1);
+    }
+  });
+  
+  return notifiers;
+}
+
+/**
+ * Resolve approvers (APPROVERS) and the threshold of every gated action
+ * (APPROVAL_THRESHOLDS over APPROVAL_DEFAULT_THRESHOLD)
+ */
+function loadApprovals(otherKeys: Array<string | undefined>): Pick<EnvironmentConfig, 'approvers' | 'approvalThresholds'> {
+  let approvers: any[];
+  let overrides: Record<string, any>;
+  
+  try {
+    approvers = JSON.parse(getOptionalEnv('APPROVERS', '[]'));
+  } catch {
+    logger.error('❌ FATAL: APPROVERS must be valid JSON, e.g. [{"name":"alice","key":"..."},{"name":"bob","key":"..."}]');
+    process.exit(1);
+  }
+  
+  try {
+    overrides = JSON.parse(getOptionalEnv('APPROVAL_THRESHOLDS', '{}'));
+  } catch {
+    logger.error('❌ FATAL: APPROVAL_THRESHOLDS must be valid JSON, e.g. {"withdraw-fees":3,"archive-raffles":1}');
+    process.exit(1);
+  }
+  
+  if (!Array.isArray(approvers)) {
+    logger.error('❌ FATAL: APPROVERS must be a JSON array');
+    process.exit(1);
+  }
+  
+  const names = new Set<string>();
+  const keys = new Set<string>(otherKeys.filter((key): key is string => key !== undefined));
+  
+  for (const approver of approvers) {
+    const name = approver?.name;
+    
+    if (typeof name !== 'string' || !APPROVER_NAME_PATTERN.test(name)) {
+      logger.error(`❌ FATAL: APPROVERS name "${name}" must be 1-32 lowercase letters, digits, . _ or -`);
+      process.exit(1);
+    }
+    
+    if (names.has(name)) {
+      logger.error(`❌ FATAL: APPROVERS name "${name}" is used twice`);
+      process.exit(1);
+    }
+    names.add(name);
+    
+    // Each approver is a distinct credential (not shared with another approver or RELAYER_API_KEY)
+    if (typeof approver.key !== 'string' || approver.key.length < MIN_APPROVER_KEY_LENGTH || keys.has(approver.key)) {
+      logger.error(`❌ FATAL: APPROVERS "${name}" key must be at least ${MIN_APPROVER_KEY_LENGTH} characters and unique (not RELAYER_API_KEY or OWNERSHIP_CONFIRM_KEY)`);
+      process.exit(1);
+    }
+    keys.add(approver.key);
+  }
+  
+  if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+    logger.error('❌ FATAL: APPROVAL_THRESHOLDS must be a JSON object of job type → approvals');
+    process.exit(1);
+  }
+  
+  const approvalThresholds: ApprovalThresholds = {};
+  
+  if (approvers.length === 0) {
+    return { approvers: [], approvalThresholds };
+  }
+  
+  const defaultThreshold = parseInt(getOptionalEnv('APPROVAL_DEFAULT_THRESHOLD', Math.min(2, approvers.length).toString()), 10);
+  
+  for (const type of APPROVAL_ACTION_TYPES) {
+    approvalThresholds[type] = defaultThreshold;
+  }
+  
+  for (const [type, threshold] of Object.entries(overrides)) {
+    if (type === 'emergency-pause') {
+      logger.error('❌ FATAL: APPROVAL_THRESHOLDS cannot gate emergency-pause (it stays single-approver)');
+      process.exit(1);
+    }
+    
+    if (!APPROVAL_ACTION_TYPES.includes(type)) {
+      logger.error(`❌ FATAL: APPROVAL_THRESHOLDS "${type}" must be one of ${APPROVAL_ACTION_TYPES.join(', ')}`);
+      process.exit(1);
+    }
+    
+    approvalThresholds[type] = threshold;
+  }
+  
+  for (const [type, threshold] of Object.entries(approvalThresholds)) {
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > approvers.length) {
+      logger.error(`❌ FATAL: approval threshold for "${type}" (APPROVAL_THRESHOLDS / APPROVAL_DEFAULT_THRESHOLD) must be between 1 and the number of APPROVERS (${approvers.length})`);
+      process.exit(1);
+    }
+  }
+  
+  return {
+    approvers: approvers as ApproverSettings[],
+    approvalThresholds
+  };
+}
+
+/**
+ * Resolve operator wallets (OPERATOR_WALLETS) and job routing (WALLET_ROUTES)
+ * Same backend rules as the owner signer; owner-pinned types cannot be routed
+ */
+function loadWalletPool(nodeEnv: string): Pick<EnvironmentConfig, 'operatorWallets' | 'walletRoutes'> {
+  let operatorWallets: OperatorWalletSettings[];
+  let walletRoutes: WalletRoutes;
+  
+  try {
+    operatorWallets = JSON.parse(getOptionalEnv('OPERATOR_WALLETS', '[]'));
+  } catch {
+    logger.error('❌ FATAL: OPERATOR_WALLETS must be valid JSON, e.g. [{"id":"op1","backend":"keystore","keystorePath":"...","keystorePasswordFile":"..."}]');
+    process.exit(1);
+  }
+  
+  try {
+    walletRoutes = JSON.parse(getOptionalEnv('WALLET_ROUTES', '{}'));
+  } catch {
+    logger.error('❌ FATAL: WALLET_ROUTES must be valid JSON, e.g. {"create-raffle":["op1","op2"],"execute-refund-batch":"op3"}');
+    process.exit(1);
+  }
+  
+  if (!Array.isArray(operatorWallets)) {
+    logger.error('❌ FATAL: OPERATOR_WALLETS must be a JSON array');
+    process.exit(1);
+  }
+  
+  const ids = new Set<string>();
+  
+  for (const wallet of operatorWallets) {
+    const id = wallet?.id;
+    
+    if (typeof id !== 'string' || !WALLET_ID_PATTERN.test(id) || id === OWNER_WALLET_ID) {
+      logger.error(`❌ FATAL: OPERATOR_WALLETS id "${id}" must be 1-16 lowercase letters/digits and not "${OWNER_WALLET_ID}"`);
+      process.exit(1);
+    }
+    
+    if (ids.has(id)) {
+      logger.error(`❌ FATAL: OPERATOR_WALLETS id "${id}" is used twice`);
+      process.exit(1);
+    }
+    ids.add(id);
+    
+    if (!['env', 'keystore', 'remote'].includes(wallet.backend)) {
+      logger.error(`❌ FATAL: OPERATOR_WALLETS "${id}" backend must be env, keystore or remote`);
+      process.exit(1);
+    }
+    
+    if (wallet.backend === 'env' && nodeEnv === 'production') {
+      logger.error(`❌ FATAL: OPERATOR_WALLETS "${id}" uses backend env (plaintext key) - refused in production`);
+      process.exit(1);
+    }
+    
+    const required: Array<keyof OperatorWalletSettings> = wallet.backend === 'env'
+      ? ['privateKey']
+      : wallet.backend === 'keystore' ? ['keystorePath', 'keystorePasswordFile'] : ['remoteUrl'];
+    
+    for (const field of required) {
+      const value = wallet[field];
+      if (typeof value !== 'string' || value.trim() === '') {
+        logger.error(`❌ FATAL: OPERATOR_WALLETS "${id}" (${wallet.backend}) requires ${field}`);
+        process.exit(1);
+      }
+    }
+    
+    if (wallet.remoteUrl && !/^(https?|unix):\/\//.test(wallet.remoteUrl)) {
+      logger.error(`❌ FATAL: OPERATOR_WALLETS "${id}" remoteUrl must start with http://, https:// or unix://`);
+      process.exit(1);
+    }
+    
+    if (wallet.expectedAddress && !/^0x[a-fA-F0-9]{40}$/.test(wallet.expectedAddress)) {
+      logger.error(`❌ FATAL: OPERATOR_WALLETS "${id}" expectedAddress must be 0x followed by 40 hex characters`);
+      process.exit(1);
+    }
+  }
+  
+  if (typeof walletRoutes !== 'object' || walletRoutes === null || Array.isArray(walletRoutes)) {
+    logger.error('❌ FATAL: WALLET_ROUTES must be a JSON object of job type → wallet id(s)');
+    process.exit(1);
+  }
+  
+  for (const [type, route] of Object.entries(walletRoutes)) {
+    const targets = Array.isArray(route) ? route : [route];
+    
+    if (targets.length === 0 || targets.some(target => target !== OWNER_WALLET_ID && !ids.has(target))) {
+      logger.error(`❌ FATAL: WALLET_ROUTES "${type}" must name wallets from OPERATOR_WALLETS (or "${OWNER_WALLET_ID}")`);
+      process.exit(1);
+    }
+    
+    // onlyOwner calls would revert from any other wallet
+    if (OWNER_ONLY_JOB_TYPES.has(type) && targets.some(target => target !== OWNER_WALLET_ID)) {
+      logger.error(`❌ FATAL: WALLET_ROUTES cannot route "${type}" away from the owner wallet (owner-only contract method)`);
+      process.exit(1);
+    }
+  }
+  
+  return {
+    operatorWallets,
+    walletRoutes
+  };
+}
+
+/**
+ * Resolve the NETWORK profile (+ optional CONFIRMATIONS / EXPLORER_TX_URL overrides)
+ * Production must select a network explicitly
+ */
+function loadNetworkProfile(nodeEnv: string): NetworkProfile {
+  const name = (nodeEnv === 'production'
+    ? getRequiredEnv('NETWORK')
+    : getOptionalEnv('NETWORK', 'hardhat')) as NetworkProfileName;
+  
+  if (!NETWORK_PROFILE_NAMES.includes(name)) {
+    logger.error(`❌ FATAL: NETWORK must be one of ${NETWORK_PROFILE_NAMES.join(', ')}`);
+    process.exit(1);
+  }
+  
+  let profile: NetworkProfile;
+  
+  if (name === 'custom') {
+    const chainId = parseInt(getRequiredEnv('CHAIN_ID'), 10);
+    
+    if (isNaN(chainId) || chainId < 1) {
+      logger.error('❌ FATAL: CHAIN_ID must be a positive integer');
+      process.exit(1);
+    }
+    
+    profile = {
+      ...CUSTOM_NETWORK_DEFAULTS,
+      name: getOptionalEnv('NETWORK_NAME', CUSTOM_NETWORK_DEFAULTS.name),
+      nativeSymbol: getOptionalEnv('NATIVE_SYMBOL', CUSTOM_NETWORK_DEFAULTS.nativeSymbol),
+      chainId
+    };
+  } else {
+    profile = { ...NETWORK_PROFILES[name] };
+  }
+  
+  const confirmations = parseInt(getOptionalEnv('CONFIRMATIONS', profile.confirmations.toString()), 10);
+  
+  if (isNaN(confirmations) || confirmations < 1) {
+    logger.error('❌ FATAL: CONFIRMATIONS must be a positive integer');
+    process.exit(1);
+  }
+  
+  const explorerTxUrl = process.env.EXPLORER_TX_URL?.trim() || profile.explorerTxUrl;
+  
+  if (explorerTxUrl && !explorerTxUrl.includes('{txHash}')) {
+    logger.error('❌ FATAL: EXPLORER_TX_URL must contain the {txHash} placeholder');
+    process.exit(1);
+  }
+  
+  return { ...profile, confirmations, explorerTxUrl };
+}
+
 /**
  * Validate and load all environment variables
  * Crashes immediately if critical vars are missing
@@ -80,17 +669,13 @@ export function loadEnvironment(): EnvironmentConfig {
   logger.info('🔧 Loading environment configuration...');
   
   // Critical variables - MUST be set, no defaults
-  const adminPrivateKey = getRequiredEnv('ADMIN_PRIVATE_KEY');
   const relayerApiKey = getRequiredEnv('RELAYER_API_KEY');
   const redisUrl = getRequiredEnv('REDIS_URL');
-  const rpcUrl = getRequiredEnv('RPC_URL');
+  const rpcUrlsStr = process.env.RPC_URLS?.trim() || getRequiredEnv('RPC_URL');
   const contractAddress = getRequiredEnv('CONTRACT_ADDRESS');
-  
-  // Validate private key format (0x + 64 hex chars)
-  if (!/^0x[a-fA-F0-9]{64}$/.test(adminPrivateKey)) {
-    logger.error('❌ FATAL: ADMIN_PRIVATE_KEY must be 0x followed by 64 hex characters');
-    process.exit(1);
-  }
+  const nodeEnv = getOptionalEnv('NODE_ENV', 'development') as 'development' | 'production' | 'test';
+  const signer = loadSignerSettings(nodeEnv);
+  const walletPool = loadWalletPool(nodeEnv);
   
   // Validate contract address format
   if (!/^0x[a-fA-F0-9]{40}$/.test(contractAddress)) {
@@ -105,12 +690,319 @@ export function loadEnvironment(): EnvironmentConfig {
   }
   
   // Optional variables with explicit defaults
-  const nodeEnv = getOptionalEnv('NODE_ENV', 'development') as 'development' | 'production' | 'test';
+  const network = loadNetworkProfile(nodeEnv);
   const port = parseInt(getOptionalEnv('PORT', '3002'), 10);
   const host = getOptionalEnv('HOST', '0.0.0.0');
   const logLevel = getOptionalEnv('LOG_LEVEL', 'info');
   const allowedIpsStr = getOptionalEnv('ALLOWED_IPS', '');
   const rateLimitStr = getOptionalEnv('RATE_LIMIT_PER_MINUTE', '10');
+  const webhookUrl = getOptionalEnv('WEBHOOK_URL', '');
+  const webhookSecret = getOptionalEnv('WEBHOOK_SECRET', '');
+  const webhookMaxAttempts = parseInt(getOptionalEnv('WEBHOOK_MAX_ATTEMPTS', '6'), 10);
+  const webhookTimeoutMs = parseInt(getOptionalEnv('WEBHOOK_TIMEOUT_MS', '5000'), 10);
+  const webhookAllowedHostsStr = getOptionalEnv('WEBHOOK_ALLOWED_HOSTS', '');
+  
+  const txWorkerConcurrency = parseInt(getOptionalEnv('TX_WORKER_CONCURRENCY', '4'), 10);
+  const nonceGapCheckIntervalMs = parseInt(getOptionalEnv('NONCE_GAP_CHECK_INTERVAL_MS', '60000'), 10);
+  const nonceGapAutofill = getOptionalEnv('NONCE_GAP_AUTOFILL', 'true') === 'true';
+  const txJobTimeoutMs = parseInt(getOptionalEnv('TX_JOB_TIMEOUT_MS', '900000'), 10);
+  const stuckTxBumpBlocks = parseInt(getOptionalEnv('STUCK_TX_BUMP_BLOCKS', '10'), 10);
+  const stuckTxMaxBumps = parseInt(getOptionalEnv('STUCK_TX_MAX_BUMPS', '3'), 10);
+  const stuckTxBumpPercent = parseInt(getOptionalEnv('STUCK_TX_BUMP_PERCENT', '15'), 10);
+  const txPollIntervalMs = parseInt(getOptionalEnv('TX_POLL_INTERVAL_MS', '3000'), 10);
+  const gasPricingMode = getOptionalEnv('GAS_PRICING_MODE', network.gas.pricingMode) as EnvironmentConfig['gasPricingMode'];
+  const gasPriorityFeeGwei = getOptionalEnv('GAS_PRIORITY_FEE_GWEI', '') || undefined;
+  const gasMaxFeeGwei = getOptionalEnv('GAS_MAX_FEE_GWEI', network.gas.maxFeeGwei);
+  const gasMaxGasLimit = parseInt(getOptionalEnv('GAS_MAX_GAS_LIMIT', '3000000'), 10);
+  const gasCapsStr = getOptionalEnv('GAS_CAPS', '{}');
+  const gasDeferThresholdGwei = getOptionalEnv('GAS_DEFER_THRESHOLD_GWEI', network.gas.deferThresholdGwei);
+  const gasDeferJobTypesStr = getOptionalEnv('GAS_DEFER_JOB_TYPES', 'archive-raffles,withdraw-fees');
+  const gasDeferDelayMs = parseInt(getOptionalEnv('GAS_DEFER_DELAY_MS', '600000'), 10);
+  const idempotencyWindowSeconds = parseInt(getOptionalEnv('IDEMPOTENCY_WINDOW_SECONDS', '86400'), 10);
+  const balanceCheckIntervalMs = parseInt(getOptionalEnv('BALANCE_CHECK_INTERVAL_MS', '60000'), 10);
+  const balanceWarnThreshold = getOptionalEnv('BALANCE_WARN_THRESHOLD', '0.05');
+  const balanceCriticalThreshold = getOptionalEnv('BALANCE_CRITICAL_THRESHOLD', '0.01');
+  const balancePauseJobTypesStr = getOptionalEnv('BALANCE_PAUSE_JOB_TYPES', 'create-raffle,archive-raffles,withdraw-fees');
+  const balancePauseDelayMs = parseInt(getOptionalEnv('BALANCE_PAUSE_DELAY_MS', '900000'), 10);
+  const balanceRunwaySamples = parseInt(getOptionalEnv('BALANCE_RUNWAY_SAMPLES', '20'), 10);
+  const healthWindowMs = parseInt(getOptionalEnv('HEALTH_WINDOW_MS', '300000'), 10);
+  const healthEvaluationIntervalMs = parseInt(getOptionalEnv('HEALTH_EVALUATION_INTERVAL_MS', '30000'), 10);
+  const healthMinSamples = parseInt(getOptionalEnv('HEALTH_MIN_SAMPLES', '10'), 10);
+  const alertDedupWindowMs = parseInt(getOptionalEnv('ALERT_DEDUP_WINDOW_MS', '900000'), 10);
+  const alertMaxPerHour = parseInt(getOptionalEnv('ALERT_MAX_PER_HOUR', '30'), 10);
+  const alertQuietHoursStr = getOptionalEnv('ALERT_QUIET_HOURS', '');
+  const alertTimeoutMs = parseInt(getOptionalEnv('ALERT_TIMEOUT_MS', '5000'), 10);
+  const invariantWatchdogEnabled = getOptionalEnv('INVARIANT_WATCHDOG_ENABLED', 'true') === 'true';
+  const invariantCheckBlocks = parseInt(getOptionalEnv('INVARIANT_CHECK_BLOCKS', '20'), 10);
+  const invariantPollIntervalMs = parseInt(getOptionalEnv('INVARIANT_POLL_INTERVAL_MS', '15000'), 10);
+  const invariantHistorySize = parseInt(getOptionalEnv('INVARIANT_HISTORY_SIZE', '10000'), 10);
+  const invariantAutoPause = getOptionalEnv('INVARIANT_AUTO_PAUSE', 'false') === 'true';
+  const invariantPauseAfter = parseInt(getOptionalEnv('INVARIANT_PAUSE_AFTER', '2'), 10);
+  const invariantPauseCooldownMs = parseInt(getOptionalEnv('INVARIANT_PAUSE_COOLDOWN_MS', '3600000'), 10);
+  const indexerEnabled = getOptionalEnv('INDEXER_ENABLED', 'true') === 'true';
+  const indexerStartBlockStr = getOptionalEnv('INDEXER_START_BLOCK', '');
+  const indexerConfirmations = parseInt(getOptionalEnv('INDEXER_CONFIRMATIONS', network.confirmations.toString()), 10);
+  const indexerBatchBlocks = parseInt(getOptionalEnv('INDEXER_BATCH_BLOCKS', '2000'), 10);
+  const indexerPollIntervalMs = parseInt(getOptionalEnv('INDEXER_POLL_INTERVAL_MS', '15000'), 10);
+  const vrfWatcherEnabled = getOptionalEnv('VRF_WATCHER_ENABLED', 'true') === 'true';
+  const vrfStuckBlocks = parseInt(getOptionalEnv('VRF_STUCK_BLOCKS', '300'), 10);
+  const vrfMaxRetries = parseInt(getOptionalEnv('VRF_MAX_RETRIES', '3'), 10);
+  const vrfWatcherIntervalMs = parseInt(getOptionalEnv('VRF_WATCHER_INTERVAL_MS', '60000'), 10);
+  const raffleCacheTtlMs = parseInt(getOptionalEnv('RAFFLE_CACHE_TTL_MS', '5000'), 10);
+  const ownershipConfirmKey = getOptionalEnv('OWNERSHIP_CONFIRM_KEY', '') || undefined;
+  const ownershipTransferDelayMs = parseInt(getOptionalEnv('OWNERSHIP_TRANSFER_DELAY_MS', '86400000'), 10);
+  const ownershipConfirmWindowMs = parseInt(getOptionalEnv('OWNERSHIP_CONFIRM_WINDOW_MS', '86400000'), 10);
+  const ownershipRenounceBreakGlass = getOptionalEnv('OWNERSHIP_RENOUNCE_BREAK_GLASS', 'false') === 'true';
+  const approvals = loadApprovals([relayerApiKey, ownershipConfirmKey]);
+  const approvalTtlMs = parseInt(getOptionalEnv('APPROVAL_TTL_MS', '86400000'), 10);
+  const legacyApiKeyEnabled = getOptionalEnv('LEGACY_API_KEY_ENABLED', 'true') === 'true';
+  const rpcHealthCheckIntervalMs = parseInt(getOptionalEnv('RPC_HEALTH_CHECK_INTERVAL_MS', '15000'), 10);
+  const rpcMaxBlockLag = parseInt(getOptionalEnv('RPC_MAX_BLOCK_LAG', '3'), 10);
+  const rpcFailureThreshold = parseInt(getOptionalEnv('RPC_FAILURE_THRESHOLD', '3'), 10);
+  const rpcCooldownMs = parseInt(getOptionalEnv('RPC_COOLDOWN_MS', '30000'), 10);
+  const rpcRequestTimeoutMs = parseInt(getOptionalEnv('RPC_REQUEST_TIMEOUT_MS', '10000'), 10);
+  const rpcQuorum = parseInt(getOptionalEnv('RPC_QUORUM', '1'), 10);
+  const executorEnabled = getOptionalEnv('EXECUTOR_ENABLED', 'true') === 'true';
+  const executorDryRun = getOptionalEnv('EXECUTOR_DRY_RUN', 'false') === 'true';
+  const executorIntervalMs = parseInt(getOptionalEnv('EXECUTOR_INTERVAL_MS', '300000'), 10);
+  const executorScanBatchSize = parseInt(getOptionalEnv('EXECUTOR_SCAN_BATCH_SIZE', '100'), 10);
+  const executorDedupTtlSeconds = parseInt(getOptionalEnv('EXECUTOR_DEDUP_TTL_SECONDS', '3600'), 10);
+  
+  if (isNaN(txWorkerConcurrency) || txWorkerConcurrency < 1) {
+    logger.error('❌ FATAL: TX_WORKER_CONCURRENCY must be a positive integer');
+    process.exit(1);
+  }
+  
+  if (!['auto', 'eip1559', 'legacy'].includes(gasPricingMode)) {
+    logger.error('❌ FATAL: GAS_PRICING_MODE must be auto, eip1559 or legacy');
+    process.exit(1);
+  }
+  
+  let gasCaps: EnvironmentConfig['gasCaps'];
+  try {
+    gasCaps = JSON.parse(gasCapsStr);
+  } catch {
+    logger.error('❌ FATAL: GAS_CAPS must be valid JSON, e.g. {"create-raffle":{"maxFeeGwei":"20","gasLimit":600000}}');
+    process.exit(1);
+  }
+  
+  const gasDeferJobTypes = gasDeferJobTypesStr
+    .split(',')
+    .map(type => type.trim())
+    .filter(type => type.length > 0);
+  
+  if (isNaN(idempotencyWindowSeconds) || idempotencyWindowSeconds < 1) {
+    logger.error('❌ FATAL: IDEMPOTENCY_WINDOW_SECONDS must be a positive integer');
+    process.exit(1);
+  }
+  
+  if (!/^\d+(\.\d+)?$/.test(balanceWarnThreshold) || !/^\d+(\.\d+)?$/.test(balanceCriticalThreshold)) {
+    logger.error('❌ FATAL: BALANCE_WARN_THRESHOLD and BALANCE_CRITICAL_THRESHOLD must be decimal amounts (native currency), e.g. 0.05');
+    process.exit(1);
+  }
+  
+  if (parseFloat(balanceCriticalThreshold) > parseFloat(balanceWarnThreshold)) {
+    logger.error('❌ FATAL: BALANCE_CRITICAL_THRESHOLD must not exceed BALANCE_WARN_THRESHOLD');
+    process.exit(1);
+  }
+  
+  if (isNaN(balanceCheckIntervalMs) || balanceCheckIntervalMs < 1000) {
+    logger.error('❌ FATAL: BALANCE_CHECK_INTERVAL_MS must be at least 1000');
+    process.exit(1);
+  }
+  
+  if (isNaN(balanceRunwaySamples) || balanceRunwaySamples < 1) {
+    logger.error('❌ FATAL: BALANCE_RUNWAY_SAMPLES must be a positive integer');
+    process.exit(1);
+  }
+  
+  const balancePauseJobTypes = balancePauseJobTypesStr
+    .split(',')
+    .map(type => type.trim())
+    .filter(type => type.length > 0);
+  
+  if (isNaN(healthWindowMs) || healthWindowMs < 60000) {
+    logger.error('❌ FATAL: HEALTH_WINDOW_MS must be at least 60000');
+    process.exit(1);
+  }
+  
+  if (isNaN(healthEvaluationIntervalMs) || healthEvaluationIntervalMs < 1000) {
+    logger.error('❌ FATAL: HEALTH_EVALUATION_INTERVAL_MS must be at least 1000');
+    process.exit(1);
+  }
+  
+  if (isNaN(healthMinSamples) || healthMinSamples < 1) {
+    logger.error('❌ FATAL: HEALTH_MIN_SAMPLES must be a positive integer');
+    process.exit(1);
+  }
+  
+  const healthRules = loadHealthRules();
+  
+  if (isNaN(alertDedupWindowMs) || alertDedupWindowMs < 0) {
+    logger.error('❌ FATAL: ALERT_DEDUP_WINDOW_MS must be a non-negative integer');
+    process.exit(1);
+  }
+  
+  if (isNaN(alertMaxPerHour) || alertMaxPerHour < 1) {
+    logger.error('❌ FATAL: ALERT_MAX_PER_HOUR must be a positive integer');
+    process.exit(1);
+  }
+  
+  if (isNaN(alertTimeoutMs) || alertTimeoutMs < 1000) {
+    logger.error('❌ FATAL: ALERT_TIMEOUT_MS must be at least 1000');
+    process.exit(1);
+  }
+  
+  const alertQuietHours = alertQuietHoursStr ? parseQuietHours(alertQuietHoursStr) : undefined;
+  
+  if (alertQuietHoursStr && !alertQuietHours) {
+    logger.error('❌ FATAL: ALERT_QUIET_HOURS must be HH:MM-HH:MM in UTC, e.g. 22:00-07:00');
+    process.exit(1);
+  }
+  
+  const alertNotifiers = loadAlertNotifiers();
+  
+  if (isNaN(invariantCheckBlocks) || invariantCheckBlocks < 1) {
+    logger.error('❌ FATAL: INVARIANT_CHECK_BLOCKS must be a positive integer');
+    process.exit(1);
+  }
+  
+  if (isNaN(invariantPollIntervalMs) || invariantPollIntervalMs < 1000) {
+    logger.error('❌ FATAL: INVARIANT_POLL_INTERVAL_MS must be at least 1000');
+    process.exit(1);
+  }
+  
+  if (isNaN(invariantHistorySize) || invariantHistorySize < 1) {
+    logger.error('❌ FATAL: INVARIANT_HISTORY_SIZE must be a positive integer');
+    process.exit(1);
+  }
+  
+  if (isNaN(invariantPauseAfter) || invariantPauseAfter < 1) {
+    logger.error('❌ FATAL: INVARIANT_PAUSE_AFTER must be a positive integer');
+    process.exit(1);
+  }
+  
+  if (isNaN(invariantPauseCooldownMs) || invariantPauseCooldownMs < 0) {
+    logger.error('❌ FATAL: INVARIANT_PAUSE_COOLDOWN_MS must be a non-negative integer');
+    process.exit(1);
+  }
+  
+  const indexerStartBlock = indexerStartBlockStr ? parseInt(indexerStartBlockStr, 10) : undefined;
+  
+  if (indexerStartBlock !== undefined && (isNaN(indexerStartBlock) || indexerStartBlock < 0)) {
+    logger.error('❌ FATAL: INDEXER_START_BLOCK must be a block number (e.g. the contract deployment block)');
+    process.exit(1);
+  }
+  
+  if (isNaN(indexerConfirmations) || indexerConfirmations < 0) {
+    logger.error('❌ FATAL: INDEXER_CONFIRMATIONS must be a non-negative integer');
+    process.exit(1);
+  }
+  
+  if (isNaN(indexerBatchBlocks) || indexerBatchBlocks < 1) {
+    logger.error('❌ FATAL: INDEXER_BATCH_BLOCKS must be a positive integer');
+    process.exit(1);
+  }
+  
+  if (isNaN(indexerPollIntervalMs) || indexerPollIntervalMs < 1000) {
+    logger.error('❌ FATAL: INDEXER_POLL_INTERVAL_MS must be at least 1000');
+    process.exit(1);
+  }
+  
+  if (isNaN(vrfStuckBlocks) || vrfStuckBlocks < 1) {
+    logger.error('❌ FATAL: VRF_STUCK_BLOCKS must be a positive integer');
+    process.exit(1);
+  }
+  
+  if (isNaN(vrfMaxRetries) || vrfMaxRetries < 0) {
+    logger.error('❌ FATAL: VRF_MAX_RETRIES must be a non-negative integer (0 = alert only)');
+    process.exit(1);
+  }
+  
+  if (isNaN(vrfWatcherIntervalMs) || vrfWatcherIntervalMs < 1000) {
+    logger.error('❌ FATAL: VRF_WATCHER_INTERVAL_MS must be at least 1000');
+    process.exit(1);
+  }
+  
+  if (isNaN(raffleCacheTtlMs) || raffleCacheTtlMs < 0) {
+    logger.error('❌ FATAL: RAFFLE_CACHE_TTL_MS must be a non-negative integer (0 disables the cache)');
+    process.exit(1);
+  }
+  
+  if (ownershipConfirmKey !== undefined && (ownershipConfirmKey.length < 32 || ownershipConfirmKey === relayerApiKey)) {
+    logger.error('❌ FATAL: OWNERSHIP_CONFIRM_KEY must be at least 32 characters and differ from RELAYER_API_KEY');
+    process.exit(1);
+  }
+  
+  if (isNaN(ownershipTransferDelayMs) || ownershipTransferDelayMs < 0) {
+    logger.error('❌ FATAL: OWNERSHIP_TRANSFER_DELAY_MS must be a non-negative integer');
+    process.exit(1);
+  }
+  
+  if (isNaN(ownershipConfirmWindowMs) || ownershipConfirmWindowMs < 60000) {
+    logger.error('❌ FATAL: OWNERSHIP_CONFIRM_WINDOW_MS must be at least 60000 (1 minute)');
+    process.exit(1);
+  }
+  
+  if (isNaN(approvalTtlMs) || approvalTtlMs < 60000) {
+    logger.error('❌ FATAL: APPROVAL_TTL_MS must be at least 60000 (1 minute)');
+    process.exit(1);
+  }
+  
+  // Nodes reject replacements that raise fees by less than 10%
+  if (isNaN(stuckTxBumpPercent) || stuckTxBumpPercent < 10) {
+    logger.error('❌ FATAL: STUCK_TX_BUMP_PERCENT must be at least 10 (node replacement rule)');
+    process.exit(1);
+  }
+  
+  if (isNaN(stuckTxBumpBlocks) || stuckTxBumpBlocks < 1) {
+    logger.error('❌ FATAL: STUCK_TX_BUMP_BLOCKS must be a positive integer');
+    process.exit(1);
+  }
+  
+  const rpcUrls = rpcUrlsStr
+    .split(',')
+    .map(url => url.trim())
+    .filter(url => url.length > 0);
+  
+  if (rpcUrls.some(url => !/^https?:\/\//.test(url))) {
+    logger.error('❌ FATAL: RPC_URLS / RPC_URL entries must start with http:// or https://');
+    process.exit(1);
+  }
+  
+  if (isNaN(rpcQuorum) || rpcQuorum < 1 || rpcQuorum > rpcUrls.length) {
+    logger.error(`❌ FATAL: RPC_QUORUM must be between 1 and the number of RPC endpoints (${rpcUrls.length})`);
+    process.exit(1);
+  }
+  
+  if (isNaN(rpcFailureThreshold) || rpcFailureThreshold < 1) {
+    logger.error('❌ FATAL: RPC_FAILURE_THRESHOLD must be a positive integer');
+    process.exit(1);
+  }
+  
+  // Webhook deliveries are always signed - a URL without a secret is a misconfiguration
+  if (webhookUrl && !webhookSecret) {
+    logger.error('❌ FATAL: WEBHOOK_URL is set but WEBHOOK_SECRET is empty (deliveries must be signed)');
+    process.exit(1);
+  }
+  
+  if (webhookUrl && !/^https?:\/\//.test(webhookUrl)) {
+    logger.error('❌ FATAL: WEBHOOK_URL must start with http:// or https://');
+    process.exit(1);
+  }
+  
+  // Exact hosts or *.domain wildcards, compared lowercase
+  const webhookAllowedHosts = webhookAllowedHostsStr
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(host => host.length > 0);
+  
+  for (const host of webhookAllowedHosts) {
+    if (!/^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(host)) {
+      logger.error(`❌ FATAL: WEBHOOK_ALLOWED_HOSTS entry "${host}" must be a host name or *.domain`);
+      process.exit(1);
+    }
+  }
   
   // Parse allowed IPs
   const allowedIps = allowedIpsStr
@@ -121,17 +1013,91 @@ export function loadEnvironment(): EnvironmentConfig {
   const rateLimitPerMinute = parseInt(rateLimitStr, 10);
   
   const config: EnvironmentConfig = {
-    adminPrivateKey,
+    ...signer,
+    ...walletPool,
+    ...approvals,
     relayerApiKey,
     redisUrl,
-    rpcUrl,
+    rpcUrls,
     contractAddress,
+    network,
     nodeEnv,
     port,
     host,
     allowedIps,
     rateLimitPerMinute,
     logLevel,
+    webhookUrl,
+    webhookSecret,
+    webhookMaxAttempts,
+    webhookTimeoutMs,
+    webhookAllowedHosts,
+    txWorkerConcurrency,
+    nonceGapCheckIntervalMs,
+    nonceGapAutofill,
+    txJobTimeoutMs,
+    stuckTxBumpBlocks,
+    stuckTxMaxBumps,
+    stuckTxBumpPercent,
+    txPollIntervalMs,
+    gasPricingMode,
+    gasPriorityFeeGwei,
+    gasMaxFeeGwei,
+    gasMaxGasLimit,
+    gasCaps,
+    gasDeferThresholdGwei,
+    gasDeferJobTypes,
+    gasDeferDelayMs,
+    idempotencyWindowSeconds,
+    balanceCheckIntervalMs,
+    balanceWarnThreshold,
+    balanceCriticalThreshold,
+    balancePauseJobTypes,
+    balancePauseDelayMs,
+    balanceRunwaySamples,
+    healthWindowMs,
+    healthEvaluationIntervalMs,
+    healthMinSamples,
+    healthRules,
+    alertNotifiers,
+    alertDedupWindowMs,
+    alertMaxPerHour,
+    alertQuietHours,
+    alertTimeoutMs,
+    invariantWatchdogEnabled,
+    invariantCheckBlocks,
+    invariantPollIntervalMs,
+    invariantHistorySize,
+    invariantAutoPause,
+    invariantPauseAfter,
+    invariantPauseCooldownMs,
+    indexerEnabled,
+    indexerStartBlock,
+    indexerConfirmations,
+    indexerBatchBlocks,
+    indexerPollIntervalMs,
+    vrfWatcherEnabled,
+    vrfStuckBlocks,
+    vrfMaxRetries,
+    vrfWatcherIntervalMs,
+    raffleCacheTtlMs,
+    ownershipConfirmKey,
+    ownershipTransferDelayMs,
+    ownershipConfirmWindowMs,
+    ownershipRenounceBreakGlass,
+    approvalTtlMs,
+    legacyApiKeyEnabled,
+    rpcHealthCheckIntervalMs,
+    rpcMaxBlockLag,
+    rpcFailureThreshold,
+    rpcCooldownMs,
+    rpcRequestTimeoutMs,
+    rpcQuorum,
+    executorEnabled,
+    executorDryRun,
+    executorIntervalMs,
+    executorScanBatchSize,
+    executorDedupTtlSeconds,
   };
   
   // Log loaded config (NEVER log sensitive values)
@@ -140,13 +1106,47 @@ export function loadEnvironment(): EnvironmentConfig {
     port: config.port,
     host: config.host,
     redisUrl: config.redisUrl,
-    rpcUrl: config.rpcUrl.substring(0, 30) + '...',
+    rpcUrls: config.rpcUrls.map(url => url.substring(0, 30) + '...'),
+    rpc: `quorum ${config.rpcQuorum}, stale after ${config.rpcMaxBlockLag} blocks behind`,
     contractAddress: config.contractAddress,
+    network: `${config.network.name} (chain ${config.network.chainId}, ${config.network.confirmations} confirmations)`,
     allowedIps: config.allowedIps.length > 0 ? config.allowedIps : 'disabled (allow all)',
     rateLimitPerMinute: config.rateLimitPerMinute,
     logLevel: config.logLevel,
-    adminPrivateKey: '***REDACTED***',
-    relayerApiKey: '***REDACTED***'
+    webhookUrl: config.webhookUrl || 'disabled',
+    webhookAllowedHosts: config.webhookAllowedHosts.length > 0 ? config.webhookAllowedHosts : 'any public host',
+    txWorkerConcurrency: config.txWorkerConcurrency,
+    gas: `${config.gasPricingMode} (cap ${config.gasMaxFeeGwei} gwei, defer ${config.gasDeferJobTypes.join('/') || 'none'} above ${config.gasDeferThresholdGwei} gwei)`,
+    balance: `warn < ${config.balanceWarnThreshold}, critical < ${config.balanceCriticalThreshold} ${config.network.nativeSymbol} (pauses ${config.balancePauseJobTypes.join('/') || 'none'})`,
+    health: `window ${config.healthWindowMs}ms, evaluated every ${config.healthEvaluationIntervalMs}ms`,
+    alerts: config.alertNotifiers.length > 0
+      ? `${config.alertNotifiers.map(notifier => notifier.name || notifier.type).join(', ')}${alertQuietHoursStr ? ` (quiet ${alertQuietHoursStr} UTC)` : ''}`
+      : 'disabled (logs only)',
+    invariantWatchdog: config.invariantWatchdogEnabled
+      ? `every ${config.invariantCheckBlocks} blocks (auto-pause ${config.invariantAutoPause ? `after ${config.invariantPauseAfter} violations` : 'off'})`
+      : 'disabled',
+    indexer: config.indexerEnabled
+      ? `from block ${config.indexerStartBlock ?? 'head'}, ${config.indexerConfirmations} confirmations`
+      : 'disabled',
+    vrfWatcher: config.vrfWatcherEnabled
+      ? `retry after ${config.vrfStuckBlocks} blocks, max ${config.vrfMaxRetries} retries`
+      : 'disabled',
+    approvals: config.approvers.length > 0
+      ? `${config.approvers.map(approver => approver.name).join(', ')} (${Object.entries(config.approvalThresholds).map(([type, threshold]) => `${type} ${threshold}`).join(', ')})`
+      : 'disabled (sensitive routes run on the first request)',
+    stuckTx: `bump +${config.stuckTxBumpPercent}% after ${config.stuckTxBumpBlocks} blocks (max ${config.stuckTxMaxBumps})`,
+    executor: config.executorEnabled
+      ? `every ${config.executorIntervalMs}ms${config.executorDryRun ? ' (dry-run)' : ''}`
+      : 'disabled',
+    signer: `${config.signerBackend}${config.signerExpectedAddress ? ` (pinned ${config.signerExpectedAddress})` : ''}`,
+    operatorWallets: config.operatorWallets.length > 0
+      ? config.operatorWallets.map(wallet => `${wallet.id} (${wallet.backend})`)
+      : 'none (owner only)',
+    adminPrivateKey: config.adminPrivateKey ? '***REDACTED***' : 'not set',
+    relayerApiKey: config.legacyApiKeyEnabled ? '***REDACTED*** (client "legacy", every scope)' : 'disabled (registry keys only)',
+    ownershipConfirmKey: config.ownershipConfirmKey ? '***REDACTED***' : 'not set (transfers cannot be confirmed)',
+    signerRemoteAuthToken: config.signerRemoteAuthToken ? '***REDACTED***' : 'not set',
+    webhookSecret: config.webhookSecret ? '***REDACTED***' : 'not set'
   });
   
   // Warn if sensitive defaults are used in production
@@ -157,6 +1157,15 @@ export function loadEnvironment(): EnvironmentConfig {
     if (rateLimitPerMinute > 100) {
       logger.warn('⚠️  WARNING: RATE_LIMIT_PER_MINUTE is high in PRODUCTION');
     }
+    if (legacyApiKeyEnabled) {
+      logger.warn('⚠️  WARNING: RELAYER_API_KEY grants every scope in PRODUCTION - issue per-client keys (pnpm apikey:create) and set LEGACY_API_KEY_ENABLED=false');
+    }
+    if (config.approvers.length === 0) {
+      logger.warn('⚠️  WARNING: APPROVERS is empty in PRODUCTION - sensitive routes run without approvals');
+    }
+    if (ownershipRenounceBreakGlass) {
+      logger.warn('⚠️  WARNING: OWNERSHIP_RENOUNCE_BREAK_GLASS is set - renounceOwnership() can be sent!');
+    }
   }
   
   return config;
@@ -0,0 +1,44 @@
+/**
+ * 🩺 QUEUE HEALTH RULES
+ * Thresholds evaluated over a sliding window (HEALTH_WINDOW_MS)
+ *
+ * RULES (value ≥ threshold fires; null disables a level):
+ * - failure-rate            → % of finished attempts that failed, moved-to-retry
+ *                              included (only with HEALTH_MIN_SAMPLES attempts)
+ * - failed-jobs             → jobs that failed for good in the window
+ *                              (retries exhausted or not retryable)
+ * - stalled-jobs            → Bull stall events in the window
+ * - oldest-waiting-seconds  → age of the oldest job waiting for a worker
+ *                              (wait, paused, and delayed jobs past their due time)
+ * - backlog                 → jobs waiting or delayed right now (all lanes)
+ *
+ * HEALTH_RULES overrides single levels, e.g. {"failure-rate":{"warning":5}}
+ */
+
+export type HealthRuleId =
+  | 'failure-rate'
+  | 'failed-jobs'
+  | 'stalled-jobs'
+  | 'oldest-waiting-seconds'
+  | 'backlog';
+
+export interface HealthRuleThresholds {
+  warning: number | null;
+  critical: number | null;
+}
+
+export type HealthRules = Record<HealthRuleId, HealthRuleThresholds>;
+
+export const DEFAULT_HEALTH_RULES: HealthRules = {
+  'failure-rate': { warning: 10, critical: 25 },
+  'failed-jobs': { warning: 1, critical: 5 },
+  'stalled-jobs': { warning: 1, critical: 5 },
+  'oldest-waiting-seconds': { warning: 300, critical: 900 },
+  'backlog': { warning: 100, critical: null }
+};
+
+export const HEALTH_RULE_IDS = Object.keys(DEFAULT_HEALTH_RULES) as HealthRuleId[];
+
+export function isHealthRuleId(id: string): id is HealthRuleId {
+  return (HEALTH_RULE_IDS as readonly string[]).includes(id);
+}
@@ -0,0 +1,95 @@
+/**
+ * 🌐 NETWORK PROFILES
+ * Selected with NETWORK (hardhat | bsc-testnet | bsc-mainnet | custom)
+ *
+ * Each profile carries:
+ * - chainId (checked against every RPC endpoint at startup)
+ * - confirmation depth before a job counts as mined
+ * - gas strategy defaults (GAS_* env vars still override)
+ * - block explorer URL template for tx links ({txHash} placeholder)
+ *
+ * 'custom' builds a profile from CHAIN_ID / NETWORK_NAME / CONFIRMATIONS /
+ * EXPLORER_TX_URL for any other EVM chain.
+ */
+
+export type NetworkProfileName = 'hardhat' | 'bsc-testnet' | 'bsc-mainnet' | 'custom';
+
+export interface NetworkGasDefaults {
+  pricingMode: 'auto' | 'eip1559' | 'legacy';
+  maxFeeGwei: string;
+  deferThresholdGwei: string;
+}
+
+export interface NetworkProfile {
+  name: string;
+  chainId: number;
+  nativeSymbol: string;
+  confirmations: number;
+  gas: NetworkGasDefaults;
+  explorerTxUrl?: string;       // e.g. https://bscscan.com/tx/{txHash}
+}
+
+export const NETWORK_PROFILE_NAMES: NetworkProfileName[] = ['hardhat', 'bsc-testnet', 'bsc-mainnet', 'custom'];
+
+export const NETWORK_PROFILES: Record<Exclude<NetworkProfileName, 'custom'>, NetworkProfile> = {
+  'hardhat': {
+    name: 'hardhat',
+    chainId: 31337,
+    nativeSymbol: 'ETH',
+    confirmations: 1,             // Automine - a block per tx
+    gas: {
+      pricingMode: 'auto',
+      maxFeeGwei: '100',
+      deferThresholdGwei: '50'
+    }
+  },
+  'bsc-testnet': {
+    name: 'bsc-testnet',
+    chainId: 97,
+    nativeSymbol: 'tBNB',
+    confirmations: 3,
+    gas: {
+      pricingMode: 'legacy',      // BSC validators price by gasPrice
+      maxFeeGwei: '20',
+      deferThresholdGwei: '5'
+    },
+    explorerTxUrl: 'https://testnet.bscscan.com/tx/{txHash}'
+  },
+  'bsc-mainnet': {
+    name: 'bsc-mainnet',
+    chainId: 56,
+    nativeSymbol: 'BNB',
+    confirmations: 5,
+    gas: {
+      pricingMode: 'legacy',
+      maxFeeGwei: '10',
+      deferThresholdGwei: '3'
+    },
+    explorerTxUrl: 'https://bscscan.com/tx/{txHash}'
+  }
+};
+
+/**
+ * Defaults for 'custom' profiles (chainId comes from CHAIN_ID)
+ */
+export const CUSTOM_NETWORK_DEFAULTS: Omit<NetworkProfile, 'chainId'> = {
+  name: 'custom',
+  nativeSymbol: 'ETH',
+  confirmations: 1,
+  gas: {
+    pricingMode: 'auto',
+    maxFeeGwei: '50',
+    deferThresholdGwei: '10'
+  }
+};
+
+/**
+ * Fill a profile's explorer template (undefined when the profile has none)
+ */
+export function buildExplorerTxUrl(template: string | undefined, txHash: string | undefined): string | undefined {
+  if (!template || !txHash) {
+    return undefined;
+  }
+
+  return template.replace('{txHash}', txHash);
+}
@@ -0,0 +1,104 @@
+/**
+ * 👛 HOT WALLET POOL
+ * Operator wallets (OPERATOR_WALLETS) and job routing (WALLET_ROUTES)
+ *
+ * Each wallet has its own queues, nonce lane and submission lock, so a slow
+ * job on one wallet does not hold back jobs routed to another.
+ *
+ * ROUTING:
+ * - WALLET_ROUTES maps a job type to a wallet id or a list of wallet ids
+ * - A list is split by the raffle's backend referenceId (raffleId jobs are
+ *   mapped back through blockchain/raffle.references.ts), so create-raffle
+ *   and every later job for that raffle go to the same wallet in order
+ * - Unrouted types run on the owner wallet
+ * - OWNER_ONLY_JOB_TYPES can never be routed away from the owner
+ *
+ * AUTHORISATION:
+ * - RifasPlatform is plain Ownable: there is no function to authorise an
+ *   operator on-chain. Every method the relayer sends today is onlyOwner,
+ *   so routes to operators are refused at startup for all current job types
+ */
+
+import crypto from 'crypto';
+
+export const OWNER_WALLET_ID = 'owner';
+
+export type OperatorSignerBackend = 'env' | 'keystore' | 'remote';
+
+export interface OperatorWalletSettings {
+  id: string;                     // [a-z0-9]{1,16}, used in queue names and job ids
+  backend: OperatorSignerBackend;
+  privateKey?: string;            // env backend (dev only)
+  keystorePath?: string;
+  keystorePasswordFile?: string;
+  remoteUrl?: string;
+  remoteAuthToken?: string;
+  expectedAddress?: string;
+}
+
+export type WalletRoutes = Record<string, string | string[]>;
+
+export const WALLET_ID_PATTERN = /^[a-z0-9]{1,16}$/;
+
+/**
+ * Job types whose contract method is onlyOwner
+ * Read from the deployed bytecode (abi/RifasPlatform.json): each of these
+ * functions runs Ownable's owner check and reverts with
+ * OwnableUnauthorizedAccount for any other sender
+ */
+export const OWNER_ONLY_JOB_TYPES: ReadonlySet<string> = new Set([
+  'create-raffle',            // createRaffle
+  'execute-raffle',           // executeRaffle
+  'cancel-raffle',            // cancelRaffle
+  'execute-refund',           // executeRefundBatch
+  'retry-randomness',         // retryRandomness
+  'archive-raffles',          // archiveRaffles
+  'pause-contract',
+  'unpause-contract',
+  'add-to-blocklist',
+  'add-to-blocklist-batch',
+  'remove-from-blocklist',
+  'withdraw-fees',
+  'emergency-pause',
+  'emergency-unpause',
+  'transfer-ownership',
+  'renounce-ownership'
+]);
+
+/**
+ * Stable key a wallet list is split on (undefined for jobs without a raffle)
+ */
+export type RoutingKeyResolver = (data: any) => Promise<string | undefined>;
+
+let roundRobin = 0;
+
+/**
+ * Wallet id for a job (owner unless WALLET_ROUTES says otherwise)
+ * The routing key is only resolved for types routed to a list
+ */
+export async function resolveWalletRoute(
+  routes: WalletRoutes,
+  type: string,
+  data: any,
+  routingKey: RoutingKeyResolver
+): Promise<string> {
+  const route = routes[type];
+
+  if (!route || OWNER_ONLY_JOB_TYPES.has(type)) {
+    return OWNER_WALLET_ID;
+  }
+
+  if (typeof route === 'string') {
+    return route;
+  }
+
+  const key = await routingKey(data);
+
+  if (key === undefined) {
+    return route[roundRobin++ % route.length];
+  }
+
+  // Stable hash - the same raffle always lands on the same wallet
+  const bucket = crypto.createHash('sha256').update(key).digest().readUInt32BE(0);
+  return route[bucket % route.length];
+}
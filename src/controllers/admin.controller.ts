@@ -1,19 +1,34 @@
 import { Request, Response } from 'express';
 import { enqueueTransaction } from '../queues/tx.queue.js';
+import { isDryRun, respondWithDryRun } from '../utils/dry-run.js';
+import { requiresApproval, respondWithProposal } from '../approvals/approval.gate.js';
 import logger from '../utils/logger.js';
 
 /**
  * POST /withdraw-fees
  * Enqueue platform fee withdrawal
  */
-export async function withdrawFees(_req: Request, res: Response): Promise<void> {
+export async function withdrawFees(req: Request, res: Response): Promise<void> {
   try {
+    const jobData = {
+      type: 'withdraw-fees',
+      callbackUrl: req.body.callbackUrl
+    };
+    
+    if (isDryRun(req)) {
+      await respondWithDryRun(res, 'withdraw-fees', jobData);
+      return;
+    }
+    
+    if (requiresApproval('withdraw-fees')) {
+      await respondWithProposal(req, res, 'withdraw-fees', jobData);
+      return;
+    }
+    
     logger.info('💰 Enqueueing platform fee withdrawal');
     
     // Enqueue job (worker will process and send TX)
-    const job = await enqueueTransaction('withdraw-fees', {
-      type: 'withdraw-fees'
-    });
+    const job = await enqueueTransaction('withdraw-fees', jobData);
     
     logger.info('✅ Fee withdrawal enqueued', {
       jobId: job.id
@@ -56,13 +71,26 @@ export async function archiveRaffles(req: Request, res: Response): Promise<void>
       return;
     }
     
+    const jobData = {
+      type: 'archive-raffles',
+      raffleIds,
+      callbackUrl: req.body.callbackUrl
+    };
+    
+    if (isDryRun(req)) {
+      await respondWithDryRun(res, 'archive-raffles', jobData);
+      return;
+    }
+    
+    if (requiresApproval('archive-raffles')) {
+      await respondWithProposal(req, res, 'archive-raffles', jobData);
+      return;
+    }
+    
     logger.info('🗄️  Enqueueing raffle archiving:', { count: raffleIds.length, raffleIds });
     
     // Enqueue job (worker will process and send TX)
-    const job = await enqueueTransaction('archive-raffles', {
-      type: 'archive-raffles',
-      raffleIds
-    });
+    const job = await enqueueTransaction('archive-raffles', jobData);
     
     logger.info('✅ Raffle archiving enqueued', {
       jobId: job.id,
@@ -0,0 +1,203 @@
+import { Request, Response } from 'express';
+import {
+  ApprovalError,
+  ProposalStatus,
+  approveProposal,
+  rejectProposal,
+  getProposal,
+  listProposals,
+  identifyApprover
+} from '../approvals/approval.manager.js';
+import { APPROVAL_CONFIG } from '../config/app.config.js';
+import { APPROVER_KEY_HEADER, rejectApproverKey } from '../approvals/approval.gate.js';
+import logger from '../utils/logger.js';
+
+const PROPOSAL_STATUSES: ProposalStatus[] = ['pending', 'executed', 'rejected', 'expired', 'failed'];
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 500;
+
+/**
+ * Approver behind X-Approver-Key; responds 401/403 and returns undefined otherwise
+ */
+function resolveApprover(req: Request, res: Response): string | undefined {
+  const key = req.get(APPROVER_KEY_HEADER);
+
+  if (!key) {
+    res.status(401).json({
+      success: false,
+      error: 'APPROVER_KEY_REQUIRED',
+      message: `${APPROVER_KEY_HEADER} header is required`
+    });
+    return undefined;
+  }
+
+  const approver = identifyApprover(key);
+  if (!approver) {
+    rejectApproverKey(req, res);
+    return undefined;
+  }
+
+  return approver;
+}
+
+/**
+ * Optional body.comment (string up to 500 characters); responds 400 and returns null when invalid
+ */
+function parseComment(req: Request, res: Response): string | undefined | null {
+  const { comment } = req.body;
+
+  if (comment !== undefined && (typeof comment !== 'string' || comment.length > 500)) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_COMMENT',
+      message: 'comment must be a string of at most 500 characters'
+    });
+    return null;
+  }
+
+  return comment;
+}
+
+/**
+ * Send an ApprovalError as its own status/code, anything else as 500
+ */
+function sendApprovalError(res: Response, error: any, fallbackCode: string, action: string): void {
+  if (error instanceof ApprovalError) {
+    res.status(error.status).json({
+      success: false,
+      error: error.code,
+      message: error.message
+    });
+    return;
+  }
+
+  logger.error(`❌ Failed to ${action}`, {
+    error: error.message,
+    code: error.code
+  });
+  res.status(500).json({
+    success: false,
+    error: fallbackCode,
+    message: error.message
+  });
+}
+
+/**
+ * GET /approvals?status=pending&limit=50
+ * Proposals, newest first
+ */
+export async function listApprovals(req: Request, res: Response): Promise<void> {
+  const status = typeof req.query.status === 'string' ? req.query.status as ProposalStatus : undefined;
+  const limit = req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : DEFAULT_LIST_LIMIT;
+
+  if (status !== undefined && !PROPOSAL_STATUSES.includes(status)) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_STATUS',
+      message: `status must be one of ${PROPOSAL_STATUSES.join(', ')}`
+    });
+    return;
+  }
+
+  if (isNaN(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_LIMIT',
+      message: `limit must be between 1 and ${MAX_LIST_LIMIT}`
+    });
+    return;
+  }
+
+  try {
+    const proposals = await listProposals({ status, limit });
+
+    res.json({
+      success: true,
+      data: {
+        enabled: APPROVAL_CONFIG.enabled,
+        approvers: APPROVAL_CONFIG.approvers.map(approver => approver.name),
+        thresholds: APPROVAL_CONFIG.thresholds,
+        count: proposals.length,
+        proposals
+      }
+    });
+  } catch (error: any) {
+    sendApprovalError(res, error, 'APPROVALS_QUERY_FAILED', 'list approvals');
+  }
+}
+
+/**
+ * GET /approvals/:proposalId
+ * One proposal with its audit trail
+ */
+export async function getApproval(req: Request, res: Response): Promise<void> {
+  try {
+    const proposal = await getProposal(req.params.proposalId);
+
+    if (!proposal) {
+      res.status(404).json({
+        success: false,
+        error: 'PROPOSAL_NOT_FOUND',
+        message: `Proposal ${req.params.proposalId} not found`
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: proposal
+    });
+  } catch (error: any) {
+    sendApprovalError(res, error, 'APPROVALS_QUERY_FAILED', 'fetch approval');
+  }
+}
+
+/**
+ * POST /approvals/:proposalId/approve
+ * Approve as the approver behind X-Approver-Key (enqueues at the threshold)
+ * Body: { comment?: string }
+ */
+export async function approveAction(req: Request, res: Response): Promise<void> {
+  const approver = resolveApprover(req, res);
+  if (!approver) return;
+  const comment = parseComment(req, res);
+  if (comment === null) return;
+
+  try {
+    const proposal = await approveProposal(req.params.proposalId, approver, req.ip || 'unknown', comment);
+
+    res.status(proposal.status === 'failed' ? 500 : 200).json({
+      success: proposal.status !== 'failed',
+      data: proposal,
+      message: proposal.status === 'executed'
+        ? 'Threshold reached - transaction queued'
+        : proposal.status === 'failed'
+          ? `Threshold reached but the job could not be enqueued: ${proposal.error}`
+          : `Approved (${proposal.approvals.length}/${proposal.threshold})`
+    });
+  } catch (error: any) {
+    sendApprovalError(res, error, 'APPROVAL_FAILED', 'approve proposal');
+  }
+}
+
+/**
+ * POST /approvals/:proposalId/reject
+ * Reject as the approver behind X-Approver-Key (closes the proposal)
+ * Body: { comment?: string }
+ */
+export async function rejectAction(req: Request, res: Response): Promise<void> {
+  const approver = resolveApprover(req, res);
+  if (!approver) return;
+  const comment = parseComment(req, res);
+  if (comment === null) return;
+
+  try {
+    res.json({
+      success: true,
+      data: await rejectProposal(req.params.proposalId, approver, req.ip || 'unknown', comment),
+      message: 'Proposal rejected'
+    });
+  } catch (error: any) {
+    sendApprovalError(res, error, 'REJECTION_FAILED', 'reject proposal');
+  }
+}
@@ -2,6 +2,8 @@ import { Request, Response } from 'express';
 import { ethers } from 'ethers';
 import { contract } from '../index.js';
 import { enqueueTransaction } from '../queues/tx.queue.js';
+import { isDryRun, respondWithDryRun } from '../utils/dry-run.js';
+import { requiresApproval, respondWithProposal } from '../approvals/approval.gate.js';
 import logger from '../utils/logger.js';
 
 interface BlocklistEntry {
@@ -38,17 +40,31 @@ export async function addToBlocklist(req: Request, res: Response): Promise<void>
     const normalizedAddress = ethers.getAddress(address);
     const sanitizedReason = reason.trim();
 
+    const jobData = {
+      type: 'add-to-blocklist',
+      address: normalizedAddress,
+      reason: sanitizedReason,
+      callbackUrl: req.body.callbackUrl
+    };
+
+    if (isDryRun(req)) {
+      await respondWithDryRun(res, 'add-to-blocklist', jobData);
+      return;
+    }
+
+    if (requiresApproval('add-to-blocklist')) {
+      await respondWithProposal(req, res, 'add-to-blocklist', jobData);
+      return;
+    }
+
     logger.warn('🚫 Enqueueing address blocking', {
       address: normalizedAddress,
-      reason: sanitizedReason
+      reason: sanitizedReason,
+      callbackUrl: req.body.callbackUrl
     });
 
     // Enqueue job (worker will process and send TX)
-    const job = await enqueueTransaction('add-to-blocklist', {
-      type: 'add-to-blocklist',
-      address: normalizedAddress,
-      reason: sanitizedReason
-    });
+    const job = await enqueueTransaction('add-to-blocklist', jobData);
 
     logger.warn('✅ Address blocking enqueued', {
       jobId: job.id,
@@ -126,16 +142,29 @@ export async function addToBlocklistBatch(req: Request, res: Response): Promise<
       reasons.push(entry.reason.trim());
     }
 
+    const jobData = {
+      type: 'add-to-blocklist-batch',
+      addresses: normalizedAddresses,
+      reasons,
+      callbackUrl: req.body.callbackUrl
+    };
+
+    if (isDryRun(req)) {
+      await respondWithDryRun(res, 'add-to-blocklist-batch', jobData);
+      return;
+    }
+
+    if (requiresApproval('add-to-blocklist-batch')) {
+      await respondWithProposal(req, res, 'add-to-blocklist-batch', jobData);
+      return;
+    }
+
     logger.warn('🚫 Enqueueing batch address blocking', {
       count: normalizedAddresses.length
     });
 
     // Enqueue job (worker will process and send TX)
-    const job = await enqueueTransaction('add-to-blocklist-batch', {
-      type: 'add-to-blocklist-batch',
-      addresses: normalizedAddresses,
-      reasons
-    });
+    const job = await enqueueTransaction('add-to-blocklist-batch', jobData);
 
     logger.warn('✅ Batch blocking enqueued', {
       jobId: job.id,
@@ -180,15 +209,28 @@ export async function removeFromBlocklist(req: Request, res: Response): Promise<
 
     const normalizedAddress = ethers.getAddress(address);
 
+    const jobData = {
+      type: 'remove-from-blocklist',
+      address: normalizedAddress,
+      callbackUrl: req.body.callbackUrl
+    };
+
+    if (isDryRun(req)) {
+      await respondWithDryRun(res, 'remove-from-blocklist', jobData);
+      return;
+    }
+
+    if (requiresApproval('remove-from-blocklist')) {
+      await respondWithProposal(req, res, 'remove-from-blocklist', jobData);
+      return;
+    }
+
     logger.info('✅ Enqueueing address unblocking', {
       address: normalizedAddress
     });
 
     // Enqueue job (worker will process and send TX)
-    const job = await enqueueTransaction('remove-from-blocklist', {
-      type: 'remove-from-blocklist',
-      address: normalizedAddress
-    });
+    const job = await enqueueTransaction('remove-from-blocklist', jobData);
 
     logger.info('✅ Address unblocking enqueued', {
       jobId: job.id,
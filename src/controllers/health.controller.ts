@@ -1,18 +1,41 @@
 import { Request, Response } from 'express';
-import { ethers } from 'ethers';
-import { contract } from '../index.js';
+import { signer, provider } from '../index.js';
+import { getBalances, getOverallBalanceLevel } from '../monitoring/balance.monitor.js';
+import { getLastEvaluation } from '../monitoring/health.evaluator.js';
 
 /**
  * GET /health
  * Health check endpoint (no auth required for monitoring)
  */
 export function healthCheck(_req: Request, res: Response): void {
-  const signer = contract.runner as ethers.Wallet;
+  const rpc = provider.getStatus();
+  const healthyEndpoints = rpc.endpoints.filter(endpoint => endpoint.state === 'healthy').length;
+  const balanceLevel = getOverallBalanceLevel();
+  const queue = getLastEvaluation();
+  const queueCritical = queue?.health === 'critical';
   
   res.json({ 
     success: true, 
-    status: 'healthy',
+    status: healthyEndpoints > 0 && balanceLevel !== 'critical' && !queueCritical ? 'healthy' : 'degraded',
     timestamp: new Date().toISOString(),
-    signer: signer.address
+    signer: signer.address,
+    rpc: {
+      active: rpc.activeUrl,
+      healthyEndpoints,
+      totalEndpoints: rpc.endpoints.length
+    },
+    balance: {
+      level: balanceLevel,
+      wallets: getBalances().map(balance => ({
+        wallet: balance.walletId,
+        balance: balance.balanceFormatted,
+        level: balance.level,
+        runwayTransactions: balance.runway.transactions
+      }))
+    },
+    // Last sliding-window evaluation (see GET /queue/status for details)
+    queue: queue
+      ? { health: queue.health, alerts: queue.alerts.map(alert => alert.rule), evaluatedAt: queue.evaluatedAt }
+      : null
   });
 }
@@ -4,3 +4,8 @@ export * from './system.controller.js';
 export * from './admin.controller.js';
 export * from './compliance.controller.js';
 export * from './monitoring.controller.js';
+export * from './jobs.controller.js';
+export * from './webhooks.controller.js';
+export * from './indexer.controller.js';
+export * from './ownership.controller.js';
+export * from './approvals.controller.js';
@@ -0,0 +1,270 @@
+import { Request, Response } from 'express';
+import { ethers } from 'ethers';
+import { EventFilter, findEvents, summarizeRaffle } from '../indexer/event.store.js';
+import { getIndexerState } from '../indexer/event.indexer.js';
+import logger from '../utils/logger.js';
+
+const DEFAULT_LIST_LIMIT = 100;
+const MAX_LIST_LIMIT = 1000;
+
+// A raffle summary reads every event of the raffle (tickets included)
+const MAX_RAFFLE_EVENTS = 100_000;
+
+/**
+ * Parse ?limit= (undefined → default); responds 400 and returns undefined when invalid
+ */
+function parseLimit(req: Request, res: Response): number | undefined {
+  const limit = req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : DEFAULT_LIST_LIMIT;
+
+  if (isNaN(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_LIMIT',
+      message: `limit must be between 1 and ${MAX_LIST_LIMIT}`
+    });
+    return undefined;
+  }
+
+  return limit;
+}
+
+/**
+ * Parse ?address= (optional); responds 400 and returns null when invalid
+ */
+function parseAddress(req: Request, res: Response, required = false): string | undefined | null {
+  const address = typeof req.query.address === 'string' ? req.query.address : undefined;
+
+  if ((required && !address) || (address && !ethers.isAddress(address))) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_ADDRESS',
+      message: required ? 'address query parameter must be a valid address' : 'address must be a valid address'
+    });
+    return null;
+  }
+
+  return address;
+}
+
+function isUint(value: string): boolean {
+  return /^\d+$/.test(value);
+}
+
+/**
+ * Run an event query and send it as { count, events }
+ */
+async function sendEvents(res: Response, filter: EventFilter): Promise<void> {
+  try {
+    const events = await findEvents(filter);
+
+    res.json({
+      success: true,
+      data: {
+        count: events.length,
+        events
+      }
+    });
+  } catch (error: any) {
+    logger.error('❌ Failed to query indexed events', {
+      filter,
+      error: error.message
+    });
+    res.status(500).json({
+      success: false,
+      error: 'INDEXER_QUERY_FAILED',
+      message: error.message
+    });
+  }
+}
+
+/**
+ * GET /indexer/status
+ * Checkpoint, lag behind the chain head and last reorg
+ */
+export async function getIndexerStatus(_req: Request, res: Response): Promise<void> {
+  try {
+    res.json({
+      success: true,
+      data: await getIndexerState()
+    });
+  } catch (error: any) {
+    logger.error('❌ Failed to fetch indexer status', {
+      error: error.message
+    });
+    res.status(500).json({
+      success: false,
+      error: 'INDEXER_STATUS_FAILED',
+      message: error.message
+    });
+  }
+}
+
+/**
+ * GET /indexer/raffles?referenceId=123&limit=100
+ * Created raffles (newest first) - referenceId resolves the on-chain raffleId
+ */
+export async function listIndexedRaffles(req: Request, res: Response): Promise<void> {
+  const limit = parseLimit(req, res);
+  if (limit === undefined) return;
+
+  const referenceId = typeof req.query.referenceId === 'string' ? req.query.referenceId : undefined;
+
+  if (referenceId !== undefined && !isUint(referenceId)) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_REFERENCE_ID',
+      message: 'referenceId must be a non-negative integer'
+    });
+    return;
+  }
+
+  await sendEvents(res, { name: 'RaffleCreated', referenceId, limit });
+}
+
+/**
+ * GET /indexer/raffles/:raffleId
+ * Raffle summary derived from its events, plus every non-ticket event
+ */
+export async function getIndexedRaffle(req: Request, res: Response): Promise<void> {
+  const { raffleId } = req.params;
+
+  if (!isUint(raffleId)) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_RAFFLE_ID',
+      message: 'raffleId must be a non-negative integer'
+    });
+    return;
+  }
+
+  try {
+    const events = await findEvents({ raffleId, limit: MAX_RAFFLE_EVENTS, order: 'asc' });
+
+    if (events.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'RAFFLE_NOT_INDEXED',
+        message: `No indexed events for raffle ${raffleId}`
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        raffle: summarizeRaffle(raffleId, events),
+        events: events.filter(event => event.name !== 'TicketBought')
+      }
+    });
+  } catch (error: any) {
+    logger.error('❌ Failed to fetch indexed raffle', {
+      raffleId,
+      error: error.message
+    });
+    res.status(500).json({
+      success: false,
+      error: 'INDEXER_QUERY_FAILED',
+      message: error.message
+    });
+  }
+}
+
+/**
+ * GET /indexer/raffles/:raffleId/tickets?address=0x...&limit=100
+ * TicketBought events of a raffle (newest first)
+ */
+export async function getIndexedRaffleTickets(req: Request, res: Response): Promise<void> {
+  const { raffleId } = req.params;
+
+  if (!isUint(raffleId)) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_RAFFLE_ID',
+      message: 'raffleId must be a non-negative integer'
+    });
+    return;
+  }
+
+  const limit = parseLimit(req, res);
+  if (limit === undefined) return;
+  const address = parseAddress(req, res);
+  if (address === null) return;
+
+  await sendEvents(res, { name: 'TicketBought', raffleId, address, limit });
+}
+
+/**
+ * GET /indexer/tickets?address=0x...&limit=100
+ * Tickets bought by an address across raffles (newest first)
+ */
+export async function getIndexedTickets(req: Request, res: Response): Promise<void> {
+  const address = parseAddress(req, res, true);
+  if (address === null) return;
+  const limit = parseLimit(req, res);
+  if (limit === undefined) return;
+
+  await sendEvents(res, { name: 'TicketBought', address, limit });
+}
+
+/**
+ * GET /indexer/refunds?raffleId=1&address=0x...&limit=100
+ * RefundIssued and RefundBatchCompleted events (newest first)
+ */
+export async function getIndexedRefunds(req: Request, res: Response): Promise<void> {
+  const raffleId = typeof req.query.raffleId === 'string' ? req.query.raffleId : undefined;
+
+  if (raffleId !== undefined && !isUint(raffleId)) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_RAFFLE_ID',
+      message: 'raffleId must be a non-negative integer'
+    });
+    return;
+  }
+
+  const address = parseAddress(req, res);
+  if (address === null) return;
+  const limit = parseLimit(req, res);
+  if (limit === undefined) return;
+
+  // Batch summaries have no user - an address filter only matches RefundIssued
+  const name = address ? 'RefundIssued' : ['RefundIssued', 'RefundBatchCompleted'];
+
+  await sendEvents(res, { name, raffleId, address, limit });
+}
+
+/**
+ * GET /indexer/blocklist?address=0x...&limit=100
+ * AddressBlocked / AddressUnblocked history (newest first)
+ */
+export async function getIndexedBlocklist(req: Request, res: Response): Promise<void> {
+  const address = parseAddress(req, res);
+  if (address === null) return;
+  const limit = parseLimit(req, res);
+  if (limit === undefined) return;
+
+  await sendEvents(res, { name: ['AddressBlocked', 'AddressUnblocked'], address, limit });
+}
+
+/**
+ * GET /indexer/events?name=PlatformFeesWithdrawn&limit=100
+ * Any indexed event by name (newest first)
+ */
+export async function getIndexedEvents(req: Request, res: Response): Promise<void> {
+  const name = typeof req.query.name === 'string' ? req.query.name.split(',') : undefined;
+  const limit = parseLimit(req, res);
+  if (limit === undefined) return;
+
+  await sendEvents(res, { name, limit });
+}
+
+/**
+ * GET /jobs/:jobId/events
+ * Events emitted by the transaction a relayer job sent
+ */
+export async function getJobEvents(req: Request, res: Response): Promise<void> {
+  const limit = parseLimit(req, res);
+  if (limit === undefined) return;
+
+  await sendEvents(res, { jobId: req.params.jobId, limit, order: 'asc' });
+}
@@ -0,0 +1,113 @@
+import { Request, Response } from 'express';
+import {
+  getJobStatus as lookupJobStatus,
+  listJobs as lookupJobs,
+  InvalidJobCursorError,
+  UNIFIED_JOB_STATES,
+  UnifiedJobState
+} from '../queues/job.lookup.js';
+import logger from '../utils/logger.js';
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+
+/**
+ * GET /jobs/:jobId
+ * Unified status of an enqueued transaction (main + retry queue)
+ */
+export async function getJobStatus(req: Request, res: Response): Promise<void> {
+  try {
+    const { jobId } = req.params;
+
+    const report = await lookupJobStatus(jobId);
+
+    if (!report) {
+      res.status(404).json({
+        success: false,
+        error: 'JOB_NOT_FOUND',
+        message: `Job ${jobId} not found (unknown or evicted from queue history)`
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error: any) {
+    logger.error('❌ Failed to fetch job status', {
+      jobId: req.params.jobId,
+      error: error.message
+    });
+    res.status(500).json({
+      success: false,
+      error: 'JOB_STATUS_FAILED',
+      message: error.message
+    });
+  }
+}
+
+/**
+ * GET /jobs?type=create-raffle&state=failed&limit=50&cursor=...
+ * List recent jobs filtered by type and unified state, one page at a time
+ */
+export async function listJobs(req: Request, res: Response): Promise<void> {
+  try {
+    const type = typeof req.query.type === 'string' ? req.query.type : undefined;
+    const state = typeof req.query.state === 'string' ? req.query.state : undefined;
+    const limit = req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : DEFAULT_LIST_LIMIT;
+    const cursor = typeof req.query.cursor === 'string' ? req.query.cursor : undefined;
+
+    if (state && !UNIFIED_JOB_STATES.includes(state as UnifiedJobState)) {
+      res.status(400).json({
+        success: false,
+        error: 'INVALID_STATE',
+        message: `state must be one of: ${UNIFIED_JOB_STATES.join(', ')}`
+      });
+      return;
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+      res.status(400).json({
+        success: false,
+        error: 'INVALID_LIMIT',
+        message: `limit must be between 1 and ${MAX_LIST_LIMIT}`
+      });
+      return;
+    }
+
+    const page = await lookupJobs({
+      type,
+      state: state as UnifiedJobState | undefined,
+      limit,
+      cursor
+    });
+
+    res.json({
+      success: true,
+      data: {
+        count: page.jobs.length,
+        jobs: page.jobs,
+        nextCursor: page.nextCursor
+      }
+    });
+  } catch (error: any) {
+    if (error instanceof InvalidJobCursorError) {
+      res.status(400).json({
+        success: false,
+        error: 'INVALID_CURSOR',
+        message: error.message
+      });
+      return;
+    }
+
+    logger.error('❌ Failed to list jobs', {
+      error: error.message
+    });
+    res.status(500).json({
+      success: false,
+      error: 'JOB_LIST_FAILED',
+      message: error.message
+    });
+  }
+}
@@ -1,14 +1,45 @@
 import { Request, Response } from 'express';
-import { contract } from '../index.js';
+import { ethers } from 'ethers';
+import { contract, nonceManager, provider } from '../index.js';
+import { RpcQuorumError } from '../blockchain/rpc.provider.js';
+import { getWallets } from '../blockchain/wallet.pool.js';
+import { getLaneCounts } from '../monitoring/queue.monitor.js';
+import { getBalances } from '../monitoring/balance.monitor.js';
+import { registry, queueJobs, walletBalance, walletRunway } from '../monitoring/metrics.js';
+import { sendCritical, getAlertLog, getAlertingStatus } from '../monitoring/alerting.js';
+import { ALERT_SEVERITIES, AlertSeverity } from '../config/alerts.js';
+import { getInvariantHistory, getAutoPauseLog, getWatchdogState } from '../monitoring/invariant.watchdog.js';
+import { WALLET_CONFIG } from '../config/app.config.js';
+import { getExecutorState } from '../workers/raffle.executor.js';
+import { getVrfWatcherState } from '../workers/vrf.watcher.js';
 import logger from '../utils/logger.js';
 
 /**
  * GET /accounting-invariant
- * Fetch accounting invariant status from contract
+ * Fetch accounting invariant status from contract (quorum read when RPC_QUORUM > 1)
  */
 export async function getAccountingInvariant(_req: Request, res: Response): Promise<void> {
   try {
-    const [isValid, contractBalance, reservedFunds, platformFees] = await contract.checkAccountingInvariant();
+    const { value, blockNumber, agreeing, queried } = await provider.quorumRead((runner, blockTag) =>
+      (contract.connect(runner) as ethers.Contract).checkAccountingInvariant({ blockTag })
+    );
+    const [isValid, contractBalance, reservedFunds, platformFees] = value;
+
+    if (!isValid) {
+      logger.error('🚨 Accounting invariant VIOLATED', {
+        contractBalance: contractBalance.toString(),
+        reservedFunds: reservedFunds.toString(),
+        platformFees: platformFees.toString(),
+        blockNumber
+      });
+
+      void sendCritical('ACCOUNTING_INVARIANT_VIOLATED', {
+        contractBalance: contractBalance.toString(),
+        reservedFunds: reservedFunds.toString(),
+        platformFees: platformFees.toString(),
+        blockNumber
+      });
+    }
 
     res.json({
       success: true,
@@ -16,7 +47,9 @@ export async function getAccountingInvariant(_req: Request, res: Response): Prom
         isValid,
         contractBalance: contractBalance.toString(),
         reservedFunds: reservedFunds.toString(),
-        platformFees: platformFees.toString()
+        platformFees: platformFees.toString(),
+        blockNumber,
+        quorum: { required: provider.getStatus().quorum, agreeing, queried }
       }
     });
   } catch (error: any) {
@@ -24,6 +57,17 @@ export async function getAccountingInvariant(_req: Request, res: Response): Prom
       error: error.message,
       code: error.code
     });
+
+    if (error instanceof RpcQuorumError) {
+      res.status(502).json({
+        success: false,
+        error: error.code,
+        message: error.message,
+        answers: error.answers
+      });
+      return;
+    }
+
     res.status(500).json({
       success: false,
       error: 'ACCOUNTING_INVARIANT_FAILED',
@@ -32,6 +76,64 @@ export async function getAccountingInvariant(_req: Request, res: Response): Prom
   }
 }
 
+const DEFAULT_HISTORY_LIMIT = 100;
+const MAX_HISTORY_LIMIT = 5000;
+
+/**
+ * GET /accounting-invariant/history?fromBlock=&toBlock=&limit=100
+ * Watchdog readings (newest first) plus watchdog state and automatic pauses
+ */
+export async function getAccountingInvariantHistory(req: Request, res: Response): Promise<void> {
+  try {
+    const fromBlock = req.query.fromBlock !== undefined ? parseInt(String(req.query.fromBlock), 10) : undefined;
+    const toBlock = req.query.toBlock !== undefined ? parseInt(String(req.query.toBlock), 10) : undefined;
+    const limit = req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : DEFAULT_HISTORY_LIMIT;
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+      res.status(400).json({
+        success: false,
+        error: 'INVALID_LIMIT',
+        message: `limit must be between 1 and ${MAX_HISTORY_LIMIT}`
+      });
+      return;
+    }
+
+    if ((fromBlock !== undefined && (isNaN(fromBlock) || fromBlock < 0)) || (toBlock !== undefined && (isNaN(toBlock) || toBlock < 0))) {
+      res.status(400).json({
+        success: false,
+        error: 'INVALID_BLOCK_RANGE',
+        message: 'fromBlock and toBlock must be non-negative block numbers'
+      });
+      return;
+    }
+
+    const [readings, autoPauses, watchdog] = await Promise.all([
+      getInvariantHistory({ fromBlock, toBlock, limit }),
+      getAutoPauseLog(),
+      getWatchdogState()
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        watchdog,
+        autoPauses,
+        count: readings.length,
+        readings
+      }
+    });
+  } catch (error: any) {
+    logger.error('❌ Failed to fetch accounting invariant history', {
+      error: error.message
+    });
+    res.status(500).json({
+      success: false,
+      error: 'INVARIANT_HISTORY_FAILED',
+      message: error.message
+    });
+  }
+}
+
 /**
  * GET /token-decimals
  * Return token decimals used by USDT contract
@@ -114,3 +216,221 @@ export async function scanRaffles(req: Request<{}, {}, ScanRafflesRequest>, res:
     });
   }
 }
+
+/**
+ * GET /executor/status
+ * Automatic raffle executor configuration and last scan report
+ */
+export function getExecutorStatus(_req: Request, res: Response): void {
+  res.json({
+    success: true,
+    data: getExecutorState()
+  });
+}
+
+/**
+ * GET /vrf/status
+ * VRF watcher configuration, raffles awaiting randomness and the last scan
+ */
+export async function getVrfStatus(_req: Request, res: Response): Promise<void> {
+  try {
+    res.json({
+      success: true,
+      data: await getVrfWatcherState()
+    });
+  } catch (error: any) {
+    logger.error('❌ Failed to fetch VRF watcher status', {
+      error: error.message
+    });
+    res.status(500).json({
+      success: false,
+      error: 'VRF_STATUS_FAILED',
+      message: error.message
+    });
+  }
+}
+
+/**
+ * GET /nonce/status
+ * Nonce allocator state vs chain (in-flight count and gaps)
+ */
+export async function getNonceStatus(_req: Request, res: Response): Promise<void> {
+  try {
+    const report = await nonceManager.detectGaps();
+
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error: any) {
+    logger.error('❌ Failed to fetch nonce status', {
+      error: error.message,
+      code: error.code
+    });
+    res.status(500).json({
+      success: false,
+      error: 'NONCE_STATUS_FAILED',
+      message: error.message
+    });
+  }
+}
+
+/**
+ * GET /rpc/status
+ * Per-endpoint health (state, score, latency, errors, block height)
+ */
+export function getRpcStatus(_req: Request, res: Response): void {
+  res.json({
+    success: true,
+    data: provider.getStatus()
+  });
+}
+
+/**
+ * GET /wallets
+ * Hot wallet pool: balance, nonce lane and queue counts per wallet
+ */
+export async function getWalletStatus(_req: Request, res: Response): Promise<void> {
+  try {
+    const lanes = await getLaneCounts();
+    const balances = getBalances();
+
+    const wallets = await Promise.all(getWallets().map(async wallet => {
+      const [balance, nonce] = await Promise.all([
+        provider.getBalance(wallet.address),
+        wallet.nonceManager.detectGaps()
+      ]);
+      const lane = lanes.find(entry => entry.walletId === wallet.id);
+      const monitored = balances.find(entry => entry.walletId === wallet.id);
+
+      const issues: string[] = [];
+      if (monitored && monitored.level !== 'ok') issues.push(`balance-${monitored.level}`);
+      if (nonce.gaps.length > 0) issues.push('nonce-gaps');
+      if (lane && lane.main.active === 0 && lane.main.waiting > 0) issues.push('queue-stuck');
+
+      return {
+        id: wallet.id,
+        role: wallet.role,
+        address: wallet.address,
+        balance: balance.toString(),
+        balanceFormatted: ethers.formatEther(balance),
+        runway: monitored?.runway,
+        pausedJobTypes: monitored && monitored.pausedJobTypes.length > 0 ? monitored.pausedJobTypes : undefined,
+        health: issues.length > 0 ? 'warning' : 'healthy',
+        issues: issues.length > 0 ? issues : undefined,
+        nonce,
+        queues: lane ? { main: lane.main, retry: lane.retry } : undefined,
+        routedJobTypes: Object.entries(WALLET_CONFIG.routes)
+          .filter(([, route]) => (Array.isArray(route) ? route : [route]).includes(wallet.id))
+          .map(([type]) => type)
+      };
+    }));
+
+    res.json({
+      success: true,
+      data: {
+        wallets,
+        routes: WALLET_CONFIG.routes
+      }
+    });
+  } catch (error: any) {
+    logger.error('❌ Failed to fetch wallet status', {
+      error: error.message,
+      code: error.code
+    });
+    res.status(500).json({
+      success: false,
+      error: 'WALLET_STATUS_FAILED',
+      message: error.message
+    });
+  }
+}
+
+/**
+ * GET /metrics
+ * Prometheus text format (queue depth and balances refreshed on each scrape)
+ */
+export async function getMetrics(_req: Request, res: Response): Promise<void> {
+  try {
+    for (const lane of await getLaneCounts()) {
+      for (const counts of [lane.main, lane.retry]) {
+        for (const state of ['waiting', 'active', 'completed', 'failed', 'delayed'] as const) {
+          queueJobs.set({ queue: counts.name, wallet: lane.walletId, state }, counts[state]);
+        }
+      }
+    }
+
+    for (const balance of getBalances()) {
+      walletBalance.set({ wallet: balance.walletId, address: balance.address }, Number(balance.balanceFormatted));
+
+      if (balance.runway.transactions !== null) {
+        walletRunway.set({ wallet: balance.walletId }, balance.runway.transactions);
+      }
+    }
+
+    res.set('Content-Type', registry.contentType);
+    res.send(await registry.metrics());
+  } catch (error: any) {
+    logger.error('❌ Failed to collect metrics', {
+      error: error.message
+    });
+    res.status(500).json({
+      success: false,
+      error: 'METRICS_FAILED',
+      message: error.message
+    });
+  }
+}
+
+const DEFAULT_ALERT_LIMIT = 100;
+const MAX_ALERT_LIMIT = 500;
+
+/**
+ * GET /alerts?code=TX_RETRY_EXHAUSTED&severity=critical&limit=100
+ * Alert log (newest first) with the delivery outcome of each alert
+ */
+export async function getAlerts(req: Request, res: Response): Promise<void> {
+  try {
+    const code = typeof req.query.code === 'string' ? req.query.code : undefined;
+    const severity = typeof req.query.severity === 'string' ? req.query.severity : undefined;
+    const limit = req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : DEFAULT_ALERT_LIMIT;
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_ALERT_LIMIT) {
+      res.status(400).json({
+        success: false,
+        error: 'INVALID_LIMIT',
+        message: `limit must be between 1 and ${MAX_ALERT_LIMIT}`
+      });
+      return;
+    }
+
+    if (severity !== undefined && !ALERT_SEVERITIES.includes(severity as AlertSeverity)) {
+      res.status(400).json({
+        success: false,
+        error: 'INVALID_SEVERITY',
+        message: `severity must be ${ALERT_SEVERITIES.join(', ')}`
+      });
+      return;
+    }
+
+    const alerts = await getAlertLog({ code, severity: severity as AlertSeverity | undefined, limit });
+
+    res.json({
+      success: true,
+      data: {
+        ...getAlertingStatus(),
+        count: alerts.length,
+        alerts
+      }
+    });
+  } catch (error: any) {
+    logger.error('❌ Failed to fetch alerts', {
+      error: error.message
+    });
+    res.status(500).json({
+      success: false,
+      error: 'ALERT_LOG_FAILED',
+      message: error.message
+    });
+  }
+}
@@ -0,0 +1,197 @@
+import { Request, Response } from 'express';
+import { ethers } from 'ethers';
+import {
+  OwnershipError,
+  getOwnershipState,
+  proposeTransfer,
+  cancelTransfer,
+  getExecutableProposal,
+  confirmTransfer,
+  renounceOwnership
+} from '../blockchain/ownership.js';
+import { describeCost } from '../blockchain/gas.strategy.js';
+import { NETWORK_CONFIG, OWNERSHIP_CONFIG } from '../config/app.config.js';
+import { buildExplorerTxUrl } from '../config/networks.js';
+import { isDryRun, respondWithDryRun } from '../utils/dry-run.js';
+import logger from '../utils/logger.js';
+
+function clientName(req: Request): string {
+  return req.apiClient?.name ?? 'unknown';
+}
+
+/**
+ * API client and IP of the caller (client@ip), kept in the ownership log
+ */
+function requester(req: Request): string {
+  return `${clientName(req)}@${req.ip || req.socket.remoteAddress || 'unknown'}`;
+}
+
+function describeReceipt(receipt: ethers.TransactionReceipt) {
+  return {
+    txHash: receipt.hash,
+    explorerUrl: buildExplorerTxUrl(NETWORK_CONFIG.explorerTxUrl, receipt.hash),
+    receipt: {
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      ...describeCost(receipt)
+    }
+  };
+}
+
+/**
+ * Send an OwnershipError as its own status/code, anything else as 500
+ */
+function sendOwnershipError(res: Response, error: any, fallbackCode: string, action: string): void {
+  if (error instanceof OwnershipError) {
+    res.status(error.status).json({
+      success: false,
+      error: error.code,
+      message: error.message
+    });
+    return;
+  }
+
+  logger.error(`❌ Failed to ${action}`, {
+    error: error.message,
+    code: error.code
+  });
+  res.status(500).json({
+    success: false,
+    error: fallbackCode,
+    message: error.message
+  });
+}
+
+/**
+ * GET /ownership
+ * Current owner, pending transfer and ownership history
+ */
+export async function getOwnership(_req: Request, res: Response): Promise<void> {
+  try {
+    res.json({
+      success: true,
+      data: await getOwnershipState()
+    });
+  } catch (error: any) {
+    sendOwnershipError(res, error, 'OWNERSHIP_STATUS_FAILED', 'fetch ownership status');
+  }
+}
+
+/**
+ * POST /ownership/transfer
+ * Propose a new owner (executable after OWNERSHIP_TRANSFER_DELAY_MS)
+ * Body: { newOwner: string, reason?: string }
+ */
+export async function proposeOwnershipTransfer(req: Request, res: Response): Promise<void> {
+  const { newOwner, reason } = req.body;
+
+  if (typeof newOwner !== 'string' || (reason !== undefined && typeof reason !== 'string')) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_NEW_OWNER',
+      message: 'newOwner must be an address (reason, if given, a string)'
+    });
+    return;
+  }
+
+  try {
+    const proposal = await proposeTransfer(newOwner, requester(req), clientName(req), reason);
+
+    res.json({
+      success: true,
+      data: proposal,
+      message: `Confirm from another API client with POST /ownership/transfer/confirm and X-Confirm-Key between ${proposal.executableAt} and ${proposal.expiresAt}`
+    });
+  } catch (error: any) {
+    sendOwnershipError(res, error, 'OWNERSHIP_PROPOSAL_FAILED', 'propose ownership transfer');
+  }
+}
+
+/**
+ * POST /ownership/transfer/cancel
+ * Drop the pending transfer
+ * Body: { proposalId: string }
+ */
+export async function cancelOwnershipTransfer(req: Request, res: Response): Promise<void> {
+  const { proposalId } = req.body;
+
+  if (typeof proposalId !== 'string' || proposalId.length === 0) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_PROPOSAL_ID',
+      message: 'proposalId is required'
+    });
+    return;
+  }
+
+  try {
+    res.json({
+      success: true,
+      data: await cancelTransfer(proposalId, requester(req)),
+      message: 'Ownership transfer cancelled'
+    });
+  } catch (error: any) {
+    sendOwnershipError(res, error, 'OWNERSHIP_CANCEL_FAILED', 'cancel ownership transfer');
+  }
+}
+
+/**
+ * POST /ownership/transfer/confirm
+ * Execute the pending transfer once its delay passed (requires X-Confirm-Key, another client than the proposer)
+ * Body: { proposalId: string }
+ */
+export async function confirmOwnershipTransfer(req: Request, res: Response): Promise<void> {
+  const { proposalId } = req.body;
+
+  if (typeof proposalId !== 'string' || proposalId.length === 0) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_PROPOSAL_ID',
+      message: 'proposalId is required'
+    });
+    return;
+  }
+
+  try {
+    if (isDryRun(req)) {
+      const proposal = await getExecutableProposal(proposalId, clientName(req));
+      await respondWithDryRun(res, 'transfer-ownership', { type: 'transfer-ownership', newOwner: proposal.newOwner });
+      return;
+    }
+
+    const { proposal, receipt } = await confirmTransfer(proposalId, requester(req), clientName(req));
+
+    res.json({
+      success: true,
+      ...describeReceipt(receipt),
+      previousOwner: proposal.currentOwner,
+      newOwner: proposal.newOwner,
+      message: 'Contract ownership transferred - this relayer can no longer send owner-only calls'
+    });
+  } catch (error: any) {
+    sendOwnershipError(res, error, 'OWNERSHIP_TRANSFER_FAILED', 'transfer ownership');
+  }
+}
+
+/**
+ * POST /ownership/renounce
+ * renounceOwnership() - refused unless OWNERSHIP_RENOUNCE_BREAK_GLASS=true (requires X-Confirm-Key)
+ */
+export async function renounceContractOwnership(req: Request, res: Response): Promise<void> {
+  try {
+    if (isDryRun(req) && OWNERSHIP_CONFIG.renounceBreakGlass) {
+      await respondWithDryRun(res, 'renounce-ownership', { type: 'renounce-ownership' });
+      return;
+    }
+
+    const receipt = await renounceOwnership(requester(req));
+
+    res.json({
+      success: true,
+      ...describeReceipt(receipt),
+      message: 'Contract ownership renounced - owner-only functions are permanently disabled'
+    });
+  } catch (error: any) {
+    sendOwnershipError(res, error, 'OWNERSHIP_RENOUNCE_FAILED', 'renounce ownership');
+  }
+}
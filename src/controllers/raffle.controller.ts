@@ -1,9 +1,18 @@
 import { Request, Response } from 'express';
-import { enqueueTransaction } from '../queues/tx.queue.js';
+import { ethers } from 'ethers';
+import { enqueueTransaction, RaffleAlreadyEnqueuedError } from '../queues/tx.queue.js';
+import { getRaffleReference } from '../blockchain/raffle.references.js';
+import { getRaffleView, hasTicket, listRaffles as readRafflePage } from '../blockchain/raffle.reader.js';
+import { RaffleStatus } from '../utils/raffle.js';
+import { isDryRun, respondWithDryRun } from '../utils/dry-run.js';
 import logger from '../utils/logger.js';
 
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
 /**
  * Request interfaces
+ * callbackUrl: optional webhook target for this job's outcome
  */
 export interface CreateRaffleRequest {
   referenceId: string | number | bigint;
@@ -12,18 +21,27 @@ export interface CreateRaffleRequest {
   maxTickets: number;
   minTickets: number;
   durationSeconds: number;
+  callbackUrl?: string;
 }
 
 export interface ExecuteRaffleRequest {
   raffleId: number | string;
+  callbackUrl?: string;
 }
 
 export interface CancelRaffleRequest {
   raffleId: number | string;
+  callbackUrl?: string;
 }
 
 export interface ExecuteRefundRequest {
   raffleId: number | string;
+  callbackUrl?: string;
+}
+
+export interface RetryRandomnessRequest {
+  raffleId: number | string;
+  callbackUrl?: string;
 }
 
 /**
@@ -32,7 +50,7 @@ export interface ExecuteRefundRequest {
  */
 export async function createRaffle(req: Request, res: Response): Promise<void> {
   try {
-    const { referenceId, templateId, ticketPrice, maxTickets, minTickets, durationSeconds } = req.body as CreateRaffleRequest;
+    const { referenceId, templateId, ticketPrice, maxTickets, minTickets, durationSeconds, callbackUrl } = req.body as CreateRaffleRequest;
     
     // Validation
     if (!referenceId || !templateId || !ticketPrice || !maxTickets || !minTickets || !durationSeconds) {
@@ -44,25 +62,34 @@ export async function createRaffle(req: Request, res: Response): Promise<void> {
       return;
     }
     
+    const jobData = {
+      type: 'create-raffle',
+      referenceId,
+      templateId,
+      ticketPrice,
+      maxTickets,
+      minTickets,
+      durationSeconds,
+      callbackUrl
+    };
+    
+    if (isDryRun(req)) {
+      await respondWithDryRun(res, 'create-raffle', jobData);
+      return;
+    }
+    
     logger.info('📝 Enqueueing raffle creation...', {
       referenceId: referenceId.toString(),
       templateId: templateId.toString(),
       ticketPrice,
       maxTickets,
       minTickets,
-      durationSeconds
+      durationSeconds,
+      callbackUrl
     });
     
     // Enqueue job (worker will process and send TX)
-    const job = await enqueueTransaction('create-raffle', {
-      type: 'create-raffle',
-      referenceId,
-      templateId,
-      ticketPrice,
-      maxTickets,
-      minTickets,
-      durationSeconds
-    });
+    const job = await enqueueTransaction('create-raffle', jobData);
     
     logger.info('✅ Raffle creation enqueued', {
       jobId: job.id,
@@ -96,7 +123,7 @@ export async function createRaffle(req: Request, res: Response): Promise<void> {
  */
 export async function executeRaffle(req: Request, res: Response): Promise<void> {
   try {
-    const { raffleId } = req.body as ExecuteRaffleRequest;
+    const { raffleId, callbackUrl } = req.body as ExecuteRaffleRequest;
     
     if (!raffleId) {
       res.status(400).json({
@@ -106,15 +133,23 @@ export async function executeRaffle(req: Request, res: Response): Promise<void>
       return;
     }
     
+    const jobData = {
+      type: 'execute-raffle',
+      raffleId,
+      callbackUrl
+    };
+    
+    if (isDryRun(req)) {
+      await respondWithDryRun(res, 'execute-raffle', jobData);
+      return;
+    }
+    
     logger.info('🎲 Enqueueing raffle execution...', {
       raffleId: raffleId.toString()
     });
     
     // Enqueue job (worker will process and send TX)
-    const job = await enqueueTransaction('execute-raffle', {
-      type: 'execute-raffle',
-      raffleId
-    });
+    const job = await enqueueTransaction('execute-raffle', jobData);
     
     logger.info('✅ Raffle execution enqueued', {
       jobId: job.id,
@@ -129,6 +164,16 @@ export async function executeRaffle(req: Request, res: Response): Promise<void>
     });
     
   } catch (error: any) {
+    // Already enqueued by the raffle executor or another request
+    if (error instanceof RaffleAlreadyEnqueuedError) {
+      res.status(409).json({
+        success: false,
+        error: error.code,
+        message: error.message
+      });
+      return;
+    }
+    
     logger.error('❌ Failed to enqueue raffle execution:', {
       error: error.message,
       code: error.code
@@ -147,7 +192,7 @@ export async function executeRaffle(req: Request, res: Response): Promise<void>
  */
 export async function cancelRaffle(req: Request, res: Response): Promise<void> {
   try {
-    const { raffleId } = req.body as CancelRaffleRequest;
+    const { raffleId, callbackUrl } = req.body as CancelRaffleRequest;
     
     if (!raffleId) {
       res.status(400).json({
@@ -157,15 +202,23 @@ export async function cancelRaffle(req: Request, res: Response): Promise<void> {
       return;
     }
     
+    const jobData = {
+      type: 'cancel-raffle',
+      raffleId,
+      callbackUrl
+    };
+    
+    if (isDryRun(req)) {
+      await respondWithDryRun(res, 'cancel-raffle', jobData);
+      return;
+    }
+    
     logger.info('🚫 Enqueueing raffle cancellation...', {
       raffleId: raffleId.toString()
     });
     
     // Enqueue job (worker will process and send TX)
-    const job = await enqueueTransaction('cancel-raffle', {
-      type: 'cancel-raffle',
-      raffleId
-    });
+    const job = await enqueueTransaction('cancel-raffle', jobData);
     
     logger.info('✅ Raffle cancellation enqueued', {
       jobId: job.id,
@@ -180,6 +233,16 @@ export async function cancelRaffle(req: Request, res: Response): Promise<void> {
     });
     
   } catch (error: any) {
+    // Already enqueued by the raffle executor or another request
+    if (error instanceof RaffleAlreadyEnqueuedError) {
+      res.status(409).json({
+        success: false,
+        error: error.code,
+        message: error.message
+      });
+      return;
+    }
+    
     logger.error('❌ Failed to enqueue raffle cancellation:', {
       error: error.message,
       code: error.code
@@ -198,7 +261,7 @@ export async function cancelRaffle(req: Request, res: Response): Promise<void> {
  */
 export async function executeRefund(req: Request, res: Response): Promise<void> {
   try {
-    const { raffleId } = req.body as ExecuteRefundRequest;
+    const { raffleId, callbackUrl } = req.body as ExecuteRefundRequest;
     
     // Validation
     if (!raffleId) {
@@ -209,15 +272,23 @@ export async function executeRefund(req: Request, res: Response): Promise<void>
       return;
     }
     
+    const jobData = {
+      type: 'execute-refund',
+      raffleId,
+      callbackUrl
+    };
+    
+    if (isDryRun(req)) {
+      await respondWithDryRun(res, 'execute-refund', jobData);
+      return;
+    }
+    
     logger.info('💸 Enqueueing refund batch execution...', {
       raffleId: raffleId.toString()
     });
     
     // Enqueue job (worker will process and send TX)
-    const job = await enqueueTransaction('execute-refund', {
-      type: 'execute-refund',
-      raffleId
-    });
+    const job = await enqueueTransaction('execute-refund', jobData);
     
     logger.info('✅ Refund batch execution enqueued', {
       jobId: job.id,
@@ -246,3 +317,278 @@ export async function executeRefund(req: Request, res: Response): Promise<void>
     });
   }
 }
+
+/**
+ * POST /retry-randomness
+ * Enqueue a new VRF request for a raffle whose callback never arrived
+ */
+export async function retryRandomness(req: Request, res: Response): Promise<void> {
+  try {
+    const { raffleId, callbackUrl } = req.body as RetryRandomnessRequest;
+    
+    if (!raffleId) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing required field: raffleId'
+      });
+      return;
+    }
+    
+    const jobData = {
+      type: 'retry-randomness',
+      raffleId,
+      callbackUrl
+    };
+    
+    if (isDryRun(req)) {
+      await respondWithDryRun(res, 'retry-randomness', jobData);
+      return;
+    }
+    
+    logger.info('🔁 Enqueueing randomness retry...', {
+      raffleId: raffleId.toString()
+    });
+    
+    // Enqueue job (worker will process and send TX)
+    const job = await enqueueTransaction('retry-randomness', jobData);
+    
+    logger.info('✅ Randomness retry enqueued', {
+      jobId: job.id,
+      raffleId: raffleId.toString()
+    });
+    
+    res.json({
+      success: true,
+      jobId: job.id,
+      raffleId: raffleId.toString(),
+      message: 'Transaction queued - worker will process'
+    });
+    
+  } catch (error: any) {
+    logger.error('❌ Failed to enqueue randomness retry:', {
+      error: error.message,
+      code: error.code
+    });
+    res.status(500).json({
+      success: false,
+      error: 'Retry randomness failed',
+      message: error.message
+    });
+  }
+}
+
+/**
+ * GET /raffles/by-reference/:referenceId
+ * On-chain raffleId (and creation parameters) for a backend referenceId
+ */
+export async function getRaffleByReference(req: Request, res: Response): Promise<void> {
+  const { referenceId } = req.params;
+  
+  if (!/^\d+$/.test(referenceId)) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_REFERENCE_ID',
+      message: 'referenceId must be a non-negative integer'
+    });
+    return;
+  }
+  
+  try {
+    const reference = await getRaffleReference(referenceId);
+    
+    if (!reference) {
+      res.status(404).json({
+        success: false,
+        error: 'RAFFLE_NOT_FOUND',
+        message: `No raffle created for referenceId ${referenceId} (not mined yet or unknown)`
+      });
+      return;
+    }
+    
+    res.json({
+      success: true,
+      data: reference
+    });
+  } catch (error: any) {
+    logger.error('❌ Failed to resolve raffle reference', {
+      referenceId,
+      error: error.message
+    });
+    res.status(500).json({
+      success: false,
+      error: 'RAFFLE_LOOKUP_FAILED',
+      message: error.message
+    });
+  }
+}
+
+/**
+ * GET /raffles/:raffleId
+ * Raffle details from getRaffle() (status by name)
+ */
+export async function getRaffleDetails(req: Request, res: Response): Promise<void> {
+  const { raffleId } = req.params;
+  
+  if (!/^\d+$/.test(raffleId)) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_RAFFLE_ID',
+      message: 'raffleId must be a non-negative integer'
+    });
+    return;
+  }
+  
+  try {
+    const raffle = await getRaffleView(BigInt(raffleId));
+    
+    if (!raffle) {
+      res.status(404).json({
+        success: false,
+        error: 'RAFFLE_NOT_FOUND',
+        message: `Raffle ${raffleId} does not exist`
+      });
+      return;
+    }
+    
+    res.json({
+      success: true,
+      data: raffle
+    });
+  } catch (error: any) {
+    logger.error('❌ Failed to read raffle', {
+      raffleId,
+      error: error.message,
+      code: error.code
+    });
+    res.status(500).json({
+      success: false,
+      error: 'RAFFLE_READ_FAILED',
+      message: error.message
+    });
+  }
+}
+
+/**
+ * GET /raffles/:raffleId/participants/:address
+ * Whether an address holds a ticket (hasTicketInRaffle)
+ */
+export async function getRaffleParticipant(req: Request, res: Response): Promise<void> {
+  const { raffleId, address } = req.params;
+  
+  if (!/^\d+$/.test(raffleId)) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_RAFFLE_ID',
+      message: 'raffleId must be a non-negative integer'
+    });
+    return;
+  }
+  
+  if (!ethers.isAddress(address)) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_ADDRESS',
+      message: 'address must be a valid address'
+    });
+    return;
+  }
+  
+  try {
+    const raffle = await getRaffleView(BigInt(raffleId));
+    
+    if (!raffle) {
+      res.status(404).json({
+        success: false,
+        error: 'RAFFLE_NOT_FOUND',
+        message: `Raffle ${raffleId} does not exist`
+      });
+      return;
+    }
+    
+    res.json({
+      success: true,
+      data: {
+        raffleId,
+        address: ethers.getAddress(address),
+        hasTicket: await hasTicket(BigInt(raffleId), address)
+      }
+    });
+  } catch (error: any) {
+    logger.error('❌ Failed to check raffle participant', {
+      raffleId,
+      address,
+      error: error.message,
+      code: error.code
+    });
+    res.status(500).json({
+      success: false,
+      error: 'RAFFLE_READ_FAILED',
+      message: error.message
+    });
+  }
+}
+
+/**
+ * GET /raffles?startId=0&limit=20&status=FILLING&details=true
+ * Raffles by id from startId (follow nextStartId for the next page)
+ */
+export async function listRaffles(req: Request, res: Response): Promise<void> {
+  const startId = typeof req.query.startId === 'string' ? req.query.startId : '0';
+  const limit = req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : DEFAULT_PAGE_SIZE;
+  const status = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : undefined;
+  const statusNames = Object.keys(RaffleStatus).filter(key => isNaN(Number(key)));
+  
+  if (!/^\d+$/.test(startId)) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_START_ID',
+      message: 'startId must be a non-negative integer'
+    });
+    return;
+  }
+  
+  if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_LIMIT',
+      message: `limit must be between 1 and ${MAX_PAGE_SIZE}`
+    });
+    return;
+  }
+  
+  if (status !== undefined && !statusNames.includes(status)) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_STATUS',
+      message: `status must be one of: ${statusNames.join(', ')}`
+    });
+    return;
+  }
+  
+  try {
+    const page = await readRafflePage({
+      startId: BigInt(startId),
+      limit,
+      status: status !== undefined ? RaffleStatus[status as keyof typeof RaffleStatus] : undefined,
+      details: req.query.details === 'true'
+    });
+    
+    res.json({
+      success: true,
+      data: {
+        ...page,
+        count: page.raffles.length
+      }
+    });
+  } catch (error: any) {
+    logger.error('❌ Failed to list raffles', {
+      error: error.message,
+      code: error.code
+    });
+    res.status(500).json({
+      success: false,
+      error: 'RAFFLE_LIST_FAILED',
+      message: error.message
+    });
+  }
+}
@@ -1,19 +1,38 @@
 import { Request, Response } from 'express';
 import { enqueueTransaction } from '../queues/tx.queue.js';
+import { submitContractTransaction, waitForConfirmation } from '../blockchain/tx.sender.js';
+import { describeCost } from '../blockchain/gas.strategy.js';
+import { NETWORK_CONFIG } from '../config/app.config.js';
+import { buildExplorerTxUrl } from '../config/networks.js';
+import { isDryRun, respondWithDryRun } from '../utils/dry-run.js';
+import { requiresApproval, respondWithProposal } from '../approvals/approval.gate.js';
 import logger from '../utils/logger.js';
 
 /**
  * POST /pause-system
  * Enqueue standard pause (graceful, no emergency event)
  */
-export async function pauseSystem(_req: Request, res: Response): Promise<void> {
+export async function pauseSystem(req: Request, res: Response): Promise<void> {
   try {
+    const jobData = {
+      type: 'pause-contract',
+      callbackUrl: req.body.callbackUrl
+    };
+    
+    if (isDryRun(req)) {
+      await respondWithDryRun(res, 'pause-contract', jobData);
+      return;
+    }
+    
+    if (requiresApproval('pause-contract')) {
+      await respondWithProposal(req, res, 'pause-contract', jobData);
+      return;
+    }
+    
     logger.info('⏸️  Enqueueing standard pause');
     
     // Enqueue job (worker will process and send TX)
-    const job = await enqueueTransaction('pause-contract', {
-      type: 'pause-contract'
-    });
+    const job = await enqueueTransaction('pause-contract', jobData);
     
     logger.info('✅ Pause enqueued', {
       jobId: job.id
@@ -42,14 +61,27 @@ export async function pauseSystem(_req: Request, res: Response): Promise<void> {
  * POST /unpause-system
  * Enqueue standard unpause (resume normal operations)
  */
-export async function unpauseSystem(_req: Request, res: Response): Promise<void> {
+export async function unpauseSystem(req: Request, res: Response): Promise<void> {
   try {
+    const jobData = {
+      type: 'unpause-contract',
+      callbackUrl: req.body.callbackUrl
+    };
+    
+    if (isDryRun(req)) {
+      await respondWithDryRun(res, 'unpause-contract', jobData);
+      return;
+    }
+    
+    if (requiresApproval('unpause-contract')) {
+      await respondWithProposal(req, res, 'unpause-contract', jobData);
+      return;
+    }
+    
     logger.info('▶️  Enqueueing standard unpause');
     
     // Enqueue job (worker will process and send TX)
-    const job = await enqueueTransaction('unpause-contract', {
-      type: 'unpause-contract'
-    });
+    const job = await enqueueTransaction('unpause-contract', jobData);
     
     logger.info('✅ Unpause enqueued', {
       jobId: job.id
@@ -78,33 +110,42 @@ export async function unpauseSystem(_req: Request, res: Response): Promise<void>
  * POST /emergency-pause
  * Emergency pause with event logging (security incident)
  */
-export async function emergencyPause(_req: Request, res: Response): Promise<void> {
+export async function emergencyPause(req: Request, res: Response): Promise<void> {
   try {
+    if (isDryRun(req)) {
+      await respondWithDryRun(res, 'emergency-pause', {});
+      return;
+    }
+    
     logger.warn('🚨 EMERGENCY PAUSE requested');
     
-    const signer = contract.runner as ethers.Wallet;
-    const nonce = await signer.getNonce('latest');
-    const tx = await contract.emergencyPause({ nonce });
+    // Bypasses the queue but shares the worker's nonce sequence (no collision)
+    const submitted = await submitContractTransaction(`emergency-pause-${Date.now()}`, 'emergencyPause', [], {
+      jobType: 'emergency-pause'
+    });
+    const { txHash, nonce } = submitted;
     
     logger.warn('⏸️  Emergency pause transaction sent:', {
-      txHash: tx.hash,
+      txHash,
       nonce
     });
     
-    const receipt = await tx.wait();
+    const receipt = await waitForConfirmation(submitted);
     
     logger.warn('🚨 SYSTEM EMERGENCY PAUSED', {
-      txHash: receipt?.hash,
-      blockNumber: receipt?.blockNumber
+      txHash: receipt.hash,
+      blockNumber: receipt.blockNumber
     });
     
     res.json({
       success: true,
-      txHash: tx.hash,
+      txHash: receipt.hash,
+      explorerUrl: buildExplorerTxUrl(NETWORK_CONFIG.explorerTxUrl, receipt.hash),
       message: 'System emergency paused - all user operations halted',
       receipt: {
-        blockNumber: receipt?.blockNumber,
-        gasUsed: receipt?.gasUsed.toString()
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed.toString(),
+        ...describeCost(receipt)
       }
     });
     
@@ -125,33 +166,50 @@ export async function emergencyPause(_req: Request, res: Response): Promise<void
  * POST /emergency-unpause
  * Emergency unpause after incident resolved
  */
-export async function emergencyUnpause(_req: Request, res: Response): Promise<void> {
+export async function emergencyUnpause(req: Request, res: Response): Promise<void> {
   try {
+    if (isDryRun(req)) {
+      await respondWithDryRun(res, 'emergency-unpause', {});
+      return;
+    }
+    
+    // Approved proposals run as an emergency-unpause job (emergency-pause is never gated)
+    if (requiresApproval('emergency-unpause')) {
+      await respondWithProposal(req, res, 'emergency-unpause', {
+        type: 'emergency-unpause',
+        callbackUrl: req.body.callbackUrl
+      });
+      return;
+    }
+    
     logger.info('✅ Emergency unpause requested');
     
-    const signer = contract.runner as ethers.Wallet;
-    const nonce = await signer.getNonce('latest');
-    const tx = await contract.emergencyUnpause({ nonce });
+    const submitted = await submitContractTransaction(`emergency-unpause-${Date.now()}`, 'emergencyUnpause', [], {
+      jobType: 'emergency-unpause'
+    });
+    const { txHash, nonce } = submitted;
     
     logger.info('▶️  Emergency unpause transaction sent:', {
-      txHash: tx.hash,
+      txHash,
       nonce
     });
     
-    const receipt = await tx.wait();
+    const receipt = await waitForConfirmation(submitted);
     
     logger.info('✅ EMERGENCY MODE LIFTED', {
-      txHash: receipt?.hash,
-      blockNumber: receipt?.blockNumber
+      txHash: receipt.hash,
+      blockNumber: receipt.blockNumber
     });
     
     res.json({
       success: true,
-      txHash: tx.hash,
+      txHash: receipt.hash,
+      explorerUrl: buildExplorerTxUrl(NETWORK_CONFIG.explorerTxUrl, receipt.hash),
       message: 'Emergency mode lifted - system resumed',
       receipt: {
-        blockNumber: receipt?.blockNumber,
-        gasUsed: receipt?.gasUsed.toString()
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed.toString(),
+        ...describeCost(receipt)
       }
     });
     
@@ -0,0 +1,45 @@
+import { Request, Response } from 'express';
+import { getDeliveryLog } from '../queues/webhook.queue.js';
+import logger from '../utils/logger.js';
+
+const DEFAULT_LOG_LIMIT = 100;
+const MAX_LOG_LIMIT = 1000;
+
+/**
+ * GET /webhooks/deliveries?jobId=42&limit=100
+ * Persisted webhook delivery log (newest first)
+ */
+export async function getWebhookDeliveries(req: Request, res: Response): Promise<void> {
+  try {
+    const jobId = typeof req.query.jobId === 'string' ? req.query.jobId : undefined;
+    const limit = req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : DEFAULT_LOG_LIMIT;
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_LOG_LIMIT) {
+      res.status(400).json({
+        success: false,
+        error: 'INVALID_LIMIT',
+        message: `limit must be between 1 and ${MAX_LOG_LIMIT}`
+      });
+      return;
+    }
+
+    const deliveries = await getDeliveryLog({ jobId, limit });
+
+    res.json({
+      success: true,
+      data: {
+        count: deliveries.length,
+        deliveries
+      }
+    });
+  } catch (error: any) {
+    logger.error('❌ Failed to fetch webhook deliveries', {
+      error: error.message
+    });
+    res.status(500).json({
+      success: false,
+      error: 'WEBHOOK_LOG_FAILED',
+      message: error.message
+    });
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Remote Signer Stub - Local signing service speaking the remote signer protocol (development only)
+ *
+ * Implements protocol v1 from blockchain/remote.signer.ts with an in-memory
+ * key, to run the relayer with SIGNER_BACKEND=remote on a laptop:
+ *
+ *   STUB_PRIVATE_KEY=0x... pnpm signer:stub --port 8600 --token devtoken
+ *   SIGNER_BACKEND=remote SIGNER_REMOTE_URL=http://127.0.0.1:8600 SIGNER_REMOTE_AUTH_TOKEN=devtoken pnpm dev
+ *
+ *   pnpm signer:stub --socket /tmp/rifast-signer.sock
+ *   SIGNER_REMOTE_URL=unix:///tmp/rifast-signer.sock
+ *
+ * OPTIONS:
+ * --port <port> | --socket <path> → where to listen (default port 8600)
+ * --token <token>                 → require `Authorization: Bearer <token>`
+ * --chain-id <id>                 → refuse transactions for other chains
+ * --refuse                        → refuse every signing request (error path)
+ *
+ * STUB_PRIVATE_KEY defaults to hardhat account #0 (public test key).
+ */
+
+import fs from 'fs';
+import http from 'http';
+import { ethers } from 'ethers';
+
+// Hardhat / anvil account #0 - publicly known, never fund it on a real chain
+const HARDHAT_ACCOUNT_0 = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const socketPath = readFlag('socket');
+const port = parseInt(readFlag('port') ?? '8600', 10);
+const token = readFlag('token');
+const chainId = readFlag('chain-id');
+const refuseAll = process.argv.includes('--refuse');
+
+const wallet = new ethers.Wallet(process.env.STUB_PRIVATE_KEY || HARDHAT_ACCOUNT_0);
+
+function send(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function refuse(res: http.ServerResponse, status: number, error: string, message: string): void {
+  console.log(`[signer-stub] refused: ${error} - ${message}`);
+  send(res, status, { error, message });
+}
+
+async function handle(req: http.IncomingMessage, res: http.ServerResponse, body: string): Promise<void> {
+  if (token && req.headers.authorization !== `Bearer ${token}`) {
+    refuse(res, 401, 'UNAUTHORIZED', 'Missing or invalid bearer token');
+    return;
+  }
+
+  if (req.method === 'GET' && req.url === '/v1/address') {
+    send(res, 200, { address: wallet.address });
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    refuse(res, 404, 'NOT_FOUND', `${req.method} ${req.url}`);
+    return;
+  }
+
+  if (refuseAll) {
+    refuse(res, 403, 'POLICY_REFUSED', 'Stub started with --refuse');
+    return;
+  }
+
+  const request = JSON.parse(body || '{}');
+
+  switch (req.url) {
+    case '/v1/sign-transaction': {
+      const tx = ethers.Transaction.from(request.unsignedTransaction);
+
+      if (chainId && tx.chainId.toString() !== chainId) {
+        refuse(res, 403, 'WRONG_CHAIN', `Chain ${tx.chainId} is not allowed (expected ${chainId})`);
+        return;
+      }
+
+      tx.signature = wallet.signingKey.sign(tx.unsignedHash);
+      console.log('[signer-stub] signed tx', { to: tx.to, nonce: tx.nonce, hash: tx.hash });
+      send(res, 200, { signedTransaction: tx.serialized });
+      return;
+    }
+
+    case '/v1/sign-message': {
+      const signature = await wallet.signMessage(ethers.getBytes(request.message));
+      console.log('[signer-stub] signed message');
+      send(res, 200, { signature });
+      return;
+    }
+
+    case '/v1/sign-typed-data': {
+      const signature = await wallet.signTypedData(request.domain, request.types, request.value);
+      console.log('[signer-stub] signed typed data', { primaryType: ethers.TypedDataEncoder.getPrimaryType(request.types) });
+      send(res, 200, { signature });
+      return;
+    }
+
+    default:
+      refuse(res, 404, 'NOT_FOUND', `${req.method} ${req.url}`);
+  }
+}
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    handle(req, res, body).catch((error: any) => refuse(res, 400, 'BAD_REQUEST', error.message));
+  });
+});
+
+if (socketPath) {
+  if (fs.existsSync(socketPath)) {
+    fs.unlinkSync(socketPath);
+  }
+  server.listen(socketPath, () => {
+    console.log(`[signer-stub] ${wallet.address} listening on unix:${socketPath}`);
+  });
+} else {
+  server.listen(port, '127.0.0.1', () => {
+    console.log(`[signer-stub] ${wallet.address} listening on http://127.0.0.1:${port}`);
+  });
+}
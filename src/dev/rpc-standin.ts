@@ -0,0 +1,136 @@
+/**
+ * RPC Stand-in - Local JSON-RPC proxy with injectable faults (development only)
+ *
+ * Run a few in front of one local node and list them in RPC_URLS to
+ * exercise failover, health scoring, stale heights and quorum reads:
+ *
+ *   npx hardhat node                                   # upstream on :8545
+ *   pnpm rpc:standin --port 8546
+ *   pnpm rpc:standin --port 8547 --latency-ms 400
+ *   RPC_URLS=http://127.0.0.1:8546,http://127.0.0.1:8547
+ *
+ * OPTIONS (flags, also changeable at runtime with
+ * `curl -X POST localhost:<port>/__standin -d '{"mode":"down"}'`):
+ * --upstream <url>    → node to forward to (default http://127.0.0.1:8545)
+ * --mode <mode>       → ok | down (HTTP 503) | hang (never answers) | stale
+ *                       (eth_blockNumber frozen at the height when set)
+ * --fail-rate <0-1>   → share of requests answered with HTTP 502
+ * --latency-ms <ms>   → delay added to every answer
+ * --lie               → eth_call answers are corrupted (quorum disagreement)
+ */
+
+import http from 'http';
+
+type StandinMode = 'ok' | 'down' | 'hang' | 'stale';
+
+interface StandinSettings {
+  upstream: string;
+  mode: StandinMode;
+  failRate: number;
+  latencyMs: number;
+  lie: boolean;
+  frozenHeight?: string;
+}
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const port = parseInt(readFlag('port') ?? '8546', 10);
+
+const settings: StandinSettings = {
+  upstream: readFlag('upstream') ?? 'http://127.0.0.1:8545',
+  mode: (readFlag('mode') ?? 'ok') as StandinMode,
+  failRate: parseFloat(readFlag('fail-rate') ?? '0'),
+  latencyMs: parseInt(readFlag('latency-ms') ?? '0', 10),
+  lie: process.argv.includes('--lie')
+};
+
+async function forward(body: string): Promise<string> {
+  const response = await fetch(settings.upstream, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body
+  });
+  return response.text();
+}
+
+/**
+ * Apply stale / lie faults to an upstream answer
+ */
+function tamper(request: any, answer: any): any {
+  if (settings.mode === 'stale' && request.method === 'eth_blockNumber' && settings.frozenHeight) {
+    return { ...answer, result: settings.frozenHeight };
+  }
+
+  if (settings.lie && request.method === 'eth_call' && typeof answer.result === 'string' && answer.result.length > 2) {
+    // Flip the last hex digit - still decodes, but disagrees with honest nodes
+    const last = answer.result.slice(-1) === '0' ? '1' : '0';
+    return { ...answer, result: answer.result.slice(0, -1) + last };
+  }
+
+  return answer;
+}
+
+async function freezeHeight(): Promise<void> {
+  const answer = JSON.parse(await forward(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_blockNumber', params: [] })));
+  settings.frozenHeight = answer.result;
+}
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => void handle(req, res, body));
+});
+
+async function handle(req: http.IncomingMessage, res: http.ServerResponse, body: string): Promise<void> {
+  // Runtime control
+  if (req.url === '/__standin') {
+    if (req.method === 'POST' && body) {
+      Object.assign(settings, JSON.parse(body));
+      if (settings.mode === 'stale') {
+        await freezeHeight();
+      }
+      console.log(`[stand-in :${port}] settings changed`, settings);
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(settings));
+    return;
+  }
+
+  if (settings.mode === 'hang') {
+    return;
+  }
+
+  await new Promise(resolve => setTimeout(resolve, settings.latencyMs));
+
+  if (settings.mode === 'down' || Math.random() < settings.failRate) {
+    res.writeHead(settings.mode === 'down' ? 503 : 502);
+    res.end();
+    return;
+  }
+
+  try {
+    const request = JSON.parse(body);
+    const answer = JSON.parse(await forward(body));
+
+    const tampered = Array.isArray(request)
+      ? answer.map((item: any) => tamper(request.find((entry: any) => entry.id === item.id), item))
+      : tamper(request, answer);
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(tampered));
+  } catch (error: any) {
+    res.writeHead(502);
+    res.end(error.message);
+  }
+}
+
+if (settings.mode === 'stale') {
+  await freezeHeight();
+}
+
+server.listen(port, '127.0.0.1', () => {
+  console.log(`[stand-in :${port}] forwarding to ${settings.upstream}`, settings);
+});
@@ -10,8 +10,20 @@ import { fileURLToPath } from 'url';
 // Note: .env is loaded by loader.ts before this file imports
 import logger from './utils/logger.js';
 import { startTransactionWorker, stopTransactionWorker } from './workers/tx.worker.js';
+import { startWebhookWorker, stopWebhookWorker } from './workers/webhook.worker.js';
+import { startRaffleExecutor, stopRaffleExecutor } from './workers/raffle.executor.js';
+import { startVrfWatcher, stopVrfWatcher } from './workers/vrf.watcher.js';
 import { initializeQueueMonitoring } from './monitoring/queue.monitor.js';
+import { startBalanceMonitor, stopBalanceMonitor } from './monitoring/balance.monitor.js';
+import { startHealthEvaluator, stopHealthEvaluator } from './monitoring/health.evaluator.js';
+import { startInvariantWatchdog, stopInvariantWatchdog } from './monitoring/invariant.watchdog.js';
+import { startEventIndexer, stopEventIndexer } from './indexer/event.indexer.js';
+import { NonceManager } from './blockchain/nonce.manager.js';
+import { FailoverProvider } from './blockchain/rpc.provider.js';
+import { createSigner, RelayerSigner } from './blockchain/signer.factory.js';
+import { initWalletPool } from './blockchain/wallet.pool.js';
 import {
+  recordHttpMetrics,
   authenticateRequest,
   checkIPWhitelist,
   rateLimitMiddleware
@@ -22,13 +34,19 @@ import {
   systemRoutes,
   adminRoutes,
   complianceRoutes,
-  monitoringRoutes
+  monitoringRoutes,
+  jobsRoutes,
+  webhooksRoutes,
+  indexerRoutes,
+  ownershipRoutes,
+  approvalsRoutes
 } from './routes/index.js';
 import {
   SERVER_CONFIG,
   NETWORK_CONFIG,
+  RPC_CONFIG,
   CONTRACT_ADDRESS,
-  PRIVATE_KEY,
+  SIGNER_CONFIG,
   ALLOWED_IPS,
   RATE_LIMIT_CONFIG
 } from './config/app.config.js';
@@ -40,13 +58,28 @@ const __dirname = path.dirname(__filename);
 // BLOCKCHAIN SETUP
 // ============================================
 
-let provider: ethers.JsonRpcProvider;
-let signer: ethers.Wallet;
+export let provider: FailoverProvider; // RPC endpoints with failover (see blockchain/rpc.provider.ts)
+export let signer: RelayerSigner; // Keystore, remote or dev env key (see blockchain/signer.factory.ts)
 export let contract: ethers.Contract; // Export for executor
+export let nonceManager: NonceManager; // Shared by worker and direct-send routes
 
 try {
-  provider = new ethers.JsonRpcProvider(NETWORK_CONFIG.rpcUrl);
-  signer = new ethers.Wallet(PRIVATE_KEY, provider);
+  provider = new FailoverProvider(RPC_CONFIG.urls, NETWORK_CONFIG.chainId);
+  
+  // Refuse to sign on a chain other than the configured profile (every endpoint is checked)
+  try {
+    await provider.verifyEndpoints();
+  } catch (error: any) {
+    logger.error('❌ FATAL: RPC endpoints failed verification', {
+      network: NETWORK_CONFIG.name,
+      expectedChainId: NETWORK_CONFIG.chainId,
+      error: error.message
+    });
+    process.exit(1);
+  }
+  provider.startHealthChecks();
+  
+  signer = await createSigner(provider);
   
   // Load contract ABI
   const abiPath = path.join(__dirname, '../abi/RifasPlatform.json');
@@ -60,18 +93,55 @@ try {
   const contractABI = contractArtifact.abi || contractArtifact; // Handle both artifact and raw ABI formats
   contract = new ethers.Contract(CONTRACT_ADDRESS, contractABI, signer);
   
+  // Owner-only calls would all revert - refuse to start unless the signer is owner()
+  const owner: string = await contract.owner();
+  if (owner.toLowerCase() !== signer.address.toLowerCase()) {
+    logger.error('❌ FATAL: Signer is not the contract owner', {
+      contract: CONTRACT_ADDRESS,
+      owner,
+      signer: signer.address,
+      hint: 'Check CONTRACT_ADDRESS and the signer configuration (ownership may have been transferred)'
+    });
+    process.exit(1);
+  }
+  
   logger.info('✅ Blockchain connection initialized');
-  logger.info(`   Network: ${NETWORK_CONFIG.name} (Chain ID: ${NETWORK_CONFIG.chainId})`);
-  logger.info(`   RPC: ${NETWORK_CONFIG.rpcUrl}`);
+  logger.info(`   Network: ${NETWORK_CONFIG.name} (Chain ID: ${NETWORK_CONFIG.chainId}, verified)`);
+  logger.info(`   Confirmations: ${NETWORK_CONFIG.confirmations}`);
+  logger.info(`   RPC: ${RPC_CONFIG.urls.length} endpoint(s), active ${provider.getStatus().activeUrl}`);
   logger.info(`   Contract: ${CONTRACT_ADDRESS}`);
-  logger.info(`   Signer: ${signer.address}`);
+  logger.info(`   Signer: ${signer.address} (${SIGNER_CONFIG.backend})`);
+  
+  // Resync nonces from chain BEFORE any job can be processed
+  nonceManager = new NonceManager(signer.address, provider);
+  await nonceManager.sync();
+  
+  // Operator hot wallets (own signer + nonce lane each, see config/wallets.ts)
+  await initWalletPool({ signer, nonceManager }, provider);
+  
+  // Gas funds of every wallet (low balance pauses non-essential jobs)
+  await startBalanceMonitor();
   
   // Initialize transaction worker and queue monitoring
   logger.info('🔧 Initializing transaction worker...');
   initializeQueueMonitoring();
+  await startHealthEvaluator();
   startTransactionWorker();
+  startWebhookWorker();
   logger.info('✅ Transaction worker started');
   
+  // Automatic executor for expired raffles
+  startRaffleExecutor();
+  
+  // Raffles stuck in DRAWING (VRF callback never arrived) → retry-randomness
+  startVrfWatcher();
+  
+  // Accounting invariant every INVARIANT_CHECK_BLOCKS blocks (optional auto emergency pause)
+  startInvariantWatchdog();
+  
+  // Contract events → local store (GET /indexer/*)
+  startEventIndexer();
+  
 } catch (error: any) {
   logger.error('❌ Failed to initialize blockchain connection:', { error: error.message });
   process.exit(1);
@@ -87,7 +157,14 @@ const app = express();
 app.use(helmet()); // Security headers
 app.use(cors()); // Enable CORS
 app.use(express.json()); // Parse JSON bodies
-app.use(morgan('combined')); // HTTP request logging
+
+// HTTP request logging - combined format with the API client name in place of remote-user
+// (tokens are read when the response finishes, after authenticateRequest ran)
+morgan.token<Request, Response>('client', req => req.apiClient?.name ?? '-');
+app.use(morgan(':remote-addr - :client [:date[clf]] ":method :url HTTP/:http-version" :status :res[content-length] ":referrer" ":user-agent"'));
+
+// Request metrics first (rejected requests are counted too)
+app.use(recordHttpMetrics);
 
 // Apply security middleware to all routes
 app.use(authenticateRequest);
@@ -105,6 +182,11 @@ app.use(systemRoutes);
 app.use(adminRoutes);
 app.use(complianceRoutes);
 app.use(monitoringRoutes);
+app.use(jobsRoutes);
+app.use(webhooksRoutes);
+app.use(indexerRoutes);
+app.use(ownershipRoutes);
+app.use(approvalsRoutes);
 
 // ============================================
 // ERROR HANDLER
@@ -136,28 +218,28 @@ const server = app.listen(SERVER_CONFIG.port, SERVER_CONFIG.host, () => {
 });
 
 // Graceful shutdown
-process.on('SIGTERM', async () => {
-  logger.warn('⚠️  SIGTERM received, shutting down gracefully...');
+async function shutdown(signal: string): Promise<void> {
+  logger.warn(`⚠️  ${signal} received, shutting down gracefully...`);
   
-  // Stop transaction worker first (wait for active jobs to complete)
-  logger.info('Stopping transaction worker...');
-  await stopTransactionWorker();
-  
-  server.close(() => {
-    logger.info('Server closed');
-    process.exit(0);
-  });
-});
-
-process.on('SIGINT', async () => {
-  logger.warn('⚠️  SIGINT received, shutting down gracefully...');
+  // Stop the automatic executor so no new jobs get enqueued
+  stopRaffleExecutor();
+  stopVrfWatcher();
+  stopInvariantWatchdog();
+  await stopEventIndexer();
   
   // Stop transaction worker first (wait for active jobs to complete)
   logger.info('Stopping transaction worker...');
   await stopTransactionWorker();
+  await stopWebhookWorker();
+  stopBalanceMonitor();
+  stopHealthEvaluator();
+  provider.stopHealthChecks();
   
   server.close(() => {
     logger.info('Server closed');
     process.exit(0);
   });
-});
+}
+
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+process.on('SIGINT', () => void shutdown('SIGINT'));
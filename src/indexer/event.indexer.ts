@@ -0,0 +1,316 @@
+/**
+ * Event Indexer - Follows RifasPlatform logs into the event store
+ *
+ * Every INDEXER_POLL_INTERVAL_MS:
+ * 1. Check the last checkpoint's block hash still matches the chain (reorg check)
+ * 2. getLogs() for the contract from checkpoint + 1 up to head - INDEXER_CONFIRMATIONS,
+ *    at most INDEXER_BATCH_BLOCKS per call (repeats until caught up)
+ * 3. Decode each log with the contract ABI, attach the block timestamp and the
+ *    relayer job that sent the transaction (tx.tracker hash → job)
+ * 4. Store the events (event.store.ts), then save the batch's last block as checkpoint
+ *
+ * REORGS:
+ * - The last INDEXER_CHECKPOINTS_KEPT checkpoints (block number + hash) are kept
+ * - On a hash mismatch the indexer walks back to the newest checkpoint still on
+ *   the canonical chain, drops every event above it and indexes again from there
+ *
+ * With several relayer instances only the holder of relayer:indexer:lock indexes;
+ * every instance serves queries from the shared store.
+ */
+
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { contract, provider } from '../index.js';
+import { CONTRACT_ADDRESS, INDEXER_CONFIG } from '../config/app.config.js';
+import { getJobIdForTxHash } from '../blockchain/tx.tracker.js';
+import { IndexedEvent, countEvents, removeEventsAfter, storeEvents } from './event.store.js';
+import { redis, redisKey } from '../utils/redis.js';
+import * as alerting from '../monitoring/alerting.js';
+import logger from '../utils/logger.js';
+
+export interface IndexerCheckpoint {
+  blockNumber: number;
+  blockHash: string;
+  indexedAt: string;
+}
+
+export interface IndexerReorg {
+  detectedAt: string;
+  checkpointBlock: number;              // Checkpoint whose hash no longer matched
+  rolledBackTo: number;
+  eventsRemoved: number;
+}
+
+const CHECKPOINTS_KEY = redisKey('indexer', 'checkpoints');
+const LOCK_KEY = redisKey('indexer', 'lock');
+const INDEXER_CHECKPOINTS_KEPT = 64;
+
+const instanceToken = crypto.randomUUID();
+
+let timer: NodeJS.Timeout | undefined;
+let indexInProgress = false;
+let headBlock: number | undefined;
+let lastReorg: IndexerReorg | undefined;
+let lastError: string | undefined;
+
+/**
+ * Hold the indexing lock (acquire or extend); false when another instance has it
+ */
+async function holdLock(): Promise<boolean> {
+  const ttlMs = Math.max(INDEXER_CONFIG.pollIntervalMs * 4, 60_000);
+
+  if (await redis.set(LOCK_KEY, instanceToken, 'PX', ttlMs, 'NX')) {
+    return true;
+  }
+
+  if ((await redis.get(LOCK_KEY)) === instanceToken) {
+    await redis.pexpire(LOCK_KEY, ttlMs);
+    return true;
+  }
+
+  return false;
+}
+
+async function getCheckpoints(): Promise<IndexerCheckpoint[]> {
+  const raw = await redis.lrange(CHECKPOINTS_KEY, 0, INDEXER_CHECKPOINTS_KEPT - 1);
+  return raw.map(item => JSON.parse(item) as IndexerCheckpoint);
+}
+
+async function saveCheckpoint(blockNumber: number, blockHash: string): Promise<void> {
+  const checkpoint: IndexerCheckpoint = { blockNumber, blockHash, indexedAt: new Date().toISOString() };
+
+  await redis.multi()
+    .lpush(CHECKPOINTS_KEY, JSON.stringify(checkpoint))
+    .ltrim(CHECKPOINTS_KEY, 0, INDEXER_CHECKPOINTS_KEPT - 1)
+    .exec();
+}
+
+async function blockHashAt(blockNumber: number): Promise<string> {
+  const block = await provider.getBlock(blockNumber);
+  if (!block?.hash) {
+    throw new Error(`Block ${blockNumber} not available from RPC`);
+  }
+  return block.hash;
+}
+
+/**
+ * Roll back to the newest checkpoint still on the canonical chain
+ */
+async function rollBack(checkpoints: IndexerCheckpoint[]): Promise<void> {
+  let kept = 1;
+  while (kept < checkpoints.length && (await blockHashAt(checkpoints[kept].blockNumber)) !== checkpoints[kept].blockHash) {
+    kept++;
+  }
+
+  // Deeper than every checkpoint kept - restart just below the oldest one
+  const target = kept < checkpoints.length ? checkpoints[kept].blockNumber : checkpoints[checkpoints.length - 1].blockNumber - 1;
+  const eventsRemoved = await removeEventsAfter(target);
+
+  const multi = redis.multi().del(CHECKPOINTS_KEY);
+  if (kept < checkpoints.length) {
+    multi.rpush(CHECKPOINTS_KEY, ...checkpoints.slice(kept).map(checkpoint => JSON.stringify(checkpoint)));
+  }
+  await multi.exec();
+
+  if (kept === checkpoints.length) {
+    await saveCheckpoint(target, await blockHashAt(target));
+  }
+
+  lastReorg = {
+    detectedAt: new Date().toISOString(),
+    checkpointBlock: checkpoints[0].blockNumber,
+    rolledBackTo: target,
+    eventsRemoved
+  };
+
+  logger.warn('[EventIndexer] ⚠️ Chain reorganization detected - rolled back', { ...lastReorg });
+  void alerting.sendWarning('INDEXER_REORG', { ...lastReorg }, `INDEXER_REORG:${target}`);
+}
+
+/**
+ * Decoded args as strings (uint256 → decimal, addresses checksummed)
+ */
+function argsOf(parsed: ethers.LogDescription): Record<string, string> {
+  const args: Record<string, string> = {};
+
+  parsed.fragment.inputs.forEach((input, i) => {
+    args[input.name] = parsed.args[i].toString();
+  });
+
+  return args;
+}
+
+/**
+ * Decode the logs of one block range
+ */
+async function decodeLogs(logs: ethers.Log[]): Promise<IndexedEvent[]> {
+  const timestamps = new Map<number, number>();
+  const jobIds = new Map<string, string | undefined>();
+
+  for (const log of logs) {
+    if (!timestamps.has(log.blockNumber)) {
+      const block = await provider.getBlock(log.blockNumber);
+      timestamps.set(log.blockNumber, block?.timestamp ?? 0);
+    }
+    if (!jobIds.has(log.transactionHash)) {
+      jobIds.set(log.transactionHash, await getJobIdForTxHash(log.transactionHash));
+    }
+  }
+
+  const events: IndexedEvent[] = [];
+
+  for (const log of logs) {
+    const parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+
+    if (!parsed) {
+      logger.debug('[EventIndexer] Skipping log not in the contract ABI', {
+        transactionHash: log.transactionHash,
+        logIndex: log.index
+      });
+      continue;
+    }
+
+    events.push({
+      id: `${log.blockNumber}-${log.index}`,
+      name: parsed.name,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      blockTimestamp: timestamps.get(log.blockNumber)!,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      args: argsOf(parsed),
+      jobId: jobIds.get(log.transactionHash)
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Index confirmed blocks until caught up (or stopped)
+ */
+async function runIndexer(): Promise<void> {
+  if (!(await holdLock())) {
+    return;
+  }
+
+  headBlock = await provider.getBlockNumber();
+  const safeHead = headBlock - INDEXER_CONFIG.confirmations;
+
+  while (timer !== undefined) {
+    const checkpoints = await getCheckpoints();
+    const checkpoint = checkpoints[0];
+
+    if (checkpoint && (await blockHashAt(checkpoint.blockNumber)) !== checkpoint.blockHash) {
+      await rollBack(checkpoints);
+      continue;
+    }
+
+    const fromBlock = checkpoint ? checkpoint.blockNumber + 1 : INDEXER_CONFIG.startBlock ?? safeHead;
+    if (fromBlock > safeHead) {
+      return;
+    }
+
+    const toBlock = Math.min(fromBlock + INDEXER_CONFIG.batchBlocks - 1, safeHead);
+    const logs = await provider.getLogs({ address: CONTRACT_ADDRESS, fromBlock, toBlock });
+    const toBlockHash = await blockHashAt(toBlock);
+    const events = await decodeLogs(logs);
+
+    await storeEvents(events);
+    await saveCheckpoint(toBlock, toBlockHash);
+
+    if (events.length > 0) {
+      logger.info('[EventIndexer] Indexed contract events', {
+        fromBlock,
+        toBlock,
+        events: events.length
+      });
+    }
+
+    if (!(await holdLock())) {
+      return;
+    }
+  }
+}
+
+/**
+ * Scheduled tick - skips while the previous run is still catching up
+ */
+async function tick(): Promise<void> {
+  if (indexInProgress) {
+    return;
+  }
+
+  indexInProgress = true;
+  try {
+    await runIndexer();
+    lastError = undefined;
+  } catch (error: any) {
+    // Next tick resumes from the last checkpoint
+    lastError = error.message;
+    logger.error('[EventIndexer] Indexing failed', {
+      error: error.message,
+      code: error.code
+    });
+  } finally {
+    indexInProgress = false;
+  }
+}
+
+/**
+ * Indexer status for monitoring
+ */
+export async function getIndexerState() {
+  const [checkpoints, lockHolder, events] = await Promise.all([
+    getCheckpoints(),
+    redis.get(LOCK_KEY),
+    countEvents()
+  ]);
+  const checkpoint = checkpoints[0];
+
+  return {
+    enabled: INDEXER_CONFIG.enabled,
+    running: timer !== undefined,
+    indexing: lockHolder === instanceToken,
+    confirmations: INDEXER_CONFIG.confirmations,
+    checkpoint,
+    headBlock,
+    lagBlocks: checkpoint && headBlock !== undefined ? Math.max(headBlock - checkpoint.blockNumber, 0) : undefined,
+    events,
+    lastReorg,
+    lastError
+  };
+}
+
+/**
+ * Start following the chain (first run starts immediately)
+ */
+export function startEventIndexer(): void {
+  if (!INDEXER_CONFIG.enabled) {
+    logger.info('[EventIndexer] Event indexer disabled (INDEXER_ENABLED=false)');
+    return;
+  }
+
+  timer = setInterval(() => void tick(), INDEXER_CONFIG.pollIntervalMs);
+  void tick();
+
+  logger.info('[EventIndexer] ✅ Event indexer started', {
+    startBlock: INDEXER_CONFIG.startBlock ?? 'head',
+    confirmations: INDEXER_CONFIG.confirmations
+  });
+}
+
+/**
+ * Stop following the chain and release the lock for another instance
+ */
+export async function stopEventIndexer(): Promise<void> {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+
+    if ((await redis.get(LOCK_KEY)) === instanceToken) {
+      await redis.del(LOCK_KEY);
+    }
+    logger.info('[EventIndexer] Event indexer stopped');
+  }
+}
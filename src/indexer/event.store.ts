@@ -0,0 +1,233 @@
+/**
+ * Event Store - RifasPlatform events indexed by event.indexer.ts
+ *
+ * LAYOUT (Redis):
+ * - relayer:indexer:event-data            → hash id → event JSON (id = "<block>-<logIndex>")
+ * - relayer:indexer:events                → every event, sorted by chain position
+ * - relayer:indexer:by-event:<name>       → per event name
+ * - relayer:indexer:by-raffle:<raffleId>  → per raffle (RaffleCreated uses contractRaffleId)
+ * - relayer:indexer:by-address:<address>  → participant / refunded user / blocked address
+ * - relayer:indexer:by-reference:<refId>  → RaffleCreated for a backend referenceId
+ * - relayer:indexer:by-job:<jobId>        → events emitted by a relayer job's transaction
+ *
+ * Every index is a sorted set scored by chain position, so a reorg rollback
+ * (removeEventsAfter) can find and drop everything above a block.
+ */
+
+import { redis, redisKey } from '../utils/redis.js';
+
+export interface IndexedEvent {
+  id: string;                           // "<blockNumber>-<logIndex>"
+  name: string;                         // e.g. TicketBought
+  blockNumber: number;
+  blockHash: string;
+  blockTimestamp: number;               // Unix seconds
+  transactionHash: string;
+  logIndex: number;
+  args: Record<string, string>;         // uint256 as decimal strings, addresses checksummed
+  jobId?: string;                       // Relayer job that sent the transaction, if any
+}
+
+export interface EventFilter {
+  name?: string | string[];
+  raffleId?: string;
+  address?: string;
+  referenceId?: string;
+  jobId?: string;
+  limit: number;
+  order?: 'asc' | 'desc';
+}
+
+const DATA_KEY = redisKey('indexer', 'event-data');
+const EVENTS_KEY = redisKey('indexer', 'events');
+
+// Fits block numbers up to ~9e10 below Number.MAX_SAFE_INTEGER
+const LOG_INDEX_SPAN = 100_000;
+
+function position(blockNumber: number, logIndex: number): number {
+  return blockNumber * LOG_INDEX_SPAN + logIndex;
+}
+
+function raffleIdOf(event: IndexedEvent): string | undefined {
+  return event.args.raffleId ?? event.args.contractRaffleId;
+}
+
+/**
+ * Secondary index keys an event belongs to
+ */
+function indexKeysFor(event: IndexedEvent): string[] {
+  const keys = [redisKey('indexer', 'by-event', event.name)];
+  const raffleId = raffleIdOf(event);
+  const address = event.args.participant ?? event.args.user ?? event.args.addr;
+
+  if (raffleId !== undefined) keys.push(redisKey('indexer', 'by-raffle', raffleId));
+  if (address) keys.push(redisKey('indexer', 'by-address', address.toLowerCase()));
+  if (event.name === 'RaffleCreated') keys.push(redisKey('indexer', 'by-reference', event.args.referenceId));
+  if (event.jobId) keys.push(redisKey('indexer', 'by-job', event.jobId));
+
+  return keys;
+}
+
+function filterKey(filter: EventFilter, names: string[] | undefined): string | undefined {
+  if (filter.jobId) return redisKey('indexer', 'by-job', filter.jobId);
+  if (filter.referenceId) return redisKey('indexer', 'by-reference', filter.referenceId);
+  if (filter.raffleId) return redisKey('indexer', 'by-raffle', filter.raffleId);
+  if (filter.address) return redisKey('indexer', 'by-address', filter.address.toLowerCase());
+  if (names?.length === 1) return redisKey('indexer', 'by-event', names[0]);
+  return undefined;
+}
+
+/**
+ * Store a batch of events (idempotent - re-indexing a block overwrites it)
+ */
+export async function storeEvents(events: IndexedEvent[]): Promise<void> {
+  if (events.length === 0) return;
+
+  const multi = redis.multi();
+
+  for (const event of events) {
+    const score = position(event.blockNumber, event.logIndex);
+
+    multi.hset(DATA_KEY, event.id, JSON.stringify(event));
+    multi.zadd(EVENTS_KEY, score, event.id);
+    for (const key of indexKeysFor(event)) {
+      multi.zadd(key, score, event.id);
+    }
+  }
+
+  await multi.exec();
+}
+
+/**
+ * Drop every event above a block (reorg rollback); returns how many were removed
+ */
+export async function removeEventsAfter(blockNumber: number): Promise<number> {
+  const ids = await redis.zrangebyscore(EVENTS_KEY, position(blockNumber + 1, 0), '+inf');
+  if (ids.length === 0) return 0;
+
+  const raw = await redis.hmget(DATA_KEY, ...ids);
+  const multi = redis.multi();
+
+  raw.forEach((item, i) => {
+    if (item) {
+      for (const key of indexKeysFor(JSON.parse(item) as IndexedEvent)) {
+        multi.zrem(key, ids[i]);
+      }
+    }
+  });
+  multi.hdel(DATA_KEY, ...ids);
+  multi.zrem(EVENTS_KEY, ...ids);
+
+  await multi.exec();
+  return ids.length;
+}
+
+/**
+ * Query events through the most selective index, then apply the other filters
+ */
+export async function findEvents(filter: EventFilter): Promise<IndexedEvent[]> {
+  const names = filter.name === undefined ? undefined : ([] as string[]).concat(filter.name);
+  const key = filterKey(filter, names);
+
+  // Several names and nothing more selective → merge the per-name indexes
+  if (!key && names && names.length > 1) {
+    const perName = await Promise.all(names.map(name => findEvents({ ...filter, name })));
+    const direction = filter.order === 'asc' ? 1 : -1;
+
+    return perName
+      .flat()
+      .sort((a, b) => direction * (position(a.blockNumber, a.logIndex) - position(b.blockNumber, b.logIndex)))
+      .slice(0, filter.limit);
+  }
+
+  // Filters beyond the index run in memory - read the whole index then
+  const filters = [filter.jobId, filter.referenceId, filter.raffleId, filter.address, names].filter(Boolean).length;
+  const stop = filters > 1 ? -1 : filter.limit - 1;
+  const ids = filter.order === 'asc'
+    ? await redis.zrange(key ?? EVENTS_KEY, 0, stop)
+    : await redis.zrevrange(key ?? EVENTS_KEY, 0, stop);
+
+  if (ids.length === 0) return [];
+
+  const raw = await redis.hmget(DATA_KEY, ...ids);
+  const address = filter.address?.toLowerCase();
+
+  return raw
+    .filter((item): item is string => item !== null)
+    .map(item => JSON.parse(item) as IndexedEvent)
+    .filter(event => !names || names.includes(event.name))
+    .filter(event => !filter.raffleId || raffleIdOf(event) === filter.raffleId)
+    .filter(event => !address || [event.args.participant, event.args.user, event.args.addr].some(a => a?.toLowerCase() === address))
+    .filter(event => !filter.referenceId || event.args.referenceId === filter.referenceId)
+    .slice(0, filter.limit);
+}
+
+export async function countEvents(): Promise<number> {
+  return redis.zcard(EVENTS_KEY);
+}
+
+export interface IndexedRaffle {
+  raffleId: string;
+  referenceId?: string;
+  templateId?: string;
+  status: string;                       // Derived from the events seen (RaffleStatus names)
+  ticketPrice?: string;
+  maxTickets?: string;
+  minTickets?: string;
+  expiresAt?: string;
+  ticketsSold: number;
+  winner?: string;
+  prizeAmount?: string;
+  refundedParticipants?: string;
+  totalRefunded?: string;
+  createdBlock?: number;
+  createdByJob?: string;
+  lastEventBlock: number;
+}
+
+/**
+ * Summarize a raffle from its events (oldest first)
+ */
+export function summarizeRaffle(raffleId: string, events: IndexedEvent[]): IndexedRaffle {
+  const raffle: IndexedRaffle = { raffleId, status: 'FILLING', ticketsSold: 0, lastEventBlock: 0 };
+
+  for (const event of events) {
+    raffle.lastEventBlock = event.blockNumber;
+
+    switch (event.name) {
+      case 'RaffleCreated':
+        Object.assign(raffle, {
+          referenceId: event.args.referenceId,
+          templateId: event.args.templateId,
+          ticketPrice: event.args.ticketPrice,
+          maxTickets: event.args.maxTickets,
+          minTickets: event.args.minTickets,
+          expiresAt: event.args.expiresAt,
+          createdBlock: event.blockNumber,
+          createdByJob: event.jobId
+        });
+        break;
+      case 'TicketBought':
+        raffle.ticketsSold++;
+        break;
+      case 'RandomnessRequested':
+        raffle.status = 'DRAWING';
+        break;
+      case 'RaffleCompleted':
+        Object.assign(raffle, { status: 'COMPLETED', winner: event.args.winner, prizeAmount: event.args.prizeAmount });
+        break;
+      case 'RaffleCancelled':
+        raffle.status = 'CANCELLED';
+        break;
+      case 'RefundBatchCompleted':
+        Object.assign(raffle, {
+          status: 'REFUNDED',
+          refundedParticipants: event.args.participantsRefunded,
+          totalRefunded: event.args.totalRefunded
+        });
+        break;
+    }
+  }
+
+  return raffle;
+}
@@ -1,26 +1,116 @@
 import { Request, Response, NextFunction } from 'express';
-import { RELAYER_API_KEY } from '../config/app.config.js';
+import { API_KEY_CONFIG, RELAYER_API_KEY } from '../config/app.config.js';
+import {
+  API_SCOPES,
+  ApiScope,
+  AuthenticatedClient,
+  LEGACY_CLIENT_NAME,
+  checkApiKey,
+  hashApiKey,
+  sameHash
+} from '../auth/key.registry.js';
 import logger from '../utils/logger.js';
 
+declare global {
+  namespace Express {
+    interface Request {
+      apiClient?: AuthenticatedClient;    // Set by authenticateRequest
+    }
+  }
+}
+
+const LEGACY_KEY_HASH = hashApiKey(RELAYER_API_KEY);
+
+const LEGACY_CLIENT: AuthenticatedClient = {
+  name: LEGACY_CLIENT_NAME,
+  scopes: API_SCOPES
+};
+
 /**
  * Middleware: API Key Authentication
- * Validates X-API-Key header matches configured RELAYER_API_KEY
+ * Resolves X-API-Key to a registered client (req.apiClient), or to the
+ * "legacy" client for RELAYER_API_KEY while LEGACY_API_KEY_ENABLED=true
  */
-export function authenticateRequest(req: Request, res: Response, next: NextFunction): void {
-  const apiKey = req.headers['x-api-key'] as string;
-  
-  if (!apiKey || apiKey !== RELAYER_API_KEY) {
-    logger.warn('🚫 Unauthorized request - invalid or missing API key', {
+export async function authenticateRequest(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const apiKey = req.headers['x-api-key'];
+
+  if (typeof apiKey !== 'string' || apiKey.length === 0) {
+    logger.warn('🚫 Unauthorized request - missing API key', {
       ip: req.ip,
       path: req.path
     });
-    
-    res.status(401).json({ 
-      success: false, 
+
+    res.status(401).json({
+      success: false,
       error: 'Unauthorized'
     });
     return;
   }
-  
-  next();
+
+  if (API_KEY_CONFIG.legacyKeyEnabled && sameHash(hashApiKey(apiKey), LEGACY_KEY_HASH)) {
+    req.apiClient = LEGACY_CLIENT;
+    next();
+    return;
+  }
+
+  try {
+    const check = await checkApiKey(apiKey);
+
+    if (!check.ok) {
+      logger.warn('🚫 Unauthorized request - invalid API key', {
+        ip: req.ip,
+        path: req.path,
+        reason: check.reason,
+        client: check.name
+      });
+
+      res.status(401).json({
+        success: false,
+        error: 'Unauthorized',
+        message: check.reason === 'unknown' ? undefined : `API key ${check.reason}`
+      });
+      return;
+    }
+
+    req.apiClient = check.client;
+    next();
+
+  } catch (error: any) {
+    logger.error('❌ API key check failed', {
+      ip: req.ip,
+      path: req.path,
+      error: error.message
+    });
+
+    res.status(503).json({
+      success: false,
+      error: 'AUTH_UNAVAILABLE',
+      message: 'Could not verify API key, request not processed'
+    });
+  }
+}
+
+/**
+ * Middleware factory: route requires a scope of the calling client
+ */
+export function requireScope(scope: ApiScope) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.apiClient?.scopes.includes(scope)) {
+      logger.warn('🚫 Forbidden - API key lacks scope', {
+        client: req.apiClient?.name,
+        scope,
+        ip: req.ip,
+        path: req.path
+      });
+
+      res.status(403).json({
+        success: false,
+        error: 'Forbidden',
+        message: `API key lacks scope ${scope}`
+      });
+      return;
+    }
+
+    next();
+  };
 }
@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from 'express';
+import { WEBHOOK_CONFIG } from '../config/app.config.js';
+import { checkCallbackTarget } from '../utils/callback-target.js';
+import logger from '../utils/logger.js';
+
+/**
+ * Middleware: Callback URL validation
+ * Routes that enqueue a job accept an optional body.callbackUrl (webhook target for the job)
+ * Rejects malformed URLs, internal targets (see utils/callback-target.ts)
+ * and callbacks when webhooks are disabled
+ */
+export async function validateCallbackUrl(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const callbackUrl = req.body?.callbackUrl;
+
+  if (callbackUrl === undefined) {
+    next();
+    return;
+  }
+
+  if (!WEBHOOK_CONFIG.enabled) {
+    res.status(400).json({
+      success: false,
+      error: 'WEBHOOKS_DISABLED',
+      message: 'callbackUrl provided but webhooks are not configured on the relayer (WEBHOOK_SECRET)'
+    });
+    return;
+  }
+
+  const refusal = typeof callbackUrl === 'string'
+    ? await checkCallbackTarget(callbackUrl)
+    : 'callbackUrl must be an absolute http(s) URL';
+
+  if (refusal) {
+    logger.warn('🚫 Rejected invalid callbackUrl', {
+      client: req.apiClient?.name,
+      ip: req.ip,
+      path: req.path,
+      reason: refusal
+    });
+
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_CALLBACK_URL',
+      message: refusal
+    });
+    return;
+  }
+
+  next();
+}
@@ -0,0 +1,226 @@
+/**
+ * Idempotency Middleware
+ *
+ * PROBLEM:
+ * - A backend retry after a network blip created a second Bull job for
+ *   the same action (e.g. createRaffle twice with one referenceId)
+ *
+ * KEYS:
+ * - `Idempotency-Key` header (any route using this middleware)
+ * - Fallback derived from the body for one-shot actions
+ *   (create-raffle:<referenceId>, execute-raffle:<raffleId>, ...)
+ * - No header and no derivation → request is not deduplicated
+ * - Keys are per API client (relayer:idempotency:<client>:<key>), so a
+ *   client can never replay another client's response
+ *
+ * BEHAVIOR (within IDEMPOTENCY_WINDOW_SECONDS):
+ * - First request claims the key (Redis SET NX) and runs normally
+ * - Successful response is stored under the key; failures release it
+ * - Same key + same payload → original response replayed with the job's
+ *   current status (Idempotent-Replayed: true)
+ * - Same key + different payload → 409 IDEMPOTENCY_KEY_CONFLICT
+ * - Same key while the first request is still running → 409 IDEMPOTENCY_REQUEST_IN_PROGRESS
+ *
+ * Dry runs (`dryRun: true`) never claim or replay keys.
+ */
+
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { IDEMPOTENCY_CONFIG } from '../config/app.config.js';
+import { getJobStatus } from '../queues/job.lookup.js';
+import { redis, redisKey } from '../utils/redis.js';
+import logger from '../utils/logger.js';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+const MAX_KEY_LENGTH = 200;
+
+interface IdempotencyRecord {
+  action: string;
+  fingerprint: string;
+  state: 'in-progress' | 'completed';
+  statusCode?: number;
+  response?: any;
+  createdAt: string;
+}
+
+/**
+ * Derive a fallback key from the request body (undefined → no fallback)
+ */
+export type IdempotencyKeyDeriver = (body: any) => string | undefined;
+
+/**
+ * JSON with sorted keys so field order does not change the fingerprint
+ */
+function canonicalize(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`).join(',')}}`;
+  }
+
+  return JSON.stringify(value ?? null);
+}
+
+function fingerprint(action: string, body: any): string {
+  const { dryRun: _dryRun, ...payload } = body || {};
+  return createHash('sha256').update(`${action}|${canonicalize(payload)}`).digest('hex');
+}
+
+/**
+ * Middleware factory: deduplicate an enqueueing route
+ * @param action - Route action (part of the fingerprint and derived keys)
+ * @param deriveKey - Optional fallback key when no header is sent
+ */
+export function idempotent(action: string, deriveKey?: IdempotencyKeyDeriver) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (req.body?.dryRun === true) {
+      next();
+      return;
+    }
+
+    const headerKey = req.get(IDEMPOTENCY_HEADER);
+
+    if (headerKey !== undefined && (headerKey.trim() === '' || headerKey.length > MAX_KEY_LENGTH)) {
+      res.status(400).json({
+        success: false,
+        error: 'INVALID_IDEMPOTENCY_KEY',
+        message: `${IDEMPOTENCY_HEADER} must be 1-${MAX_KEY_LENGTH} characters`
+      });
+      return;
+    }
+
+    const derivedKey = deriveKey?.(req.body);
+    const idempotencyKey = headerKey?.trim() ?? (derivedKey !== undefined ? `${action}:${derivedKey}` : undefined);
+
+    if (!idempotencyKey) {
+      next();
+      return;
+    }
+
+    const key = redisKey('idempotency', req.apiClient?.name ?? 'anonymous', idempotencyKey);
+    const record: IdempotencyRecord = {
+      action,
+      fingerprint: fingerprint(action, req.body),
+      state: 'in-progress',
+      createdAt: new Date().toISOString()
+    };
+
+    try {
+      const claimed = await redis.set(key, JSON.stringify(record), 'EX', IDEMPOTENCY_CONFIG.windowSeconds, 'NX');
+
+      if (claimed) {
+        // Store the response once the controller answers
+        const originalJson = res.json.bind(res);
+        res.json = (body: any) => {
+          void settleRecord(key, record, res.statusCode, body);
+          return originalJson(body);
+        };
+
+        next();
+        return;
+      }
+
+      const existingRaw = await redis.get(key);
+      if (!existingRaw) {
+        // Released between SET and GET - let the client retry
+        res.status(409).json({
+          success: false,
+          error: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+          message: 'A request with this idempotency key is being processed, retry shortly'
+        });
+        return;
+      }
+
+      const existing = JSON.parse(existingRaw) as IdempotencyRecord;
+
+      if (existing.fingerprint !== record.fingerprint) {
+        logger.warn('🔁 Idempotency key reused with a different payload', {
+          client: req.apiClient?.name,
+          idempotencyKey,
+          action,
+          originalAction: existing.action,
+          ip: req.ip
+        });
+
+        res.status(409).json({
+          success: false,
+          error: 'IDEMPOTENCY_KEY_CONFLICT',
+          message: 'Idempotency key was already used with a different request payload',
+          idempotencyKey
+        });
+        return;
+      }
+
+      if (existing.state === 'in-progress') {
+        res.status(409).json({
+          success: false,
+          error: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+          message: 'A request with this idempotency key is being processed, retry shortly',
+          idempotencyKey
+        });
+        return;
+      }
+
+      const jobStatus = existing.response?.jobId
+        ? await getJobStatus(existing.response.jobId.toString())
+        : null;
+
+      logger.info('🔁 Idempotent replay', {
+        client: req.apiClient?.name,
+        idempotencyKey,
+        action,
+        jobId: existing.response?.jobId,
+        jobState: jobStatus?.state
+      });
+
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(existing.statusCode ?? 200).json({
+        ...existing.response,
+        replayed: true,
+        idempotencyKey,
+        jobState: jobStatus?.state,
+        txHash: jobStatus?.txHash ?? existing.response?.txHash,
+        originalRequestAt: existing.createdAt
+      });
+
+    } catch (error: any) {
+      logger.error('❌ Idempotency check failed', {
+        idempotencyKey,
+        action,
+        error: error.message
+      });
+
+      res.status(503).json({
+        success: false,
+        error: 'IDEMPOTENCY_UNAVAILABLE',
+        message: 'Could not verify idempotency key, request not processed'
+      });
+    }
+  };
+}
+
+/**
+ * Keep successful responses for replay, release the key otherwise
+ */
+async function settleRecord(key: string, record: IdempotencyRecord, statusCode: number, body: any): Promise<void> {
+  try {
+    if (statusCode >= 200 && statusCode < 300 && body?.success !== false) {
+      await redis.set(key, JSON.stringify({
+        ...record,
+        state: 'completed',
+        statusCode,
+        response: body
+      }), 'KEEPTTL');
+    } else {
+      await redis.del(key);
+    }
+  } catch (error: any) {
+    logger.error('❌ Failed to store idempotency record', {
+      key,
+      error: error.message
+    });
+  }
+}
@@ -3,6 +3,9 @@
  * Re-exports all middlewares for easy imports
  */
 
-export { authenticateRequest } from './auth.middleware.js';
+export { authenticateRequest, requireScope } from './auth.middleware.js';
+export { recordHttpMetrics } from './metrics.middleware.js';
 export { checkIPWhitelist } from './ip-whitelist.middleware.js';
 export { rateLimitMiddleware } from './rate-limit.middleware.js';
+export { validateCallbackUrl } from './callback.middleware.js';
+export { idempotent, IDEMPOTENCY_HEADER } from './idempotency.middleware.js';
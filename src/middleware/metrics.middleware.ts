@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from 'express';
+import { httpRequests, httpRequestDuration } from '../monitoring/metrics.js';
+
+/**
+ * Middleware: HTTP request metrics (Prometheus)
+ * Labels use the matched route pattern ('/jobs/:jobId'), never the raw path,
+ * so ids in URLs cannot blow up label cardinality. Registered before
+ * authentication so rejected requests (401/403/429) are counted too.
+ */
+export function recordHttpMetrics(req: Request, res: Response, next: NextFunction): void {
+  const endTimer = httpRequestDuration.startTimer();
+  
+  res.on('finish', () => {
+    const route = req.route?.path ?? 'unmatched';
+    
+    httpRequests.inc({ method: req.method, route, status: res.statusCode.toString() });
+    endTimer({ method: req.method, route });
+  });
+  
+  next();
+}
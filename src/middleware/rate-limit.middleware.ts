@@ -12,29 +12,30 @@ interface RateLimitEntry {
 
 /**
  * In-memory rate limit store
- * Key: IP address, Value: { count, resetAt }
+ * Key: client:<name> (authenticated) or IP address, Value: { count, resetAt }
  */
 const rateLimitStore = new Map<string, RateLimitEntry>();
 
 /**
- * Check if IP is within rate limit
- * @param ip - Client IP address
+ * Check if a caller is within rate limit
+ * @param key - Rate limit key (client or IP)
+ * @param limit - Requests per minute
  * @returns true if within limit, false if exceeded
  */
-function checkRateLimit(ip: string): boolean {
+function checkRateLimit(key: string, limit: number): boolean {
   const now = Date.now();
-  const entry = rateLimitStore.get(ip);
+  const entry = rateLimitStore.get(key);
   
   if (!entry || entry.resetAt < now) {
     // Reset or create new entry
-    rateLimitStore.set(ip, {
+    rateLimitStore.set(key, {
       count: 1,
       resetAt: now + 60_000 // 1 minute
     });
     return true;
   }
   
-  if (entry.count >= RATE_LIMIT_CONFIG.requestsPerMinute) {
+  if (entry.count >= limit) {
     return false; // Rate limit exceeded
   }
   
@@ -47,25 +48,28 @@ function checkRateLimit(ip: string): boolean {
  */
 setInterval(() => {
   const now = Date.now();
-  for (const [ip, entry] of rateLimitStore.entries()) {
+  for (const [key, entry] of rateLimitStore.entries()) {
     if (entry.resetAt < now) {
-      rateLimitStore.delete(ip);
+      rateLimitStore.delete(key);
     }
   }
 }, 5 * 60_000);
 
 /**
  * Middleware: Rate Limiting
- * Enforces configured requests per minute limit per IP
+ * Per API client (its own limit, or RATE_LIMIT_PER_MINUTE), per IP when no client is set
  */
 export function rateLimitMiddleware(req: Request, res: Response, next: NextFunction): void {
   const clientIP = req.ip || req.socket.remoteAddress || 'unknown';
+  const client = req.apiClient;
+  const limit = client?.rateLimitPerMinute ?? RATE_LIMIT_CONFIG.requestsPerMinute;
   
-  if (!checkRateLimit(clientIP)) {
+  if (!checkRateLimit(client ? `client:${client.name}` : clientIP, limit)) {
     logger.warn('⚠️ Rate limit exceeded', {
+      client: client?.name,
       ip: clientIP,
       path: req.path,
-      limit: RATE_LIMIT_CONFIG.requestsPerMinute
+      limit
     });
     
     res.status(429).json({
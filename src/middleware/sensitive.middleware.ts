@@ -9,13 +9,18 @@
  * SECURITY LAYERS:
  * 1. API Key validation (from auth middleware)
  * 2. Admin IP whitelist (stricter than normal)
- * 3. Rate limiting (1 req/5min per operation)
+ * 3. Rate limiting (1 req/5min for gated actions and, in its own bucket,
+ *    for emergency-pause; own limits for ownership steps and approval votes)
  * 4. Detailed audit logging
  * 5. Immediate alerts on execution
+ * 6. Second credential (X-Confirm-Key) for ownership changes
  */
 
+import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import rateLimit from 'express-rate-limit';
+import { OWNERSHIP_CONFIG } from '../config/app.config.js';
+import * as alerting from '../monitoring/alerting.js';
 import logger from '../utils/logger.js';
 
 // Admin IPs allowed for sensitive operations
@@ -35,13 +40,18 @@ export function checkAdminIP(req: Request, res: Response, next: NextFunction): v
 
   if (!ADMIN_IPS.includes(clientIP)) {
     logger.error('[SensitiveOps] 🚫 Unauthorized admin IP attempt', {
+      client: req.apiClient?.name,
       clientIP,
       endpoint: req.path,
       allowedIPs: ADMIN_IPS
     });
 
-    // TODO: Send critical alert
-    // await alerting.sendCritical('UNAUTHORIZED_ADMIN_ACCESS', { clientIP, endpoint: req.path });
+    void alerting.sendCritical('UNAUTHORIZED_ADMIN_ACCESS', {
+      client: req.apiClient?.name,
+      clientIP,
+      method: req.method,
+      endpoint: req.originalUrl
+    }, `UNAUTHORIZED_ADMIN_ACCESS:${clientIP}`);
 
     res.status(403).json({
       success: false,
@@ -60,52 +70,118 @@ export function checkAdminIP(req: Request, res: Response, next: NextFunction): v
 }
 
 /**
- * Rate limiter for sensitive operations (1 req/5min)
+ * Rate limiter for a group of sensitive operations (per IP, own window per group)
  */
-export const sensitiveLimiter = rateLimit({
-  windowMs: 5 * 60 * 1000, // 5 minutes
-  max: 1, // 1 request per window
-  message: {
-    success: false,
-    error: 'Too many requests',
-    message: 'Sensitive operation rate limit exceeded (1 per 5 minutes)'
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: (req, res) => {
-    logger.warn('[SensitiveOps] ⚠️  Rate limit exceeded', {
-      ip: req.ip,
-      endpoint: req.path
-    });
+function sensitiveRateLimit(group: string, max: number, windowMinutes: number) {
+  const message = `Sensitive operation rate limit exceeded (${max} per ${windowMinutes} minutes)`;
 
-    res.status(429).json({
-      success: false,
-      error: 'Too many requests',
-      message: 'Sensitive operation rate limit exceeded (1 per 5 minutes)'
-    });
-  }
-});
+  return rateLimit({
+    windowMs: windowMinutes * 60 * 1000,
+    max,
+    standardHeaders: true,
+    legacyHeaders: false,
+    handler: (req, res) => {
+      logger.warn('[SensitiveOps] ⚠️  Rate limit exceeded', {
+        group,
+        client: req.apiClient?.name,
+        ip: req.ip,
+        endpoint: req.path
+      });
+
+      res.status(429).json({
+        success: false,
+        error: 'Too many requests',
+        message
+      });
+    }
+  });
+}
+
+/**
+ * System and admin actions gated by approvals (each request may open a proposal - 1 req/5min)
+ */
+export const proposalLimiter = sensitiveRateLimit('proposals', 1, 5);
+
+/**
+ * Emergency pause (1 req/5min) - own bucket, so a proposal never delays stopping the contract
+ */
+export const emergencyPauseLimiter = sensitiveRateLimit('emergency-pause', 1, 5);
+
+/**
+ * Ownership transfer steps (propose, cancel, confirm, renounce - 5 req/15min)
+ */
+export const ownershipLimiter = sensitiveRateLimit('ownership', 5, 15);
+
+/**
+ * Approve / reject votes (several approvers may share an admin IP - 20 req/5min)
+ */
+export const approvalLimiter = sensitiveRateLimit('approvals', 20, 5);
 
 /**
  * Log sensitive operation execution
  */
 export function logSensitiveOperation(operationType: string) {
-  return (req: Request, res: Response, next: NextFunction): void => {
+  return (req: Request, _res: Response, next: NextFunction): void => {
     logger.warn('[SensitiveOps] 🔒 Sensitive operation initiated', {
       type: operationType,
+      client: req.apiClient?.name,
       ip: req.ip,
       endpoint: req.path,
       body: req.body,
       timestamp: new Date().toISOString()
     });
 
-    // TODO: Send alert notification
-    // await alerting.sendWarning('SENSITIVE_OP_INITIATED', {
-    //   type: operationType,
-    //   ip: req.ip,
-    //   timestamp: new Date()
-    // });
+    // Every operation notifies (unique dedup key) - they are rate limited anyway
+    const timestamp = new Date().toISOString();
+    void alerting.sendWarning('SENSITIVE_OP_INITIATED', {
+      type: operationType,
+      client: req.apiClient?.name,
+      ip: req.ip,
+      endpoint: req.originalUrl,
+      timestamp
+    }, `SENSITIVE_OP_INITIATED:${operationType}:${timestamp}`);
 
     next();
   };
 }
+
+/**
+ * Require the second credential (X-Confirm-Key = OWNERSHIP_CONFIRM_KEY)
+ * - Compared in constant time (sha256 digests, so lengths always match)
+ * - 503 when OWNERSHIP_CONFIRM_KEY is not configured
+ */
+export function checkConfirmKey(req: Request, res: Response, next: NextFunction): void {
+  if (!OWNERSHIP_CONFIG.confirmKey) {
+    res.status(503).json({
+      success: false,
+      error: 'CONFIRMATION_DISABLED',
+      message: 'OWNERSHIP_CONFIRM_KEY is not configured'
+    });
+    return;
+  }
+
+  const provided = req.headers['x-confirm-key'];
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+
+  if (typeof provided !== 'string' || !crypto.timingSafeEqual(digest(provided), digest(OWNERSHIP_CONFIG.confirmKey))) {
+    logger.error('[SensitiveOps] 🚫 Invalid or missing confirm key', {
+      ip: req.ip,
+      endpoint: req.path
+    });
+
+    void alerting.sendCritical('INVALID_CONFIRM_KEY', {
+      ip: req.ip,
+      method: req.method,
+      endpoint: req.originalUrl
+    }, `INVALID_CONFIRM_KEY:${req.ip}`);
+
+    res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: 'Valid X-Confirm-Key required'
+    });
+    return;
+  }
+
+  next();
+}
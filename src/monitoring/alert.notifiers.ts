@@ -0,0 +1,163 @@
+/**
+ * Alert Notifiers - Delivery channels for alerting.ts (ALERT_NOTIFIERS)
+ *
+ * - webhook → POST the alert as JSON (X-Relayer-Signature when `secret` is set,
+ *             same scheme as job webhooks: sha256 HMAC of "<timestamp>.<body>")
+ * - slack   → Slack-compatible incoming webhook (also Mattermost, Rocket.Chat)
+ * - smtp    → plain-text email
+ * - file    → appends one JSON line per alert
+ *
+ * A notifier throws on failure; alerting.ts logs it and carries on with the
+ * other notifiers.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+import { ALERT_CONFIG } from '../config/app.config.js';
+import { AlertNotifierSettings, AlertSeverity } from '../config/alerts.js';
+
+export interface Alert {
+  id: string;
+  code: string;                       // e.g. TX_RETRY_EXHAUSTED
+  severity: AlertSeverity;
+  title: string;
+  details: Record<string, unknown>;
+  dedupKey: string;
+  repeats: number;                    // Duplicates suppressed since the last notification
+  network: string;
+  timestamp: string;
+}
+
+export interface AlertNotifier {
+  name: string;
+  minSeverity: AlertSeverity;
+  send(alert: Alert): Promise<void>;
+}
+
+const SEVERITY_EMOJI: Record<AlertSeverity, string> = {
+  info: 'ℹ️',
+  warning: '⚠️',
+  critical: '🚨'
+};
+
+function headline(alert: Alert): string {
+  const repeats = alert.repeats > 0 ? ` (+${alert.repeats} repeats)` : '';
+  return `${SEVERITY_EMOJI[alert.severity]} [${alert.severity.toUpperCase()}] ${alert.title}${repeats}`;
+}
+
+function detailLines(alert: Alert): string[] {
+  return Object.entries(alert.details).map(([key, value]) =>
+    `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`
+  );
+}
+
+async function post(url: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'rifast-relayer-alerts',
+      ...headers
+    },
+    body,
+    signal: AbortSignal.timeout(ALERT_CONFIG.timeoutMs)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Receiver responded with HTTP ${response.status}`);
+  }
+}
+
+function webhookNotifier(settings: Extract<AlertNotifierSettings, { type: 'webhook' }>): AlertNotifier['send'] {
+  return async (alert) => {
+    const body = JSON.stringify(alert);
+    const headers: Record<string, string> = { 'X-Relayer-Alert': alert.code };
+
+    if (settings.secret) {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const hmac = crypto.createHmac('sha256', settings.secret).update(`${timestamp}.${body}`).digest('hex');
+
+      headers['X-Relayer-Timestamp'] = timestamp.toString();
+      headers['X-Relayer-Signature'] = `sha256=${hmac}`;
+    }
+
+    await post(settings.url, body, headers);
+  };
+}
+
+function slackNotifier(settings: Extract<AlertNotifierSettings, { type: 'slack' }>): AlertNotifier['send'] {
+  return async (alert) => {
+    const text = `${headline(alert)} · ${alert.network}`;
+
+    await post(settings.url, JSON.stringify({
+      text,
+      blocks: [
+        { type: 'section', text: { type: 'mrkdwn', text: `*${text}*` } },
+        {
+          type: 'section',
+          text: { type: 'mrkdwn', text: ['```', ...detailLines(alert), '```'].join('\n') }
+        },
+        {
+          type: 'context',
+          elements: [{ type: 'mrkdwn', text: `${alert.code} · ${alert.timestamp}` }]
+        }
+      ]
+    }));
+  };
+}
+
+function smtpNotifier(settings: Extract<AlertNotifierSettings, { type: 'smtp' }>): AlertNotifier['send'] {
+  const transport = nodemailer.createTransport({
+    host: settings.host,
+    port: settings.port ?? (settings.secure ? 465 : 587),
+    secure: settings.secure ?? false,
+    auth: settings.user ? { user: settings.user, pass: settings.password } : undefined,
+    connectionTimeout: ALERT_CONFIG.timeoutMs,
+    socketTimeout: ALERT_CONFIG.timeoutMs
+  });
+
+  return async (alert) => {
+    await transport.sendMail({
+      from: settings.from,
+      to: settings.to,
+      subject: `[rifast-relayer ${alert.network}] ${headline(alert)}`,
+      text: [
+        headline(alert),
+        '',
+        ...detailLines(alert),
+        '',
+        `Code: ${alert.code}`,
+        `Network: ${alert.network}`,
+        `Time: ${alert.timestamp}`
+      ].join('\n')
+    });
+  };
+}
+
+function fileNotifier(settings: Extract<AlertNotifierSettings, { type: 'file' }>): AlertNotifier['send'] {
+  return async (alert) => {
+    await fs.promises.mkdir(path.dirname(settings.path), { recursive: true });
+    await fs.promises.appendFile(settings.path, JSON.stringify(alert) + '\n');
+  };
+}
+
+/**
+ * Build the notifiers configured in ALERT_NOTIFIERS
+ */
+export function createNotifiers(settings: AlertNotifierSettings[]): AlertNotifier[] {
+  return settings.map((notifier, index) => {
+    const send = notifier.type === 'webhook'
+      ? webhookNotifier(notifier)
+      : notifier.type === 'slack'
+        ? slackNotifier(notifier)
+        : notifier.type === 'smtp' ? smtpNotifier(notifier) : fileNotifier(notifier);
+
+    return {
+      name: notifier.name ?? `${notifier.type}-${index}`,
+      minSeverity: notifier.minSeverity ?? 'warning',
+      send
+    };
+  });
+}
@@ -0,0 +1,242 @@
+/**
+ * Alerting - Severity-based notifications with dedup, throttling and quiet hours
+ *
+ *   import * as alerting from '../monitoring/alerting.js';
+ *   alerting.sendCritical('TX_RETRY_EXHAUSTED', { jobId, type, error }, `TX_RETRY_EXHAUSTED:${jobId}`);
+ *
+ * PIPELINE (state in Redis, shared by every relayer instance):
+ * 1. Dedup     → one notification per dedup key (default: the code) within
+ *                ALERT_DEDUP_WINDOW_MS; repeats are counted and reported with
+ *                the next notification for that key
+ * 2. Quiet     → during ALERT_QUIET_HOURS only criticals go out
+ * 3. Throttle  → at most ALERT_MAX_PER_HOUR notifications per clock hour
+ * 4. Notifiers → every ALERT_NOTIFIERS entry at or above its minSeverity
+ *
+ * Every alert is logged and kept in relayer:alerts:log (GET /alerts), whatever
+ * the outcome. Sending never throws - alerting must not break the caller.
+ */
+
+import crypto from 'crypto';
+import { ALERT_CONFIG, NETWORK_CONFIG } from '../config/app.config.js';
+import { AlertSeverity, isWithinQuietHours, severityRank } from '../config/alerts.js';
+import { Alert, createNotifiers } from './alert.notifiers.js';
+import { redis, redisKey } from '../utils/redis.js';
+import logger from '../utils/logger.js';
+
+export type AlertOutcome = 'sent' | 'deduplicated' | 'quiet' | 'throttled' | 'no-notifiers';
+
+export interface AlertLogEntry {
+  alert: Alert;
+  outcome: AlertOutcome;
+  notifiers: Array<{ name: string; delivered: boolean; error?: string }>;
+}
+
+const ALERT_TITLES: Record<string, string> = {
+  TX_RETRY_EXHAUSTED: 'Transaction job failed permanently',
+  TX_QUEUE_STALLED: 'Transaction job stalled',
+  TX_RETRY_STALLED: 'Retry job stalled',
+  UNAUTHORIZED_ADMIN_ACCESS: 'Admin route called from a non-admin IP',
+  SENSITIVE_OP_INITIATED: 'Sensitive operation initiated',
+  SIGNER_BALANCE_CRITICAL: 'Wallet balance critical - non-essential jobs paused',
+  SIGNER_BALANCE_LOW: 'Wallet balance low',
+  ACCOUNTING_INVARIANT_VIOLATED: 'Contract accounting invariant violated',
+  INVARIANT_AUTO_PAUSE: 'Watchdog emergency pause',
+  HEALTH_RULE_CRITICAL: 'Queue health rule critical',
+  HEALTH_RULE_WARNING: 'Queue health rule warning',
+  INDEXER_REORG: 'Chain reorganization - event index rolled back',
+  VRF_REQUEST_STUCK: 'VRF callback overdue - randomness retry enqueued',
+  VRF_RETRY_EXHAUSTED: 'VRF callback still missing after every retry',
+  OWNERSHIP_TRANSFER_PROPOSED: 'Contract ownership transfer proposed',
+  OWNERSHIP_TRANSFER_CANCELLED: 'Contract ownership transfer cancelled',
+  OWNERSHIP_TRANSFERRED: 'Contract ownership transferred',
+  OWNERSHIP_TRANSFER_FAILED: 'Contract ownership transfer failed',
+  OWNERSHIP_RENOUNCE_BLOCKED: 'renounceOwnership attempted without break-glass',
+  OWNERSHIP_RENOUNCED: 'Contract ownership renounced',
+  INVALID_CONFIRM_KEY: 'Ownership confirmation with an invalid confirm key',
+  APPROVAL_REQUESTED: 'Sensitive action waiting for approvals',
+  APPROVAL_EXECUTED: 'Sensitive action approved and enqueued',
+  APPROVAL_REJECTED: 'Sensitive action rejected',
+  INVALID_APPROVER_KEY: 'Request with an invalid approver key'
+};
+
+const ALERT_LOG_KEY = redisKey('alerts', 'log');
+const ALERT_LOG_SIZE = 500;
+
+const notifiers = createNotifiers(ALERT_CONFIG.notifiers);
+
+/**
+ * Claim the dedup key; false (and one more repeat counted) if already claimed
+ */
+async function claimDedupKey(dedupKey: string): Promise<{ claimed: boolean; repeats: number }> {
+  if (ALERT_CONFIG.dedupWindowMs === 0) {
+    return { claimed: true, repeats: 0 };
+  }
+
+  const claimed = await redis.set(redisKey('alerts', 'dedup', dedupKey), '1', 'PX', ALERT_CONFIG.dedupWindowMs, 'NX');
+  const repeatsKey = redisKey('alerts', 'repeats', dedupKey);
+
+  if (!claimed) {
+    await redis.multi().incr(repeatsKey).pexpire(repeatsKey, ALERT_CONFIG.dedupWindowMs * 4).exec();
+    return { claimed: false, repeats: 0 };
+  }
+
+  const [[, repeats]] = (await redis.multi().get(repeatsKey).del(repeatsKey).exec()) as [[Error | null, string | null]];
+  return { claimed: true, repeats: repeats ? parseInt(repeats, 10) : 0 };
+}
+
+/**
+ * Count one notification against this hour's budget
+ */
+async function withinHourlyBudget(now: Date): Promise<boolean> {
+  const key = redisKey('alerts', 'sent', now.toISOString().slice(0, 13));
+  const [[, count]] = (await redis.multi().incr(key).expire(key, 3600).exec()) as [[Error | null, number]];
+
+  return count <= ALERT_CONFIG.maxPerHour;
+}
+
+async function recordAlert(entry: AlertLogEntry): Promise<void> {
+  try {
+    await redis
+      .multi()
+      .lpush(ALERT_LOG_KEY, JSON.stringify(entry))
+      .ltrim(ALERT_LOG_KEY, 0, ALERT_LOG_SIZE - 1)
+      .exec();
+  } catch (error: any) {
+    logger.error('[Alerting] Failed to record alert', {
+      code: entry.alert.code,
+      error: error.message
+    });
+  }
+}
+
+async function dispatch(alert: Alert): Promise<AlertLogEntry> {
+  const now = new Date(alert.timestamp);
+
+  const { claimed, repeats } = await claimDedupKey(alert.dedupKey);
+  if (!claimed) {
+    return { alert, outcome: 'deduplicated', notifiers: [] };
+  }
+  alert.repeats = repeats;
+
+  if (alert.severity !== 'critical' && ALERT_CONFIG.quietHours && isWithinQuietHours(ALERT_CONFIG.quietHours, now)) {
+    return { alert, outcome: 'quiet', notifiers: [] };
+  }
+
+  const targets = notifiers.filter(notifier => severityRank(alert.severity) >= severityRank(notifier.minSeverity));
+  if (targets.length === 0) {
+    return { alert, outcome: 'no-notifiers', notifiers: [] };
+  }
+
+  if (!(await withinHourlyBudget(now))) {
+    return { alert, outcome: 'throttled', notifiers: [] };
+  }
+
+  const results = await Promise.all(targets.map(async notifier => {
+    try {
+      await notifier.send(alert);
+      return { name: notifier.name, delivered: true };
+    } catch (error: any) {
+      logger.error('[Alerting] Notifier failed', {
+        notifier: notifier.name,
+        code: alert.code,
+        error: error.message
+      });
+      return { name: notifier.name, delivered: false, error: error.message };
+    }
+  }));
+
+  return { alert, outcome: 'sent', notifiers: results };
+}
+
+/**
+ * Raise an alert (never throws)
+ */
+export async function sendAlert(
+  severity: AlertSeverity,
+  code: string,
+  details: Record<string, unknown>,
+  dedupKey: string = code
+): Promise<void> {
+  const alert: Alert = {
+    id: crypto.randomUUID(),
+    code,
+    severity,
+    title: ALERT_TITLES[code] ?? code,
+    details,
+    dedupKey,
+    repeats: 0,
+    network: NETWORK_CONFIG.name,
+    timestamp: new Date().toISOString()
+  };
+
+  let entry: AlertLogEntry;
+
+  try {
+    entry = await dispatch(alert);
+  } catch (error: any) {
+    // Redis down - still try to tell someone rather than stay silent
+    logger.error('[Alerting] Alert pipeline failed, sending without dedup/throttle', {
+      code,
+      error: error.message
+    });
+    const results = await Promise.all(notifiers
+      .filter(notifier => severityRank(severity) >= severityRank(notifier.minSeverity))
+      .map(notifier => notifier.send(alert).then(
+        () => ({ name: notifier.name, delivered: true }),
+        (sendError: any) => ({ name: notifier.name, delivered: false, error: sendError.message })
+      )));
+    entry = { alert, outcome: 'sent', notifiers: results };
+  }
+
+  const log = severity === 'critical' ? logger.error : severity === 'warning' ? logger.warn : logger.info;
+  log.call(logger, `[Alerting] ${code} (${entry.outcome})`, {
+    severity,
+    dedupKey,
+    repeats: alert.repeats,
+    notifiers: entry.notifiers
+  });
+
+  await recordAlert(entry);
+}
+
+export function sendCritical(code: string, details: Record<string, unknown>, dedupKey?: string): Promise<void> {
+  return sendAlert('critical', code, details, dedupKey);
+}
+
+export function sendWarning(code: string, details: Record<string, unknown>, dedupKey?: string): Promise<void> {
+  return sendAlert('warning', code, details, dedupKey);
+}
+
+export function sendInfo(code: string, details: Record<string, unknown>, dedupKey?: string): Promise<void> {
+  return sendAlert('info', code, details, dedupKey);
+}
+
+/**
+ * Read the alert log (newest first), optionally filtered by code or severity
+ */
+export async function getAlertLog(filter: { code?: string; severity?: AlertSeverity; limit: number }): Promise<AlertLogEntry[]> {
+  const raw = await redis.lrange(ALERT_LOG_KEY, 0, ALERT_LOG_SIZE - 1);
+
+  return raw
+    .map(item => JSON.parse(item) as AlertLogEntry)
+    .filter(entry => !filter.code || entry.alert.code === filter.code)
+    .filter(entry => !filter.severity || entry.alert.severity === filter.severity)
+    .slice(0, filter.limit);
+}
+
+/**
+ * Configured notifiers and whether quiet hours are active (GET /alerts)
+ */
+export function getAlertingStatus(): {
+  notifiers: Array<{ name: string; minSeverity: AlertSeverity }>;
+  quietHoursActive: boolean;
+  dedupWindowMs: number;
+  maxPerHour: number;
+} {
+  return {
+    notifiers: notifiers.map(({ name, minSeverity }) => ({ name, minSeverity })),
+    quietHoursActive: ALERT_CONFIG.quietHours ? isWithinQuietHours(ALERT_CONFIG.quietHours) : false,
+    dedupWindowMs: ALERT_CONFIG.dedupWindowMs,
+    maxPerHour: ALERT_CONFIG.maxPerHour
+  };
+}
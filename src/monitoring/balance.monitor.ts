@@ -0,0 +1,205 @@
+/**
+ * Balance Monitor - Gas funds of every signing wallet
+ *
+ * CHECKS (every BALANCE_CHECK_INTERVAL_MS):
+ * - balance ≥ BALANCE_WARN_THRESHOLD                → ok
+ * - BALANCE_CRITICAL_THRESHOLD ≤ balance < warn    → warning
+ * - balance < BALANCE_CRITICAL_THRESHOLD            → critical
+ *
+ * LOW-FUNDS PROTECTION:
+ * - While a wallet is critical, its non-essential job types
+ *   (BALANCE_PAUSE_JOB_TYPES) are paused by the worker: deferred once for
+ *   BALANCE_PAUSE_DELAY_MS, then failed as insufficient-funds if the wallet
+ *   is still critical (never retried)
+ * - Other types keep running on what is left; the emergency routes bypass
+ *   the queue and are never paused
+ *
+ * RUNWAY:
+ * - Cost of the last BALANCE_RUNWAY_SAMPLES mined transactions per wallet
+ *   (relayer:balance:costs:<walletId>) → transactions left at that average
+ */
+
+import { ethers } from 'ethers';
+import { provider } from '../index.js';
+import { BALANCE_CONFIG, NETWORK_CONFIG } from '../config/app.config.js';
+import { getWallets } from '../blockchain/wallet.pool.js';
+import { redis, redisKey } from '../utils/redis.js';
+import * as alerting from './alerting.js';
+import logger from '../utils/logger.js';
+
+export type BalanceLevel = 'ok' | 'warning' | 'critical';
+
+export interface WalletBalance {
+  walletId: string;
+  address: string;
+  balance: string;                  // Wei
+  balanceFormatted: string;
+  nativeSymbol: string;
+  level: BalanceLevel;
+  runway: {
+    transactions: number | null;    // null until a transaction was mined
+    averageCost: string | null;     // Wei per transaction
+    samples: number;
+  };
+  pausedJobTypes: string[];         // Non-essential types held while critical
+  checkedAt: string;
+}
+
+const warnThreshold = ethers.parseEther(BALANCE_CONFIG.warnThreshold);
+const criticalThreshold = ethers.parseEther(BALANCE_CONFIG.criticalThreshold);
+
+const balances = new Map<string, WalletBalance>();
+let timer: NodeJS.Timeout | undefined;
+
+function costsKey(walletId: string): string {
+  return redisKey('balance', 'costs', walletId);
+}
+
+function levelFor(balance: bigint): BalanceLevel {
+  if (balance < criticalThreshold) return 'critical';
+  if (balance < warnThreshold) return 'warning';
+  return 'ok';
+}
+
+/**
+ * Average cost of the wallet's recent mined transactions
+ */
+async function getAverageCost(walletId: string): Promise<{ averageCost?: bigint; samples: number }> {
+  const costs = await redis.lrange(costsKey(walletId), 0, -1);
+
+  if (costs.length === 0) {
+    return { samples: 0 };
+  }
+
+  const total = costs.reduce((sum, cost) => sum + BigInt(cost), 0n);
+  return { averageCost: total / BigInt(costs.length), samples: costs.length };
+}
+
+/**
+ * Record the cost of a mined transaction (runway estimate)
+ */
+export async function recordGasCost(walletId: string, receipt: ethers.TransactionReceipt): Promise<void> {
+  try {
+    await redis.multi()
+      .lpush(costsKey(walletId), receipt.fee.toString())
+      .ltrim(costsKey(walletId), 0, BALANCE_CONFIG.runwaySamples - 1)
+      .exec();
+  } catch (error: any) {
+    logger.warn('[BalanceMonitor] Failed to record gas cost', {
+      wallet: walletId,
+      error: error.message
+    });
+  }
+}
+
+/**
+ * Read every wallet's balance and update levels
+ */
+export async function checkBalances(): Promise<WalletBalance[]> {
+  for (const wallet of getWallets()) {
+    try {
+      const [balance, { averageCost, samples }] = await Promise.all([
+        provider.getBalance(wallet.address),
+        getAverageCost(wallet.id)
+      ]);
+      const level = levelFor(balance);
+      const previous = balances.get(wallet.id);
+
+      balances.set(wallet.id, {
+        walletId: wallet.id,
+        address: wallet.address,
+        balance: balance.toString(),
+        balanceFormatted: ethers.formatEther(balance),
+        nativeSymbol: NETWORK_CONFIG.nativeSymbol,
+        level,
+        runway: {
+          transactions: averageCost !== undefined && averageCost > 0n ? Number(balance / averageCost) : null,
+          averageCost: averageCost?.toString() ?? null,
+          samples
+        },
+        pausedJobTypes: level === 'critical' ? BALANCE_CONFIG.pauseJobTypes : [],
+        checkedAt: new Date().toISOString()
+      });
+
+      if (previous?.level !== level) {
+        const details = {
+          wallet: wallet.id,
+          address: wallet.address,
+          balance: `${ethers.formatEther(balance)} ${NETWORK_CONFIG.nativeSymbol}`,
+          warnThreshold: BALANCE_CONFIG.warnThreshold,
+          criticalThreshold: BALANCE_CONFIG.criticalThreshold
+        };
+
+        if (level === 'critical') {
+          logger.error('[BalanceMonitor] 🚨 Wallet balance CRITICAL - pausing non-essential jobs', {
+            ...details,
+            pausedJobTypes: BALANCE_CONFIG.pauseJobTypes
+          });
+
+          void alerting.sendCritical('SIGNER_BALANCE_CRITICAL', {
+            ...details,
+            pausedJobTypes: BALANCE_CONFIG.pauseJobTypes
+          }, `SIGNER_BALANCE_CRITICAL:${wallet.id}`);
+        } else if (level === 'warning') {
+          logger.warn('[BalanceMonitor] ⚠️  Wallet balance low', details);
+
+          void alerting.sendWarning('SIGNER_BALANCE_LOW', details, `SIGNER_BALANCE_LOW:${wallet.id}`);
+        } else if (previous) {
+          logger.info('[BalanceMonitor] ✅ Wallet balance back above thresholds', details);
+        }
+      }
+    } catch (error: any) {
+      // Keep the last known level - an RPC hiccup must not unpause or pause jobs
+      logger.error('[BalanceMonitor] Balance check failed', {
+        wallet: wallet.id,
+        error: error.message
+      });
+    }
+  }
+
+  return getBalances();
+}
+
+/**
+ * Last known balance of every wallet (owner first)
+ */
+export function getBalances(): WalletBalance[] {
+  return [...balances.values()];
+}
+
+/**
+ * Worst level across wallets
+ */
+export function getOverallBalanceLevel(): BalanceLevel {
+  const levels = getBalances().map(balance => balance.level);
+  if (levels.includes('critical')) return 'critical';
+  if (levels.includes('warning')) return 'warning';
+  return 'ok';
+}
+
+/**
+ * True while the wallet is critical and the job type is non-essential
+ */
+export function isPausedForBalance(walletId: string, jobType: string): boolean {
+  return balances.get(walletId)?.pausedJobTypes.includes(jobType) ?? false;
+}
+
+/**
+ * Check once, then every BALANCE_CHECK_INTERVAL_MS
+ * Wallet pool must be initialized before calling (see index.ts)
+ */
+export async function startBalanceMonitor(): Promise<void> {
+  await checkBalances();
+
+  timer = setInterval(() => void checkBalances(), BALANCE_CONFIG.checkIntervalMs);
+
+  logger.info('[BalanceMonitor] ✅ Balance monitor started', {
+    intervalMs: BALANCE_CONFIG.checkIntervalMs,
+    levels: Object.fromEntries(getBalances().map(balance => [balance.walletId, balance.level]))
+  });
+}
+
+export function stopBalanceMonitor(): void {
+  clearInterval(timer);
+  timer = undefined;
+}
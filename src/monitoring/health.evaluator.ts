@@ -0,0 +1,356 @@
+/**
+ * Health Evaluator - Queue health over a sliding window (HEALTH_WINDOW_MS)
+ *
+ * EVENTS (queue.monitor.ts → Redis sorted set relayer:health:events, scored by time):
+ * - succeeded → attempt mined
+ * - retried   → attempt failed and the job will run again
+ *               (main job moved to the retry queue, retry attempt left)
+ * - failed    → job failed for good (retries exhausted or not retryable)
+ * - deferred  → held back for gas price or low balance (not a failure)
+ * - stalled   → Bull lost the worker lock
+ *
+ * Events live in Redis, so the window survives restarts and is shared by
+ * every relayer instance. Rules and thresholds: config/health.ts.
+ *
+ * EVALUATION (every HEALTH_EVALUATION_INTERVAL_MS and on GET /queue/status):
+ * - Window counts + oldest waiting job (wait, paused, overdue delayed) + backlog → rule alerts
+ * - Wallet balance levels (balance.monitor.ts) are folded in as alerts
+ * - Rule transitions (raised / escalated / resolved) are logged once;
+ *   raised and escalated rules are sent to alerting.ts
+ */
+
+import { Queue } from 'bull';
+import { BALANCE_CONFIG, HEALTH_CONFIG } from '../config/app.config.js';
+import { HealthRuleId, HEALTH_RULE_IDS } from '../config/health.js';
+import { ErrorClass } from '../blockchain/error.classifier.js';
+import { getTxLanes } from '../queues/tx.queue.js';
+import { getBalances } from './balance.monitor.js';
+import { redis, redisKey } from '../utils/redis.js';
+import * as alerting from './alerting.js';
+import logger from '../utils/logger.js';
+
+export type HealthOutcome = 'succeeded' | 'retried' | 'failed' | 'deferred' | 'stalled';
+
+const OUTCOMES: HealthOutcome[] = ['succeeded', 'retried', 'failed', 'deferred', 'stalled'];
+
+export type HealthLevel = 'healthy' | 'warning' | 'critical';
+
+export interface HealthAlert {
+  rule: HealthRuleId | 'wallet-balance';
+  severity: 'warning' | 'critical';
+  value: number;
+  threshold: number;
+  message: string;
+  wallet?: string;
+  since: string;
+}
+
+export interface OldestWaitingJob {
+  jobId: string;
+  wallet: string;
+  queue: string;
+  type: string;
+  ageSeconds: number;
+}
+
+export interface HealthEvaluation {
+  health: HealthLevel;
+  windowMs: number;
+  window: Record<HealthOutcome, number> & {
+    attempts: number;               // succeeded + retried + failed
+    failureRate: number | null;     // % of attempts, null below HEALTH_MIN_SAMPLES
+    failuresByClass: Partial<Record<ErrorClass, number>>;
+  };
+  oldestWaiting: OldestWaitingJob | null;
+  backlog: number;
+  alerts: HealthAlert[];
+  evaluatedAt: string;
+}
+
+const EVENTS_KEY = redisKey('health', 'events');
+
+// Active alerts (rule or wallet-balance:<walletId>) → severity + first seen
+const activeAlerts = new Map<string, { severity: HealthAlert['severity']; since: string }>();
+let lastEvaluation: HealthEvaluation | undefined;
+let timer: NodeJS.Timeout | undefined;
+
+/**
+ * Record a job outcome (fire-and-forget - monitoring must never fail a job)
+ */
+export function recordHealthEvent(
+  outcome: HealthOutcome,
+  job: { jobId: string; walletId: string; type: string; errorClass?: ErrorClass }
+): void {
+  const now = Date.now();
+  const member = [now, outcome, job.walletId, job.type, job.errorClass ?? '-', job.jobId].join(':');
+
+  redis.multi()
+    .zadd(EVENTS_KEY, now, member)
+    .zremrangebyscore(EVENTS_KEY, '-inf', now - HEALTH_CONFIG.windowMs)
+    .pexpire(EVENTS_KEY, HEALTH_CONFIG.windowMs * 2)
+    .exec()
+    .catch((error: any) => {
+      logger.warn('[HealthEvaluator] Failed to record health event', {
+        outcome,
+        jobId: job.jobId,
+        error: error.message
+      });
+    });
+}
+
+/**
+ * Outcome counts inside the window
+ */
+async function countWindow(now: number): Promise<HealthEvaluation['window']> {
+  const members = await redis.zrangebyscore(EVENTS_KEY, now - HEALTH_CONFIG.windowMs, '+inf');
+
+  const window: HealthEvaluation['window'] = {
+    succeeded: 0,
+    retried: 0,
+    failed: 0,
+    deferred: 0,
+    stalled: 0,
+    attempts: 0,
+    failureRate: null,
+    failuresByClass: {}
+  };
+
+  for (const member of members) {
+    const [, outcome, , , errorClass] = member.split(':');
+
+    if (!OUTCOMES.includes(outcome as HealthOutcome)) continue;
+    window[outcome as HealthOutcome]++;
+
+    if ((outcome === 'retried' || outcome === 'failed') && errorClass !== '-') {
+      const key = errorClass as ErrorClass;
+      window.failuresByClass[key] = (window.failuresByClass[key] ?? 0) + 1;
+    }
+  }
+
+  window.attempts = window.succeeded + window.retried + window.failed;
+
+  if (window.attempts >= HEALTH_CONFIG.minSamples) {
+    window.failureRate = Number((((window.retried + window.failed) / window.attempts) * 100).toFixed(2));
+  }
+
+  return window;
+}
+
+// Bull scores delayed jobs with their due time in ms × 0x1000 (+ a counter)
+const DELAYED_SCORE_FACTOR = 0x1000;
+
+/**
+ * Longest-waiting job of a queue
+ * - 'wait' and 'paused': the next job of each list, aged from when it became
+ *   ready (creation + initial delay)
+ * - 'delayed': the earliest due job once its due time passed (Bull promotes
+ *   due jobs to 'wait' - one left behind is waiting too)
+ */
+async function oldestWaitingIn(queue: Queue, walletId: string, now: number): Promise<OldestWaitingJob | null> {
+  const [waiting, [delayedId, delayedScore]] = await Promise.all([
+    queue.getWaiting(0, 0),
+    queue.client.zrange(queue.toKey('delayed'), 0, 0, 'WITHSCORES')
+  ]);
+
+  const candidates = waiting
+    .filter(job => job)
+    .map(job => ({ job, readyAt: job.timestamp + (job.opts.delay ?? 0) }));
+
+  if (delayedId !== undefined) {
+    const readyAt = Math.floor(Number(delayedScore) / DELAYED_SCORE_FACTOR);
+    const job = readyAt <= now ? await queue.getJob(delayedId) : null;
+    if (job) candidates.push({ job, readyAt });
+  }
+
+  let oldest: OldestWaitingJob | null = null;
+
+  for (const { job, readyAt } of candidates) {
+    const ageSeconds = Math.max(0, Math.floor((now - readyAt) / 1000));
+
+    if (!oldest || ageSeconds > oldest.ageSeconds) {
+      oldest = { jobId: job.id.toString(), wallet: walletId, queue: queue.name, type: job.data.type, ageSeconds };
+    }
+  }
+
+  return oldest;
+}
+
+function windowLabel(): string {
+  return `${Number((HEALTH_CONFIG.windowMs / 60000).toFixed(1))} min`;
+}
+
+/**
+ * Severity of a value against a rule (critical wins)
+ */
+function checkRule(rule: HealthRuleId, value: number): { severity: HealthAlert['severity']; threshold: number } | undefined {
+  const { warning, critical } = HEALTH_CONFIG.rules[rule];
+
+  if (critical !== null && value >= critical) return { severity: 'critical', threshold: critical };
+  if (warning !== null && value >= warning) return { severity: 'warning', threshold: warning };
+  return undefined;
+}
+
+function ruleMessage(rule: HealthRuleId, value: number, evaluation: Omit<HealthEvaluation, 'health' | 'alerts' | 'evaluatedAt'>): string {
+  switch (rule) {
+    case 'failure-rate':
+      return `High failure rate: ${value}% of ${evaluation.window.attempts} attempts in the last ${windowLabel()}`;
+    case 'failed-jobs':
+      return `${value} job(s) failed for good in the last ${windowLabel()}`;
+    case 'stalled-jobs':
+      return `${value} job(s) stalled in the last ${windowLabel()}`;
+    case 'oldest-waiting-seconds': {
+      const oldest = evaluation.oldestWaiting!;
+      return `Oldest waiting job ${oldest.jobId} (${oldest.type}, wallet ${oldest.wallet}) has waited ${value}s - worker may be stuck`;
+    }
+    case 'backlog':
+      return `Large backlog: ${value} jobs waiting`;
+  }
+}
+
+/**
+ * Keep `since` across evaluations and log rule transitions
+ */
+function trackAlert(key: string, severity: HealthAlert['severity'], log: boolean, details: Record<string, unknown>): string {
+  const previous = activeAlerts.get(key);
+
+  if (previous?.severity === severity) {
+    return previous.since;
+  }
+
+  const since = previous?.since ?? new Date().toISOString();
+  activeAlerts.set(key, { severity, since });
+
+  if (log) {
+    if (severity === 'critical') {
+      logger.error(`[HealthEvaluator] 🚨 Health rule ${key} CRITICAL`, details);
+    } else {
+      logger.warn(`[HealthEvaluator] ⚠️  Health rule ${key} warning`, details);
+    }
+
+    void alerting.sendAlert(severity, `HEALTH_RULE_${severity.toUpperCase()}`, { rule: key, ...details }, `HEALTH_RULE:${key}:${severity}`);
+  }
+
+  return since;
+}
+
+/**
+ * Evaluate every rule now
+ */
+export async function evaluateHealth(): Promise<HealthEvaluation> {
+  const now = Date.now();
+  await redis.zremrangebyscore(EVENTS_KEY, '-inf', now - HEALTH_CONFIG.windowMs);
+
+  const lanes = getTxLanes();
+  const [window, oldestPerQueue, backlogPerQueue] = await Promise.all([
+    countWindow(now),
+    Promise.all(lanes.flatMap(lane => [
+      oldestWaitingIn(lane.mainQueue, lane.walletId, now),
+      oldestWaitingIn(lane.retryQueue, lane.walletId, now)
+    ])),
+    // wait + paused + delayed
+    Promise.all(lanes.flatMap(lane => [lane.mainQueue.count(), lane.retryQueue.count()]))
+  ]);
+
+  const oldestWaiting = oldestPerQueue.reduce<OldestWaitingJob | null>(
+    (oldest, job) => job && (!oldest || job.ageSeconds > oldest.ageSeconds) ? job : oldest,
+    null
+  );
+  const backlog = backlogPerQueue.reduce((total, count) => total + count, 0);
+  const inputs = { windowMs: HEALTH_CONFIG.windowMs, window, oldestWaiting, backlog };
+
+  const values: Record<HealthRuleId, number | null> = {
+    'failure-rate': window.failureRate,
+    'failed-jobs': window.failed,
+    'stalled-jobs': window.stalled,
+    'oldest-waiting-seconds': oldestWaiting?.ageSeconds ?? null,
+    'backlog': backlog
+  };
+
+  const alerts: HealthAlert[] = [];
+  const firing = new Set<string>();
+
+  for (const rule of HEALTH_RULE_IDS) {
+    const value = values[rule];
+    const result = value !== null ? checkRule(rule, value) : undefined;
+
+    if (value === null || !result) continue;
+
+    const message = ruleMessage(rule, value, inputs);
+    const since = trackAlert(rule, result.severity, true, { value, threshold: result.threshold, message });
+
+    firing.add(rule);
+    alerts.push({ rule, severity: result.severity, value, threshold: result.threshold, message, since });
+  }
+
+  // Balance transitions are logged by balance.monitor.ts
+  for (const balance of getBalances()) {
+    if (balance.level === 'ok') continue;
+
+    const key = `wallet-balance:${balance.walletId}`;
+    const severity = balance.level;
+    const since = trackAlert(key, severity, false, {});
+
+    firing.add(key);
+    alerts.push({
+      rule: 'wallet-balance',
+      severity,
+      value: Number(balance.balanceFormatted),
+      threshold: Number(severity === 'critical' ? BALANCE_CONFIG.criticalThreshold : BALANCE_CONFIG.warnThreshold),
+      message: severity === 'critical'
+        ? `Wallet ${balance.walletId} balance critical: ${balance.balanceFormatted} ${balance.nativeSymbol} (paused: ${balance.pausedJobTypes.join(', ') || 'none'})`
+        : `Wallet ${balance.walletId} balance low: ${balance.balanceFormatted} ${balance.nativeSymbol}`,
+      wallet: balance.walletId,
+      since
+    });
+  }
+
+  for (const [key, alert] of activeAlerts) {
+    if (firing.has(key)) continue;
+
+    activeAlerts.delete(key);
+
+    if (!key.startsWith('wallet-balance:')) {
+      logger.info(`[HealthEvaluator] ✅ Health rule ${key} resolved`, { since: alert.since });
+    }
+  }
+
+  const health: HealthLevel = alerts.some(alert => alert.severity === 'critical')
+    ? 'critical'
+    : alerts.length > 0 ? 'warning' : 'healthy';
+
+  lastEvaluation = { health, ...inputs, alerts, evaluatedAt: new Date(now).toISOString() };
+  return lastEvaluation;
+}
+
+/**
+ * Result of the last evaluation (undefined before the first one)
+ */
+export function getLastEvaluation(): HealthEvaluation | undefined {
+  return lastEvaluation;
+}
+
+/**
+ * Evaluate once, then every HEALTH_EVALUATION_INTERVAL_MS
+ */
+export async function startHealthEvaluator(): Promise<void> {
+  const run = () => evaluateHealth().catch((error: any) => {
+    // Keep the last evaluation - a Redis hiccup must not clear alerts
+    logger.error('[HealthEvaluator] Health evaluation failed', {
+      error: error.message
+    });
+  });
+
+  await run();
+  timer = setInterval(() => void run(), HEALTH_CONFIG.evaluationIntervalMs);
+
+  logger.info('[HealthEvaluator] ✅ Health evaluator started', {
+    windowMs: HEALTH_CONFIG.windowMs,
+    intervalMs: HEALTH_CONFIG.evaluationIntervalMs,
+    health: lastEvaluation?.health
+  });
+}
+
+export function stopHealthEvaluator(): void {
+  clearInterval(timer);
+  timer = undefined;
+}
@@ -0,0 +1,315 @@
+/**
+ * Invariant Watchdog - Contract accounting checked every INVARIANT_CHECK_BLOCKS blocks
+ *
+ * EACH READING (one quorum read, all calls pinned to the same block):
+ * - checkAccountingInvariant() → isValid, balance, reserved funds, fees
+ * - getContractFinancials()    → withdrawable amount
+ * - globalReservedUserFunds(), totalPlatformFees(), paused()
+ * Stored in relayer:invariant:history (sorted by block, last INVARIANT_HISTORY_SIZE)
+ * so finance can follow reserved funds and fees (GET /accounting-invariant/history).
+ *
+ * ON VIOLATION (isValid = false):
+ * - ACCOUNTING_INVARIANT_VIOLATED critical alert (alerting.ts)
+ * - INVARIANT_AUTO_PAUSE=true → emergencyPause() once INVARIANT_PAUSE_AFTER
+ *   consecutive readings are invalid (one bad answer never pauses), skipped
+ *   when the contract is already paused. After an automatic pause no other is
+ *   sent for INVARIANT_PAUSE_COOLDOWN_MS (an operator may unpause to investigate).
+ *
+ * Block claims and the cooldown live in Redis, so several relayer instances
+ * record each block once and pause once.
+ */
+
+import { ethers } from 'ethers';
+import { contract, provider } from '../index.js';
+import { INVARIANT_CONFIG } from '../config/app.config.js';
+import { submitContractTransaction, waitForConfirmation } from '../blockchain/tx.sender.js';
+import { redis, redisKey } from '../utils/redis.js';
+import * as alerting from './alerting.js';
+import logger from '../utils/logger.js';
+
+export interface InvariantReading {
+  blockNumber: number;
+  checkedAt: string;
+  isValid: boolean;
+  contractBalance: string;              // Token base units
+  reservedFunds: string;
+  platformFees: string;
+  withdrawableAmount: string;
+  globalReservedUserFunds: string;
+  totalPlatformFees: string;
+  shortfall: string;                    // reserved + fees - balance (0 when covered)
+  paused: boolean;
+  quorum: { agreeing: number; queried: number };
+}
+
+export interface AutoPauseRecord {
+  blockNumber: number;
+  attemptedAt: string;
+  outcome: 'paused' | 'already-paused' | 'cooldown' | 'failed';
+  txHash?: string;
+  error?: string;
+}
+
+const HISTORY_KEY = redisKey('invariant', 'history');
+const AUTO_PAUSE_LOG_KEY = redisKey('invariant', 'auto-pauses');
+const AUTO_PAUSE_COOLDOWN_KEY = redisKey('invariant', 'auto-pause-cooldown');
+const AUTO_PAUSE_LOG_SIZE = 100;
+
+let timer: NodeJS.Timeout | undefined;
+let checkInProgress = false;
+let lastCheckedBlock: number | undefined;
+let lastReading: InvariantReading | undefined;
+let lastError: string | undefined;
+
+/**
+ * Read every accounting value at one block
+ */
+async function readInvariant(): Promise<InvariantReading> {
+  const { value, blockNumber, agreeing, queried } = await provider.quorumRead(async (runner, blockTag) => {
+    const reader = contract.connect(runner) as ethers.Contract;
+
+    return Promise.all([
+      reader.checkAccountingInvariant({ blockTag }),
+      reader.getContractFinancials({ blockTag }),
+      reader.globalReservedUserFunds({ blockTag }),
+      reader.totalPlatformFees({ blockTag }),
+      reader.paused({ blockTag })
+    ]);
+  });
+
+  const [[isValid, contractBalance, reservedFunds, platformFees], financials, globalReserved, totalFees, paused] = value;
+  const owed: bigint = reservedFunds + platformFees;
+
+  return {
+    blockNumber,
+    checkedAt: new Date().toISOString(),
+    isValid,
+    contractBalance: contractBalance.toString(),
+    reservedFunds: reservedFunds.toString(),
+    platformFees: platformFees.toString(),
+    withdrawableAmount: financials[3].toString(),
+    globalReservedUserFunds: globalReserved.toString(),
+    totalPlatformFees: totalFees.toString(),
+    shortfall: (owed > contractBalance ? owed - contractBalance : 0n).toString(),
+    paused,
+    quorum: { agreeing, queried }
+  };
+}
+
+async function storeReading(reading: InvariantReading): Promise<void> {
+  await redis.multi()
+    .zadd(HISTORY_KEY, reading.blockNumber, JSON.stringify(reading))
+    .zremrangebyrank(HISTORY_KEY, 0, -(INVARIANT_CONFIG.historySize + 1))
+    .exec();
+}
+
+/**
+ * True when the last INVARIANT_PAUSE_AFTER stored readings are all invalid
+ */
+async function violationPersists(): Promise<boolean> {
+  const latest = await redis.zrevrange(HISTORY_KEY, 0, INVARIANT_CONFIG.pauseAfter - 1);
+
+  return latest.length >= INVARIANT_CONFIG.pauseAfter &&
+    latest.every(item => !(JSON.parse(item) as InvariantReading).isValid);
+}
+
+async function recordAutoPause(record: AutoPauseRecord): Promise<void> {
+  await redis.multi()
+    .lpush(AUTO_PAUSE_LOG_KEY, JSON.stringify(record))
+    .ltrim(AUTO_PAUSE_LOG_KEY, 0, AUTO_PAUSE_LOG_SIZE - 1)
+    .exec();
+}
+
+/**
+ * Emergency-pause the contract (cooldown claimed first, so instances pause once)
+ */
+async function autoPause(reading: InvariantReading): Promise<AutoPauseRecord> {
+  const base = { blockNumber: reading.blockNumber, attemptedAt: new Date().toISOString() };
+
+  if (reading.paused) {
+    return { ...base, outcome: 'already-paused' };
+  }
+
+  if (INVARIANT_CONFIG.pauseCooldownMs > 0) {
+    const claimed = await redis.set(AUTO_PAUSE_COOLDOWN_KEY, base.attemptedAt, 'PX', INVARIANT_CONFIG.pauseCooldownMs, 'NX');
+    if (!claimed) {
+      return { ...base, outcome: 'cooldown' };
+    }
+  }
+
+  logger.error('[InvariantWatchdog] 🚨 Accounting invariant violated - sending EMERGENCY PAUSE', {
+    blockNumber: reading.blockNumber,
+    shortfall: reading.shortfall
+  });
+
+  try {
+    // Same path as POST /emergency-pause (owner wallet, bypasses the queue)
+    const submitted = await submitContractTransaction(`emergency-pause-auto-${reading.blockNumber}`, 'emergencyPause', [], {
+      jobType: 'emergency-pause'
+    });
+    const receipt = await waitForConfirmation(submitted);
+
+    logger.error('[InvariantWatchdog] 🚨 SYSTEM EMERGENCY PAUSED by watchdog', {
+      txHash: receipt.hash,
+      blockNumber: receipt.blockNumber
+    });
+
+    return { ...base, outcome: 'paused', txHash: receipt.hash };
+  } catch (error: any) {
+    logger.error('[InvariantWatchdog] ❌ Automatic emergency pause failed', {
+      error: error.message,
+      code: error.code
+    });
+
+    // Let the next violated reading try again
+    await redis.del(AUTO_PAUSE_COOLDOWN_KEY);
+
+    return { ...base, outcome: 'failed', error: error.message };
+  }
+}
+
+/**
+ * Check once if INVARIANT_CHECK_BLOCKS blocks passed since the last reading
+ */
+async function runInvariantCheck(): Promise<InvariantReading | undefined> {
+  const head = await provider.getBlockNumber();
+
+  if (lastCheckedBlock !== undefined && head < lastCheckedBlock + INVARIANT_CONFIG.checkBlocks) {
+    return undefined;
+  }
+
+  const reading = await readInvariant();
+  lastCheckedBlock = reading.blockNumber;
+  lastReading = reading;
+  lastError = undefined;
+
+  // Another instance already recorded this block
+  const claimed = await redis.set(redisKey('invariant', 'checked', reading.blockNumber), '1', 'EX', 3600, 'NX');
+  if (!claimed) {
+    return reading;
+  }
+
+  await storeReading(reading);
+
+  if (reading.isValid) {
+    logger.debug('[InvariantWatchdog] Accounting invariant holds', {
+      blockNumber: reading.blockNumber,
+      reservedFunds: reading.reservedFunds,
+      platformFees: reading.platformFees
+    });
+    return reading;
+  }
+
+  logger.error('[InvariantWatchdog] 🚨 Accounting invariant VIOLATED', { ...reading });
+
+  void alerting.sendCritical('ACCOUNTING_INVARIANT_VIOLATED', {
+    blockNumber: reading.blockNumber,
+    contractBalance: reading.contractBalance,
+    reservedFunds: reading.reservedFunds,
+    platformFees: reading.platformFees,
+    shortfall: reading.shortfall,
+    paused: reading.paused,
+    autoPause: INVARIANT_CONFIG.autoPause
+  });
+
+  if (INVARIANT_CONFIG.autoPause && await violationPersists()) {
+    const record = await autoPause(reading);
+    await recordAutoPause(record);
+
+    if (record.outcome === 'paused' || record.outcome === 'failed') {
+      void alerting.sendCritical('INVARIANT_AUTO_PAUSE', { ...record }, `INVARIANT_AUTO_PAUSE:${record.blockNumber}`);
+    }
+  }
+
+  return reading;
+}
+
+/**
+ * Scheduled tick - skips while the previous check (or pause) is running
+ */
+async function tick(): Promise<void> {
+  if (checkInProgress) {
+    return;
+  }
+
+  checkInProgress = true;
+  try {
+    await runInvariantCheck();
+  } catch (error: any) {
+    // Keep watching - a failed read is not a violation
+    lastError = error.message;
+    logger.error('[InvariantWatchdog] Invariant check failed', {
+      error: error.message,
+      code: error.code
+    });
+  } finally {
+    checkInProgress = false;
+  }
+}
+
+/**
+ * Stored readings, newest first (optionally within a block range)
+ */
+export async function getInvariantHistory(filter: { fromBlock?: number; toBlock?: number; limit: number }): Promise<InvariantReading[]> {
+  const raw = await redis.zrevrangebyscore(
+    HISTORY_KEY,
+    filter.toBlock ?? '+inf',
+    filter.fromBlock ?? '-inf',
+    'LIMIT',
+    0,
+    filter.limit
+  );
+
+  return raw.map(item => JSON.parse(item) as InvariantReading);
+}
+
+/**
+ * Automatic pause attempts, newest first
+ */
+export async function getAutoPauseLog(): Promise<AutoPauseRecord[]> {
+  const raw = await redis.lrange(AUTO_PAUSE_LOG_KEY, 0, AUTO_PAUSE_LOG_SIZE - 1);
+  return raw.map(item => JSON.parse(item) as AutoPauseRecord);
+}
+
+/**
+ * Watchdog status for monitoring
+ */
+export async function getWatchdogState() {
+  return {
+    enabled: INVARIANT_CONFIG.enabled,
+    running: timer !== undefined,
+    checkBlocks: INVARIANT_CONFIG.checkBlocks,
+    autoPause: INVARIANT_CONFIG.autoPause,
+    pauseAfter: INVARIANT_CONFIG.pauseAfter,
+    cooldownUntil: await redis.pttl(AUTO_PAUSE_COOLDOWN_KEY).then(ttl => ttl > 0 ? new Date(Date.now() + ttl).toISOString() : null),
+    lastCheckedBlock,
+    lastReading,
+    lastError
+  };
+}
+
+/**
+ * Start polling (first check runs immediately)
+ */
+export function startInvariantWatchdog(): void {
+  if (!INVARIANT_CONFIG.enabled) {
+    logger.info('[InvariantWatchdog] Accounting invariant watchdog disabled (INVARIANT_WATCHDOG_ENABLED=false)');
+    return;
+  }
+
+  timer = setInterval(() => void tick(), INVARIANT_CONFIG.pollIntervalMs);
+  void tick();
+
+  logger.info('[InvariantWatchdog] ✅ Accounting invariant watchdog started', {
+    checkBlocks: INVARIANT_CONFIG.checkBlocks,
+    autoPause: INVARIANT_CONFIG.autoPause
+  });
+}
+
+export function stopInvariantWatchdog(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+    logger.info('[InvariantWatchdog] Accounting invariant watchdog stopped');
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Prometheus Metrics - Registry served on GET /metrics (text exposition format)
+ *
+ * SOURCES:
+ * - Queue depth, wallet balance      → gauges refreshed on every scrape
+ * - Job duration, failures, retries  → queue.monitor.ts (Bull events)
+ * - Confirmation latency, gas, fees  → tx.sender.ts (mined receipts)
+ * - RPC latency                      → rpc.provider.ts (per endpoint host, never the full URL)
+ * - HTTP requests                    → metrics.middleware.ts (matched route pattern)
+ *
+ * Counters live in process memory and restart from zero with the relayer;
+ * Prometheus handles the reset (rate() / increase()).
+ */
+
+import { Registry, Counter, Gauge, Histogram, collectDefaultMetrics } from 'prom-client';
+import { ethers } from 'ethers';
+
+export const registry = new Registry();
+
+// Process metrics (CPU, memory, event loop lag, GC)
+collectDefaultMetrics({ register: registry, prefix: 'relayer_' });
+
+export const queueJobs = new Gauge({
+  name: 'relayer_queue_jobs',
+  help: 'Jobs per queue and Bull state',
+  labelNames: ['queue', 'wallet', 'state'],
+  registers: [registry]
+});
+
+export const jobDuration = new Histogram({
+  name: 'relayer_job_duration_seconds',
+  help: 'Time from pickup to completion of a queue job (includes confirmation)',
+  labelNames: ['type', 'queue', 'outcome'],
+  buckets: [1, 5, 15, 30, 60, 120, 300, 600, 900],
+  registers: [registry]
+});
+
+export const confirmationLatency = new Histogram({
+  name: 'relayer_tx_confirmation_seconds',
+  help: 'Time from first broadcast to a receipt with the required confirmations',
+  labelNames: ['type', 'status'],
+  buckets: [2, 5, 10, 20, 30, 60, 120, 300, 600],
+  registers: [registry]
+});
+
+export const gasUsed = new Counter({
+  name: 'relayer_tx_gas_used_total',
+  help: 'Gas used by mined transactions (reverts included)',
+  labelNames: ['type'],
+  registers: [registry]
+});
+
+export const feesSpent = new Counter({
+  name: 'relayer_tx_fees_native_total',
+  help: 'Fees paid by mined transactions, in native currency (reverts included)',
+  labelNames: ['type'],
+  registers: [registry]
+});
+
+export const jobFailures = new Counter({
+  name: 'relayer_job_failures_total',
+  help: 'Failed job attempts by error class (permanent-revert = reverts)',
+  labelNames: ['type', 'queue', 'error_class'],
+  registers: [registry]
+});
+
+export const jobRetries = new Counter({
+  name: 'relayer_job_retries_total',
+  help: 'Job attempts scheduled for retry, by error class of the failure',
+  labelNames: ['type', 'error_class'],
+  registers: [registry]
+});
+
+export const jobDeferrals = new Counter({
+  name: 'relayer_job_deferrals_total',
+  help: 'Jobs deferred to the retry queue (high gas fee or low wallet balance)',
+  labelNames: ['type'],
+  registers: [registry]
+});
+
+export const rpcRequestDuration = new Histogram({
+  name: 'relayer_rpc_request_duration_seconds',
+  help: 'JSON-RPC request latency per endpoint',
+  labelNames: ['endpoint', 'method', 'outcome'],
+  buckets: [0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [registry]
+});
+
+export const walletBalance = new Gauge({
+  name: 'relayer_wallet_balance',
+  help: 'Wallet balance in native currency (last balance check)',
+  labelNames: ['wallet', 'address'],
+  registers: [registry]
+});
+
+export const walletRunway = new Gauge({
+  name: 'relayer_wallet_runway_transactions',
+  help: 'Transactions left at the recent average cost',
+  labelNames: ['wallet'],
+  registers: [registry]
+});
+
+export const httpRequests = new Counter({
+  name: 'relayer_http_requests_total',
+  help: 'HTTP requests by route pattern and status code',
+  labelNames: ['method', 'route', 'status'],
+  registers: [registry]
+});
+
+export const httpRequestDuration = new Histogram({
+  name: 'relayer_http_request_duration_seconds',
+  help: 'HTTP request latency by route pattern',
+  labelNames: ['method', 'route'],
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [registry]
+});
+
+/**
+ * Record a mined transaction (confirmation latency, gas and fee by job type)
+ */
+export function observeMinedTransaction(
+  jobType: string,
+  receipt: ethers.TransactionReceipt,
+  broadcastAt: number
+): void {
+  const status = receipt.status === 1 ? 'success' : 'reverted';
+
+  confirmationLatency.observe({ type: jobType, status }, Math.max(0, Date.now() - broadcastAt) / 1000);
+  gasUsed.inc({ type: jobType }, Number(receipt.gasUsed));
+  feesSpent.inc({ type: jobType }, Number(ethers.formatEther(receipt.fee)));
+}
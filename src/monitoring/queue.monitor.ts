@@ -4,17 +4,27 @@
  * FEATURES:
  * - Event listeners for job lifecycle (completed, failed, stalled)
  * - Queue health metrics (waiting, active, completed, failed counts)
+ * - Every wallet lane is monitored (owner + operator wallets)
  * - Express endpoint: GET /relayer/queue/status
  * - Integration with Winston logger
+ * - Prometheus counters / histograms (metrics.ts, GET /metrics)
  * 
- * ALERTS:
- * - High failure rate (>10% in 5 minutes)
- * - Stalled jobs (stuck for >5 minutes)
- * - Queue backlog (>100 jobs waiting)
+ * ALERTS (health.evaluator.ts, sliding window, thresholds in HEALTH_RULES):
+ * - High failure rate (default ≥10% of attempts, moved-to-retry included)
+ * - Jobs failed for good / stalled in the window
+ * - Oldest waiting job (default ≥5 minutes)
+ * - Queue backlog (default ≥100 jobs waiting)
+ * - Wallet balance below warning / critical threshold (balance.monitor.ts)
  */
 
 import { Request, Response } from 'express';
-import { txQueue, txRetryQueue } from '../queues/tx.queue.js';
+import { Queue } from 'bull';
+import { getTxLanes } from '../queues/tx.queue.js';
+import { ErrorClass, ERROR_CLASSES, parseClassifiedMessage } from '../blockchain/error.classifier.js';
+import { getBalances } from './balance.monitor.js';
+import { evaluateHealth, recordHealthEvent } from './health.evaluator.js';
+import * as alerting from './alerting.js';
+import { jobDuration, jobFailures, jobRetries, jobDeferrals } from './metrics.js';
 import logger from '../utils/logger.js';
 
 // Metrics storage
@@ -22,227 +32,320 @@ interface QueueMetrics {
   completedJobs: number;
   failedJobs: number;
   stalledJobs: number;
+  failuresByClass: Record<ErrorClass, number>;
   lastFailure?: {
     jobId: string;
     type: string;
     error: string;
+    errorClass?: ErrorClass;
+    reason?: string;
     timestamp: Date;
   };
 }
 
+function emptyFailureCounts(): Record<ErrorClass, number> {
+  return Object.fromEntries(ERROR_CLASSES.map(errorClass => [errorClass, 0])) as Record<ErrorClass, number>;
+}
+
 const metrics: QueueMetrics = {
   completedJobs: 0,
   failedJobs: 0,
-  stalledJobs: 0
+  stalledJobs: 0,
+  failuresByClass: emptyFailureCounts()
 };
 
+/**
+ * Record a failed attempt (class parsed from the "<class>: <reason>" message)
+ */
+function recordFailure(jobId: string, type: string, error: string, queue: 'main' | 'retry'): ErrorClass {
+  const parsed = parseClassifiedMessage(error);
+
+  if (parsed) {
+    metrics.failuresByClass[parsed.errorClass]++;
+  }
+
+  jobFailures.inc({ type, queue, error_class: parsed?.errorClass ?? 'unknown' });
+
+  metrics.lastFailure = {
+    jobId,
+    type,
+    error,
+    errorClass: parsed?.errorClass,
+    reason: parsed?.reason,
+    timestamp: new Date()
+  };
+
+  return parsed?.errorClass ?? 'unknown';
+}
+
+/**
+ * Pickup → finish time of a job (Bull sets processedOn when the attempt starts)
+ */
+function observeDuration(job: { processedOn?: number; data: { type: string } }, queue: 'main' | 'retry', outcome: string): void {
+  if (job.processedOn) {
+    jobDuration.observe({ type: job.data.type, queue, outcome }, (Date.now() - job.processedOn) / 1000);
+  }
+}
+
 /**
  * Initialize queue event listeners
  */
 export function initializeQueueMonitoring(): void {
   logger.info('[QueueMonitor] Initializing queue monitoring...');
 
-  // ============================================================================
-  // MAIN QUEUE EVENTS
-  // ============================================================================
-
-  txQueue.on('completed', (job, result) => {
-    metrics.completedJobs++;
-    
-    logger.info('[QueueMonitor] Main queue job completed', {
-      jobId: job.id,
-      type: job.data.type,
-      txHash: result.txHash,
-      movedToRetry: result.movedToRetry || false
-    });
-  });
-
-  txQueue.on('failed', (job, err) => {
-    metrics.failedJobs++;
-    metrics.lastFailure = {
-      jobId: job?.id?.toString() || 'unknown',
-      type: job?.data?.type || 'unknown',
-      error: err.message,
-      timestamp: new Date()
-    };
-
-    logger.error('[QueueMonitor] Main queue job failed', {
-      jobId: job?.id,
-      type: job?.data?.type,
-      error: err.message,
-      attemptsMade: job?.attemptsMade
+  for (const { walletId, mainQueue, retryQueue } of getTxLanes()) {
+    // ============================================================================
+    // MAIN QUEUE EVENTS
+    // ============================================================================
+
+    mainQueue.on('completed', (job, result) => {
+      metrics.completedJobs++;
+      
+      // Failures handled by the worker complete the main job with success: false
+      if (result && result.success === false && !result.deferred) {
+        recordFailure(job.id.toString(), job.data.type, result.error, 'main');
+      }
+
+      const event = { jobId: job.id.toString(), walletId, type: job.data.type, errorClass: result?.errorClass };
+
+      if (result?.deferred) {
+        jobDeferrals.inc({ type: job.data.type });
+        recordHealthEvent('deferred', event);
+      } else if (result?.movedToRetry) {
+        jobRetries.inc({ type: job.data.type, error_class: result.errorClass ?? 'unknown' });
+        // Completed in Bull, but the attempt failed
+        recordHealthEvent('retried', event);
+      } else {
+        recordHealthEvent(result?.success ? 'succeeded' : 'failed', event);
+      }
+
+      observeDuration(job, 'main', result?.success ? 'succeeded' : result?.deferred ? 'deferred' : result?.movedToRetry ? 'moved-to-retry' : 'failed');
+      
+      logger.info('[QueueMonitor] Main queue job completed', {
+        jobId: job.id,
+        wallet: walletId,
+        type: job.data.type,
+        txHash: result.txHash,
+        movedToRetry: result.movedToRetry || false
+      });
     });
-  });
 
-  txQueue.on('stalled', (job) => {
-    metrics.stalledJobs++;
+    mainQueue.on('failed', (job, err) => {
+      metrics.failedJobs++;
+      const errorClass = recordFailure(job?.id?.toString() || 'unknown', job?.data?.type || 'unknown', err.message, 'main');
+
+      recordHealthEvent('failed', {
+        jobId: job?.id?.toString() || 'unknown',
+        walletId,
+        type: job?.data?.type || 'unknown',
+        errorClass
+      });
+
+      if (job) {
+        observeDuration(job, 'main', 'aborted');
+      }
 
-    logger.warn('[QueueMonitor] Main queue job stalled', {
-      jobId: job.id,
-      type: job.data.type,
-      attemptsMade: job.attemptsMade
+      logger.error('[QueueMonitor] Main queue job failed', {
+        jobId: job?.id,
+        wallet: walletId,
+        type: job?.data?.type,
+        error: err.message,
+        attemptsMade: job?.attemptsMade
+      });
     });
 
-    // TODO: Send alert for stalled jobs
-    // await alerting.sendWarning('TX_QUEUE_STALLED', { jobId, type });
-  });
+    mainQueue.on('stalled', (job) => {
+      metrics.stalledJobs++;
+      recordHealthEvent('stalled', { jobId: job.id.toString(), walletId, type: job.data.type });
 
-  txQueue.on('error', (error) => {
-    logger.error('[QueueMonitor] Main queue error', {
-      error: error.message
+      logger.warn('[QueueMonitor] Main queue job stalled', {
+        jobId: job.id,
+        wallet: walletId,
+        type: job.data.type,
+        attemptsMade: job.attemptsMade
+      });
+
+      void alerting.sendWarning('TX_QUEUE_STALLED', {
+        jobId: job.id.toString(),
+        wallet: walletId,
+        type: job.data.type,
+        attemptsMade: job.attemptsMade
+      }, `TX_QUEUE_STALLED:${job.id}`);
     });
-  });
-
-  // ============================================================================
-  // RETRY QUEUE EVENTS
-  // ============================================================================
-
-  txRetryQueue.on('completed', (job, result) => {
-    logger.info('[QueueMonitor] Retry queue job completed', {
-      jobId: job.id,
-      type: job.data.type,
-      txHash: result.txHash,
-      attemptsMade: job.attemptsMade + 1
+
+    mainQueue.on('error', (error) => {
+      logger.error('[QueueMonitor] Main queue error', {
+        wallet: walletId,
+        error: error.message
+      });
     });
-  });
 
-  txRetryQueue.on('failed', (job, err) => {
-    const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 3);
+    // ============================================================================
+    // RETRY QUEUE EVENTS
+    // ============================================================================
 
-    if (isFinalAttempt) {
-      logger.error('[QueueMonitor] 🚨 Retry queue job EXHAUSTED', {
-        jobId: job?.id,
-        type: job?.data?.type,
-        attempts: job?.attemptsMade + 1,
-        error: err.message
+    retryQueue.on('completed', (job, result) => {
+      observeDuration(job, 'retry', 'succeeded');
+      recordHealthEvent('succeeded', { jobId: job.id.toString(), walletId, type: job.data.type });
+
+      logger.info('[QueueMonitor] Retry queue job completed', {
+        jobId: job.id,
+        wallet: walletId,
+        type: job.data.type,
+        txHash: result.txHash,
+        attemptsMade: job.attemptsMade + 1
       });
+    });
 
-      // TODO: Send critical alert for exhausted retries
-      // await alerting.sendCritical('TX_RETRY_EXHAUSTED', {
-      //   jobId: job.id,
-      //   type: job.data.type,
-      //   error: err.message,
-      //   attempts: job.attemptsMade + 1
-      // });
-    } else {
-      logger.warn('[QueueMonitor] Retry queue job failed, will retry', {
-        jobId: job?.id,
-        type: job?.data?.type,
-        attempt: job?.attemptsMade + 1,
-        maxAttempts: job?.opts.attempts || 3,
-        error: err.message
+    retryQueue.on('failed', (job, err) => {
+      // Bull increments attemptsMade before emitting 'failed'
+      const isFinalAttempt = job.attemptsMade >= (job.opts.attempts || 3) || ('retryable' in err && err.retryable === false);
+
+      const errorClass = recordFailure(job.id.toString(), job.data.type, err.message, 'retry');
+      observeDuration(job, 'retry', isFinalAttempt ? 'failed' : 'retrying');
+      recordHealthEvent(isFinalAttempt ? 'failed' : 'retried', {
+        jobId: job.id.toString(),
+        walletId,
+        type: job.data.type,
+        errorClass
       });
-    }
-  });
-
-  txRetryQueue.on('stalled', (job) => {
-    logger.warn('[QueueMonitor] Retry queue job stalled', {
-      jobId: job.id,
-      type: job.data.type,
-      attemptsMade: job.attemptsMade
+
+      if (!isFinalAttempt) {
+        jobRetries.inc({ type: job.data.type, error_class: errorClass });
+      }
+
+      if (isFinalAttempt) {
+        logger.error('[QueueMonitor] 🚨 Retry queue job EXHAUSTED', {
+          jobId: job?.id,
+          wallet: walletId,
+          type: job?.data?.type,
+          attempts: job?.attemptsMade,
+          error: err.message
+        });
+
+        void alerting.sendCritical('TX_RETRY_EXHAUSTED', {
+          jobId: job.id.toString(),
+          wallet: walletId,
+          type: job.data.type,
+          errorClass,
+          error: err.message,
+          attempts: job.attemptsMade
+        }, `TX_RETRY_EXHAUSTED:${job.id}`);
+      } else {
+        logger.warn('[QueueMonitor] Retry queue job failed, will retry', {
+          jobId: job?.id,
+          wallet: walletId,
+          type: job?.data?.type,
+          attempt: job?.attemptsMade,
+          maxAttempts: job?.opts.attempts || 3,
+          error: err.message
+        });
+      }
     });
 
-    // TODO: Send alert for stalled retry jobs
-    // await alerting.sendWarning('TX_RETRY_STALLED', { jobId, type });
-  });
+    retryQueue.on('stalled', (job) => {
+      metrics.stalledJobs++;
+      recordHealthEvent('stalled', { jobId: job.id.toString(), walletId, type: job.data.type });
 
-  txRetryQueue.on('error', (error) => {
-    logger.error('[QueueMonitor] Retry queue error', {
-      error: error.message
+      logger.warn('[QueueMonitor] Retry queue job stalled', {
+        jobId: job.id,
+        wallet: walletId,
+        type: job.data.type,
+        attemptsMade: job.attemptsMade
+      });
+
+      void alerting.sendWarning('TX_RETRY_STALLED', {
+        jobId: job.id.toString(),
+        wallet: walletId,
+        type: job.data.type,
+        attemptsMade: job.attemptsMade
+      }, `TX_RETRY_STALLED:${job.id}`);
+    });
+
+    retryQueue.on('error', (error) => {
+      logger.error('[QueueMonitor] Retry queue error', {
+        wallet: walletId,
+        error: error.message
+      });
     });
-  });
+  }
 
   logger.info('[QueueMonitor] ✅ Queue monitoring initialized');
 }
 
+interface QueueCounts {
+  name: string;
+  waiting: number;
+  active: number;
+  completed: number;
+  failed: number;
+  delayed: number;
+}
+
+async function getQueueCounts(queue: Queue): Promise<QueueCounts> {
+  const [waiting, active, completed, failed, delayed] = await Promise.all([
+    queue.getWaitingCount(),
+    queue.getActiveCount(),
+    queue.getCompletedCount(),
+    queue.getFailedCount(),
+    queue.getDelayedCount()
+  ]);
+
+  return { name: queue.name, waiting, active, completed, failed, delayed };
+}
+
+/**
+ * Main + retry counts of every wallet lane
+ */
+export async function getLaneCounts(): Promise<Array<{ walletId: string; main: QueueCounts; retry: QueueCounts }>> {
+  return Promise.all(getTxLanes().map(async lane => {
+    const [main, retry] = await Promise.all([getQueueCounts(lane.mainQueue), getQueueCounts(lane.retryQueue)]);
+    return { walletId: lane.walletId, main, retry };
+  }));
+}
+
 /**
  * GET /relayer/queue/status
  * Returns queue health metrics and current job counts
+ * (queues.main / queues.retry = owner lane, lanes = every wallet)
  */
 export async function getQueueStatus(_req: Request, res: Response): Promise<void> {
   try {
-    // Get counts from both queues
-    const [
-      mainWaiting,
-      mainActive,
-      mainCompleted,
-      mainFailed,
-      mainDelayed,
-      retryWaiting,
-      retryActive,
-      retryCompleted,
-      retryFailed,
-      retryDelayed
-    ] = await Promise.all([
-      txQueue.getWaitingCount(),
-      txQueue.getActiveCount(),
-      txQueue.getCompletedCount(),
-      txQueue.getFailedCount(),
-      txQueue.getDelayedCount(),
-      txRetryQueue.getWaitingCount(),
-      txRetryQueue.getActiveCount(),
-      txRetryQueue.getCompletedCount(),
-      txRetryQueue.getFailedCount(),
-      txRetryQueue.getDelayedCount()
-    ]);
-
-    // Calculate health indicators
-    const totalJobs = mainCompleted + mainFailed + retryCompleted + retryFailed;
-    const failureRate = totalJobs > 0 ? ((mainFailed + retryFailed) / totalJobs) * 100 : 0;
-    const backlogSize = mainWaiting + mainDelayed + retryWaiting + retryDelayed;
-
-    // Determine health status
-    let health: 'healthy' | 'warning' | 'critical' = 'healthy';
-    const warnings: string[] = [];
-
-    if (failureRate > 10) {
-      health = 'warning';
-      warnings.push(`High failure rate: ${failureRate.toFixed(2)}%`);
-    }
-
-    if (backlogSize > 100) {
-      health = 'warning';
-      warnings.push(`Large backlog: ${backlogSize} jobs waiting`);
-    }
-
-    if (metrics.stalledJobs > 5) {
-      health = 'critical';
-      warnings.push(`High stall count: ${metrics.stalledJobs} jobs stalled`);
-    }
-
-    if (mainActive === 0 && mainWaiting > 0) {
-      health = 'critical';
-      warnings.push('Worker may be stuck - jobs waiting but none active');
-    }
+    // Get counts from every lane's queues
+    const lanes = await getLaneCounts();
+    const sum = (pick: (lane: typeof lanes[number]) => number) => lanes.reduce((total, lane) => total + pick(lane), 0);
+
+    const backlogSize = sum(lane => lane.main.waiting + lane.main.delayed + lane.retry.waiting + lane.retry.delayed);
+
+    // Health and warnings come from the sliding window, not Bull's lifetime counts
+    const evaluation = await evaluateHealth();
+    const warnings = evaluation.alerts.map(alert => alert.message);
+
+    const owner = lanes[0];
 
     res.json({
       success: true,
-      health,
+      health: evaluation.health,
       warnings: warnings.length > 0 ? warnings : undefined,
+      alerts: evaluation.alerts,
+      window: {
+        ms: evaluation.windowMs,
+        ...evaluation.window
+      },
+      oldestWaiting: evaluation.oldestWaiting,
       queues: {
-        main: {
-          name: 'relayer-tx-main',
-          waiting: mainWaiting,
-          active: mainActive,
-          completed: mainCompleted,
-          failed: mainFailed,
-          delayed: mainDelayed
-        },
-        retry: {
-          name: 'relayer-tx-retry',
-          waiting: retryWaiting,
-          active: retryActive,
-          completed: retryCompleted,
-          failed: retryFailed,
-          delayed: retryDelayed
-        }
+        main: owner.main,
+        retry: owner.retry
       },
+      lanes,
+      balances: getBalances(),
+      // Since this process started
       metrics: {
         totalCompleted: metrics.completedJobs,
         totalFailed: metrics.failedJobs,
         totalStalled: metrics.stalledJobs,
-        failureRate: failureRate.toFixed(2) + '%',
         backlogSize,
+        failuresByClass: metrics.failuresByClass,
         lastFailure: metrics.lastFailure
       },
       timestamp: new Date().toISOString()
@@ -267,6 +370,7 @@ export function resetMetrics(): void {
   metrics.completedJobs = 0;
   metrics.failedJobs = 0;
   metrics.stalledJobs = 0;
+  metrics.failuresByClass = emptyFailureCounts();
   delete metrics.lastFailure;
   
   logger.info('[QueueMonitor] Metrics reset');
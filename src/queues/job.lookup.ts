@@ -0,0 +1,419 @@
+/**
+ * Job Lookup - Unified view of a transaction job across both queues
+ *
+ * A job enqueued by a controller lives in 'relayer-tx-main' under its
+ * Bull jobId. If it fails there, moveToRetryQueue() re-creates it in
+ * 'relayer-tx-retry' as 'retry-<jobId>'. Callers only know the original
+ * jobId, so every lookup resolves both records and merges them into a
+ * single state + attempt history.
+ *
+ * Operator wallet lanes work the same way with their own queues; the
+ * lane is recovered from the job id ('<walletId>-<n>', see tx.queue.ts).
+ *
+ * LIMITS:
+ * - Completed jobs are evicted by Bull (removeOnComplete: 100)
+ * - Evicted jobs are reported as not found
+ *
+ * LISTING:
+ * - listJobs() reads at most `limit` jobs per queue and Bull state per page
+ *   (bounded getJobs ranges) and returns a cursor with the offset reached
+ *   in each of them
+ * - Pages are merged newest first; jobs that change state (or are added)
+ *   between two pages can shift offsets and be skipped or listed twice
+ */
+
+import { Job, JobStatus, Queue } from 'bull';
+import { getTxLanes, laneForJobId, getRetryJobId, TransactionJob, TxLane } from './tx.queue.js';
+import { parseClassifiedMessage, ErrorClass } from '../blockchain/error.classifier.js';
+
+export type UnifiedJobState =
+  | 'queued'       // Waiting in main queue
+  | 'processing'   // Active in main or retry queue
+  | 'retrying'     // Moved to retry queue, waiting for next attempt
+  | 'completed'    // Transaction confirmed
+  | 'failed';      // Main queue failure or retries exhausted
+
+export const UNIFIED_JOB_STATES: UnifiedJobState[] = ['queued', 'processing', 'retrying', 'completed', 'failed'];
+
+export interface JobAttempt {
+  queue: 'main' | 'retry';
+  attempt: number;
+  outcome: 'succeeded' | 'failed' | 'in-progress' | 'deferred';
+  error?: string;
+  errorClass?: ErrorClass;   // Failure class (see error.classifier.ts)
+  reason?: string;           // Decoded revert reason / error message without the class
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface JobStatusReport {
+  jobId: string;
+  retryJobId?: string;
+  wallet: string;            // Hot wallet lane (see blockchain/wallet.pool.ts)
+  type: string;
+  state: UnifiedJobState;
+  data: TransactionJob;
+  attempts: JobAttempt[];
+  errors: string[];
+  errorClass?: ErrorClass;   // Class of the latest failure
+  revertReason?: string;     // Decoded reason of the latest failure
+  txHash?: string;
+  blockNumber?: number;
+  gasUsed?: string;
+  effectiveGasPrice?: string;   // Wei
+  totalCost?: string;           // Wei (gasUsed × effectiveGasPrice)
+  explorerUrl?: string;         // Network profile's block explorer link
+  result?: any;
+  createdAt: string;
+  finishedAt?: string;
+}
+
+export interface JobListFilter {
+  type?: string;
+  state?: UnifiedJobState;
+  limit: number;
+  cursor?: string;           // nextCursor of the previous page
+}
+
+export interface JobListPage {
+  jobs: JobStatusReport[];
+  nextCursor?: string;       // Absent on the last page
+}
+
+/**
+ * Cursor that was not issued by listJobs()
+ */
+export class InvalidJobCursorError extends Error {
+  constructor() {
+    super('cursor is not a cursor returned by GET /jobs');
+    this.name = 'InvalidJobCursorError';
+  }
+}
+
+const RETRY_PREFIX = getRetryJobId('');
+
+// Bull states scanned by the list endpoint
+const LISTABLE_STATES: JobStatus[] = ['waiting', 'active', 'delayed', 'completed', 'failed'];
+
+// '<queue name>:<bull state>' → records already read from that range
+type ListOffsets = Record<string, number>;
+
+interface ListSource {
+  key: string;
+  lane: TxLane;
+  queue: Queue;
+  retry: boolean;
+  offset: number;
+  jobs: Array<Job<TransactionJob> | null>;
+  position: number;          // Records consumed from jobs
+  full: boolean;             // Read a whole page - the range may hold more
+}
+
+function encodeCursor(offsets: ListOffsets): string {
+  return Buffer.from(JSON.stringify(offsets)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): ListOffsets {
+  let offsets: unknown;
+  try {
+    offsets = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    throw new InvalidJobCursorError();
+  }
+
+  if (typeof offsets !== 'object' || offsets === null || Array.isArray(offsets)
+    || Object.values(offsets).some(offset => !Number.isInteger(offset) || offset < 0)) {
+    throw new InvalidJobCursorError();
+  }
+
+  return offsets as ListOffsets;
+}
+
+function toIso(timestamp?: number | null): string | undefined {
+  return timestamp ? new Date(timestamp).toISOString() : undefined;
+}
+
+/**
+ * Attach class + reason parsed from a classified failure message
+ */
+function withClassification(attempt: JobAttempt): JobAttempt {
+  const parsed = parseClassifiedMessage(attempt.error);
+  return parsed ? { ...attempt, errorClass: parsed.errorClass, reason: parsed.reason } : attempt;
+}
+
+/**
+ * Bull stores full stack traces per failed attempt - keep the message line only
+ */
+function errorFromStack(stack?: string): string | undefined {
+  if (!stack) return undefined;
+  return stack.split('\n')[0].replace(/^\w*Error:\s*/, '');
+}
+
+function describeMainAttempt(job: Job<TransactionJob>, state: string): JobAttempt | undefined {
+  const base = {
+    queue: 'main' as const,
+    attempt: 1,
+    startedAt: toIso(job.processedOn),
+    finishedAt: toIso(job.finishedOn)
+  };
+
+  if (state === 'active') {
+    return { ...base, outcome: 'in-progress' };
+  }
+
+  if (state === 'completed') {
+    const result = job.returnvalue || {};
+    if (result.deferred) {
+      // Moved to the retry queue for cheaper gas - not a failure
+      return { ...base, outcome: 'deferred', reason: result.reason };
+    }
+    return result.success
+      ? { ...base, outcome: 'succeeded' }
+      : { ...base, outcome: 'failed', error: result.error };
+  }
+
+  if (state === 'failed') {
+    return { ...base, outcome: 'failed', error: job.failedReason };
+  }
+
+  return undefined;
+}
+
+function describeRetryAttempts(job: Job<TransactionJob>, state: string): JobAttempt[] {
+  const attempts: JobAttempt[] = [];
+  const stacktrace = job.stacktrace || [];
+
+  // attemptsMade only counts failed attempts
+  for (let i = 0; i < job.attemptsMade; i++) {
+    attempts.push({
+      queue: 'retry',
+      attempt: i + 1,
+      outcome: 'failed',
+      error: errorFromStack(stacktrace[i]) ?? (i === job.attemptsMade - 1 ? job.failedReason : undefined)
+    });
+  }
+
+  if (state === 'active' || state === 'completed') {
+    attempts.push({
+      queue: 'retry',
+      attempt: job.attemptsMade + 1,
+      outcome: state === 'active' ? 'in-progress' : 'succeeded',
+      startedAt: toIso(job.processedOn),
+      finishedAt: toIso(job.finishedOn)
+    });
+  }
+
+  return attempts;
+}
+
+function resolveState(mainState?: string, retryState?: string): UnifiedJobState {
+  if (retryState) {
+    if (retryState === 'completed') return 'completed';
+    if (retryState === 'failed') return 'failed';
+    if (retryState === 'active') return 'processing';
+    return 'retrying';
+  }
+
+  switch (mainState) {
+    case 'active':
+      return 'processing';
+    case 'completed':
+      // Completed with movedToRetry but retry job not created/evicted yet
+      // (non-retryable failures complete with movedToRetry: false)
+      return 'retrying';
+    case 'failed':
+      return 'failed';
+    default:
+      return 'queued';
+  }
+}
+
+async function buildReport(
+  jobId: string,
+  mainJob: Job<TransactionJob> | null,
+  retryJob: Job<TransactionJob> | null
+): Promise<JobStatusReport> {
+  const [mainState, retryState] = await Promise.all([
+    mainJob?.getState(),
+    retryJob?.getState()
+  ]);
+
+  const attempts: JobAttempt[] = [];
+
+  if (mainJob && mainState) {
+    const mainAttempt = describeMainAttempt(mainJob, mainState);
+    if (mainAttempt) attempts.push(mainAttempt);
+  }
+
+  if (retryJob && retryState) {
+    attempts.push(...describeRetryAttempts(retryJob, retryState));
+  }
+
+  let state = resolveState(mainState, retryState);
+
+  // Main queue outcome (no retry record involved)
+  if (!retryJob && mainState === 'completed' && mainJob?.returnvalue) {
+    if (mainJob.returnvalue.success) {
+      state = 'completed';
+    } else if (mainJob.returnvalue.movedToRetry === false) {
+      state = 'failed';
+    }
+  }
+
+  const finalJob = retryJob || mainJob!;
+  const result = state === 'completed' ? finalJob.returnvalue : undefined;
+  const classifiedAttempts = attempts.map(withClassification);
+  const lastFailure = [...classifiedAttempts].reverse().find(attempt => attempt.outcome === 'failed');
+
+  return {
+    jobId,
+    retryJobId: retryJob?.id?.toString(),
+    wallet: laneForJobId(jobId).walletId,
+    type: finalJob.data.type,
+    state,
+    data: finalJob.data,
+    attempts: classifiedAttempts,
+    errors: attempts
+      .map(attempt => attempt.error)
+      .filter((error): error is string => !!error),
+    errorClass: lastFailure?.errorClass,
+    revertReason: lastFailure?.errorClass === 'permanent-revert' ? lastFailure.reason : undefined,
+    txHash: result?.txHash,
+    blockNumber: result?.blockNumber,
+    gasUsed: result?.gasUsed,
+    effectiveGasPrice: result?.effectiveGasPrice,
+    totalCost: result?.totalCost,
+    explorerUrl: result?.explorerUrl,
+    result,
+    createdAt: new Date((mainJob || finalJob).timestamp).toISOString(),
+    finishedAt: state === 'completed' || state === 'failed' ? toIso(finalJob.finishedOn) : undefined
+  };
+}
+
+/**
+ * Resolve a main queue jobId (also accepts 'retry-<jobId>')
+ */
+export function toOriginalJobId(jobId: string): string {
+  return jobId.startsWith(RETRY_PREFIX) ? jobId.slice(RETRY_PREFIX.length) : jobId;
+}
+
+/**
+ * Get unified status for a job, following it into the retry queue
+ * Returns null if neither queue knows the job
+ */
+export async function getJobStatus(jobId: string): Promise<JobStatusReport | null> {
+  const originalJobId = toOriginalJobId(jobId);
+  const lane = laneForJobId(originalJobId);
+
+  const [mainJob, retryJob] = await Promise.all([
+    lane.mainQueue.getJob(originalJobId) as Promise<Job<TransactionJob> | null>,
+    lane.retryQueue.getJob(getRetryJobId(originalJobId)) as Promise<Job<TransactionJob> | null>
+  ]);
+
+  if (!mainJob && !retryJob) {
+    return null;
+  }
+
+  return buildReport(originalJobId, mainJob, retryJob);
+}
+
+/**
+ * Read one page of a queue's Bull state (newest first)
+ */
+async function readSource(lane: TxLane, retry: boolean, state: JobStatus, offsets: ListOffsets, limit: number): Promise<ListSource> {
+  const queue = retry ? lane.retryQueue : lane.mainQueue;
+  const key = `${queue.name}:${state}`;
+  const offset = offsets[key] ?? 0;
+  const jobs = await queue.getJobs([state], offset, offset + limit - 1) as Array<Job<TransactionJob> | null>;
+
+  return { key, lane, queue, retry, offset, jobs, position: 0, full: jobs.length >= limit };
+}
+
+/**
+ * Report for a listed record (null when it is listed through another record)
+ * A retry record is only listed itself once its main record was evicted
+ */
+async function reportForRecord(source: ListSource, job: Job<TransactionJob>): Promise<JobStatusReport | null> {
+  if (!source.retry) {
+    const retryJob = await source.lane.retryQueue.getJob(getRetryJobId(job.id.toString())) as Job<TransactionJob> | null;
+    return buildReport(job.id.toString(), job, retryJob);
+  }
+
+  const jobId = toOriginalJobId(job.id.toString());
+  const mainJob = await source.lane.mainQueue.getJob(jobId);
+  return mainJob ? null : buildReport(jobId, null, job);
+}
+
+/**
+ * Source whose next unread record is the newest (removed records first)
+ */
+function newestSource(sources: ListSource[]): ListSource | undefined {
+  let newest: ListSource | undefined;
+  let newestTimestamp = -1;
+
+  for (const source of sources) {
+    if (source.position >= source.jobs.length) continue;
+
+    const timestamp = source.jobs[source.position]?.timestamp ?? Infinity;
+    if (timestamp > newestTimestamp) {
+      newest = source;
+      newestTimestamp = timestamp;
+    }
+  }
+
+  return newest;
+}
+
+/**
+ * List recent jobs (newest first, all wallet lanes) filtered by type and unified state
+ * Reads at most `limit` records per queue and state; follow nextCursor for more
+ * A page can hold fewer than `limit` jobs when filters skip records
+ */
+export async function listJobs(filter: JobListFilter): Promise<JobListPage> {
+  const offsets = filter.cursor ? decodeCursor(filter.cursor) : {};
+
+  const sources = await Promise.all(getTxLanes().flatMap(lane =>
+    [false, true].flatMap(retry =>
+      LISTABLE_STATES.map(state => readSource(lane, retry, state, offsets, filter.limit)))));
+
+  const reports: JobStatusReport[] = [];
+
+  while (reports.length < filter.limit) {
+    // Records past a full page are unknown - stop before merging out of order
+    if (sources.some(source => source.full && source.position >= source.jobs.length)) {
+      break;
+    }
+
+    const next = newestSource(sources);
+
+    if (!next) {
+      break;
+    }
+
+    const job = next.jobs[next.position++];
+
+    // Removed between the range read and the job read
+    if (!job || (filter.type && job.data.type !== filter.type)) {
+      continue;
+    }
+
+    const report = await reportForRecord(next, job);
+
+    if (report && (!filter.state || report.state === filter.state)) {
+      reports.push(report);
+    }
+  }
+
+  const more = sources.some(source => source.position < source.jobs.length || source.full);
+  const nextOffsets: ListOffsets = {};
+  for (const source of sources) {
+    if (source.offset + source.position > 0) {
+      nextOffsets[source.key] = source.offset + source.position;
+    }
+  }
+
+  return {
+    jobs: reports,
+    nextCursor: more ? encodeCursor(nextOffsets) : undefined
+  };
+}
@@ -11,19 +11,37 @@
  * 3. Main queue continues processing next job (not blocked)
  * 
  * NONCE STRATEGY:
- * - Worker has concurrency=1 (single job at a time)
- * - Ethers.js automatically manages nonces via getNonce('pending')
- * - No manual nonce tracking needed
+ * - Explicit nonces from the Redis-backed NonceManager (blockchain/nonce.manager.ts)
+ * - Worker runs TX_WORKER_CONCURRENCY jobs; submissions are serialized,
+ *   confirmations are awaited concurrently
+ *
+ * WALLET LANES (config/wallets.ts):
+ * - Every hot wallet has its own main + retry queue and its own nonce lane
+ * - Owner lane: 'relayer-tx-main' / 'relayer-tx-retry', numeric job ids
+ * - Operator lane: 'relayer-tx-main-<id>' / 'relayer-tx-retry-<id>',
+ *   job ids '<id>-<n>' (the wallet is recoverable from any job id)
+ * - enqueueTransaction() picks the lane from WALLET_ROUTES
+ *
+ * RAFFLE CLAIMS:
+ * - execute-raffle and cancel-raffle are one-shot: enqueueTransaction() claims
+ *   the raffle (Redis SET NX, EXECUTOR_DEDUP_TTL_SECONDS) whoever enqueues it -
+ *   HTTP route, approved proposal or the raffle executor
+ * - The executor claims execute-refund itself (refunds run in several batches,
+ *   so the route does not claim them)
  */
 
 import Bull, { Queue, JobOptions } from 'bull';
 import logger from '../utils/logger.js';
 import { env } from '../config/env.js';
+import { WALLET_CONFIG, EXECUTOR_CONFIG } from '../config/app.config.js';
+import { OWNER_WALLET_ID, resolveWalletRoute } from '../config/wallets.js';
+import { redis, redisKey } from '../utils/redis.js';
+import { getRaffleRoutingKey } from '../blockchain/raffle.references.js';
 
 // Redis configuration - Validated at startup (no fallback)
 // Shared with backend but different queue names:
 // - Backend uses: 'blockchain-blocks'
-// - Relayer uses: 'relayer-tx-main', 'relayer-tx-retry'
+// - Relayer uses: 'relayer-tx-main', 'relayer-tx-retry' (+ '-<walletId>' per operator lane)
 // Bull separates by queue name (no collision)
 const REDIS_URL = env.redisUrl;
 
@@ -33,19 +51,21 @@ const REDIS_URL = env.redisUrl;
  * - Failures moved to retry queue
  * - High throughput, never blocked
  */
-export const txQueue: Queue = new Bull('relayer-tx-main', REDIS_URL, {
-  defaultJobOptions: {
-    attempts: 1,              // Single attempt on main queue
-    removeOnComplete: 100,    // Keep last 100 completed jobs for monitoring
-    removeOnFail: false,      // Keep failed jobs for retry queue migration
-    timeout: 60000            // 60s timeout per job (blockchain TX + confirmation)
-  },
-  settings: {
-    lockDuration: 30000,      // Lock job for 30s while processing
-    maxStalledCount: 3,       // Retry max 3 times if worker crashes mid-processing
-    stalledInterval: 5000     // Check for stalled jobs every 5s
-  }
-});
+function createMainQueue(name: string): Queue {
+  return new Bull(name, REDIS_URL, {
+    defaultJobOptions: {
+      attempts: 1,              // Single attempt on main queue
+      removeOnComplete: 100,    // Keep last 100 completed jobs for monitoring
+      removeOnFail: false,      // Keep failed jobs for retry queue migration
+      timeout: env.txJobTimeoutMs   // Covers broadcast + confirmation incl. fee bumps
+    },
+    settings: {
+      lockDuration: 30000,      // Lock job for 30s while processing
+      maxStalledCount: 3,       // Retry max 3 times if worker crashes mid-processing
+      stalledInterval: 5000     // Check for stalled jobs every 5s
+    }
+  });
+}
 
 /**
  * Retry queue - Delayed processing with exponential backoff
@@ -53,26 +73,78 @@ export const txQueue: Queue = new Bull('relayer-tx-main', REDIS_URL, {
  * - Processes failed jobs from main queue
  * - Separate processing (doesn't block main queue)
  */
-export const txRetryQueue: Queue = new Bull('relayer-tx-retry', REDIS_URL, {
-  defaultJobOptions: {
-    attempts: 3,              // 3 retry attempts
-    backoff: {
-      type: 'exponential',    // Exponential backoff: delay * 2^attempt
-      delay: 5000             // Base delay: 5s, then 10s, then 20s
+function createRetryQueue(name: string): Queue {
+  return new Bull(name, REDIS_URL, {
+    defaultJobOptions: {
+      attempts: 3,              // 3 retry attempts
+      backoff: {
+        type: 'exponential',    // Exponential backoff: delay * 2^attempt
+        delay: 5000             // Base delay: 5s, then 10s, then 20s
+      },
+      removeOnComplete: 100,    // Keep last 100 completed retries
+      removeOnFail: 500,        // Keep last 500 failed jobs for debugging
+      timeout: env.txJobTimeoutMs   // Same budget as the main queue
     },
-    removeOnComplete: 100,    // Keep last 100 completed retries
-    removeOnFail: 500,        // Keep last 500 failed jobs for debugging
-    timeout: 60000            // 60s timeout per retry
-  },
-  settings: {
-    lockDuration: 30000,
-    maxStalledCount: 2        // Less aggressive retry for already-failed jobs
-  }
-});
+    settings: {
+      lockDuration: 30000,
+      maxStalledCount: 2        // Less aggressive retry for already-failed jobs
+    }
+  });
+}
+
+/**
+ * Queues of one hot wallet (jobs on a lane are signed by that wallet only)
+ */
+export interface TxLane {
+  walletId: string;
+  mainQueue: Queue;
+  retryQueue: Queue;
+}
+
+// Owner lane keeps the original queue names (jobs queued before pools existed stay visible)
+export const txQueue: Queue = createMainQueue('relayer-tx-main');
+export const txRetryQueue: Queue = createRetryQueue('relayer-tx-retry');
+
+const ownerLane: TxLane = { walletId: OWNER_WALLET_ID, mainQueue: txQueue, retryQueue: txRetryQueue };
+const lanes = new Map<string, TxLane>([[OWNER_WALLET_ID, ownerLane]]);
+
+for (const operator of WALLET_CONFIG.operators) {
+  lanes.set(operator.id, {
+    walletId: operator.id,
+    mainQueue: createMainQueue(`relayer-tx-main-${operator.id}`),
+    retryQueue: createRetryQueue(`relayer-tx-retry-${operator.id}`)
+  });
+}
+
+/**
+ * All lanes, owner first
+ */
+export function getTxLanes(): TxLane[] {
+  return [...lanes.values()];
+}
+
+export function getTxLane(walletId: string): TxLane | undefined {
+  return lanes.get(walletId);
+}
+
+/**
+ * Lane a job id belongs to ('op1-12' / 'retry-op1-12' → op1, numeric → owner)
+ */
+export function laneForJobId(jobId: string | number): TxLane {
+  const match = /^(?:retry-)?([a-z0-9]+)-\d+$/.exec(jobId.toString());
+  return (match && lanes.get(match[1])) || ownerLane;
+}
 
 // Type definitions for job data
 
-export interface CreateRaffleJob {
+/**
+ * Fields shared by every job type
+ */
+export interface BaseJob {
+  callbackUrl?: string;       // Per-request webhook target (see webhook.queue.ts)
+}
+
+export interface CreateRaffleJob extends BaseJob {
   type: 'create-raffle';
   templateId: string | number | bigint;
   referenceId: string | number | bigint;
@@ -82,51 +154,61 @@ export interface CreateRaffleJob {
   durationSeconds: number;
 }
 
-export interface ExecuteRaffleJob {
+export interface ExecuteRaffleJob extends BaseJob {
   type: 'execute-raffle';
   raffleId: number | string;
 }
 
-export interface CancelRaffleJob {
+export interface CancelRaffleJob extends BaseJob {
   type: 'cancel-raffle';
   raffleId: number | string;
 }
 
-export interface ExecuteRefundJob {
+export interface ExecuteRefundJob extends BaseJob {
   type: 'execute-refund';
   raffleId: number | string;
 }
 
-export interface PauseContractJob {
+export interface RetryRandomnessJob extends BaseJob {
+  type: 'retry-randomness';
+  raffleId: number | string;
+  automatic?: boolean;        // Enqueued by the VRF watcher
+}
+
+export interface PauseContractJob extends BaseJob {
   type: 'pause-contract';
 }
 
-export interface UnpauseContractJob {
+export interface UnpauseContractJob extends BaseJob {
   type: 'unpause-contract';
 }
 
-export interface AddToBlocklistJob {
+export interface EmergencyUnpauseJob extends BaseJob {
+  type: 'emergency-unpause';    // Approved proposal (the route itself sends directly)
+}
+
+export interface AddToBlocklistJob extends BaseJob {
   type: 'add-to-blocklist';
   address: string;
   reason: string;
 }
 
-export interface AddToBlocklistBatchJob {
+export interface AddToBlocklistBatchJob extends BaseJob {
   type: 'add-to-blocklist-batch';
   addresses: string[];
   reasons: string[];
 }
 
-export interface RemoveFromBlocklistJob {
+export interface RemoveFromBlocklistJob extends BaseJob {
   type: 'remove-from-blocklist';
   address: string;
 }
 
-export interface WithdrawFeesJob {
+export interface WithdrawFeesJob extends BaseJob {
   type: 'withdraw-fees';
 }
 
-export interface ArchiveRafflesJob {
+export interface ArchiveRafflesJob extends BaseJob {
   type: 'archive-raffles';
   raffleIds: number[];
 }
@@ -136,35 +218,108 @@ export type TransactionJob =
   | ExecuteRaffleJob
   | CancelRaffleJob
   | ExecuteRefundJob
+  | RetryRandomnessJob
   | PauseContractJob
   | UnpauseContractJob
+  | EmergencyUnpauseJob
   | AddToBlocklistJob
   | AddToBlocklistBatchJob
   | RemoveFromBlocklistJob
   | WithdrawFeesJob
   | ArchiveRafflesJob;
 
+// Job types enqueued at most once per raffle (see RAFFLE CLAIMS)
+const ONE_SHOT_RAFFLE_JOB_TYPES: ReadonlySet<string> = new Set(['execute-raffle', 'cancel-raffle']);
+
+/**
+ * Error raised when a raffle already has a one-shot job enqueued
+ */
+export class RaffleAlreadyEnqueuedError extends Error {
+  readonly code = 'RAFFLE_ALREADY_ENQUEUED';
+
+  constructor(readonly raffleId: string, readonly claimedBy: string) {
+    super(`Raffle ${raffleId} already has a ${claimedBy} job enqueued`);
+    this.name = 'RaffleAlreadyEnqueuedError';
+  }
+}
+
+function raffleClaimKey(raffleId: string | number | bigint): string {
+  return redisKey('raffles', 'enqueued', raffleId.toString());
+}
+
+/**
+ * Helper: Claim a raffle for an action (false if another action holds it)
+ */
+export async function claimRaffle(raffleId: string | number | bigint, action: string): Promise<boolean> {
+  const claimed = await redis.set(raffleClaimKey(raffleId), action, 'EX', EXECUTOR_CONFIG.dedupTtlSeconds, 'NX');
+  return claimed !== null;
+}
+
+/**
+ * Helper: Release a raffle claim (the job could not be enqueued)
+ */
+export async function releaseRaffle(raffleId: string | number | bigint): Promise<void> {
+  await redis.del(raffleClaimKey(raffleId));
+}
+
 /**
- * Helper: Add job to main queue
+ * Helper: Add job to the main queue of the wallet it is routed to
+ * One-shot raffle jobs throw RaffleAlreadyEnqueuedError if the raffle is claimed
  */
 export async function enqueueTransaction(
   jobType: string,
   jobData: any,
   options?: JobOptions
 ): Promise<Bull.Job> {
-  // Add job WITHOUT job name (handler is generic)
-  // The job type is in jobData.type
-  const job = await txQueue.add(jobData, options);
+  const walletId = await resolveWalletRoute(WALLET_CONFIG.routes, jobType, jobData, getRaffleRoutingKey);
+  const lane = lanes.get(walletId);
+
+  // WALLET_ROUTES is checked against OPERATOR_WALLETS at startup - this is a bug
+  if (!lane) {
+    throw new Error(`No queue lane for wallet "${walletId}" (job type ${jobType})`);
+  }
+  
+  const oneShot = ONE_SHOT_RAFFLE_JOB_TYPES.has(jobType);
+  if (oneShot && !(await claimRaffle(jobData.raffleId, jobType))) {
+    const claimedBy = await redis.get(raffleClaimKey(jobData.raffleId));
+    throw new RaffleAlreadyEnqueuedError(jobData.raffleId.toString(), claimedBy ?? jobType);
+  }
+  
+  let job: Bull.Job;
+  try {
+    // Operator lanes prefix job ids with the wallet id (Bull counters are per queue)
+    const laneOptions = lane.walletId === OWNER_WALLET_ID
+      ? options
+      : { ...options, jobId: `${lane.walletId}-${await redis.incr(redisKey('jobs', 'seq', lane.walletId))}` };
+    
+    // Add job WITHOUT job name (handler is generic)
+    // The job type is in jobData.type
+    job = await lane.mainQueue.add(jobData, laneOptions);
+  } catch (error) {
+    if (oneShot) {
+      await releaseRaffle(jobData.raffleId);
+    }
+    throw error;
+  }
   
   logger.info('[TxQueue] Job enqueued', {
     jobId: job.id,
     type: jobType,
+    wallet: lane.walletId,
     data: jobData
   });
   
   return job;
 }
 
+/**
+ * Helper: Retry queue job id for a main queue job
+ * (a job keeps its identity when it moves between queues)
+ */
+export function getRetryJobId(originalJobId: string | number): string {
+  return `retry-${originalJobId}`;
+}
+
 /**
  * Helper: Move failed job to retry queue
  */
@@ -172,12 +327,13 @@ export async function moveToRetryQueue(
   jobType: string,
   jobData: any,
   originalJobId: string | number,
-  error: string
+  error: string,
+  delay: number = 5000  // Wait 5s before first retry (longer for gas deferrals)
 ): Promise<Bull.Job> {
   // Add job WITHOUT job name (handler is generic)
-  const job = await txRetryQueue.add(jobData, {
-    delay: 5000,  // Wait 5s before first retry
-    jobId: `retry-${originalJobId}`
+  const job = await laneForJobId(originalJobId).retryQueue.add(jobData, {
+    delay,
+    jobId: getRetryJobId(originalJobId)
   });
   
   logger.warn('[TxQueue] Job moved to retry queue', {
@@ -195,5 +351,6 @@ logger.info('[TxQueue] Queues initialized', {
   environment: env.nodeEnv,
   redisUrl: env.redisUrl,
   mainQueue: 'relayer-tx-main',
-  retryQueue: 'relayer-tx-retry'
+  retryQueue: 'relayer-tx-retry',
+  operatorLanes: WALLET_CONFIG.operators.map(operator => operator.id)
 });
@@ -0,0 +1,207 @@
+/**
+ * Webhook Queue - Outbound callbacks for transaction job outcomes
+ *
+ * ARCHITECTURE:
+ * - tx.worker emits job events (mined, reverted, retrying, exhausted)
+ * - Each event becomes one delivery per target URL (global + per-request)
+ * - Deliveries are Bull jobs: retries with exponential backoff
+ * - Every attempt is appended to a capped delivery log in Redis
+ *
+ * SIGNATURE:
+ * - X-Relayer-Signature: sha256=HMAC(WEBHOOK_SECRET, `${timestamp}.${body}`)
+ * - X-Relayer-Timestamp: unix seconds (receivers should reject stale ones)
+ */
+
+import Bull, { Queue, Job } from 'bull';
+import crypto from 'crypto';
+import { env } from '../config/env.js';
+import { WEBHOOK_CONFIG } from '../config/app.config.js';
+import { redis, redisKey } from '../utils/redis.js';
+import logger from '../utils/logger.js';
+
+export type WebhookEvent =
+  | 'job.mined'       // Transaction confirmed successfully
+  | 'job.reverted'    // Transaction mined but reverted on-chain
+  | 'job.retrying'    // Main queue failure, moved to retry queue
+  | 'job.exhausted';  // Retry attempts exhausted (manual intervention)
+
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent;
+  timestamp: string;
+  job: {
+    jobId: string;
+    queue: 'main' | 'retry';
+    type: string;
+    attempt: number;
+    retrying: boolean;
+  };
+  referenceId?: string;
+  raffleId?: string;
+  raffleIds?: string[];
+  address?: string;
+  addresses?: string[];
+  txHash?: string;
+  blockNumber?: number;
+  error?: string;
+}
+
+export interface WebhookDelivery {
+  url: string;
+  payload: WebhookPayload;
+}
+
+export interface DeliveryLogEntry {
+  deliveryId: string;
+  event: WebhookEvent;
+  jobId: string;
+  url: string;
+  attempt: number;
+  status: 'delivered' | 'failed' | 'exhausted';
+  httpStatus?: number;
+  error?: string;
+  timestamp: string;
+}
+
+const DELIVERY_LOG_KEY = redisKey('webhooks', 'deliveries');
+const DELIVERY_LOG_SIZE = 1000;
+
+/**
+ * Webhook delivery queue
+ * - Independent from tx queues (a slow receiver never blocks signing)
+ * - Backoff: 2s, 4s, 8s, 16s, ...
+ */
+export const webhookQueue: Queue<WebhookDelivery> = new Bull('relayer-webhooks', env.redisUrl, {
+  defaultJobOptions: {
+    attempts: WEBHOOK_CONFIG.maxAttempts,
+    backoff: {
+      type: 'exponential',
+      delay: 2000
+    },
+    removeOnComplete: 500,
+    removeOnFail: 500
+  }
+});
+
+/**
+ * Sign a serialized payload
+ */
+export function signPayload(body: string, timestamp: number): string {
+  const hmac = crypto
+    .createHmac('sha256', WEBHOOK_CONFIG.secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+
+  return `sha256=${hmac}`;
+}
+
+/**
+ * Extract domain identifiers from job data (whatever the job type carries)
+ */
+function extractDomainIds(jobData: any): Partial<WebhookPayload> {
+  const ids: Partial<WebhookPayload> = {};
+
+  if (jobData.referenceId !== undefined) ids.referenceId = jobData.referenceId.toString();
+  if (jobData.raffleId !== undefined) ids.raffleId = jobData.raffleId.toString();
+  if (Array.isArray(jobData.raffleIds)) ids.raffleIds = jobData.raffleIds.map((id: any) => id.toString());
+  if (jobData.address !== undefined) ids.address = jobData.address;
+  if (Array.isArray(jobData.addresses)) ids.addresses = jobData.addresses;
+
+  return ids;
+}
+
+/**
+ * Notify registered callbacks about a transaction job event
+ * - Targets: WEBHOOK_URL (global) + job.data.callbackUrl (per request)
+ * - Never throws: webhook problems must not affect transaction processing
+ */
+export async function notifyJobEvent(
+  event: WebhookEvent,
+  job: Job,
+  details: {
+    jobId: string;
+    queue: 'main' | 'retry';
+    retrying: boolean;
+    txHash?: string;
+    blockNumber?: number;
+    raffleId?: string;            // Assigned on-chain (create-raffle) when not in the job data
+    error?: string;
+  }
+): Promise<void> {
+  if (!WEBHOOK_CONFIG.enabled) {
+    return;
+  }
+
+  const urls = [WEBHOOK_CONFIG.globalUrl, job.data.callbackUrl]
+    .filter((url): url is string => typeof url === 'string' && url.length > 0);
+
+  if (urls.length === 0) {
+    return;
+  }
+
+  const payload: WebhookPayload = {
+    id: crypto.randomUUID(),
+    event,
+    timestamp: new Date().toISOString(),
+    job: {
+      jobId: details.jobId,
+      queue: details.queue,
+      type: job.data.type,
+      attempt: job.attemptsMade + 1,
+      retrying: details.retrying
+    },
+    ...extractDomainIds(job.data),
+    ...(details.raffleId !== undefined && { raffleId: details.raffleId }),
+    txHash: details.txHash,
+    blockNumber: details.blockNumber,
+    error: details.error
+  };
+
+  try {
+    for (const url of new Set(urls)) {
+      await webhookQueue.add({ url, payload });
+    }
+
+    logger.info('[Webhooks] Event queued for delivery', {
+      event,
+      jobId: details.jobId,
+      targets: urls.length
+    });
+  } catch (error: any) {
+    logger.error('[Webhooks] Failed to queue event', {
+      event,
+      jobId: details.jobId,
+      error: error.message
+    });
+  }
+}
+
+/**
+ * Append a delivery attempt to the persisted log (capped)
+ */
+export async function recordDelivery(entry: DeliveryLogEntry): Promise<void> {
+  try {
+    await redis
+      .multi()
+      .lpush(DELIVERY_LOG_KEY, JSON.stringify(entry))
+      .ltrim(DELIVERY_LOG_KEY, 0, DELIVERY_LOG_SIZE - 1)
+      .exec();
+  } catch (error: any) {
+    logger.error('[Webhooks] Failed to record delivery', {
+      deliveryId: entry.deliveryId,
+      error: error.message
+    });
+  }
+}
+
+/**
+ * Read the delivery log (newest first), optionally filtered by jobId
+ */
+export async function getDeliveryLog(filter: { jobId?: string; limit: number }): Promise<DeliveryLogEntry[]> {
+  const raw = await redis.lrange(DELIVERY_LOG_KEY, 0, DELIVERY_LOG_SIZE - 1);
+
+  return raw
+    .map(item => JSON.parse(item) as DeliveryLogEntry)
+    .filter(entry => !filter.jobId || entry.jobId === filter.jobId)
+    .slice(0, filter.limit);
+}
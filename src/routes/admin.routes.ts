@@ -3,20 +3,25 @@ import {
   withdrawFees,
   archiveRaffles
 } from '../controllers/index.js';
-import { checkAdminIP, sensitiveLimiter, logSensitiveOperation } from '../middleware/sensitive.middleware.js';
+import { idempotent, requireScope, validateCallbackUrl } from '../middleware/index.js';
+import { checkAdminIP, proposalLimiter, logSensitiveOperation } from '../middleware/sensitive.middleware.js';
 
 const router: RouterType = Router();
 
-// Apply sensitive operation protection to ALL admin routes
-router.use(checkAdminIP);
-router.use(sensitiveLimiter);
+// Sensitive operation protection is declared on each admin route - a path-less
+// router.use() would also run for every router mounted after this one
 
 /**
  * POST /withdraw-fees
  * Withdraw accumulated platform fees
  */
 router.post('/withdraw-fees',
+  requireScope('system:admin'),
+  checkAdminIP,
+  validateCallbackUrl,
+  proposalLimiter,
   logSensitiveOperation('withdraw-fees'),
+  idempotent('withdraw-fees'),
   withdrawFees
 );
 
@@ -25,7 +30,12 @@ router.post('/withdraw-fees',
  * Archive completed/cancelled raffles (cleanup)
  */
 router.post('/archive-raffles',
+  requireScope('system:admin'),
+  checkAdminIP,
+  validateCallbackUrl,
+  proposalLimiter,
   logSensitiveOperation('archive-raffles'),
+  idempotent('archive-raffles'),
   archiveRaffles
 );
 
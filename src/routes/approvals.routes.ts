@@ -0,0 +1,49 @@
+import { Router, type Router as RouterType } from 'express';
+import {
+  listApprovals,
+  getApproval,
+  approveAction,
+  rejectAction
+} from '../controllers/index.js';
+import { requireScope } from '../middleware/index.js';
+import { checkAdminIP, approvalLimiter, logSensitiveOperation } from '../middleware/sensitive.middleware.js';
+
+const router: RouterType = Router();
+
+/**
+ * GET /approvals
+ * Proposals for sensitive actions (filter: status)
+ */
+router.get('/approvals', requireScope('read'), checkAdminIP, listApprovals);
+
+/**
+ * GET /approvals/:proposalId
+ * One proposal with its audit trail
+ */
+router.get('/approvals/:proposalId', requireScope('read'), checkAdminIP, getApproval);
+
+/**
+ * POST /approvals/:proposalId/approve
+ * Approve with X-Approver-Key - enqueues the action at its threshold
+ */
+router.post('/approvals/:proposalId/approve',
+  requireScope('system:admin'),
+  checkAdminIP,
+  approvalLimiter,
+  logSensitiveOperation('approval-approve'),
+  approveAction
+);
+
+/**
+ * POST /approvals/:proposalId/reject
+ * Reject with X-Approver-Key - closes the proposal
+ */
+router.post('/approvals/:proposalId/reject',
+  requireScope('system:admin'),
+  checkAdminIP,
+  approvalLimiter,
+  logSensitiveOperation('approval-reject'),
+  rejectAction
+);
+
+export default router;
@@ -5,31 +5,34 @@ import {
   removeFromBlocklist,
   getBlockStatus
 } from '../controllers/index.js';
+import { idempotent, requireScope, validateCallbackUrl } from '../middleware/index.js';
 
 const router: RouterType = Router();
 
+// Blocklist changes toggle state - deduplicated only with an Idempotency-Key header
+
 /**
  * POST /blocklist/add
  * Block a single address with a reason
  */
-router.post('/blocklist/add', addToBlocklist);
+router.post('/blocklist/add', requireScope('compliance:write'), validateCallbackUrl, idempotent('add-to-blocklist'), addToBlocklist);
 
 /**
  * POST /blocklist/add-batch
  * Block up to 100 addresses in one transaction
  */
-router.post('/blocklist/add-batch', addToBlocklistBatch);
+router.post('/blocklist/add-batch', requireScope('compliance:write'), validateCallbackUrl, idempotent('add-to-blocklist-batch'), addToBlocklistBatch);
 
 /**
  * POST /blocklist/remove
  * Remove a blocked address
  */
-router.post('/blocklist/remove', removeFromBlocklist);
+router.post('/blocklist/remove', requireScope('compliance:write'), validateCallbackUrl, idempotent('remove-from-blocklist'), removeFromBlocklist);
 
 /**
  * GET /blocklist/:address
  * Inspect block status for a wallet address
  */
-router.get('/blocklist/:address', getBlockStatus);
+router.get('/blocklist/:address', requireScope('read'), getBlockStatus);
 
 export default router;
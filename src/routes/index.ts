@@ -4,3 +4,8 @@ export { default as systemRoutes } from './system.routes.js';
 export { default as adminRoutes } from './admin.routes.js';
 export { default as complianceRoutes } from './compliance.routes.js';
 export { default as monitoringRoutes } from './monitoring.routes.js';
+export { default as jobsRoutes } from './jobs.routes.js';
+export { default as webhooksRoutes } from './webhooks.routes.js';
+export { default as indexerRoutes } from './indexer.routes.js';
+export { default as ownershipRoutes } from './ownership.routes.js';
+export { default as approvalsRoutes } from './approvals.routes.js';
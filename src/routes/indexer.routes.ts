@@ -0,0 +1,64 @@
+import { Router, type Router as RouterType } from 'express';
+import {
+  getIndexerStatus,
+  listIndexedRaffles,
+  getIndexedRaffle,
+  getIndexedRaffleTickets,
+  getIndexedTickets,
+  getIndexedRefunds,
+  getIndexedBlocklist,
+  getIndexedEvents
+} from '../controllers/index.js';
+import { requireScope } from '../middleware/index.js';
+
+const router: RouterType = Router();
+
+/**
+ * GET /indexer/status
+ * Checkpoint, lag and last reorg of the event indexer
+ */
+router.get('/indexer/status', requireScope('read'), getIndexerStatus);
+
+/**
+ * GET /indexer/raffles
+ * Created raffles (filter: referenceId)
+ */
+router.get('/indexer/raffles', requireScope('read'), listIndexedRaffles);
+
+/**
+ * GET /indexer/raffles/:raffleId
+ * Raffle summary derived from its events
+ */
+router.get('/indexer/raffles/:raffleId', requireScope('read'), getIndexedRaffle);
+
+/**
+ * GET /indexer/raffles/:raffleId/tickets
+ * Tickets bought in a raffle (filter: address)
+ */
+router.get('/indexer/raffles/:raffleId/tickets', requireScope('read'), getIndexedRaffleTickets);
+
+/**
+ * GET /indexer/tickets
+ * Tickets bought by an address
+ */
+router.get('/indexer/tickets', requireScope('read'), getIndexedTickets);
+
+/**
+ * GET /indexer/refunds
+ * Refunds (filters: raffleId, address)
+ */
+router.get('/indexer/refunds', requireScope('read'), getIndexedRefunds);
+
+/**
+ * GET /indexer/blocklist
+ * Block / unblock history (filter: address)
+ */
+router.get('/indexer/blocklist', requireScope('read'), getIndexedBlocklist);
+
+/**
+ * GET /indexer/events
+ * Any indexed event (filter: name)
+ */
+router.get('/indexer/events', requireScope('read'), getIndexedEvents);
+
+export default router;
@@ -0,0 +1,29 @@
+import { Router, type Router as RouterType } from 'express';
+import {
+  getJobStatus,
+  getJobEvents,
+  listJobs
+} from '../controllers/index.js';
+import { requireScope } from '../middleware/index.js';
+
+const router: RouterType = Router();
+
+/**
+ * GET /jobs
+ * List recent jobs (filters: type, state, limit)
+ */
+router.get('/jobs', requireScope('read'), listJobs);
+
+/**
+ * GET /jobs/:jobId
+ * Unified job status across main and retry queues
+ */
+router.get('/jobs/:jobId', requireScope('read'), getJobStatus);
+
+/**
+ * GET /jobs/:jobId/events
+ * Contract events emitted by the job's transaction (event indexer)
+ */
+router.get('/jobs/:jobId/events', requireScope('read'), getJobEvents);
+
+export default router;
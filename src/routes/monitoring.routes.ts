@@ -1,16 +1,33 @@
 import { Router, type Router as RouterType } from 'express';
 import {
   getAccountingInvariant,
+  getAccountingInvariantHistory,
   getTokenDecimals,
-  scanRaffles
+  scanRaffles,
+  getExecutorStatus,
+  getVrfStatus,
+  getNonceStatus,
+  getRpcStatus,
+  getWalletStatus,
+  getMetrics,
+  getAlerts
 } from '../controllers/index.js';
+import { requireScope } from '../middleware/index.js';
 import { getQueueStatus } from '../monitoring/queue.monitor.js';
 
 const router: RouterType = Router();
 
-router.get('/accounting-invariant', getAccountingInvariant);
-router.get('/token-decimals', getTokenDecimals);
-router.post('/scan-raffles', scanRaffles);
-router.get('/queue/status', getQueueStatus);
+router.get('/accounting-invariant', requireScope('read'), getAccountingInvariant);
+router.get('/accounting-invariant/history', requireScope('read'), getAccountingInvariantHistory);
+router.get('/token-decimals', requireScope('read'), getTokenDecimals);
+router.post('/scan-raffles', requireScope('raffle:write'), scanRaffles);
+router.get('/queue/status', requireScope('read'), getQueueStatus);
+router.get('/executor/status', requireScope('read'), getExecutorStatus);
+router.get('/vrf/status', requireScope('read'), getVrfStatus);
+router.get('/nonce/status', requireScope('read'), getNonceStatus);
+router.get('/rpc/status', requireScope('read'), getRpcStatus);
+router.get('/wallets', requireScope('read'), getWalletStatus);
+router.get('/metrics', requireScope('read'), getMetrics);
+router.get('/alerts', requireScope('read'), getAlerts);
 
 export default router;
@@ -0,0 +1,70 @@
+import { Router, type Router as RouterType } from 'express';
+import {
+  getOwnership,
+  proposeOwnershipTransfer,
+  cancelOwnershipTransfer,
+  confirmOwnershipTransfer,
+  renounceContractOwnership
+} from '../controllers/index.js';
+import { requireScope } from '../middleware/index.js';
+import { checkAdminIP, checkConfirmKey, ownershipLimiter, logSensitiveOperation } from '../middleware/sensitive.middleware.js';
+
+const router: RouterType = Router();
+
+/**
+ * GET /ownership
+ * Current owner, pending transfer and ownership history
+ */
+router.get('/ownership', requireScope('read'), checkAdminIP, getOwnership);
+
+/**
+ * POST /ownership/transfer
+ * Step 1 - propose a new owner (nothing is sent)
+ */
+router.post('/ownership/transfer',
+  requireScope('system:admin'),
+  checkAdminIP,
+  ownershipLimiter,
+  logSensitiveOperation('ownership-transfer-propose'),
+  proposeOwnershipTransfer
+);
+
+/**
+ * POST /ownership/transfer/cancel
+ * Drop the pending transfer
+ */
+router.post('/ownership/transfer/cancel',
+  requireScope('system:admin'),
+  checkAdminIP,
+  ownershipLimiter,
+  logSensitiveOperation('ownership-transfer-cancel'),
+  cancelOwnershipTransfer
+);
+
+/**
+ * POST /ownership/transfer/confirm
+ * Step 2 - send transferOwnership() after the delay (second credential: X-Confirm-Key)
+ */
+router.post('/ownership/transfer/confirm',
+  requireScope('system:admin'),
+  checkAdminIP,
+  checkConfirmKey,
+  ownershipLimiter,
+  logSensitiveOperation('ownership-transfer-confirm'),
+  confirmOwnershipTransfer
+);
+
+/**
+ * POST /ownership/renounce
+ * renounceOwnership() - blocked unless OWNERSHIP_RENOUNCE_BREAK_GLASS=true
+ */
+router.post('/ownership/renounce',
+  requireScope('system:admin'),
+  checkAdminIP,
+  checkConfirmKey,
+  ownershipLimiter,
+  logSensitiveOperation('ownership-renounce'),
+  renounceContractOwnership
+);
+
+export default router;
@@ -3,33 +3,89 @@ import {
   createRaffle,
   executeRaffle,
   cancelRaffle,
-  executeRefund
+  executeRefund,
+  retryRandomness,
+  getRaffleByReference,
+  listRaffles,
+  getRaffleDetails,
+  getRaffleParticipant
 } from '../controllers/index.js';
+import { idempotent, requireScope, validateCallbackUrl } from '../middleware/index.js';
 
 const router: RouterType = Router();
 
 /**
  * POST /create-raffle
  * Create a new raffle on-chain
+ * Fallback idempotency key: create-raffle:<referenceId>
  */
-router.post('/create-raffle', createRaffle);
+router.post('/create-raffle',
+  requireScope('raffle:write'),
+  validateCallbackUrl,
+  idempotent('create-raffle', body => body?.referenceId?.toString()),
+  createRaffle
+);
 
 /**
  * POST /execute-raffle
  * Execute an expired raffle that meets minimum tickets
+ * Fallback idempotency key: execute-raffle:<raffleId>
  */
-router.post('/execute-raffle', executeRaffle);
+router.post('/execute-raffle',
+  requireScope('raffle:write'),
+  validateCallbackUrl,
+  idempotent('execute-raffle', body => body?.raffleId?.toString()),
+  executeRaffle
+);
 
 /**
  * POST /cancel-raffle
  * Cancel an empty raffle (0 tickets)
+ * Fallback idempotency key: cancel-raffle:<raffleId>
  */
-router.post('/cancel-raffle', cancelRaffle);
+router.post('/cancel-raffle',
+  requireScope('raffle:write'),
+  validateCallbackUrl,
+  idempotent('cancel-raffle', body => body?.raffleId?.toString()),
+  cancelRaffle
+);
 
 /**
  * POST /execute-refund
  * Execute refund batch for expired raffles
+ * No fallback key: large raffles are refunded over several batches
  */
-router.post('/execute-refund', executeRefund);
+router.post('/execute-refund', requireScope('raffle:write'), validateCallbackUrl, idempotent('execute-refund'), executeRefund);
+
+/**
+ * POST /retry-randomness
+ * New VRF request for a raffle stuck in DRAWING
+ * No fallback key: a raffle may need more than one retry
+ */
+router.post('/retry-randomness', requireScope('raffle:write'), validateCallbackUrl, idempotent('retry-randomness'), retryRandomness);
+
+/**
+ * GET /raffles/by-reference/:referenceId
+ * On-chain raffleId for a backend referenceId (survives job eviction)
+ */
+router.get('/raffles/by-reference/:referenceId', requireScope('read'), getRaffleByReference);
+
+/**
+ * GET /raffles
+ * Paginated raffle list (nextRaffleId + scanRaffles, cached)
+ */
+router.get('/raffles', requireScope('read'), listRaffles);
+
+/**
+ * GET /raffles/:raffleId
+ * Raffle details (getRaffle, cached)
+ */
+router.get('/raffles/:raffleId', requireScope('read'), getRaffleDetails);
+
+/**
+ * GET /raffles/:raffleId/participants/:address
+ * Ticket ownership check (hasTicketInRaffle, cached)
+ */
+router.get('/raffles/:raffleId/participants/:address', requireScope('read'), getRaffleParticipant);
 
 export default router;
@@ -5,20 +5,25 @@ import {
   emergencyPause,
   emergencyUnpause
 } from '../controllers/index.js';
-import { checkAdminIP, sensitiveLimiter, logSensitiveOperation } from '../middleware/sensitive.middleware.js';
+import { idempotent, requireScope, validateCallbackUrl } from '../middleware/index.js';
+import { checkAdminIP, proposalLimiter, emergencyPauseLimiter, logSensitiveOperation } from '../middleware/sensitive.middleware.js';
 
 const router: RouterType = Router();
 
-// Apply sensitive operation protection to ALL system routes
-router.use(checkAdminIP);
-router.use(sensitiveLimiter);
+// Sensitive operation protection is declared on each system route - a path-less
+// router.use() would also run for every router mounted after this one
 
 /**
  * POST /pause-system
  * Emergency pause - stops all raffle operations
  */
 router.post('/pause-system', 
+  requireScope('system:admin'),
+  checkAdminIP,
+  validateCallbackUrl,
+  proposalLimiter,
   logSensitiveOperation('pause'),
+  idempotent('pause-system'),
   pauseSystem
 );
 
@@ -27,7 +32,12 @@ router.post('/pause-system',
  * Resume normal operations after pause
  */
 router.post('/unpause-system',
+  requireScope('system:admin'),
+  checkAdminIP,
+  validateCallbackUrl,
+  proposalLimiter,
   logSensitiveOperation('unpause'),
+  idempotent('unpause-system'),
   unpauseSystem
 );
 
@@ -36,6 +46,9 @@ router.post('/unpause-system',
  * Emergency pause with event logging (security incident)
  */
 router.post('/emergency-pause',
+  requireScope('system:admin'),
+  checkAdminIP,
+  emergencyPauseLimiter,
   logSensitiveOperation('emergency-pause'),
   emergencyPause
 );
@@ -45,6 +58,10 @@ router.post('/emergency-pause',
  * Emergency unpause after incident resolved
  */
 router.post('/emergency-unpause',
+  requireScope('system:admin'),
+  checkAdminIP,
+  validateCallbackUrl,
+  proposalLimiter,
   logSensitiveOperation('emergency-unpause'),
   emergencyUnpause
 );
@@ -0,0 +1,13 @@
+import { Router, type Router as RouterType } from 'express';
+import { getWebhookDeliveries } from '../controllers/index.js';
+import { requireScope } from '../middleware/index.js';
+
+const router: RouterType = Router();
+
+/**
+ * GET /webhooks/deliveries
+ * Webhook delivery log (filters: jobId, limit)
+ */
+router.get('/webhooks/deliveries', requireScope('read'), getWebhookDeliveries);
+
+export default router;
@@ -0,0 +1,120 @@
+/**
+ * Manage per-client API keys (see auth/key.registry.ts)
+ *
+ *   pnpm apikey:create --name backend --scopes raffle:write,read [--rate-limit 60] [--expires-in-days 90]
+ *   pnpm apikey:rotate --name backend [--grace-minutes 60]
+ *   pnpm apikey:revoke --name backend
+ *   pnpm apikey:list
+ *
+ * - Uses the relayer's .env (same REDIS_URL); changes apply to running relayers at once
+ * - Keys are printed once and only their sha256 is stored
+ * - Scopes: read, raffle:write, compliance:write, system:admin
+ */
+
+import {
+  API_SCOPES,
+  createClient,
+  rotateClient,
+  revokeClient,
+  listClients,
+  parseScopes
+} from '../auth/key.registry.js';
+import { redis } from '../utils/redis.js';
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function readPositiveInt(name: string): number | undefined {
+  const value = readFlag(name);
+  if (value === undefined) return undefined;
+
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative integer`);
+  }
+  return parsed;
+}
+
+function requireName(): string {
+  const name = readFlag('name');
+  if (!name) {
+    throw new Error('--name is required');
+  }
+  return name;
+}
+
+function printKey(name: string, key: string): void {
+  console.log(`🔑 API key for "${name}" (shown once - store it now):`);
+  console.log(`   ${key}`);
+}
+
+const command = process.argv[2];
+
+try {
+  switch (command) {
+    case 'create': {
+      const name = requireName();
+      const scopes = parseScopes(readFlag('scopes') ?? '');
+      const rateLimitPerMinute = readPositiveInt('rate-limit');
+      const expiresInDays = readPositiveInt('expires-in-days');
+
+      const { client, key } = await createClient({
+        name,
+        scopes,
+        rateLimitPerMinute: rateLimitPerMinute || undefined,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 3600 * 1000).toISOString() : undefined
+      });
+
+      console.log(`✅ Client "${client.name}" created (scopes: ${client.scopes.join(', ')})`);
+      printKey(client.name, key);
+      break;
+    }
+
+    case 'rotate': {
+      const name = requireName();
+      const graceMinutes = readPositiveInt('grace-minutes') ?? 0;
+      const { client, key } = await rotateClient(name, graceMinutes * 60 * 1000);
+
+      console.log(`✅ Key rotated for "${client.name}"${client.previousKeyExpiresAt ? ` - old key valid until ${client.previousKeyExpiresAt}` : ' - old key revoked'}`);
+      printKey(client.name, key);
+      break;
+    }
+
+    case 'revoke': {
+      const client = await revokeClient(requireName());
+      console.log(`✅ Client "${client.name}" revoked at ${client.revokedAt}`);
+      break;
+    }
+
+    case 'list': {
+      const clients = await listClients();
+
+      if (clients.length === 0) {
+        console.log('No API clients registered');
+      }
+
+      for (const client of clients) {
+        const state = client.revokedAt
+          ? `revoked ${client.revokedAt}`
+          : client.expiresAt && Date.parse(client.expiresAt) <= Date.now() ? `expired ${client.expiresAt}` : 'active';
+
+        console.log(`${client.name}  ${client.keyPrefix}…  [${client.scopes.join(', ')}]  ${state}`
+          + `${client.expiresAt && !client.revokedAt ? `  expires ${client.expiresAt}` : ''}`
+          + `${client.rateLimitPerMinute ? `  ${client.rateLimitPerMinute} req/min` : ''}`);
+      }
+      break;
+    }
+
+    default:
+      console.error('Usage: pnpm apikey:create|apikey:rotate|apikey:revoke|apikey:list (see src/scripts/api-keys.ts)');
+      console.error(`Scopes: ${API_SCOPES.join(', ')}`);
+      process.exitCode = 1;
+  }
+} catch (error: any) {
+  console.error(`❌ ${error.message}`);
+  process.exitCode = 1;
+} finally {
+  await redis.quit();
+}
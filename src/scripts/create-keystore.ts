@@ -0,0 +1,52 @@
+/**
+ * Create an encrypted JSON keystore for SIGNER_BACKEND=keystore
+ *
+ *   KEYSTORE_PRIVATE_KEY=0x... pnpm keystore:create --out ./secrets/owner.json --password-file ./secrets/owner.pass
+ *
+ * - KEYSTORE_PRIVATE_KEY unset → a new random key is generated (fund it and
+ *   transfer contract ownership to it)
+ * - The password file must already exist (e.g. `openssl rand -hex 32 > owner.pass`)
+ * - The keystore is written with mode 600 and never overwritten
+ */
+
+import fs from 'fs';
+import { ethers } from 'ethers';
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const out = readFlag('out');
+const passwordFile = readFlag('password-file');
+
+if (!out || !passwordFile) {
+  console.error('Usage: pnpm keystore:create --out <keystore.json> --password-file <file>');
+  process.exit(1);
+}
+
+if (fs.existsSync(out)) {
+  console.error(`❌ ${out} already exists - refusing to overwrite a keystore`);
+  process.exit(1);
+}
+
+const password = fs.readFileSync(passwordFile, 'utf-8').replace(/\r?\n$/, '');
+
+if (password.length < 16) {
+  console.error('❌ Password must be at least 16 characters');
+  process.exit(1);
+}
+
+const privateKey = process.env.KEYSTORE_PRIVATE_KEY?.trim();
+const wallet = privateKey ? new ethers.Wallet(privateKey) : ethers.Wallet.createRandom();
+
+console.log(`🔐 Encrypting key for ${wallet.address} (scrypt, this takes a while)...`);
+
+const keystore = await wallet.encrypt(password);
+fs.writeFileSync(out, keystore, { mode: 0o600 });
+
+console.log(`✅ Keystore written to ${out}`);
+console.log(`   SIGNER_BACKEND=keystore`);
+console.log(`   SIGNER_KEYSTORE_PATH=${out}`);
+console.log(`   SIGNER_KEYSTORE_PASSWORD_FILE=${passwordFile}`);
+console.log(`   SIGNER_ADDRESS=${wallet.address}`);
@@ -0,0 +1,110 @@
+/**
+ * Callback target checks - keeps per-request callbackUrl off internal networks
+ *
+ * A callbackUrl comes from the API caller, and the webhook worker POSTs
+ * signed payloads to it from inside the relayer's network. It is accepted when:
+ * - http(s) and an absolute URL
+ * - WEBHOOK_ALLOWED_HOSTS lists its host (listed hosts may be internal), or
+ *   the list is empty and every address the host resolves to is public
+ *
+ * Checked when the job is requested and again before every delivery
+ * (DNS may change in between). A delivery connects to the address it
+ * checked (resolveCallbackTarget), so a second DNS answer cannot point the
+ * request elsewhere. WEBHOOK_URL is set by the operator and is not checked.
+ */
+
+import { lookup } from 'dns/promises';
+import type { LookupAddress } from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { WEBHOOK_CONFIG } from '../config/app.config.js';
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast, reserved, documentation
+// (IPv4 rules also match IPv4-mapped IPv6 addresses, ::ffff:a.b.c.d)
+const NON_PUBLIC = new BlockList();
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24],
+  ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24],
+  ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && !NON_PUBLIC.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+function isAllowedHost(host: string): boolean {
+  return WEBHOOK_CONFIG.allowedHosts.some(allowed =>
+    allowed.startsWith('*.') ? host.endsWith(allowed.slice(1)) : host === allowed
+  );
+}
+
+export interface CallbackTarget {
+  refusal?: string;
+  address?: LookupAddress;   // Checked address to connect to (unset for WEBHOOK_ALLOWED_HOSTS)
+}
+
+/**
+ * Check a callbackUrl and keep the address that passed the check
+ */
+export async function resolveCallbackTarget(callbackUrl: string): Promise<CallbackTarget> {
+  if (!URL.canParse(callbackUrl)) {
+    return { refusal: 'callbackUrl must be an absolute http(s) URL' };
+  }
+
+  const url = new URL(callbackUrl);
+  if (!/^https?:$/.test(url.protocol)) {
+    return { refusal: 'callbackUrl must be an absolute http(s) URL' };
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = url.hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+
+  if (WEBHOOK_CONFIG.allowedHosts.length > 0) {
+    return isAllowedHost(host) ? {} : { refusal: `callbackUrl host ${host} is not in WEBHOOK_ALLOWED_HOSTS` };
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    return { refusal: `callbackUrl host ${host} could not be resolved` };
+  }
+
+  const blocked = addresses.find(entry => !isPublicAddress(entry.address));
+  if (blocked) {
+    return { refusal: `callbackUrl host ${host} resolves to a non-public address (${blocked.address})` };
+  }
+
+  return addresses.length > 0 ? { address: addresses[0] } : { refusal: `callbackUrl host ${host} could not be resolved` };
+}
+
+/**
+ * Reason a callbackUrl is refused, or undefined when it may be called
+ */
+export async function checkCallbackTarget(callbackUrl: string): Promise<string | undefined> {
+  return (await resolveCallbackTarget(callbackUrl)).refusal;
+}
+
+/**
+ * DNS lookup for http(s).request that always answers the pinned address
+ */
+export function pinnedLookup(pinned: LookupAddress): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [pinned]);
+    } else {
+      callback(null, pinned.address, pinned.family);
+    }
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Dry runs - `dryRun: true` on any POST route simulates instead of enqueuing
+ *
+ * The simulation is the same pre-flight the worker runs before signing
+ * (see blockchain/tx.simulator.ts), plus a gas estimate.
+ *
+ * RESPONSES:
+ * - 200 → call would succeed (simulation.gasEstimate, simulation.returnValue)
+ * - 422 SIMULATION_REVERTED → call would revert (decoded reason)
+ * - 502 SIMULATION_FAILED → simulation could not run (RPC error etc.)
+ */
+
+import { Request, Response } from 'express';
+import { simulateJob } from '../blockchain/tx.simulator.js';
+import logger from './logger.js';
+
+/**
+ * Request asked for a dry run (strict boolean, "true" strings are ignored)
+ */
+export function isDryRun(req: Request): boolean {
+  return req.body?.dryRun === true;
+}
+
+/**
+ * Simulate the job and send the result (nothing is enqueued or signed)
+ */
+export async function respondWithDryRun(res: Response, type: string, data: any): Promise<void> {
+  const simulation = await simulateJob(type, data);
+
+  logger.info('🧪 Dry run simulated', {
+    type,
+    method: simulation.method,
+    success: simulation.success,
+    reason: simulation.classification?.reason
+  });
+
+  if (simulation.success) {
+    res.json({
+      success: true,
+      dryRun: true,
+      type,
+      simulation: {
+        method: simulation.method,
+        gasEstimate: simulation.gasEstimate,
+        returnValue: simulation.returnValue
+      },
+      message: 'Simulation succeeded - nothing was enqueued'
+    });
+    return;
+  }
+
+  const classification = simulation.classification!;
+  const reverted = classification.errorClass === 'permanent-revert';
+
+  res.status(reverted ? 422 : 502).json({
+    success: false,
+    dryRun: true,
+    type,
+    error: reverted ? 'SIMULATION_REVERTED' : 'SIMULATION_FAILED',
+    errorClass: classification.errorClass,
+    reason: classification.reason,
+    revert: classification.revert,
+    message: reverted
+      ? 'Transaction would revert - nothing was enqueued'
+      : 'Simulation could not be completed'
+  });
+}
@@ -0,0 +1,148 @@
+/**
+ * Raffle helpers - Typed view of RifasPlatform raffle data
+ *
+ * IMPORTANT: RaffleStatus mirrors the Solidity enum RifasPlatform.RaffleStatus
+ * (uint8 on the ABI). The contract source is not part of this repo, so the
+ * values come from the deployed bytecode in abi/RifasPlatform.json:
+ * - Reads of the status panic above 3 (the enum has four members)
+ * - 0: createRaffle stores it; executeRaffle requires it ("Raffle not in filling status")
+ * - 1: executeRaffle stores it; the VRF callback and retryRandomness require it
+ *   ("Raffle not in drawing status")
+ * - 3: cancelRaffle and the last refund batch store it (RaffleCancelled)
+ * - 2: the remaining member, COMPLETED
+ * Keep the order in sync with the contract.
+ *
+ * Completed, refunded and archived raffles are deleted: getRaffle() then
+ * returns zeros (FILLING, maxTickets 0).
+ */
+
+import { ethers } from 'ethers';
+
+export enum RaffleStatus {
+  FILLING = 0,     // Selling tickets
+  DRAWING = 1,     // executeRaffle() called, waiting for VRF callback
+  COMPLETED = 2,   // Winner selected and paid
+  CANCELLED = 3    // Cancelled, or expired below minTickets and refunded
+}
+
+export interface RaffleInfo {
+  id: bigint;
+  ticketPrice: bigint;
+  maxTickets: bigint;
+  minTickets: bigint;
+  currentTickets: bigint;
+  expiresAt: bigint;
+  status: RaffleStatus;
+}
+
+/**
+ * Human-readable status name ('UNKNOWN_<n>' for values outside the enum)
+ */
+export function getRaffleStatusName(status: number): string {
+  return RaffleStatus[status] ?? `UNKNOWN_${status}`;
+}
+
+/**
+ * Decode the getRaffle() result (ethers Result with named outputs)
+ */
+export function decodeRaffle(result: any): RaffleInfo {
+  return {
+    id: BigInt(result.id),
+    ticketPrice: BigInt(result.ticketPrice),
+    maxTickets: BigInt(result.maxTickets),
+    minTickets: BigInt(result.minTickets),
+    currentTickets: BigInt(result.currentTickets),
+    expiresAt: BigInt(result.expiresAt),
+    status: Number(result.status)
+  };
+}
+
+export interface RaffleCreatedEvent {
+  raffleId: string;                 // contractRaffleId
+  templateId: string;
+  referenceId: string;
+  ticketPrice: string;
+  maxTickets: string;
+  minTickets: string;
+  expiresAt: string;
+}
+
+/**
+ * First log of the contract in a receipt with the given event name
+ */
+function findContractEvent(
+  receipt: ethers.TransactionReceipt,
+  contractInterface: ethers.Interface,
+  contractAddress: string,
+  eventName: string
+): ethers.LogDescription | undefined {
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== contractAddress.toLowerCase()) continue;
+
+    const parsed = contractInterface.parseLog({ topics: [...log.topics], data: log.data });
+    if (parsed?.name === eventName) return parsed;
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the RaffleCreated log emitted by the contract in a createRaffle() receipt
+ */
+export function findRaffleCreated(
+  receipt: ethers.TransactionReceipt,
+  contractInterface: ethers.Interface,
+  contractAddress: string
+): RaffleCreatedEvent | undefined {
+  const parsed = findContractEvent(receipt, contractInterface, contractAddress, 'RaffleCreated');
+
+  return parsed && {
+    raffleId: parsed.args.contractRaffleId.toString(),
+    templateId: parsed.args.templateId.toString(),
+    referenceId: parsed.args.referenceId.toString(),
+    ticketPrice: parsed.args.ticketPrice.toString(),
+    maxTickets: parsed.args.maxTickets.toString(),
+    minTickets: parsed.args.minTickets.toString(),
+    expiresAt: parsed.args.expiresAt.toString()
+  };
+}
+
+/**
+ * New VRF request id from a retryRandomness() receipt (RandomnessRetried log)
+ */
+export function findRandomnessRetried(
+  receipt: ethers.TransactionReceipt,
+  contractInterface: ethers.Interface,
+  contractAddress: string
+): string | undefined {
+  return findContractEvent(receipt, contractInterface, contractAddress, 'RandomnessRetried')?.args.newVrfRequestId.toString();
+}
+
+/**
+ * Ids of raffles in a status (scanRaffles in batches of batchSize)
+ */
+export async function scanRafflesByStatus(
+  contract: ethers.Contract,
+  nextRaffleId: bigint,
+  status: RaffleStatus,
+  batchSize: number
+): Promise<{ scanned: number; ids: bigint[] }> {
+  const size = BigInt(batchSize);
+  const ids: bigint[] = [];
+  let scanned = 0;
+
+  for (let start = 0n; start < nextRaffleId; start += size) {
+    const end = start + size < nextRaffleId ? start + size : nextRaffleId;
+    const [batchIds, statuses] = await contract.scanRaffles(start, end);
+
+    scanned += batchIds.length;
+
+    batchIds.forEach((id: bigint, index: number) => {
+      if (Number(statuses[index]) === status) {
+        ids.push(id);
+      }
+    });
+  }
+
+  return { scanned, ids };
+}
@@ -0,0 +1,28 @@
+/**
+ * Shared Redis client for relayer state stored outside Bull queues
+ * (webhook delivery log, idempotency keys, nonce allocator, ...)
+ *
+ * Same REDIS_URL as the queues - all keys live under the 'relayer:' prefix
+ * so they never collide with Bull ('bull:*') or the backend
+ */
+
+import { Redis } from 'ioredis';
+import { env } from '../config/env.js';
+import logger from './logger.js';
+
+export const redis = new Redis(env.redisUrl, {
+  maxRetriesPerRequest: 3
+});
+
+redis.on('error', (error) => {
+  logger.error('[Redis] Connection error', {
+    error: error.message
+  });
+});
+
+/**
+ * Build a namespaced key: redisKey('webhooks', 'log') => 'relayer:webhooks:log'
+ */
+export function redisKey(...parts: Array<string | number>): string {
+  return ['relayer', ...parts].join(':');
+}
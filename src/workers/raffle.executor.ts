@@ -0,0 +1,272 @@
+/**
+ * Raffle Executor - Automatic handling of expired raffles
+ *
+ * Runs every EXECUTOR_INTERVAL_MS (default 5 minutes):
+ * 1. Read nextRaffleId and scanRaffles() in batches to find FILLING raffles
+ * 2. getRaffle() each candidate: expiresAt passed (chain time) and
+ *    currentTickets < maxTickets (a full raffle is executed when it fills)
+ * 3. Decide per expired raffle:
+ *    - 0 tickets              → cancel-raffle
+ *    - tickets < minTickets   → execute-refund
+ *    - tickets >= minTickets  → execute-raffle
+ * 4. Enqueue through enqueueTransaction() (same path as the HTTP routes)
+ *
+ * DEDUPLICATION:
+ * - Redis claim per raffle (SET NX, EXECUTOR_DEDUP_TTL_SECONDS, see tx.queue.ts)
+ * - execute-raffle / cancel-raffle are claimed by enqueueTransaction(), so the
+ *   executor and POST /execute-raffle or /cancel-raffle never both enqueue one
+ * - execute-refund is claimed here with the same key
+ * - A raffle is enqueued at most once per TTL window, even across restarts
+ *   or with several relayer instances
+ *
+ * DRY RUN:
+ * - EXECUTOR_DRY_RUN=true logs and reports decisions without enqueuing
+ */
+
+import { EXECUTOR_CONFIG } from '../config/app.config.js';
+import { contract } from '../index.js';
+import { enqueueTransaction, claimRaffle, releaseRaffle, RaffleAlreadyEnqueuedError } from '../queues/tx.queue.js';
+import { RaffleStatus, decodeRaffle, scanRafflesByStatus } from '../utils/raffle.js';
+import logger from '../utils/logger.js';
+
+export type ExecutorAction = 'execute-raffle' | 'cancel-raffle' | 'execute-refund';
+
+export interface ExecutorDecision {
+  raffleId: string;
+  action: ExecutorAction;
+  reason: string;
+  outcome: 'enqueued' | 'already-enqueued' | 'dry-run' | 'error';
+  jobId?: string;
+  error?: string;
+}
+
+export interface ExecutorScanReport {
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  dryRun: boolean;
+  nextRaffleId?: string;
+  chainTime?: number;
+  scanned: number;
+  filling: number;
+  expired: number;
+  decisions: ExecutorDecision[];
+  error?: string;
+}
+
+let timer: NodeJS.Timeout | undefined;
+let scanInProgress = false;
+let lastScan: ExecutorScanReport | undefined;
+
+/**
+ * Decide what to do with an expired FILLING raffle
+ */
+function decideAction(currentTickets: bigint, minTickets: bigint): { action: ExecutorAction; reason: string } {
+  if (currentTickets === 0n) {
+    return { action: 'cancel-raffle', reason: 'Expired with 0 tickets' };
+  }
+
+  if (currentTickets < minTickets) {
+    return {
+      action: 'execute-refund',
+      reason: `Expired below minimum (${currentTickets}/${minTickets} tickets)`
+    };
+  }
+
+  return {
+    action: 'execute-raffle',
+    reason: `Expired with minimum reached (${currentTickets}/${minTickets} tickets)`
+  };
+}
+
+/**
+ * Enqueue the decided action unless the raffle was already handled
+ */
+async function applyDecision(
+  raffleId: bigint,
+  action: ExecutorAction,
+  reason: string
+): Promise<ExecutorDecision> {
+  const decision: ExecutorDecision = {
+    raffleId: raffleId.toString(),
+    action,
+    reason,
+    outcome: 'dry-run'
+  };
+
+  if (EXECUTOR_CONFIG.dryRun) {
+    logger.info('[RaffleExecutor] (dry-run) Would enqueue', { ...decision });
+    return decision;
+  }
+
+  // One-shot actions are claimed by enqueueTransaction(), refunds here
+  const claimsHere = action === 'execute-refund';
+
+  if (claimsHere && !(await claimRaffle(raffleId, action))) {
+    return { ...decision, outcome: 'already-enqueued' };
+  }
+
+  try {
+    const job = await enqueueTransaction(action, {
+      type: action,
+      raffleId: raffleId.toString()
+    });
+
+    logger.info('[RaffleExecutor] ✅ Expired raffle enqueued', {
+      raffleId: raffleId.toString(),
+      action,
+      reason,
+      jobId: job.id
+    });
+
+    return { ...decision, outcome: 'enqueued', jobId: job.id.toString() };
+
+  } catch (error: any) {
+    if (error instanceof RaffleAlreadyEnqueuedError) {
+      return { ...decision, outcome: 'already-enqueued' };
+    }
+
+    // Release the claim so the next scan can try again
+    if (claimsHere) {
+      await releaseRaffle(raffleId);
+    }
+
+    logger.error('[RaffleExecutor] ❌ Failed to enqueue expired raffle', {
+      raffleId: raffleId.toString(),
+      action,
+      error: error.message
+    });
+
+    return { ...decision, outcome: 'error', error: error.message };
+  }
+}
+
+/**
+ * Run one scan (exported for manual triggering)
+ */
+export async function runExecutorScan(): Promise<ExecutorScanReport> {
+  const startedAt = Date.now();
+  const report: ExecutorScanReport = {
+    startedAt: new Date(startedAt).toISOString(),
+    dryRun: EXECUTOR_CONFIG.dryRun,
+    scanned: 0,
+    filling: 0,
+    expired: 0,
+    decisions: []
+  };
+
+  try {
+    const nextRaffleId: bigint = await contract.nextRaffleId();
+    const latestBlock = await contract.runner!.provider!.getBlock('latest');
+    // Chain time, not wall clock (Hardhat time can be moved forward)
+    const chainTime = BigInt(latestBlock?.timestamp ?? Math.floor(Date.now() / 1000));
+
+    report.nextRaffleId = nextRaffleId.toString();
+    report.chainTime = Number(chainTime);
+
+    const { scanned, ids } = await scanRafflesByStatus(contract, nextRaffleId, RaffleStatus.FILLING, EXECUTOR_CONFIG.scanBatchSize);
+    report.scanned = scanned;
+    report.filling = ids.length;
+
+    for (const raffleId of ids) {
+      const raffle = decodeRaffle(await contract.getRaffle(raffleId));
+
+      // Not full also skips deleted raffles (getRaffle() returns zeros)
+      if (
+        raffle.status !== RaffleStatus.FILLING ||
+        raffle.expiresAt > chainTime ||
+        raffle.currentTickets >= raffle.maxTickets
+      ) {
+        continue;
+      }
+
+      report.expired++;
+
+      const { action, reason } = decideAction(raffle.currentTickets, raffle.minTickets);
+      report.decisions.push(await applyDecision(raffleId, action, reason));
+    }
+
+  } catch (error: any) {
+    report.error = error.message;
+
+    logger.error('[RaffleExecutor] ❌ Scan failed', {
+      error: error.message,
+      code: error.code
+    });
+  }
+
+  report.finishedAt = new Date().toISOString();
+  report.durationMs = Date.now() - startedAt;
+  lastScan = report;
+
+  logger.info('[RaffleExecutor] Scan finished', {
+    durationMs: report.durationMs,
+    scanned: report.scanned,
+    filling: report.filling,
+    expired: report.expired,
+    enqueued: report.decisions.filter(d => d.outcome === 'enqueued').length,
+    dryRun: report.dryRun
+  });
+
+  return report;
+}
+
+/**
+ * Scheduled tick - skips if the previous scan is still running
+ */
+async function tick(): Promise<void> {
+  if (scanInProgress) {
+    logger.warn('[RaffleExecutor] Previous scan still running, skipping tick');
+    return;
+  }
+
+  scanInProgress = true;
+  try {
+    await runExecutorScan();
+  } finally {
+    scanInProgress = false;
+  }
+}
+
+/**
+ * Executor status for monitoring
+ */
+export function getExecutorState() {
+  return {
+    enabled: EXECUTOR_CONFIG.enabled,
+    dryRun: EXECUTOR_CONFIG.dryRun,
+    intervalMs: EXECUTOR_CONFIG.intervalMs,
+    running: timer !== undefined,
+    scanInProgress,
+    lastScan
+  };
+}
+
+/**
+ * Start periodic scans (first scan runs immediately)
+ */
+export function startRaffleExecutor(): void {
+  if (!EXECUTOR_CONFIG.enabled) {
+    logger.info('[RaffleExecutor] Automatic executor disabled (EXECUTOR_ENABLED=false)');
+    return;
+  }
+
+  timer = setInterval(() => void tick(), EXECUTOR_CONFIG.intervalMs);
+  void tick();
+
+  logger.info('[RaffleExecutor] ✅ Automatic executor started', {
+    intervalMs: EXECUTOR_CONFIG.intervalMs,
+    dryRun: EXECUTOR_CONFIG.dryRun
+  });
+}
+
+/**
+ * Stop periodic scans
+ */
+export function stopRaffleExecutor(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+    logger.info('[RaffleExecutor] Automatic executor stopped');
+  }
+}
@@ -2,26 +2,88 @@
  * Transaction Worker - Processes blockchain transactions from queues
  * 
  * ARCHITECTURE:
- * - Concurrency: 1 (single job at a time, prevents nonce collision)
+ * - Concurrency: TX_WORKER_CONCURRENCY jobs per queue
  * - Main queue: Immediate processing, fail → retry queue
  * - Retry queue: Exponential backoff (5s, 10s, 20s)
  * 
+ * GAS (see blockchain/gas.strategy.ts):
+ * - Fees per network mode (EIP-1559 or legacy), capped per job type
+ * - Deferrable job types wait in the retry queue while fees are high
+ * - Results record effective gas price and total cost
+ * 
+ * LOW FUNDS (see monitoring/balance.monitor.ts):
+ * - While the lane's wallet is below BALANCE_CRITICAL_THRESHOLD, non-essential
+ *   types are deferred once, then failed as insufficient-funds
+ * 
+ * PRE-FLIGHT:
+ * - Every new submission is simulated (eth_call, pending state) before signing
+ * - A job that would revert fails immediately with the decoded reason, no gas spent
+ * 
  * NONCE STRATEGY:
- * - Single concurrency = Ethers.js manages nonces automatically
- * - No manual nonce tracking needed
- * - Ethers calls getNonce('pending') internally (includes pending TXs)
+ * - Explicit nonces from the Redis-backed NonceManager
+ * - Submission (simulate → estimate → nonce → sign → broadcast) is serialized per wallet in tx.sender.ts
+ * - Confirmation waits run concurrently (several txs in the mempool)
+ * - Periodic gap check fills nonces that were allocated but never sent
+ * 
+ * WALLET LANES (see blockchain/wallet.pool.ts):
+ * - Every hot wallet has its own main + retry queue, processed here
+ * - A job is signed by the wallet of its lane (recovered from the job id)
  * 
- * ERROR HANDLING:
- * - Main queue failure → Move to retry queue (doesn't block FIFO)
+ * ERROR HANDLING (see blockchain/error.classifier.ts):
+ * - Every failure is classified and its revert reason decoded
+ * - Main queue retryable failure → Move to retry queue (doesn't block FIFO)
+ * - Permanent revert / insufficient funds → Failed immediately, no retries
  * - Retry queue failure → Log and mark as failed (manual intervention)
+ * 
+ * JOB TIMEOUT:
+ * - Bull fails a main queue job after TX_JOB_TIMEOUT_MS but does not stop its handler
+ * - The late handler and the 'failed' listener claim the job's outcome (Redis SET NX),
+ *   only the first one moves it to the retry queue and sends its webhook
  */
 
 import { Job } from 'bull';
 import { ethers } from 'ethers';
-import { txQueue, txRetryQueue, moveToRetryQueue, TransactionJob } from '../queues/tx.queue.js';
+import { getTxLanes, laneForJobId, moveToRetryQueue, TransactionJob } from '../queues/tx.queue.js';
+import { notifyJobEvent } from '../queues/webhook.queue.js';
+import { toOriginalJobId } from '../queues/job.lookup.js';
+import { getWallets } from '../blockchain/wallet.pool.js';
 import { contract } from '../index.js';
+import { TX_WORKER_CONFIG, NETWORK_CONFIG, BALANCE_CONFIG, CONTRACT_ADDRESS } from '../config/app.config.js';
+import { buildExplorerTxUrl } from '../config/networks.js';
+import {
+  submitContractTransaction,
+  waitForConfirmation,
+  SubmittedTransaction
+} from '../blockchain/tx.sender.js';
+import { classifyError, toClassifiedError } from '../blockchain/error.classifier.js';
+import { buildContractCall } from '../blockchain/tx.calls.js';
+import { shouldDefer, describeCost } from '../blockchain/gas.strategy.js';
+import { isPausedForBalance } from '../monitoring/balance.monitor.js';
+import { saveRaffleReference } from '../blockchain/raffle.references.js';
+import { findRaffleCreated, findRandomnessRetried } from '../utils/raffle.js';
+import { redis, redisKey } from '../utils/redis.js';
 import logger from '../utils/logger.js';
 
+/**
+ * Claim the outcome of a main queue job (retry move and webhook)
+ * - false: the other path already handled it (job timed out, see handleMainQueueAbort)
+ */
+async function claimMainQueueOutcome(job: Job<TransactionJob>): Promise<boolean> {
+  const claimed = await redis.set(redisKey('jobs', 'outcome', job.id.toString()), '1', 'EX', 24 * 3600, 'NX');
+  
+  if (!claimed) {
+    logger.warn('[TxWorker] Main queue job outcome already handled (job timed out)', {
+      jobId: job.id,
+      type: job.data.type
+    });
+  }
+  
+  return claimed !== null;
+}
+
+// Result of a handler that finished after its job timed out (Bull already failed it)
+const TIMED_OUT_RESULT = { success: false, timedOut: true };
+
 /**
  * Process job from MAIN queue
  * - Single attempt
@@ -37,7 +99,62 @@ async function processMainQueueJob(job: Job<TransactionJob>): Promise<any> {
   });
   
   try {
-    const result = await executeTransaction(type, data);
+    // Non-essential jobs wait while the wallet is low on gas funds (once, in the retry queue)
+    const walletId = laneForJobId(job.id).walletId;
+    if (isPausedForBalance(walletId, type)) {
+      const reason = `Wallet ${walletId} balance below critical threshold ${BALANCE_CONFIG.criticalThreshold} ${NETWORK_CONFIG.nativeSymbol}`;
+      if (!(await claimMainQueueOutcome(job))) {
+        return TIMED_OUT_RESULT;
+      }
+      const retryJob = await moveToRetryQueue(type, job.data, job.id!, reason, BALANCE_CONFIG.pauseDelayMs);
+      
+      logger.warn('[TxWorker] ⏸️  Job paused until the wallet is funded', {
+        jobId: job.id,
+        type,
+        wallet: walletId,
+        delayMs: BALANCE_CONFIG.pauseDelayMs
+      });
+      
+      return {
+        success: false,
+        movedToRetry: true,
+        deferred: true,
+        retryJobId: retryJob.id,
+        reason
+      };
+    }
+    
+    // Non-urgent jobs wait for cheaper gas (once, in the retry queue)
+    const deferral = await shouldDefer(type);
+    if (deferral.defer) {
+      const reason = `Network fee ${deferral.currentFeeGwei} gwei above defer threshold ${deferral.thresholdGwei} gwei`;
+      if (!(await claimMainQueueOutcome(job))) {
+        return TIMED_OUT_RESULT;
+      }
+      const retryJob = await moveToRetryQueue(type, job.data, job.id!, reason, deferral.delayMs);
+      
+      logger.info('[TxWorker] ⏳ Job deferred until gas is cheaper', {
+        jobId: job.id,
+        type,
+        currentFeeGwei: deferral.currentFeeGwei,
+        delayMs: deferral.delayMs
+      });
+      
+      return {
+        success: false,
+        movedToRetry: true,
+        deferred: true,
+        retryJobId: retryJob.id,
+        reason
+      };
+    }
+    
+    const result = await executeTransaction(toOriginalJobId(job.id.toString()), type, data);
+    
+    // Timed out meanwhile: the retry job resumes this broadcast and reports it
+    if (!(await claimMainQueueOutcome(job))) {
+      return TIMED_OUT_RESULT;
+    }
     
     logger.info('[TxWorker] ✅ Main queue job completed', {
       jobId: job.id,
@@ -45,25 +162,81 @@ async function processMainQueueJob(job: Job<TransactionJob>): Promise<any> {
       txHash: result.txHash
     });
     
+    await notifyJobEvent('job.mined', job, {
+      jobId: job.id.toString(),
+      queue: 'main',
+      retrying: false,
+      txHash: result.txHash,
+      blockNumber: result.blockNumber,
+      raffleId: result.raffleId
+    });
+    
     return { success: true, ...result };
     
   } catch (error: any) {
+    const classified = await classifyError(error);
+    const failure = toClassifiedError(error, classified);
+    
+    if (!(await claimMainQueueOutcome(job))) {
+      return TIMED_OUT_RESULT;
+    }
+    
+    if (!classified.retryable) {
+      logger.error('[TxWorker] ❌ Main queue job failed permanently (not retryable)', {
+        jobId: job.id,
+        type,
+        errorClass: classified.errorClass,
+        reason: classified.reason,
+        code: error.code
+      });
+      
+      await notifyJobEvent(classified.errorClass === 'permanent-revert' ? 'job.reverted' : 'job.exhausted', job, {
+        jobId: job.id.toString(),
+        queue: 'main',
+        retrying: false,
+        txHash: error.receipt?.hash,
+        blockNumber: error.receipt?.blockNumber,
+        error: failure.message
+      });
+      
+      return {
+        success: false,
+        movedToRetry: false,
+        errorClass: classified.errorClass,
+        revertReason: classified.revert?.reason,
+        revert: classified.revert,
+        error: failure.message
+      };
+    }
+    
     logger.error('[TxWorker] ❌ Main queue job failed, moving to retry', {
       jobId: job.id,
       type,
-      error: error.message,
+      errorClass: classified.errorClass,
+      reason: classified.reason,
       code: error.code
     });
     
     // Move to retry queue (doesn't block main queue)
     // Pass full job.data (includes type property)
-    await moveToRetryQueue(type, job.data, job.id!, error.message);
+    const retryJob = await moveToRetryQueue(type, job.data, job.id!, failure.message);
+    
+    await notifyJobEvent('job.retrying', job, {
+      jobId: job.id.toString(),
+      queue: 'main',
+      retrying: true,
+      txHash: error.receipt?.hash,
+      blockNumber: error.receipt?.blockNumber,
+      error: failure.message
+    });
     
     // Mark as "completed" in main queue (prevents blocking)
     return {
       success: false,
       movedToRetry: true,
-      error: error.message
+      retryJobId: retryJob.id,
+      errorClass: classified.errorClass,
+      error: failure.message
     };
   }
 }
@@ -84,7 +257,16 @@ async function processRetryQueueJob(job: Job<TransactionJob>): Promise<any> {
   });
   
   try {
-    const result = await executeTransaction(type, data);
+    // Still unfunded after the pause: fail without sending (insufficient-funds, never retried)
+    const walletId = laneForJobId(job.id).walletId;
+    if (isPausedForBalance(walletId, type)) {
+      throw Object.assign(
+        new Error(`Wallet ${walletId} balance still below critical threshold ${BALANCE_CONFIG.criticalThreshold} ${NETWORK_CONFIG.nativeSymbol}`),
+        { code: 'INSUFFICIENT_FUNDS' }
+      );
+    }
+    
+    const result = await executeTransaction(toOriginalJobId(job.id.toString()), type, data);
     
     logger.info('[TxWorker] ✅ Retry queue job succeeded', {
       jobId: job.id,
@@ -93,69 +275,103 @@ async function processRetryQueueJob(job: Job<TransactionJob>): Promise<any> {
       txHash: result.txHash
     });
     
+    await notifyJobEvent('job.mined', job, {
+      jobId: toOriginalJobId(job.id.toString()),
+      queue: 'retry',
+      retrying: false,
+      txHash: result.txHash,
+      blockNumber: result.blockNumber,
+      raffleId: result.raffleId
+    });
+    
     return { success: true, wasRetry: true, ...result };
     
   } catch (error: any) {
-    const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 3);
+    const classified = await classifyError(error);
+    const failure = toClassifiedError(error, classified);
+    const isFinalAttempt = !classified.retryable || job.attemptsMade + 1 >= (job.opts.attempts || 3);
+    
+    if (!classified.retryable) {
+      // Deterministic failure - remaining attempts would fail the same way
+      await job.discard();
+    }
     
     if (isFinalAttempt) {
       logger.error('[TxWorker] 🚨 Retry queue job FAILED PERMANENTLY', {
         jobId: job.id,
         type,
         attempts: job.attemptsMade + 1,
-        error: error.message,
+        errorClass: classified.errorClass,
+        reason: classified.reason,
         code: error.code,
         data
       });
       
-      // TODO: Send alert (email, Slack, PagerDuty)
-      // await alerting.sendCriticalAlert('TX_RETRY_EXHAUSTED', { jobId, type, error });
+      // TX_RETRY_EXHAUSTED alert is raised by queue.monitor.ts on Bull's 'failed' event
+    }
+    
+    // Reverts are never retried, so only the final failure notifies
+    if (isFinalAttempt) {
+      await notifyJobEvent(classified.errorClass === 'permanent-revert' ? 'job.reverted' : 'job.exhausted', job, {
+        jobId: toOriginalJobId(job.id.toString()),
+        queue: 'retry',
+        retrying: false,
+        txHash: error.receipt?.hash,
+        blockNumber: error.receipt?.blockNumber,
+        error: failure.message
+      });
     }
     
-    // Re-throw to trigger Bull's retry mechanism
-    throw error;
+    // Re-throw to trigger Bull's retry mechanism (message carries the class)
+    throw failure;
   }
 }
 
 /**
  * Execute blockchain transaction based on job type
- * - Ethers.js manages nonce automatically (no manual tracking)
+ * - Nonce allocated explicitly by the NonceManager (see tx.sender.ts)
  * - Returns txHash and other relevant data
  */
-async function executeTransaction(type: string, data: any): Promise<any> {
+async function executeTransaction(jobId: string, type: string, data: any): Promise<any> {
   switch (type) {
     case 'create-raffle':
-      return await executeCreateRaffle(data);
+      return await executeCreateRaffle(jobId, data);
     
     case 'execute-raffle':
-      return await executeExecuteRaffle(data);
+      return await executeExecuteRaffle(jobId, data);
     
     case 'cancel-raffle':
-      return await executeCancelRaffle(data);
+      return await executeCancelRaffle(jobId, data);
     
     case 'execute-refund':
-      return await executeRefundBatch(data);
+      return await executeRefundBatch(jobId, data);
+    
+    case 'retry-randomness':
+      return await executeRetryRandomness(jobId, data);
     
     case 'pause-contract':
-      return await executePauseContract();
+      return await executePauseContract(jobId);
     
     case 'unpause-contract':
-      return await executeUnpauseContract();
+      return await executeUnpauseContract(jobId);
+    
+    case 'emergency-unpause':
+      return await executeEmergencyUnpause(jobId);
     
     case 'add-to-blocklist':
-      return await executeAddToBlocklist(data);
+      return await executeAddToBlocklist(jobId, data);
     
     case 'add-to-blocklist-batch':
-      return await executeAddToBlocklistBatch(data);
+      return await executeAddToBlocklistBatch(jobId, data);
     
     case 'remove-from-blocklist':
-      return await executeRemoveFromBlocklist(data);
+      return await executeRemoveFromBlocklist(jobId, data);
     
     case 'withdraw-fees':
-      return await executeWithdrawFees();
+      return await executeWithdrawFees(jobId);
     
     case 'archive-raffles':
-      return await executeArchiveRaffles(data);
+      return await executeArchiveRaffles(jobId, data);
     
     default:
       throw new Error(`Unknown transaction type: ${type}`);
@@ -166,189 +382,290 @@ async function executeTransaction(type: string, data: any): Promise<any> {
 // TRANSACTION EXECUTORS
 // ============================================================================
 
-async function executeCreateRaffle(data: any): Promise<any> {
-  const { templateId, referenceId, ticketPrice, maxTickets, minTickets, durationSeconds } = data;
-  
-  const tx = await contract.createRaffle(
-    BigInt(templateId),
-    BigInt(referenceId),
-    ethers.parseUnits(ticketPrice, 18),
-    BigInt(maxTickets),
-    BigInt(minTickets),
-    BigInt(durationSeconds)
-  );
-  
-  // Wait for confirmation to prevent nonce collision in Hardhat automining
-  await tx.wait();
-  
+/**
+ * Extract the receipt fields exposed in job results (used by GET /jobs/:jobId)
+ */
+function summarizeReceipt(submitted: SubmittedTransaction, receipt: ethers.TransactionReceipt) {
   return {
-    txHash: tx.hash,
-    referenceId: referenceId.toString()
+    txHash: receipt.hash,
+    wallet: submitted.walletId,
+    nonce: submitted.nonce,
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed.toString(),
+    ...describeCost(receipt),
+    explorerUrl: buildExplorerTxUrl(NETWORK_CONFIG.explorerTxUrl, receipt.hash),
+    // Fee-bumped replacement mined instead of the first broadcast
+    replacedTxHash: receipt.hash !== submitted.txHash ? submitted.txHash : undefined,
+    resumed: submitted.resumed || undefined
   };
 }
 
-async function executeExecuteRaffle(data: any): Promise<any> {
-  const { raffleId } = data;
-  
-  // Estimate gas for complex VRF request
-  const gasEstimate = await contract.executeRaffle.estimateGas(BigInt(raffleId));
-  const gasLimit = gasEstimate * 120n / 100n; // +20% buffer
-  
-  const tx = await contract.executeRaffle(BigInt(raffleId), { gasLimit });
-  
-  // Wait for confirmation to prevent nonce collision
-  await tx.wait();
+/**
+ * Simulate, sign and broadcast the contract call for a job (see tx.calls.ts)
+ * with the wallet of the job's lane
+ */
+async function submitJob(jobId: string, type: string, data: any): Promise<SubmittedTransaction> {
+  const call = buildContractCall(type, data);
+  return submitContractTransaction(jobId, call.method, call.args, {
+    jobType: type,
+    gasBufferPercent: call.gasBufferPercent,
+    walletId: laneForJobId(jobId).walletId
+  });
+}
+
+async function executeCreateRaffle(jobId: string, data: any): Promise<any> {
+  const submitted = await submitJob(jobId, 'create-raffle', data);
+  const receipt = await waitForConfirmation(submitted);
+  
+  // On-chain id assigned by the contract (RaffleCreated.contractRaffleId)
+  const created = findRaffleCreated(receipt, contract.interface, CONTRACT_ADDRESS);
+  
+  if (created) {
+    try {
+      await saveRaffleReference(created, { jobId, txHash: receipt.hash, blockNumber: receipt.blockNumber });
+    } catch (error: any) {
+      // Mined either way - GET /raffles/by-reference falls back to the indexer
+      logger.error('[TxWorker] Failed to store raffle reference', {
+        jobId,
+        referenceId: created.referenceId,
+        raffleId: created.raffleId,
+        error: error.message
+      });
+    }
+  } else {
+    logger.warn('[TxWorker] ⚠️ No RaffleCreated event in create-raffle receipt', {
+      jobId,
+      txHash: receipt.hash
+    });
+  }
   
   return {
-    txHash: tx.hash,
-    raffleId: raffleId.toString()
+    ...summarizeReceipt(submitted, receipt),
+    referenceId: data.referenceId.toString(),
+    ...created
   };
 }
 
-async function executeCancelRaffle(data: any): Promise<any> {
-  const { raffleId } = data;
+async function executeExecuteRaffle(jobId: string, data: any): Promise<any> {
+  const submitted = await submitJob(jobId, 'execute-raffle', data);
+  const receipt = await waitForConfirmation(submitted);
   
-  const gasEstimate = await contract.cancelRaffle.estimateGas(BigInt(raffleId));
-  const gasLimit = gasEstimate * 120n / 100n;
-  
-  const tx = await contract.cancelRaffle(BigInt(raffleId), { gasLimit });
-  
-  // Wait for confirmation to prevent nonce collision
-  await tx.wait();
+  return {
+    ...summarizeReceipt(submitted, receipt),
+    raffleId: data.raffleId.toString()
+  };
+}
+
+async function executeCancelRaffle(jobId: string, data: any): Promise<any> {
+  const submitted = await submitJob(jobId, 'cancel-raffle', data);
+  const receipt = await waitForConfirmation(submitted);
   
   return {
-    txHash: tx.hash,
-    raffleId: raffleId.toString()
+    ...summarizeReceipt(submitted, receipt),
+    raffleId: data.raffleId.toString()
   };
 }
 
-async function executeRefundBatch(data: any): Promise<any> {
-  const { raffleId } = data;
+async function executeRefundBatch(jobId: string, data: any): Promise<any> {
+  const submitted = await submitJob(jobId, 'execute-refund', data);
+  const receipt = await waitForConfirmation(submitted);
   
-  const gasEstimate = await contract.executeRefundBatch.estimateGas(BigInt(raffleId));
-  const gasLimit = gasEstimate * 120n / 100n;
+  return {
+    ...summarizeReceipt(submitted, receipt),
+    raffleId: data.raffleId.toString()
+  };
+}
+
+async function executeRetryRandomness(jobId: string, data: any): Promise<any> {
+  const submitted = await submitJob(jobId, 'retry-randomness', data);
+  const receipt = await waitForConfirmation(submitted);
   
-  const tx = await contract.executeRefundBatch(BigInt(raffleId), { gasLimit });
+  return {
+    ...summarizeReceipt(submitted, receipt),
+    raffleId: data.raffleId.toString(),
+    vrfRequestId: findRandomnessRetried(receipt, contract.interface, CONTRACT_ADDRESS)
+  };
+}
+
+async function executePauseContract(jobId: string): Promise<any> {
+  const submitted = await submitJob(jobId, 'pause-contract', {});
   
-  // Wait for confirmation to prevent nonce collision
-  await tx.wait();
+  // Wait for confirmation (critical operation)
+  const receipt = await waitForConfirmation(submitted);
   
   return {
-    txHash: tx.hash,
-    raffleId: raffleId.toString()
+    ...summarizeReceipt(submitted, receipt),
+    confirmed: true
   };
 }
 
-async function executePauseContract(): Promise<any> {
-  const tx = await contract.pause();
+async function executeUnpauseContract(jobId: string): Promise<any> {
+  const submitted = await submitJob(jobId, 'unpause-contract', {});
   
   // Wait for confirmation (critical operation)
-  await tx.wait();
+  const receipt = await waitForConfirmation(submitted);
   
   return {
-    txHash: tx.hash,
+    ...summarizeReceipt(submitted, receipt),
     confirmed: true
   };
 }
 
-async function executeUnpauseContract(): Promise<any> {
-  const tx = await contract.unpause();
+async function executeEmergencyUnpause(jobId: string): Promise<any> {
+  const submitted = await submitJob(jobId, 'emergency-unpause', {});
   
   // Wait for confirmation (critical operation)
-  await tx.wait();
+  const receipt = await waitForConfirmation(submitted);
   
   return {
-    txHash: tx.hash,
+    ...summarizeReceipt(submitted, receipt),
     confirmed: true
   };
 }
 
-async function executeAddToBlocklist(data: any): Promise<any> {
-  const { address, reason } = data;
-  
-  const tx = await contract.addToBlocklist(address, reason);
+async function executeAddToBlocklist(jobId: string, data: any): Promise<any> {
+  const submitted = await submitJob(jobId, 'add-to-blocklist', data);
   
   // Wait for confirmation (security operation)
-  await tx.wait();
+  const receipt = await waitForConfirmation(submitted);
   
   return {
-    txHash: tx.hash,
-    address,
+    ...summarizeReceipt(submitted, receipt),
+    address: data.address,
     confirmed: true
   };
 }
 
-async function executeAddToBlocklistBatch(data: any): Promise<any> {
-  const { addresses, reasons } = data;
-  
-  const tx = await contract.addToBlocklistBatch(addresses, reasons);
+async function executeAddToBlocklistBatch(jobId: string, data: any): Promise<any> {
+  const submitted = await submitJob(jobId, 'add-to-blocklist-batch', data);
   
   // Wait for confirmation (security operation)
-  await tx.wait();
+  const receipt = await waitForConfirmation(submitted);
   
   return {
-    txHash: tx.hash,
-    count: addresses.length,
+    ...summarizeReceipt(submitted, receipt),
+    count: data.addresses.length,
     confirmed: true
   };
 }
 
-async function executeRemoveFromBlocklist(data: any): Promise<any> {
-  const { address } = data;
-  
-  const tx = await contract.removeFromBlocklist(address);
+async function executeRemoveFromBlocklist(jobId: string, data: any): Promise<any> {
+  const submitted = await submitJob(jobId, 'remove-from-blocklist', data);
   
   // Wait for confirmation (security operation)
-  await tx.wait();
+  const receipt = await waitForConfirmation(submitted);
   
   return {
-    txHash: tx.hash,
-    address,
+    ...summarizeReceipt(submitted, receipt),
+    address: data.address,
     confirmed: true
   };
 }
 
-async function executeWithdrawFees(): Promise<any> {
-  const tx = await contract.withdrawPlatformFees();
+async function executeWithdrawFees(jobId: string): Promise<any> {
+  const submitted = await submitJob(jobId, 'withdraw-fees', {});
   
   // Wait for confirmation (financial operation)
-  await tx.wait();
+  const receipt = await waitForConfirmation(submitted);
   
   return {
-    txHash: tx.hash,
+    ...summarizeReceipt(submitted, receipt),
     confirmed: true
   };
 }
 
-async function executeArchiveRaffles(data: any): Promise<any> {
-  const { raffleIds } = data;
-  
-  const tx = await contract.archiveRaffles(raffleIds);
-  
-  // Wait for confirmation to prevent nonce collision
-  await tx.wait();
+async function executeArchiveRaffles(jobId: string, data: any): Promise<any> {
+  const submitted = await submitJob(jobId, 'archive-raffles', data);
+  const receipt = await waitForConfirmation(submitted);
   
   return {
-    txHash: tx.hash,
-    count: raffleIds.length
+    ...summarizeReceipt(submitted, receipt),
+    count: data.raffleIds.length
   };
 }
 
 /**
- * Start processing both queues
+ * Periodic nonce gap check
+ * A nonce allocated but never broadcast blocks every later tx in the mempool
+ */
+let nonceGapTimer: NodeJS.Timeout | undefined;
+
+async function checkNonceGaps(): Promise<void> {
+  for (const wallet of getWallets()) {
+    try {
+      const report = await wallet.nonceManager.detectGaps();
+      
+      if (report.gaps.length === 0) {
+        continue;
+      }
+      
+      logger.warn('[TxWorker] ⚠️  Nonce gaps detected', { wallet: wallet.id, ...report });
+      
+      if (TX_WORKER_CONFIG.nonceGapAutofill) {
+        await wallet.nonceManager.fillGaps(wallet.signer);
+      }
+    } catch (error: any) {
+      logger.error('[TxWorker] Nonce gap check failed', {
+        wallet: wallet.id,
+        error: error.message
+      });
+    }
+  }
+}
+
+/**
+ * Main queue jobs only reach 'failed' when Bull aborts them (job timeout)
+ * - The handler keeps running, so the retry move is claimed against it
+ * - The retry resumes the tracked broadcast instead of sending a second tx
+ */
+async function handleMainQueueAbort(job: Job<TransactionJob>, error: Error): Promise<void> {
+  try {
+    const classified = await classifyError(error);
+    
+    if (!classified.retryable || !(await claimMainQueueOutcome(job))) {
+      return;
+    }
+    
+    const failure = toClassifiedError(error, classified);
+    await moveToRetryQueue(job.data.type, job.data, job.id, failure.message);
+    
+    await notifyJobEvent('job.retrying', job, {
+      jobId: job.id.toString(),
+      queue: 'main',
+      retrying: true,
+      error: failure.message
+    });
+  } catch (moveError: any) {
+    logger.error('[TxWorker] Failed to move aborted main queue job to retry', {
+      jobId: job.id,
+      error: moveError.message
+    });
+  }
+}
+
+/**
+ * Start processing the queues of every wallet lane
+ * Wallet pool must be initialized (nonces synced) before calling (see index.ts)
  */
 export function startTransactionWorker(): void {
+  const lanes = getTxLanes();
+  
   logger.info('[TxWorker] Starting transaction worker', {
-    concurrency: 1,
-    mainQueue: 'relayer-tx-main',
-    retryQueue: 'relayer-tx-retry'
+    concurrency: TX_WORKER_CONFIG.concurrency,
+    lanes: lanes.map(lane => lane.walletId)
   });
   
-  // Process main queue (concurrency=1, no nonce collision)
-  txQueue.process(1, processMainQueueJob);
+  for (const lane of lanes) {
+    // Process main queue (explicit nonces - concurrent jobs cannot collide)
+    lane.mainQueue.process(TX_WORKER_CONFIG.concurrency, processMainQueueJob);
+    
+    // Process retry queue (same nonce sequence as its main queue)
+    lane.retryQueue.process(TX_WORKER_CONFIG.concurrency, processRetryQueueJob);
+    
+    lane.mainQueue.on('failed', (job, error) => void handleMainQueueAbort(job, error));
+  }
   
-  // Process retry queue (concurrency=1, same reason)
-  txRetryQueue.process(1, processRetryQueueJob);
+  nonceGapTimer = setInterval(() => void checkNonceGaps(), TX_WORKER_CONFIG.nonceGapCheckIntervalMs);
   
   logger.info('[TxWorker] ✅ Transaction worker started successfully');
 }
@@ -359,10 +676,11 @@ export function startTransactionWorker(): void {
 export async function stopTransactionWorker(): Promise<void> {
   logger.info('[TxWorker] Stopping transaction worker...');
   
-  await Promise.all([
-    txQueue.close(),
-    txRetryQueue.close()
-  ]);
+  clearInterval(nonceGapTimer);
+  
+  await Promise.all(
+    getTxLanes().flatMap(lane => [lane.mainQueue.close(), lane.retryQueue.close()])
+  );
   
   logger.info('[TxWorker] ✅ Transaction worker stopped gracefully');
 }
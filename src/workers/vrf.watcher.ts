@@ -0,0 +1,324 @@
+/**
+ * VRF Watcher - Retries randomness for raffles stuck in DRAWING
+ *
+ * Runs every VRF_WATCHER_INTERVAL_MS:
+ * 1. scanRaffles() for raffles in DRAWING (executeRaffle() sent, VRF callback pending)
+ * 2. getRaffleVRFRequestId() each one; the request block comes from the indexed
+ *    RandomnessRequested / RandomnessRetried event (first sighting when not indexed)
+ * 3. Pending for VRF_STUCK_BLOCKS blocks or more → VRF_REQUEST_STUCK warning and a
+ *    retry-randomness job, unless the previous retry job is still in flight
+ * 4. After VRF_MAX_RETRIES retries → VRF_RETRY_EXHAUSTED critical, no more retries
+ *
+ * STATE (Redis, relayer:vrf:raffle:<raffleId>):
+ * - Current VRF request id, its block and the retries sent so far
+ * - Dropped once the raffle leaves DRAWING (callback arrived)
+ * - Each retry is claimed per (raffle, attempt) with SET NX, so several
+ *   relayer instances enqueue it once
+ */
+
+import { VRF_WATCHER_CONFIG, EXECUTOR_CONFIG } from '../config/app.config.js';
+import { contract, provider } from '../index.js';
+import { enqueueTransaction } from '../queues/tx.queue.js';
+import { getJobStatus } from '../queues/job.lookup.js';
+import { findEvents } from '../indexer/event.store.js';
+import { redis, redisKey } from '../utils/redis.js';
+import { RaffleStatus, scanRafflesByStatus } from '../utils/raffle.js';
+import * as alerting from '../monitoring/alerting.js';
+import logger from '../utils/logger.js';
+
+export interface PendingRandomness {
+  raffleId: string;
+  vrfRequestId: string;
+  requestedBlock: number;
+  blockSource: 'event' | 'first-seen';
+  retries: number;                      // retry-randomness jobs enqueued for this raffle
+  lastRetryJobId?: string;
+  lastRetryAt?: string;
+}
+
+export interface VrfWatcherDecision {
+  raffleId: string;
+  vrfRequestId: string;
+  pendingBlocks: number;
+  outcome: 'enqueued' | 'retry-in-flight' | 'exhausted' | 'error';
+  jobId?: string;
+  error?: string;
+}
+
+export interface VrfWatcherScanReport {
+  startedAt: string;
+  finishedAt?: string;
+  headBlock?: number;
+  drawing: number;
+  stuck: number;
+  decisions: VrfWatcherDecision[];
+  error?: string;
+}
+
+const WATCHED_KEY = redisKey('vrf', 'watched');
+
+let timer: NodeJS.Timeout | undefined;
+let scanInProgress = false;
+let lastScan: VrfWatcherScanReport | undefined;
+
+function stateKey(raffleId: string): string {
+  return redisKey('vrf', 'raffle', raffleId);
+}
+
+async function loadState(raffleId: string): Promise<PendingRandomness | undefined> {
+  const raw = await redis.get(stateKey(raffleId));
+  return raw ? JSON.parse(raw) as PendingRandomness : undefined;
+}
+
+async function saveState(state: PendingRandomness): Promise<void> {
+  await redis.multi()
+    .set(stateKey(state.raffleId), JSON.stringify(state))
+    .sadd(WATCHED_KEY, state.raffleId)
+    .exec();
+}
+
+/**
+ * Block of the event that issued this VRF request (undefined when not indexed)
+ */
+async function findRequestBlock(raffleId: string, vrfRequestId: string): Promise<number | undefined> {
+  const events = await findEvents({ name: ['RandomnessRequested', 'RandomnessRetried'], raffleId, limit: 10 });
+  const request = events.find(event => (event.args.vrfRequestId ?? event.args.newVrfRequestId) === vrfRequestId);
+
+  return request?.blockNumber;
+}
+
+/**
+ * Current VRF request of a DRAWING raffle (state reset when the request id changed)
+ */
+async function trackRequest(raffleId: string, headBlock: number): Promise<PendingRandomness> {
+  const vrfRequestId = (await contract.getRaffleVRFRequestId(raffleId)).toString();
+  const state = await loadState(raffleId);
+
+  if (state && state.vrfRequestId === vrfRequestId) {
+    return state;
+  }
+
+  const eventBlock = await findRequestBlock(raffleId, vrfRequestId);
+  const tracked: PendingRandomness = {
+    raffleId,
+    vrfRequestId,
+    requestedBlock: eventBlock ?? headBlock,
+    blockSource: eventBlock !== undefined ? 'event' : 'first-seen',
+    retries: state?.retries ?? 0,
+    lastRetryJobId: state?.lastRetryJobId,
+    lastRetryAt: state?.lastRetryAt
+  };
+
+  await saveState(tracked);
+  return tracked;
+}
+
+/**
+ * True while the last retry job is queued, running or waiting in the retry queue
+ */
+async function retryInFlight(state: PendingRandomness): Promise<boolean> {
+  if (!state.lastRetryJobId) {
+    return false;
+  }
+
+  const report = await getJobStatus(state.lastRetryJobId);
+  return report !== null && ['queued', 'processing', 'retrying'].includes(report.state);
+}
+
+/**
+ * Handle one raffle pending for VRF_STUCK_BLOCKS or more
+ */
+async function handleStuckRaffle(state: PendingRandomness, pendingBlocks: number): Promise<VrfWatcherDecision> {
+  const decision = { raffleId: state.raffleId, vrfRequestId: state.vrfRequestId, pendingBlocks };
+
+  if (await retryInFlight(state)) {
+    return { ...decision, outcome: 'retry-in-flight', jobId: state.lastRetryJobId };
+  }
+
+  if (state.retries >= VRF_WATCHER_CONFIG.maxRetries) {
+    void alerting.sendCritical('VRF_RETRY_EXHAUSTED', {
+      ...decision,
+      retries: state.retries,
+      lastRetryJobId: state.lastRetryJobId
+    }, `VRF_RETRY_EXHAUSTED:${state.raffleId}`);
+
+    return { ...decision, outcome: 'exhausted' };
+  }
+
+  // One instance per attempt
+  const claimKey = redisKey('vrf', 'retry-claim', state.raffleId, state.retries + 1);
+  if (!(await redis.set(claimKey, state.vrfRequestId, 'EX', 7 * 24 * 3600, 'NX'))) {
+    return { ...decision, outcome: 'retry-in-flight' };
+  }
+
+  void alerting.sendWarning('VRF_REQUEST_STUCK', {
+    ...decision,
+    retry: state.retries + 1,
+    maxRetries: VRF_WATCHER_CONFIG.maxRetries
+  }, `VRF_REQUEST_STUCK:${state.raffleId}:${state.vrfRequestId}`);
+
+  try {
+    const job = await enqueueTransaction('retry-randomness', {
+      type: 'retry-randomness',
+      raffleId: state.raffleId,
+      automatic: true
+    });
+
+    await saveState({
+      ...state,
+      retries: state.retries + 1,
+      lastRetryJobId: job.id.toString(),
+      lastRetryAt: new Date().toISOString()
+    });
+
+    logger.warn('[VrfWatcher] 🔁 VRF callback overdue - randomness retry enqueued', {
+      ...decision,
+      retry: state.retries + 1,
+      jobId: job.id
+    });
+
+    return { ...decision, outcome: 'enqueued', jobId: job.id.toString() };
+
+  } catch (error: any) {
+    // Release the claim so the next scan can try again
+    await redis.del(claimKey);
+
+    logger.error('[VrfWatcher] ❌ Failed to enqueue randomness retry', {
+      ...decision,
+      error: error.message
+    });
+
+    return { ...decision, outcome: 'error', error: error.message };
+  }
+}
+
+/**
+ * Forget raffles that left DRAWING since the last scan
+ */
+async function dropResolved(drawingIds: Set<string>): Promise<void> {
+  const watched = await redis.smembers(WATCHED_KEY);
+
+  for (const raffleId of watched.filter(id => !drawingIds.has(id))) {
+    const state = await loadState(raffleId);
+
+    if (state && state.retries > 0) {
+      logger.info('[VrfWatcher] ✅ Randomness delivered after retry', {
+        raffleId,
+        retries: state.retries
+      });
+    }
+
+    await redis.multi().del(stateKey(raffleId)).srem(WATCHED_KEY, raffleId).exec();
+  }
+}
+
+/**
+ * Run one scan (exported for manual triggering)
+ */
+export async function runVrfWatcherScan(): Promise<VrfWatcherScanReport> {
+  const report: VrfWatcherScanReport = {
+    startedAt: new Date().toISOString(),
+    drawing: 0,
+    stuck: 0,
+    decisions: []
+  };
+
+  try {
+    const headBlock = await provider.getBlockNumber();
+    const nextRaffleId: bigint = await contract.nextRaffleId();
+    const { ids } = await scanRafflesByStatus(contract, nextRaffleId, RaffleStatus.DRAWING, EXECUTOR_CONFIG.scanBatchSize);
+
+    report.headBlock = headBlock;
+    report.drawing = ids.length;
+
+    for (const id of ids) {
+      const state = await trackRequest(id.toString(), headBlock);
+      const pendingBlocks = headBlock - state.requestedBlock;
+
+      if (pendingBlocks < VRF_WATCHER_CONFIG.stuckBlocks) {
+        continue;
+      }
+
+      report.stuck++;
+      report.decisions.push(await handleStuckRaffle(state, pendingBlocks));
+    }
+
+    await dropResolved(new Set(ids.map(id => id.toString())));
+
+  } catch (error: any) {
+    report.error = error.message;
+    logger.error('[VrfWatcher] Scan failed', {
+      error: error.message,
+      code: error.code
+    });
+  }
+
+  report.finishedAt = new Date().toISOString();
+  lastScan = report;
+
+  return report;
+}
+
+/**
+ * Scheduled tick - skips while the previous scan is running
+ */
+async function tick(): Promise<void> {
+  if (scanInProgress) {
+    return;
+  }
+
+  scanInProgress = true;
+  try {
+    await runVrfWatcherScan();
+  } finally {
+    scanInProgress = false;
+  }
+}
+
+/**
+ * Watcher status and the raffles it is tracking
+ */
+export async function getVrfWatcherState() {
+  const watched = await redis.smembers(WATCHED_KEY);
+  const pending = (await Promise.all(watched.map(loadState)))
+    .filter((state): state is PendingRandomness => state !== undefined);
+
+  return {
+    enabled: VRF_WATCHER_CONFIG.enabled,
+    running: timer !== undefined,
+    stuckBlocks: VRF_WATCHER_CONFIG.stuckBlocks,
+    maxRetries: VRF_WATCHER_CONFIG.maxRetries,
+    scanInProgress,
+    pending,
+    lastScan
+  };
+}
+
+/**
+ * Start periodic scans (first scan runs immediately)
+ */
+export function startVrfWatcher(): void {
+  if (!VRF_WATCHER_CONFIG.enabled) {
+    logger.info('[VrfWatcher] VRF watcher disabled (VRF_WATCHER_ENABLED=false)');
+    return;
+  }
+
+  timer = setInterval(() => void tick(), VRF_WATCHER_CONFIG.intervalMs);
+  void tick();
+
+  logger.info('[VrfWatcher] ✅ VRF watcher started', {
+    stuckBlocks: VRF_WATCHER_CONFIG.stuckBlocks,
+    maxRetries: VRF_WATCHER_CONFIG.maxRetries
+  });
+}
+
+/**
+ * Stop periodic scans
+ */
+export function stopVrfWatcher(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+    logger.info('[VrfWatcher] VRF watcher stopped');
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Webhook Worker - Delivers signed job events to callback URLs
+ *
+ * - POST JSON payload, 2xx = delivered
+ * - Non-2xx / network error / timeout → Bull retries with backoff
+ * - Per-request callback URLs are re-checked before each attempt, the
+ *   request connects to the checked address (no second DNS lookup) and
+ *   redirects are not followed (see utils/callback-target.ts)
+ * - Every attempt (success or failure) is written to the delivery log
+ */
+
+import http from 'http';
+import https from 'https';
+import type { LookupAddress } from 'dns';
+import { Job } from 'bull';
+import { WEBHOOK_CONFIG } from '../config/app.config.js';
+import {
+  webhookQueue,
+  signPayload,
+  recordDelivery,
+  WebhookDelivery
+} from '../queues/webhook.queue.js';
+import { resolveCallbackTarget, pinnedLookup } from '../utils/callback-target.js';
+import logger from '../utils/logger.js';
+
+/**
+ * Receiver answered with a non-2xx status
+ */
+export class WebhookDeliveryError extends Error {
+  constructor(readonly httpStatus: number) {
+    super(`Receiver responded with HTTP ${httpStatus}`);
+    this.name = 'WebhookDeliveryError';
+  }
+}
+
+/**
+ * POST a body and resolve with the response status (redirects are not followed)
+ * With an address, the connection goes there instead of resolving the host again
+ */
+function post(url: string, headers: Record<string, string>, body: string, address?: LookupAddress): Promise<number> {
+  const target = new URL(url);
+
+  return new Promise((resolve, reject) => {
+    const request = (target.protocol === 'https:' ? https : http).request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+      lookup: address ? pinnedLookup(address) : undefined,
+      signal: AbortSignal.timeout(WEBHOOK_CONFIG.timeoutMs)
+    }, response => {
+      // Drain - only the status matters
+      response.resume();
+      response.on('end', () => resolve(response.statusCode ?? 0));
+      response.on('error', reject);
+    });
+
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+async function processWebhookDelivery(job: Job<WebhookDelivery>): Promise<any> {
+  const { url, payload } = job.data;
+  const attempt = job.attemptsMade + 1;
+  const isFinalAttempt = attempt >= (job.opts.attempts || WEBHOOK_CONFIG.maxAttempts);
+
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  const logBase = {
+    deliveryId: payload.id,
+    event: payload.event,
+    jobId: payload.job.jobId,
+    url,
+    attempt
+  };
+
+  try {
+    const target = url === WEBHOOK_CONFIG.globalUrl ? {} : await resolveCallbackTarget(url);
+    if (target.refusal) {
+      throw new Error(`Callback target refused: ${target.refusal}`);
+    }
+
+    const httpStatus = await post(url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'rifast-relayer-webhooks',
+      'X-Relayer-Event': payload.event,
+      'X-Relayer-Delivery': payload.id,
+      'X-Relayer-Timestamp': timestamp.toString(),
+      'X-Relayer-Signature': signPayload(body, timestamp)
+    }, body, target.address);
+
+    if (httpStatus < 200 || httpStatus > 299) {
+      throw new WebhookDeliveryError(httpStatus);
+    }
+
+    await recordDelivery({
+      ...logBase,
+      status: 'delivered',
+      httpStatus,
+      timestamp: new Date().toISOString()
+    });
+
+    logger.info('[WebhookWorker] ✅ Webhook delivered', {
+      ...logBase,
+      httpStatus
+    });
+
+    return { delivered: true, httpStatus };
+
+  } catch (error: any) {
+    await recordDelivery({
+      ...logBase,
+      status: isFinalAttempt ? 'exhausted' : 'failed',
+      httpStatus: error instanceof WebhookDeliveryError ? error.httpStatus : undefined,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    });
+
+    if (isFinalAttempt) {
+      logger.error('[WebhookWorker] 🚨 Webhook delivery EXHAUSTED', {
+        ...logBase,
+        error: error.message
+      });
+    } else {
+      logger.warn('[WebhookWorker] Webhook delivery failed, will retry', {
+        ...logBase,
+        error: error.message
+      });
+    }
+
+    // Re-throw to trigger Bull's retry mechanism
+    throw error;
+  }
+}
+
+/**
+ * Start delivering webhooks
+ */
+export function startWebhookWorker(): void {
+  if (!WEBHOOK_CONFIG.enabled) {
+    logger.info('[WebhookWorker] Webhooks disabled (WEBHOOK_SECRET not set)');
+    return;
+  }
+
+  // Deliveries are independent - a few in parallel is safe
+  webhookQueue.process(5, processWebhookDelivery);
+
+  logger.info('[WebhookWorker] ✅ Webhook worker started', {
+    globalUrl: WEBHOOK_CONFIG.globalUrl || 'none (per-request only)',
+    maxAttempts: WEBHOOK_CONFIG.maxAttempts
+  });
+}
+
+/**
+ * Graceful shutdown
+ */
+export async function stopWebhookWorker(): Promise<void> {
+  await webhookQueue.close();
+  logger.info('[WebhookWorker] ✅ Webhook worker stopped');
+}
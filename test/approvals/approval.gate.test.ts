@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.APPROVERS = JSON.stringify([
+    { name: 'alice', key: 'alice-approver-key-0123456789abcdef' },
+    { name: 'bob', key: 'bob-approver-key-0123456789abcdef00' }
+  ]);
+  process.env.APPROVAL_DEFAULT_THRESHOLD = '1';
+});
+
+import { respondWithProposal } from '../../src/approvals/approval.gate.js';
+import { mockRequest, mockResponse } from '../support/http.js';
+
+const backend = { name: 'backend', scopes: ['system:admin'] as const };
+
+async function propose(headers: Record<string, string> = {}) {
+  const response = mockResponse();
+  await respondWithProposal(mockRequest({ apiClient: backend, headers }), response.res, 'pause-contract', { type: 'pause-contract' });
+  return response;
+}
+
+describe('respondWithProposal()', () => {
+  it('answers 202 with the proposal when no approver key is sent', async () => {
+    const response = await propose();
+
+    expect(response.statusCode).toBe(202);
+    expect(response.body).toMatchObject({ approvalRequired: true, threshold: 1, approvals: [] });
+  });
+
+  it('enqueues at once when the proposer key meets the threshold', async () => {
+    const response = await propose({ 'X-Approver-Key': 'bob-approver-key-0123456789abcdef00' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toMatchObject({ success: true, jobId: expect.anything() });
+  });
+
+  it('refuses an approver key that matches nobody', async () => {
+    const response = await propose({ 'X-Approver-Key': 'not-an-approver-key-0123456789abcd' });
+
+    expect(response.statusCode).toBe(403);
+    expect(response.body.error).toBe('INVALID_APPROVER_KEY');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.APPROVERS = JSON.stringify([
+    { name: 'alice', key: 'alice-approver-key-0123456789abcdef' },
+    { name: 'bob', key: 'bob-approver-key-0123456789abcdef00' },
+    { name: 'carol', key: 'carol-approver-key-0123456789abcdef' }
+  ]);
+});
+
+import {
+  identifyApprover,
+  requiresApproval,
+  createProposal,
+  approveProposal,
+  rejectProposal,
+  getProposal,
+  listProposals
+} from '../../src/approvals/approval.manager.js';
+import { redis } from '../../src/utils/redis.js';
+import { findQueue } from '../support/bull.js';
+
+const proposer = { client: 'backend', ip: '203.0.113.10' };
+const pause = { type: 'pause-contract' };
+
+describe('approval manager', () => {
+  it('identifies approvers by key only', () => {
+    expect(identifyApprover('bob-approver-key-0123456789abcdef00')).toBe('bob');
+    expect(identifyApprover('bob-approver-key-0123456789abcdef01')).toBeUndefined();
+    expect(identifyApprover('')).toBeUndefined();
+    expect(identifyApprover(undefined)).toBeUndefined();
+  });
+
+  it('gates the configured actions, never emergency-pause', () => {
+    expect(requiresApproval('pause-contract')).toBe(true);
+    expect(requiresApproval('withdraw-fees')).toBe(true);
+    expect(requiresApproval('emergency-pause')).toBe(false);
+    expect(requiresApproval('create-raffle')).toBe(false);
+  });
+
+  it('stores a pending proposal without enqueuing', async () => {
+    const proposal = await createProposal('pause-contract', pause, proposer);
+
+    expect(proposal).toMatchObject({ status: 'pending', threshold: 2, approvals: [], proposedBy: 'client:backend' });
+    expect(findQueue('relayer-tx-main').jobs.size).toBe(0);
+    expect(await getProposal(proposal.id)).toEqual(proposal);
+  });
+
+  it('enqueues the job once the threshold is reached', async () => {
+    const proposal = await createProposal('pause-contract', pause, { ...proposer, approver: 'alice' });
+    expect(proposal.approvals).toEqual(['alice']);
+
+    const approved = await approveProposal(proposal.id, 'bob', '203.0.113.11', 'checked');
+
+    expect(approved.status).toBe('executed');
+    expect(approved.history.map(entry => entry.event)).toEqual(['proposed', 'approved', 'approved', 'executed']);
+    expect(await findQueue('relayer-tx-main').getJob(approved.jobId!)).toMatchObject({ data: pause });
+  });
+
+  it('counts each approver once', async () => {
+    const proposal = await createProposal('pause-contract', pause, { ...proposer, approver: 'alice' });
+
+    await expect(approveProposal(proposal.id, 'alice', '203.0.113.10')).rejects.toMatchObject({
+      code: 'ALREADY_APPROVED',
+      status: 409
+    });
+    expect((await getProposal(proposal.id))!.status).toBe('pending');
+  });
+
+  it('closes a proposal on the first rejection', async () => {
+    const proposal = await createProposal('withdraw-fees', { type: 'withdraw-fees' }, { ...proposer, approver: 'alice' });
+
+    const rejected = await rejectProposal(proposal.id, 'carol', '203.0.113.12', 'not now');
+
+    expect(rejected).toMatchObject({ status: 'rejected', rejectedBy: 'carol' });
+    await expect(approveProposal(proposal.id, 'bob', '203.0.113.11')).rejects.toMatchObject({ code: 'PROPOSAL_CLOSED' });
+    expect(findQueue('relayer-tx-main').jobs.size).toBe(0);
+  });
+
+  it('refuses approvals after the proposal expired', async () => {
+    const proposal = await createProposal('pause-contract', pause, proposer);
+    const key = `relayer:approvals:proposal:${proposal.id}`;
+    await redis.set(key, JSON.stringify({ ...proposal, expiresAt: new Date(Date.now() - 1000).toISOString() }));
+
+    expect((await getProposal(proposal.id))!.status).toBe('expired');
+    await expect(approveProposal(proposal.id, 'bob', '203.0.113.11')).rejects.toMatchObject({ code: 'PROPOSAL_CLOSED' });
+  });
+
+  it('reports unknown and locked proposals', async () => {
+    const proposal = await createProposal('pause-contract', pause, proposer);
+    await redis.set(`relayer:approvals:lock:${proposal.id}`, 'other');
+
+    await expect(approveProposal('missing', 'bob', '203.0.113.11')).rejects.toMatchObject({ code: 'PROPOSAL_NOT_FOUND', status: 404 });
+    await expect(approveProposal(proposal.id, 'bob', '203.0.113.11')).rejects.toMatchObject({ code: 'PROPOSAL_BUSY' });
+  });
+
+  it('lists newest first, filtered by status', async () => {
+    const first = await createProposal('pause-contract', pause, proposer);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = await createProposal('archive-raffles', { type: 'archive-raffles' }, proposer);
+    await rejectProposal(first.id, 'bob', '203.0.113.11');
+
+    expect((await listProposals({ limit: 10 })).map(proposal => proposal.id)).toEqual([second.id, first.id]);
+    expect((await listProposals({ status: 'rejected', limit: 10 })).map(proposal => proposal.id)).toEqual([first.id]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  createClient,
+  rotateClient,
+  revokeClient,
+  listClients,
+  checkApiKey,
+  parseScopes
+} from '../../src/auth/key.registry.js';
+import { redis } from '../../src/utils/redis.js';
+
+const HOUR = 3600 * 1000;
+
+describe('API key registry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('creates a client whose key resolves to its scopes', async () => {
+    const { client, key } = await createClient({ name: 'backend', scopes: ['read', 'raffle:write'], rateLimitPerMinute: 60 });
+
+    expect(key).toMatch(/^rly_[A-Za-z0-9_-]{43}$/);
+    expect(client.keyPrefix).toBe(key.slice(0, 12));
+    expect(await checkApiKey(key)).toEqual({
+      ok: true,
+      client: { name: 'backend', scopes: ['read', 'raffle:write'], rateLimitPerMinute: 60 }
+    });
+    expect(await checkApiKey(`${key}x`)).toEqual({ ok: false, reason: 'unknown' });
+  });
+
+  it('never stores the key itself', async () => {
+    const { key } = await createClient({ name: 'backend', scopes: ['read'] });
+
+    const stored = JSON.stringify([await redis.hgetall('relayer:api-clients'), await redis.hgetall('relayer:api-clients:by-hash')]);
+
+    expect(stored).not.toContain(key);
+  });
+
+  it('refuses duplicate, malformed and legacy client names', async () => {
+    await createClient({ name: 'backend', scopes: ['read'] });
+
+    await expect(createClient({ name: 'backend', scopes: ['read'] })).rejects.toThrow(/already exists/);
+    await expect(createClient({ name: 'Back End', scopes: ['read'] })).rejects.toThrow(/Client name/);
+    await expect(createClient({ name: 'legacy', scopes: ['read'] })).rejects.toThrow(/Client name/);
+  });
+
+  it('keeps the previous key valid for the grace period after a rotation', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { key: oldKey } = await createClient({ name: 'backend', scopes: ['read'] });
+
+    const { key: newKey } = await rotateClient('backend', HOUR);
+
+    expect((await checkApiKey(oldKey)).ok).toBe(true);
+    expect((await checkApiKey(newKey)).ok).toBe(true);
+
+    vi.setSystemTime(Date.now() + HOUR + 1);
+
+    expect(await checkApiKey(oldKey)).toEqual({ ok: false, reason: 'unknown' });
+    expect((await checkApiKey(newKey)).ok).toBe(true);
+  });
+
+  it('drops the old key at once without a grace period, and older keys on the next rotation', async () => {
+    const { key: first } = await createClient({ name: 'backend', scopes: ['read'] });
+    const { key: second } = await rotateClient('backend', 0);
+
+    expect(await checkApiKey(first)).toEqual({ ok: false, reason: 'unknown' });
+
+    await rotateClient('backend', HOUR);
+    await rotateClient('backend', HOUR);
+
+    expect(await checkApiKey(second)).toEqual({ ok: false, reason: 'unknown' });
+  });
+
+  it('revokes every key of a client and keeps the record', async () => {
+    const { key: oldKey } = await createClient({ name: 'backend', scopes: ['read'] });
+    const { key: newKey } = await rotateClient('backend', HOUR);
+
+    await revokeClient('backend');
+
+    expect((await checkApiKey(oldKey)).ok).toBe(false);
+    expect((await checkApiKey(newKey)).ok).toBe(false);
+    expect((await listClients()).map(client => [client.name, client.revokedAt !== undefined])).toEqual([['backend', true]]);
+    await expect(rotateClient('backend', 0)).rejects.toThrow(/not found or revoked/);
+  });
+
+  it('reports expired keys', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { key } = await createClient({ name: 'partner', scopes: ['read'], expiresAt: new Date(Date.now() + HOUR).toISOString() });
+
+    expect((await checkApiKey(key)).ok).toBe(true);
+
+    vi.setSystemTime(Date.now() + HOUR);
+
+    expect(await checkApiKey(key)).toEqual({ ok: false, reason: 'expired', name: 'partner' });
+  });
+
+  it('parses scope lists', () => {
+    expect(parseScopes('read, raffle:write,read')).toEqual(['read', 'raffle:write']);
+    expect(() => parseScopes('read,admin')).toThrow(/unknown: admin/);
+    expect(() => parseScopes(' , ')).toThrow(/Scopes must be/);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+
+const provider = vi.hoisted(() => ({
+  getTransaction: vi.fn(),
+  call: vi.fn()
+}));
+
+vi.mock('../../src/index.js', async () => {
+  const { readFileSync } = await import('fs');
+  const { abi } = JSON.parse(readFileSync('abi/RifasPlatform.json', 'utf-8'));
+  return { contract: { interface: new ethers.Interface(abi) }, signer: { provider } };
+});
+
+import {
+  classifyError,
+  decodeRevertData,
+  toClassifiedError,
+  parseClassifiedMessage
+} from '../../src/blockchain/error.classifier.js';
+import { contract } from '../../src/index.js';
+
+const account = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+function encodeError(name: string, args: unknown[] = []): string {
+  return contract.interface.encodeErrorResult(name, args);
+}
+
+describe('decodeRevertData()', () => {
+  it('decodes custom errors, revert strings and panics', () => {
+    expect(decodeRevertData(encodeError('OwnableUnauthorizedAccount', [account]))).toMatchObject({
+      name: 'OwnableUnauthorizedAccount',
+      reason: `OwnableUnauthorizedAccount(${account})`
+    });
+    expect(decodeRevertData(encodeError('Error', ['Raffle not expired']))!.reason).toBe('Raffle not expired');
+    expect(decodeRevertData(encodeError('Panic', [0x11]))!.reason).toBe('Panic(17)');
+  });
+
+  it('ignores empty and unknown data', () => {
+    expect(decodeRevertData('0x')).toBeUndefined();
+    expect(decodeRevertData(undefined)).toBeUndefined();
+    expect(decodeRevertData('0xdeadbeef')).toBeUndefined();
+  });
+});
+
+describe('classifyError()', () => {
+  it('sorts provider failures into classes and marks which are retried', async () => {
+    const cases: Array<[any, string, boolean]> = [
+      [{ code: 'INSUFFICIENT_FUNDS', message: 'insufficient funds for gas * price + value' }, 'insufficient-funds', false],
+      [{ code: 'GAS_FEE_ABOVE_CAP', message: 'maxFeePerGas above cap' }, 'gas-cap', false],
+      [{ code: 'NONCE_EXPIRED', message: 'nonce too low' }, 'nonce-conflict', true],
+      [{ message: 'replacement transaction underpriced' }, 'nonce-conflict', true],
+      [{ code: 'TIMEOUT', message: 'wait for transaction timed out' }, 'timeout', true],
+      [{ code: 'ECONNREFUSED', message: 'connect ECONNREFUSED 127.0.0.1:8545' }, 'transient-network', true],
+      [{ message: '429 Too Many Requests' }, 'transient-network', true],
+      [new Error('something odd'), 'unknown', true]
+    ];
+
+    for (const [error, errorClass, retryable] of cases) {
+      expect(await classifyError(error), error.message).toMatchObject({ errorClass, retryable });
+    }
+  });
+
+  it('decodes the revert data of a failed call, wherever the provider put it', async () => {
+    const data = encodeError('EnforcedPause');
+
+    const direct = await classifyError({ code: 'CALL_EXCEPTION', data, message: 'execution reverted' });
+    const nested = await classifyError({ code: 'CALL_EXCEPTION', info: { error: { data } }, message: 'execution reverted' });
+
+    expect(direct).toMatchObject({ errorClass: 'permanent-revert', retryable: false, reason: 'EnforcedPause()' });
+    expect(nested.revert!.name).toBe('EnforcedPause');
+  });
+
+  it('replays a mined revert at its block to recover the reason', async () => {
+    const tx = { to: '0x5FbDB2315678afecb367f032d93F642f64180aa3', from: account, data: '0x', value: 0n, gasLimit: 100000n };
+    provider.getTransaction.mockResolvedValue(tx);
+    provider.call.mockRejectedValue({ data: encodeError('OwnableUnauthorizedAccount', [account]) });
+
+    const classified = await classifyError({ code: 'CALL_EXCEPTION', receipt: { hash: '0xabc', blockNumber: 12 } });
+
+    expect(provider.call).toHaveBeenCalledWith(expect.objectContaining({ to: tx.to, from: account, blockTag: 12 }));
+    expect(classified.reason).toBe(`OwnableUnauthorizedAccount(${account})`);
+  });
+
+  it('keeps a classification made by an earlier layer', async () => {
+    const earlier = toClassifiedError({}, { errorClass: 'gas-cap', retryable: false, reason: 'gas limit above cap', code: 'GAS_LIMIT_ABOVE_CAP' });
+
+    expect(await classifyError(earlier)).toMatchObject({ errorClass: 'gas-cap', retryable: false, reason: 'gas limit above cap' });
+  });
+});
+
+describe('classified messages', () => {
+  it('round-trip class and reason through the stored message', () => {
+    const error = toClassifiedError({ receipt: { hash: '0xabc' } }, { errorClass: 'permanent-revert', retryable: false, reason: 'EnforcedPause()' });
+
+    expect(error.message).toBe('permanent-revert: EnforcedPause()');
+    expect((error as any).receipt).toEqual({ hash: '0xabc' });
+    expect(parseClassifiedMessage(error.message)).toEqual({ errorClass: 'permanent-revert', reason: 'EnforcedPause()' });
+    expect(parseClassifiedMessage('Receiver responded with HTTP 500')).toBeUndefined();
+  });
+});
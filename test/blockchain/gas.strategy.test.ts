@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ethers } from 'ethers';
+
+const provider = vi.hoisted(() => {
+  process.env.GAS_PRICING_MODE = 'eip1559';
+  process.env.GAS_PRIORITY_FEE_GWEI = '2';
+  process.env.GAS_MAX_FEE_GWEI = '50';
+  process.env.GAS_MAX_GAS_LIMIT = '3000000';
+  process.env.GAS_CAPS = JSON.stringify({
+    'create-raffle': { maxFeeGwei: '20', gasLimit: 600000 },
+    'emergency-unpause': { maxFeeGwei: '100' }
+  });
+  process.env.GAS_DEFER_THRESHOLD_GWEI = '10';
+
+  return { getBlock: vi.fn(), getFeeData: vi.fn(async () => ({})) };
+});
+
+vi.mock('../../src/index.js', () => ({ signer: { provider } }));
+
+import { getGasCaps, getFeeParams, enforceGasLimitCap, shouldDefer } from '../../src/blockchain/gas.strategy.js';
+
+const gwei = (value: string) => ethers.parseUnits(value, 'gwei');
+
+function setBaseFee(value: string) {
+  provider.getBlock.mockResolvedValue({ baseFeePerGas: gwei(value) });
+}
+
+describe('gas strategy', () => {
+  beforeEach(() => {
+    provider.getBlock.mockClear();
+  });
+
+  it('reads per-type caps from GAS_CAPS and falls back to the defaults', () => {
+    expect(getGasCaps('create-raffle')).toEqual({ gasLimit: 600000n, maxFee: gwei('20') });
+    expect(getGasCaps('execute-raffle')).toEqual({ gasLimit: 3000000n, maxFee: gwei('50') });
+  });
+
+  it('exempts emergency routes from the default fee cap only', () => {
+    expect(getGasCaps('emergency-pause').maxFee).toBeUndefined();
+    expect(getGasCaps('emergency-unpause').maxFee).toBe(gwei('100'));
+  });
+
+  it('prices with twice the base fee plus the tip under the cap', async () => {
+    setBaseFee('5');
+
+    expect(await getFeeParams('execute-raffle')).toEqual({
+      mode: 'eip1559',
+      type: 2,
+      maxFeePerGas: gwei('12'),
+      maxPriorityFeePerGas: gwei('2'),
+      currentFee: gwei('7')
+    });
+  });
+
+  it('clamps maxFeePerGas to the cap while the current fee fits', async () => {
+    setBaseFee('15');
+
+    const fees = await getFeeParams('create-raffle');
+
+    expect(fees.maxFeePerGas).toBe(gwei('20'));
+    expect(fees.currentFee).toBe(gwei('17'));
+  });
+
+  it('fails before signing when the current fee is above the cap', async () => {
+    setBaseFee('25');
+
+    await expect(getFeeParams('create-raffle')).rejects.toMatchObject({ name: 'GasCapError', code: 'GAS_FEE_ABOVE_CAP' });
+    expect((await getFeeParams('emergency-pause')).maxFeePerGas).toBe(gwei('52'));
+  });
+
+  it('refuses gas limits above the cap', () => {
+    expect(() => enforceGasLimitCap('create-raffle', 600000n)).not.toThrow();
+    expect(() => enforceGasLimitCap('create-raffle', 600001n)).toThrow(expect.objectContaining({ code: 'GAS_LIMIT_ABOVE_CAP' }));
+    expect(() => enforceGasLimitCap('execute-raffle', 600001n)).not.toThrow();
+  });
+
+  it('defers deferrable jobs while the fee is above the threshold', async () => {
+    setBaseFee('9');
+    expect(await shouldDefer('archive-raffles')).toEqual({
+      defer: true,
+      currentFeeGwei: '11.0',
+      thresholdGwei: '10',
+      delayMs: 600000
+    });
+
+    setBaseFee('7');
+    expect((await shouldDefer('withdraw-fees')).defer).toBe(false);
+  });
+
+  it('never defers other job types or reads the fee for them', async () => {
+    setBaseFee('40');
+
+    expect((await shouldDefer('execute-raffle')).defer).toBe(false);
+    expect(provider.getBlock).not.toHaveBeenCalled();
+  });
+});
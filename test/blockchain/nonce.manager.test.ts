@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ethers } from 'ethers';
+import { NonceManager } from '../../src/blockchain/nonce.manager.js';
+import { redis } from '../../src/utils/redis.js';
+
+const ADDRESS = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+/**
+ * Provider answering getTransactionCount from two counters
+ */
+function chain(counts: { latest: number; pending: number }): ethers.Provider {
+  return {
+    getTransactionCount: async (_address: string, tag: 'latest' | 'pending') => counts[tag]
+  } as unknown as ethers.Provider;
+}
+
+describe('NonceManager', () => {
+  let counts: { latest: number; pending: number };
+  let manager: NonceManager;
+
+  beforeEach(() => {
+    counts = { latest: 5, pending: 5 };
+    manager = new NonceManager(ADDRESS, chain(counts));
+  });
+
+  it('refuses to allocate before sync', async () => {
+    await expect(manager.allocate('1')).rejects.toThrow(/not synced/);
+  });
+
+  it('hands out consecutive nonces from the chain pending count', async () => {
+    await manager.sync();
+
+    const nonces = await Promise.all(['1', '2', '3'].map(jobId => manager.allocate(jobId)));
+
+    expect(nonces.sort()).toEqual([5, 6, 7]);
+  });
+
+  it('rolls back the last nonce on release, keeps earlier ones as gaps', async () => {
+    await manager.sync();
+    const first = await manager.allocate('1');
+    const second = await manager.allocate('2');
+
+    expect(await manager.release(second, '2')).toBe(true);
+    expect(await manager.allocate('3')).toBe(second);
+
+    expect(await manager.release(first, '1')).toBe(false);
+    expect((await manager.detectGaps()).gaps).toEqual([first]);
+  });
+
+  it('reports allocated nonces that were never broadcast after the grace period', async () => {
+    await manager.sync();
+    const broadcast = await manager.allocate('1');
+    const stale = await manager.allocate('2');
+    await manager.markBroadcast(broadcast, '1', '0xaaa');
+
+    // Age the second allocation past the 30s grace period
+    const key = `relayer:nonce:${ADDRESS.toLowerCase()}:inflight`;
+    await redis.hset(key, stale.toString(), JSON.stringify({ jobId: '2', allocatedAt: Date.now() - 60_000 }));
+
+    const report = await manager.detectGaps();
+
+    expect(report).toMatchObject({ chainPending: 5, nextNonce: 7, inflight: 2, gaps: [stale] });
+  });
+
+  it('drops mined and unknown in-flight nonces on sync', async () => {
+    await manager.sync();
+    await manager.allocate('1');        // 5 - mined meanwhile
+    const lost = await manager.allocate('2');   // 6 - never reached the node
+
+    counts.latest = 6;
+    counts.pending = 6;
+
+    const result = await manager.sync();
+
+    expect(result).toEqual({ nextNonce: 6, dropped: [lost] });
+    expect(await manager.allocate('3')).toBe(6);
+  });
+
+  it('fills gaps with self-transfers and records them', async () => {
+    await manager.sync();
+    const gap = await manager.allocate('1');
+    await manager.allocate('2');
+    await manager.release(gap, '1');
+
+    const sent: Array<{ nonce?: number; to?: string }> = [];
+    const signer = {
+      sendTransaction: async (tx: { nonce?: number; to?: string }) => {
+        sent.push(tx);
+        return { hash: `0xfill${tx.nonce}` };
+      }
+    } as unknown as ethers.Signer;
+
+    expect(await manager.fillGaps(signer)).toEqual([`0xfill${gap}`]);
+    expect(sent).toEqual([expect.objectContaining({ nonce: gap, to: ADDRESS })]);
+    expect((await manager.detectGaps()).gaps).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.OWNERSHIP_TRANSFER_DELAY_MS = '0';
+});
+
+const { submitContractTransaction } = vi.hoisted(() => ({
+  submitContractTransaction: vi.fn(async () => ({}))
+}));
+
+vi.mock('../../src/index.js', () => ({
+  contract: { owner: async () => '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' },
+  signer: { address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' }
+}));
+
+vi.mock('../../src/blockchain/tx.sender.js', () => ({
+  submitContractTransaction,
+  waitForConfirmation: async () => ({ hash: '0xabc' })
+}));
+
+import { proposeTransfer, confirmTransfer, getPendingProposal } from '../../src/blockchain/ownership.js';
+
+const newOwner = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+describe('ownership transfer', () => {
+  it('refuses a confirmation from the client that proposed the transfer', async () => {
+    const proposal = await proposeTransfer(newOwner, 'backend@203.0.113.10', 'backend');
+
+    await expect(confirmTransfer(proposal.id, 'backend@203.0.113.11', 'backend')).rejects.toMatchObject({
+      code: 'SAME_CLIENT_CONFIRM',
+      status: 403
+    });
+    expect(submitContractTransaction).not.toHaveBeenCalled();
+    expect(await getPendingProposal()).toEqual(proposal);
+  });
+
+  it('sends transferOwnership() when another client confirms', async () => {
+    const proposal = await proposeTransfer(newOwner, 'backend@203.0.113.10', 'backend', 'key rotation');
+
+    const { receipt } = await confirmTransfer(proposal.id, 'ops@203.0.113.11', 'ops');
+
+    expect(receipt.hash).toBe('0xabc');
+    expect(submitContractTransaction).toHaveBeenCalledWith(`ownership-transfer-${proposal.id}`, 'transferOwnership', [newOwner], {
+      jobType: 'transfer-ownership'
+    });
+    expect(await getPendingProposal()).toBeUndefined();
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const contract = vi.hoisted(() => {
+  const statuses = [0, 1, 0, 2, 3, 0];
+
+  return {
+    statuses,
+    nextRaffleId: vi.fn(async () => BigInt(statuses.length)),
+    scanRaffles: vi.fn(async (start: bigint, end: bigint) => {
+      const ids = statuses.slice(Number(start), Number(end)).map((_, index) => start + BigInt(index));
+      return [ids, ids.map(id => BigInt(statuses[Number(id)]))];
+    }),
+    // Raffle 3 was completed and deleted by the contract (reads as zeroes)
+    getRaffle: vi.fn(async (raffleId: bigint) => raffleId === 3n
+      ? { id: 0n, ticketPrice: 0n, maxTickets: 0n, minTickets: 0n, currentTickets: 0n, expiresAt: 0n, status: 0n }
+      : { id: raffleId, ticketPrice: 10n ** 18n, maxTickets: 100n, minTickets: 10n, currentTickets: 7n, expiresAt: 1_700_086_400n, status: BigInt(statuses[Number(raffleId)]) }),
+    hasTicketInRaffle: vi.fn(async (_raffleId: bigint, address: string) => address.toLowerCase().endsWith('c8'))
+  };
+});
+
+vi.mock('../../src/index.js', () => ({ contract }));
+
+import { getRaffleView, hasTicket, listRaffles } from '../../src/blockchain/raffle.reader.js';
+import { getRaffleDetails, listRaffles as listRafflesRoute } from '../../src/controllers/raffle.controller.js';
+import { RAFFLE_READ_CONFIG } from '../../src/config/app.config.js';
+import { RaffleStatus } from '../../src/utils/raffle.js';
+import { mockRequest, mockResponse } from '../support/http.js';
+
+const participant = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+describe('raffle reader', () => {
+  beforeEach(() => {
+    RAFFLE_READ_CONFIG.cacheTtlMs = 5000;
+    for (const read of [contract.nextRaffleId, contract.scanRaffles, contract.getRaffle, contract.hasTicketInRaffle]) {
+      read.mockClear();
+    }
+  });
+
+  it('reads a raffle with its status by name', async () => {
+    expect(await getRaffleView(1n)).toEqual({
+      raffleId: '1',
+      ticketPrice: '1000000000000000000',
+      maxTickets: '100',
+      minTickets: '10',
+      currentTickets: '7',
+      expiresAt: '1700086400',
+      status: 'DRAWING',
+      statusCode: RaffleStatus.DRAWING
+    });
+  });
+
+  it('reports ids never created and deleted raffles as missing', async () => {
+    expect(await getRaffleView(6n)).toBeUndefined();
+    expect(await getRaffleView(3n)).toBeUndefined();
+    expect(contract.getRaffle).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves repeated and concurrent reads from one RPC call', async () => {
+    await Promise.all([getRaffleView(2n), getRaffleView(2n)]);
+    await getRaffleView(2n);
+
+    expect(contract.getRaffle).toHaveBeenCalledTimes(1);
+    expect(contract.nextRaffleId).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads the contract every time with the cache disabled', async () => {
+    RAFFLE_READ_CONFIG.cacheTtlMs = 0;
+
+    await getRaffleView(2n);
+    await getRaffleView(2n);
+
+    expect(contract.getRaffle).toHaveBeenCalledTimes(2);
+  });
+
+  it('caches participation per raffle and address, whatever the case', async () => {
+    expect(await hasTicket(1n, participant)).toBe(true);
+    expect(await hasTicket(1n, participant.toLowerCase())).toBe(true);
+    expect(await hasTicket(2n, '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC')).toBe(false);
+
+    expect(contract.hasTicketInRaffle).toHaveBeenCalledTimes(2);
+  });
+
+  it('pages through raffles of one status by id', async () => {
+    const first = await listRaffles({ startId: 0n, limit: 2, status: RaffleStatus.FILLING, details: false });
+    const second = await listRaffles({ startId: 3n, limit: 2, status: RaffleStatus.FILLING, details: false });
+
+    expect(first).toEqual({
+      nextRaffleId: '6',
+      startId: '0',
+      nextStartId: '3',
+      raffles: [
+        { raffleId: '0', status: 'FILLING', statusCode: 0 },
+        { raffleId: '2', status: 'FILLING', statusCode: 0 }
+      ]
+    });
+    expect(second).toMatchObject({ nextStartId: null, raffles: [{ raffleId: '5' }] });
+  });
+
+  it('returns details for listed raffles, skipping deleted ones', async () => {
+    const page = await listRaffles({ startId: 2n, limit: 5, details: true });
+
+    expect(page.raffles.map(raffle => [raffle.raffleId, raffle.status])).toEqual([['2', 'FILLING'], ['4', 'CANCELLED'], ['5', 'FILLING']]);
+    expect(page.nextStartId).toBeNull();
+  });
+});
+
+describe('GET /raffles', () => {
+  async function list(query: Record<string, string>) {
+    const response = mockResponse();
+    await listRafflesRoute(Object.assign(mockRequest(), { query }), response.res);
+    return response;
+  }
+
+  it('lists a page filtered by status name', async () => {
+    const response = await list({ status: 'drawing', limit: '10' });
+
+    expect(response.body).toMatchObject({ success: true, data: { count: 1, raffles: [{ raffleId: '1', status: 'DRAWING' }] } });
+  });
+
+  it('refuses malformed queries with 400', async () => {
+    const refusals = await Promise.all([list({ startId: '-1' }), list({ limit: '101' }), list({ status: 'OPEN' })]);
+
+    expect(refusals.map(response => [response.statusCode, response.body.error])).toEqual([
+      [400, 'INVALID_START_ID'],
+      [400, 'INVALID_LIMIT'],
+      [400, 'INVALID_STATUS']
+    ]);
+  });
+});
+
+describe('GET /raffles/:raffleId', () => {
+  it('answers 404 for a raffle that does not exist', async () => {
+    const response = mockResponse();
+    await getRaffleDetails(mockRequest({ params: { raffleId: '6' } }), response.res);
+
+    expect([response.statusCode, response.body.error]).toEqual([404, 'RAFFLE_NOT_FOUND']);
+  });
+});
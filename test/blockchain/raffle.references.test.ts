@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../src/index.js', () => ({ contract: {}, provider: {} }));
+
+import {
+  saveRaffleReference,
+  getRaffleReference,
+  getRaffleReferenceId,
+  getRaffleRoutingKey
+} from '../../src/blockchain/raffle.references.js';
+import { storeEvents } from '../../src/indexer/event.store.js';
+import { getRaffleByReference } from '../../src/controllers/raffle.controller.js';
+import { mockRequest, mockResponse } from '../support/http.js';
+
+const created = {
+  raffleId: '7',
+  templateId: '2',
+  referenceId: '9001',
+  ticketPrice: '1000000000000000000',
+  maxTickets: '100',
+  minTickets: '10',
+  expiresAt: '1700086400'
+};
+
+/**
+ * RaffleCreated as the event indexer stores it (raffle created outside the relayer)
+ */
+async function indexRaffleCreated(raffleId: string, referenceId: string) {
+  const { raffleId: _raffleId, ...args } = created;
+
+  await storeEvents([{
+    id: '50-3',
+    name: 'RaffleCreated',
+    blockNumber: 50,
+    blockHash: '0x' + '50'.repeat(32),
+    blockTimestamp: 1_700_000_000,
+    transactionHash: '0x' + 'cd'.repeat(32),
+    logIndex: 3,
+    args: { ...args, contractRaffleId: raffleId, referenceId }
+  }]);
+}
+
+async function lookup(referenceId: string) {
+  const response = mockResponse();
+  await getRaffleByReference(mockRequest({ params: { referenceId } }), response.res);
+  return response;
+}
+
+describe('raffle references', () => {
+  it('resolves a mined create-raffle job both ways', async () => {
+    await saveRaffleReference(created, { jobId: '12', txHash: '0x' + 'ab'.repeat(32), blockNumber: 42 });
+
+    expect(await getRaffleReference('9001')).toMatchObject({ ...created, jobId: '12', blockNumber: 42, source: 'job' });
+    expect(await getRaffleReferenceId('7')).toBe('9001');
+  });
+
+  it('falls back to the indexed RaffleCreated event', async () => {
+    await indexRaffleCreated('8', '9002');
+
+    expect(await getRaffleReference('9002')).toEqual({
+      ...created,
+      raffleId: '8',
+      referenceId: '9002',
+      jobId: undefined,
+      txHash: '0x' + 'cd'.repeat(32),
+      blockNumber: 50,
+      recordedAt: '2023-11-14T22:13:20.000Z',
+      source: 'indexer'
+    });
+    expect(await getRaffleReferenceId('8')).toBe('9002');
+    expect(await getRaffleReference('9003')).toBeUndefined();
+    expect(await getRaffleReferenceId('9')).toBeUndefined();
+  });
+
+  it('routes a raffle by its referenceId, else by its raffleId', async () => {
+    await saveRaffleReference(created, { jobId: '12', txHash: '0x' + 'ab'.repeat(32), blockNumber: 42 });
+
+    expect(await getRaffleRoutingKey({ referenceId: 9001n })).toBe('9001');
+    expect(await getRaffleRoutingKey({ raffleId: 7 })).toBe('9001');
+    expect(await getRaffleRoutingKey({ raffleIds: [7, 8] })).toBe('9001');
+    expect(await getRaffleRoutingKey({ raffleId: 99 })).toBe('99');
+    expect(await getRaffleRoutingKey({})).toBeUndefined();
+  });
+});
+
+describe('GET /raffles/by-reference/:referenceId', () => {
+  it('answers with the reference, 404 when unknown and 400 when malformed', async () => {
+    await indexRaffleCreated('8', '9002');
+
+    const found = await lookup('9002');
+    const unknown = await lookup('9003');
+    const malformed = await lookup('abc');
+
+    expect(found.body).toMatchObject({ success: true, data: { raffleId: '8', source: 'indexer' } });
+    expect([unknown.statusCode, unknown.body.error]).toEqual([404, 'RAFFLE_NOT_FOUND']);
+    expect([malformed.statusCode, malformed.body.error]).toEqual([400, 'INVALID_REFERENCE_ID']);
+  });
+});
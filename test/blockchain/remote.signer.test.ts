@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ethers } from 'ethers';
+import { RemoteSigner, RemoteSignerError } from '../../src/blockchain/remote.signer.js';
+import { startSignerNode, SignerNode } from '../support/signer-node.js';
+
+const RECIPIENT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const transaction = (nonce = 0): ethers.TransactionRequest => ({
+  to: RECIPIENT,
+  nonce,
+  chainId: 31337n,
+  gasLimit: 21000n,
+  maxFeePerGas: 2_000_000_000n,
+  maxPriorityFeePerGas: 1_000_000_000n,
+  value: 1n
+});
+
+describe('RemoteSigner', () => {
+  let node: SignerNode;
+
+  const connect = (options: { authToken?: string; timeoutMs?: number } = {}) =>
+    RemoteSigner.create({ url: node.url, timeoutMs: 2000, ...options }, null);
+
+  beforeEach(async () => {
+    node = await startSignerNode();
+  });
+
+  afterEach(async () => {
+    await node.close();
+  });
+
+  it('signs transactions that recover to the advertised address', async () => {
+    const signer = await connect({ authToken: 'secret' });
+
+    const signed = ethers.Transaction.from(await signer.signTransaction(transaction(7)));
+
+    expect(signer.address).toBe(node.wallet.address);
+    expect(signed).toMatchObject({ from: node.wallet.address, to: RECIPIENT, nonce: 7 });
+    expect(node.authorization).toEqual(['Bearer secret', 'Bearer secret']);
+  });
+
+  it('signs messages and typed data', async () => {
+    const signer = await connect();
+    const domain = { name: 'Rifast', chainId: 31337 };
+    const types = { Ping: [{ name: 'value', type: 'uint256' }] };
+
+    const message = await signer.signMessage('hello');
+    const typed = await signer.signTypedData(domain, types, { value: 1n });
+
+    expect(ethers.verifyMessage('hello', message)).toBe(node.wallet.address);
+    expect(ethers.verifyTypedData(domain, types, { value: 1n }, typed)).toBe(node.wallet.address);
+  });
+
+  it('refuses to start with an invalid address', async () => {
+    node.address = 'not-an-address';
+
+    await expect(connect()).rejects.toMatchObject({ code: 'REMOTE_SIGNER_ERROR' });
+  });
+
+  it('surfaces signer refusals with the remote code', async () => {
+    const signer = await connect();
+    node.mode = 'refuse';
+
+    const error = await signer.signTransaction(transaction()).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(RemoteSignerError);
+    expect(error).toMatchObject({ code: 'REMOTE_SIGNER_ERROR', remoteCode: 'POLICY_REFUSED' });
+    expect(error.message).toMatch(/Recipient not allowed/);
+  });
+
+  it('rejects a transaction signed by another key', async () => {
+    const signer = await connect();
+    node.signingKey = ethers.Wallet.createRandom();
+
+    await expect(signer.signTransaction(transaction())).rejects.toMatchObject({ code: 'REMOTE_SIGNER_MISMATCH' });
+  });
+
+  it('rejects a transaction altered by the signer', async () => {
+    const signer = await connect();
+    node.mode = 'tamper';
+
+    await expect(signer.signTransaction(transaction())).rejects.toMatchObject({ code: 'REMOTE_SIGNER_MISMATCH' });
+  });
+
+  it('rejects message and typed-data signatures from another key', async () => {
+    const signer = await connect();
+    node.signingKey = ethers.Wallet.createRandom();
+
+    await expect(signer.signMessage('hello')).rejects.toMatchObject({ code: 'REMOTE_SIGNER_MISMATCH' });
+    await expect(
+      signer.signTypedData({ name: 'Rifast' }, { Ping: [{ name: 'value', type: 'uint256' }] }, { value: 1n })
+    ).rejects.toMatchObject({ code: 'REMOTE_SIGNER_MISMATCH' });
+  });
+
+  it('refuses a transaction from another address without asking the signer', async () => {
+    const signer = await connect();
+    const requests = node.authorization.length;
+
+    await expect(
+      signer.signTransaction({ ...transaction(), from: RECIPIENT })
+    ).rejects.toMatchObject({ code: 'REMOTE_SIGNER_MISMATCH' });
+    expect(node.authorization).toHaveLength(requests);
+  });
+
+  it('times out as a transient error', async () => {
+    const signer = await connect({ timeoutMs: 100 });
+    node.mode = 'hang';
+
+    await expect(signer.signTransaction(transaction())).rejects.toMatchObject({ code: 'ETIMEDOUT' });
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ethers } from 'ethers';
+import { FailoverProvider, RpcQuorumError } from '../../src/blockchain/rpc.provider.js';
+import { RPC_CONFIG } from '../../src/config/app.config.js';
+import { registry } from '../../src/monitoring/metrics.js';
+import { startRpcNode, RpcNode } from '../support/rpc-node.js';
+
+const CHAIN_ID = 31337;
+const DEFAULTS = { ...RPC_CONFIG };
+
+// Straight to _send - getBlockNumber() caches answers for 250ms
+const blockNumber = async (rpc: FailoverProvider) => Number(await rpc.send('eth_blockNumber', []));
+
+describe('FailoverProvider', () => {
+  let nodes: RpcNode[] = [];
+  let provider: FailoverProvider | undefined;
+
+  async function start(count: number): Promise<RpcNode[]> {
+    nodes = await Promise.all(Array.from({ length: count }, () => startRpcNode()));
+    return nodes;
+  }
+
+  function connect(): FailoverProvider {
+    provider = new FailoverProvider(nodes.map(node => node.url), CHAIN_ID);
+    return provider;
+  }
+
+  beforeEach(() => {
+    Object.assign(RPC_CONFIG, { failureThreshold: 1, cooldownMs: 100, requestTimeoutMs: 2000, quorum: 1 });
+  });
+
+  afterEach(async () => {
+    provider?.destroy();
+    provider = undefined;
+    await Promise.all(nodes.map(node => node.close()));
+    Object.assign(RPC_CONFIG, DEFAULTS);
+  });
+
+  it('fails over to the next endpoint when the active one goes down', async () => {
+    const [first, second] = await start(2);
+    second.blockNumber = 100;
+    const rpc = connect();
+    await rpc.verifyEndpoints();
+
+    first.mode = 'down';
+
+    expect(await blockNumber(rpc)).toBe(100);
+    expect(rpc.getStatus()).toMatchObject({ activeUrl: new URL(second.url).host, failovers: 1 });
+    expect(rpc.getStatus().endpoints[0].state).toBe('down');
+  });
+
+  it('labels request latency with the endpoint host, never the full URL', async () => {
+    const [node] = await start(1);
+    provider = new FailoverProvider([`${node.url}/v3/secret-project-key`], CHAIN_ID);
+    await provider.verifyEndpoints();
+
+    await blockNumber(provider);
+
+    const text = await registry.metrics();
+    expect(text).toContain(`relayer_rpc_request_duration_seconds_count{endpoint="${new URL(node.url).host}",method="eth_blockNumber",outcome="success"}`);
+    expect(text).not.toContain('secret-project-key');
+  });
+
+  it('refuses to start when an endpoint serves another chain', async () => {
+    const [, other] = await start(2);
+    other.chainId = 1;
+
+    await expect(connect().verifyEndpoints()).rejects.toThrow(/serves chain 1, expected 31337/);
+  });
+
+  it('refuses to start when no endpoint is reachable', async () => {
+    for (const node of await start(2)) node.mode = 'down';
+
+    await expect(connect().verifyEndpoints()).rejects.toThrow(/No RPC endpoint reachable/);
+  });
+
+  it('checks the chain id of an endpoint that was down at startup before using it', async () => {
+    const [first, second] = await start(2);
+    second.mode = 'down';
+    const rpc = connect();
+    await rpc.verifyEndpoints();
+
+    // Comes back pointed at another chain while the first endpoint fails
+    second.mode = 'ok';
+    second.chainId = 56;
+    first.mode = 'down';
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    await expect(blockNumber(rpc)).rejects.toThrow();
+    expect(second.methods).not.toContain('eth_blockNumber');
+    expect(rpc.getStatus().endpoints[1].state).toBe('wrong-chain');
+
+    // Excluded for good, even once it is the only endpoint left
+    first.mode = 'ok';
+    expect(await blockNumber(rpc)).toBe(100);
+    expect(second.methods).toEqual(['eth_chainId']);
+  });
+
+  it('uses an endpoint that recovers on the right chain after verifying it', async () => {
+    const [first, second] = await start(2);
+    second.mode = 'down';
+    const rpc = connect();
+    await rpc.verifyEndpoints();
+
+    second.mode = 'ok';
+    second.blockNumber = 101;
+    first.mode = 'down';
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    expect(await blockNumber(rpc)).toBe(101);
+    expect(second.methods.slice(-2)).toEqual(['eth_chainId', 'eth_blockNumber']);
+  });
+
+  it('re-verifies the chain id after a cooldown', async () => {
+    const [first, second] = await start(2);
+    const rpc = connect();
+    await rpc.verifyEndpoints();
+
+    first.mode = 'down';
+    await blockNumber(rpc);           // first goes down, second serves
+    first.mode = 'ok';
+    first.chainId = 56;
+    second.mode = 'down';
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    await expect(blockNumber(rpc)).rejects.toThrow();
+    expect(rpc.getStatus().endpoints[0].state).toBe('wrong-chain');
+  });
+
+  it('reports an already known transaction as sent after a failover', async () => {
+    const [first, second] = await start(2);
+    const rpc = connect();
+    await rpc.verifyEndpoints();
+
+    const wallet = ethers.Wallet.createRandom();
+    const raw = await wallet.signTransaction({ to: wallet.address, value: 0n, nonce: 0, gasLimit: 21000n, gasPrice: 1n, chainId: CHAIN_ID });
+
+    first.mode = 'down';
+    second.knownTransactions = true;
+
+    expect(await rpc.send('eth_sendRawTransaction', [raw])).toBe(ethers.keccak256(raw));
+  });
+
+  describe('quorum reads', () => {
+    const read = (runner: ethers.Provider, blockTag: number) =>
+      runner.call({ to: ethers.ZeroAddress, data: '0x', blockTag });
+
+    it('accepts the answer a quorum of endpoints agrees on', async () => {
+      const [, , liar] = await start(3);
+      liar.callResult = ethers.toBeHex(2, 32);
+      RPC_CONFIG.quorum = 2;
+
+      const rpc = connect();
+      await rpc.verifyEndpoints();
+      const result = await rpc.quorumRead(read);
+
+      expect(result).toEqual({ value: ethers.toBeHex(1, 32), blockNumber: 100, agreeing: 2, queried: 3 });
+    });
+
+    it('fails when too few endpoints agree', async () => {
+      const [, second, third] = await start(3);
+      second.callResult = ethers.toBeHex(2, 32);
+      third.callResult = ethers.toBeHex(3, 32);
+      RPC_CONFIG.quorum = 2;
+
+      const rpc = connect();
+      await rpc.verifyEndpoints();
+
+      await expect(rpc.quorumRead(read)).rejects.toMatchObject({ code: 'RPC_QUORUM_NOT_REACHED' });
+    });
+
+    it('fails when fewer fresh endpoints than the quorum are available', async () => {
+      const [, second] = await start(2);
+      second.mode = 'down';
+      RPC_CONFIG.quorum = 2;
+
+      const rpc = connect();
+      await rpc.verifyEndpoints();
+
+      const error = await rpc.quorumRead(read).catch(caught => caught);
+      expect(error).toBeInstanceOf(RpcQuorumError);
+      expect(error.code).toBe('RPC_QUORUM_UNAVAILABLE');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.hoisted(() => {
+  Object.assign(process.env, {
+    STUCK_TX_BUMP_BLOCKS: '2',
+    STUCK_TX_MAX_BUMPS: '1',
+    STUCK_TX_BUMP_PERCENT: '15',
+    TX_POLL_INTERVAL_MS: '1'
+  });
+});
+
+const chain = vi.hoisted(() => ({
+  block: 100,
+  latestNonce: 7,
+  receipts: new Map<string, { hash: string; status: number; confirmations: () => Promise<number> }>(),
+  sent: [] as any[],
+  // Broadcast kind whose hash gets mined as soon as it is sent
+  mineOnSend: undefined as 'replacement' | 'cancel' | undefined
+}));
+
+function mine(hash: string) {
+  chain.receipts.set(hash, { hash, status: 1, confirmations: async () => 1 });
+}
+
+vi.mock('../../src/index.js', () => ({
+  provider: {
+    getBlockNumber: async () => chain.block++,
+    getFeeData: async () => ({ maxFeePerGas: 1n, maxPriorityFeePerGas: 1n, gasPrice: 1n }),
+    getTransactionCount: async () => chain.latestNonce,
+    getTransactionReceipt: async (hash: string) => chain.receipts.get(hash) ?? null
+  }
+}));
+
+const wallet = vi.hoisted(() => ({
+  id: 'owner',
+  address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  signer: {
+    sendTransaction: async (tx: any) => {
+      chain.sent.push(tx);
+      const hash = `0x${'0'.repeat(63)}${chain.sent.length}`;
+      const kind = tx.to === wallet.address && tx.data === '0x' ? 'cancel' : 'replacement';
+      if (chain.mineOnSend === kind) mine(hash);
+      return { hash };
+    }
+  },
+  nonceManager: { markBroadcast: async () => {}, confirm: async () => {} }
+}));
+
+vi.mock('../../src/blockchain/wallet.pool.js', () => ({
+  getOwnerWallet: () => wallet,
+  getWalletByAddress: () => wallet
+}));
+
+import { trackBroadcast, waitUntilMined, getTrackedTransaction } from '../../src/blockchain/tx.tracker.js';
+
+const GWEI = 1_000_000_000n;
+const original = '0x' + 'aa'.repeat(32);
+
+function populated() {
+  return {
+    from: wallet.address,
+    to: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    data: '0x1234',
+    value: 0n,
+    nonce: 7,
+    gasLimit: 200000n,
+    chainId: 31337n,
+    type: 2,
+    maxFeePerGas: 100n * GWEI,
+    maxPriorityFeePerGas: 2n * GWEI
+  };
+}
+
+describe('stuck transactions', () => {
+  beforeEach(() => {
+    Object.assign(chain, { block: 100, latestNonce: 7, mineOnSend: undefined });
+    chain.receipts.clear();
+    chain.sent.length = 0;
+  });
+
+  it('replaces a stuck transaction at the same nonce with bumped fees', async () => {
+    chain.mineOnSend = 'replacement';
+    await trackBroadcast('1', populated(), original);
+
+    const receipt = await waitUntilMined('1');
+
+    expect(chain.sent).toEqual([expect.objectContaining({
+      nonce: 7,
+      data: '0x1234',
+      maxFeePerGas: 115n * GWEI + 1n,
+      maxPriorityFeePerGas: 2n * GWEI * 115n / 100n + 1n
+    })]);
+    expect(receipt.hash).toBe(`0x${'0'.repeat(63)}1`);
+    expect((await getTrackedTransaction('1'))!.broadcasts.map(broadcast => broadcast.kind)).toEqual(['original', 'replacement']);
+  });
+
+  it('cancels with a self-transfer once the replacements are used up', async () => {
+    chain.mineOnSend = 'cancel';
+    await trackBroadcast('2', populated(), original);
+
+    await expect(waitUntilMined('2')).rejects.toMatchObject({ code: 'TX_CANCELLED' });
+
+    expect(chain.sent.map(tx => [tx.nonce, tx.to, tx.value, tx.gasLimit])).toEqual([
+      [7, '0x5FbDB2315678afecb367f032d93F642f64180aa3', 0n, 200000n],
+      [7, wallet.address, 0n, 21000n]
+    ]);
+    expect((await getTrackedTransaction('2'))!.status).toBe('failed');
+  });
+
+  it('cancels instead of replacing above the job fee cap', async () => {
+    chain.mineOnSend = 'cancel';
+    await trackBroadcast('3', populated(), original, 110n * GWEI);
+
+    await expect(waitUntilMined('3')).rejects.toMatchObject({ code: 'TX_CANCELLED' });
+
+    expect(chain.sent).toHaveLength(1);
+    expect(chain.sent[0]).toMatchObject({ to: wallet.address, gasLimit: 21000n });
+  });
+
+  it('fails the job when another transaction consumed its nonce', async () => {
+    await trackBroadcast('4', populated(), original);
+    chain.latestNonce = 8;
+
+    await expect(waitUntilMined('4')).rejects.toMatchObject({ code: 'NONCE_CONSUMED' });
+    expect(chain.sent).toEqual([]);
+  });
+
+  it('resolves with the original receipt when it gets mined', async () => {
+    await trackBroadcast('5', populated(), original);
+    mine(original);
+
+    expect((await waitUntilMined('5')).hash).toBe(original);
+    expect(chain.sent).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { loadEnvironment } from '../../src/config/env.js';
+import { buildExplorerTxUrl } from '../../src/config/networks.js';
+
+const NETWORK_VARS = ['NETWORK', 'CHAIN_ID', 'NETWORK_NAME', 'NATIVE_SYMBOL', 'CONFIRMATIONS', 'EXPLORER_TX_URL', 'NODE_ENV'];
+const saved = Object.fromEntries(NETWORK_VARS.map(name => [name, process.env[name]]));
+
+/**
+ * Load the environment with network variables overridden (unset when undefined)
+ */
+function loadWith(overrides: Record<string, string | undefined>) {
+  for (const [name, value] of Object.entries(overrides)) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+
+  return loadEnvironment();
+}
+
+/**
+ * Load the environment expecting a fatal exit
+ */
+function expectFatal(overrides: Record<string, string | undefined>) {
+  const exit = vi.spyOn(process, 'exit').mockImplementation(((code?: number) => {
+    throw new Error(`exit ${code}`);
+  }) as never);
+
+  try {
+    expect(() => loadWith(overrides)).toThrow('exit 1');
+  } finally {
+    exit.mockRestore();
+  }
+}
+
+describe('network profiles', () => {
+  afterEach(() => {
+    for (const name of NETWORK_VARS) {
+      if (saved[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = saved[name];
+      }
+    }
+  });
+
+  it('defaults to hardhat outside production', () => {
+    expect(loadWith({ NETWORK: undefined }).network).toMatchObject({ name: 'hardhat', chainId: 31337, confirmations: 1 });
+  });
+
+  it('takes chain id, confirmations, gas defaults and explorer from the profile', () => {
+    const config = loadWith({ NETWORK: 'bsc-mainnet' });
+
+    expect(config.network).toMatchObject({
+      chainId: 56,
+      nativeSymbol: 'BNB',
+      confirmations: 5,
+      explorerTxUrl: 'https://bscscan.com/tx/{txHash}'
+    });
+    expect([config.gasPricingMode, config.gasMaxFeeGwei, config.gasDeferThresholdGwei]).toEqual(['legacy', '10', '3']);
+  });
+
+  it('lets CONFIRMATIONS and EXPLORER_TX_URL override the profile', () => {
+    const { network } = loadWith({
+      NETWORK: 'bsc-testnet',
+      CONFIRMATIONS: '12',
+      EXPLORER_TX_URL: 'https://explorer.example/tx/{txHash}'
+    });
+
+    expect(network).toMatchObject({ chainId: 97, confirmations: 12, explorerTxUrl: 'https://explorer.example/tx/{txHash}' });
+  });
+
+  it('builds a custom profile from CHAIN_ID', () => {
+    const { network } = loadWith({ NETWORK: 'custom', CHAIN_ID: '8453', NETWORK_NAME: 'base', NATIVE_SYMBOL: 'ETH' });
+
+    expect(network).toMatchObject({ name: 'base', chainId: 8453, confirmations: 1, gas: { pricingMode: 'auto' } });
+  });
+
+  it('refuses unknown networks, bad overrides and a missing NETWORK in production', () => {
+    expectFatal({ NETWORK: 'bsc' });
+    expectFatal({ NETWORK: 'custom', CHAIN_ID: '0' });
+    expectFatal({ NETWORK: 'hardhat', CONFIRMATIONS: '0' });
+    expectFatal({ NETWORK: 'hardhat', EXPLORER_TX_URL: 'https://explorer.example/tx/' });
+    expectFatal({ NODE_ENV: 'production', NETWORK: undefined });
+  });
+
+  it('fills the explorer template', () => {
+    expect(buildExplorerTxUrl('https://bscscan.com/tx/{txHash}', '0xabc')).toBe('https://bscscan.com/tx/0xabc');
+    expect(buildExplorerTxUrl(undefined, '0xabc')).toBeUndefined();
+    expect(buildExplorerTxUrl('https://bscscan.com/tx/{txHash}', undefined)).toBeUndefined();
+  });
+});
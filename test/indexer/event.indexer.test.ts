@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ethers } from 'ethers';
+
+const chain = vi.hoisted(() => {
+  process.env.INDEXER_ENABLED = 'true';
+  process.env.INDEXER_START_BLOCK = '1';
+  process.env.INDEXER_CONFIRMATIONS = '2';
+  process.env.INDEXER_BATCH_BLOCKS = '5';
+  process.env.INDEXER_POLL_INTERVAL_MS = '3600000';
+
+  return {
+    head: 0,
+    forks: [] as number[],                // Blocks each reorg replaced from
+    logs: [] as Array<{ blockNumber: number; index: number; transactionHash: string; topics: string[]; data: string }>,
+    jobs: new Map<string, string>()
+  };
+});
+
+/**
+ * Hash of a block on the current chain (changes when a reorg replaced it)
+ */
+function blockHash(blockNumber: number): string {
+  return ethers.id(`${blockNumber}:${chain.forks.filter(from => from <= blockNumber).length}`);
+}
+
+vi.mock('../../src/index.js', async () => {
+  const { readFileSync } = await import('fs');
+  const { abi } = JSON.parse(readFileSync('abi/RifasPlatform.json', 'utf-8'));
+
+  return {
+    contract: { interface: new ethers.Interface(abi) },
+    provider: {
+      getBlockNumber: async () => chain.head,
+      getBlock: async (blockNumber: number) => ({ hash: blockHash(blockNumber), timestamp: 1_700_000_000 + blockNumber }),
+      getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) => chain.logs
+        .filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock)
+        .map(log => ({ ...log, blockHash: blockHash(log.blockNumber) }))
+    }
+  };
+});
+vi.mock('../../src/blockchain/tx.tracker.js', () => ({ getJobIdForTxHash: async (hash: string) => chain.jobs.get(hash) }));
+vi.mock('../../src/monitoring/alerting.js', () => ({ sendWarning: vi.fn() }));
+
+import { startEventIndexer, stopEventIndexer, getIndexerState } from '../../src/indexer/event.indexer.js';
+import { findEvents } from '../../src/indexer/event.store.js';
+import { contract } from '../../src/index.js';
+import { sendWarning } from '../../src/monitoring/alerting.js';
+
+const participant = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+/**
+ * Emit a TicketBought log in a block
+ */
+function buyTicket(blockNumber: number, raffleId: number, ticketNumber: number, jobId?: string) {
+  const { topics, data } = contract.interface.encodeEventLog('TicketBought', [raffleId, participant, ticketNumber]);
+  const transactionHash = ethers.id(`tx:${blockNumber}:${ticketNumber}:${chain.forks.length}`);
+
+  chain.logs.push({ blockNumber, index: 0, transactionHash, topics, data });
+  if (jobId) {
+    chain.jobs.set(transactionHash, jobId);
+  }
+}
+
+/**
+ * Replace every block from `fromBlock` on (their logs are dropped)
+ */
+function reorg(fromBlock: number) {
+  chain.forks.push(fromBlock);
+  chain.logs = chain.logs.filter(log => log.blockNumber < fromBlock);
+}
+
+/**
+ * Run the indexer until its checkpoint is the current chain's confirmed head
+ */
+async function indexUpTo(head: number) {
+  chain.head = head;
+  startEventIndexer();
+
+  const safeHead = head - 2;
+  await vi.waitFor(async () => expect((await getIndexerState()).checkpoint).toMatchObject({ blockNumber: safeHead, blockHash: blockHash(safeHead) }));
+  await stopEventIndexer();
+  // Let the run that saved the checkpoint see it is caught up and return
+  await new Promise(resolve => setTimeout(resolve, 10));
+}
+
+async function indexedTickets() {
+  return (await findEvents({ name: 'TicketBought', limit: 100, order: 'asc' })).map(event => [event.blockNumber, event.args.ticketNumber]);
+}
+
+describe('event indexer', () => {
+  beforeEach(() => {
+    Object.assign(chain, { head: 0, forks: [], logs: [] });
+    vi.mocked(sendWarning).mockClear();
+  });
+
+  it('indexes confirmed blocks in batches, with block time and sending job', async () => {
+    buyTicket(3, 1, 1);
+    buyTicket(8, 1, 2, '42');
+    buyTicket(13, 1, 3);
+
+    await indexUpTo(14);
+
+    const events = await findEvents({ raffleId: '1', limit: 10, order: 'asc' });
+    expect(events.map(event => event.id)).toEqual(['3-0', '8-0']);
+    expect(events[1]).toMatchObject({
+      name: 'TicketBought',
+      blockHash: blockHash(8),
+      blockTimestamp: 1_700_000_008,
+      args: { raffleId: '1', participant, ticketNumber: '2' },
+      jobId: '42'
+    });
+    expect(await getIndexerState()).toMatchObject({ headBlock: 14, lagBlocks: 2, events: 2 });
+  });
+
+  it('rolls back to the newest checkpoint still on the chain and indexes the new blocks', async () => {
+    buyTicket(9, 1, 1);
+    buyTicket(11, 1, 2);
+    await indexUpTo(14);
+
+    reorg(11);
+    buyTicket(12, 1, 3);
+    await indexUpTo(15);
+
+    expect(await indexedTickets()).toEqual([[9, '1'], [12, '3']]);
+    expect((await getIndexerState()).lastReorg).toMatchObject({ checkpointBlock: 12, rolledBackTo: 10, eventsRemoved: 1 });
+    expect(sendWarning).toHaveBeenCalledWith('INDEXER_REORG', expect.objectContaining({ rolledBackTo: 10 }), 'INDEXER_REORG:10');
+  });
+
+  it('restarts below the oldest checkpoint when the reorg is deeper than every checkpoint', async () => {
+    buyTicket(3, 1, 1);
+    buyTicket(6, 1, 2);
+    await indexUpTo(14);
+
+    reorg(5);
+    buyTicket(7, 1, 3);
+    await indexUpTo(14);
+
+    expect(await indexedTickets()).toEqual([[3, '1'], [7, '3']]);
+    expect((await getIndexerState()).lastReorg).toMatchObject({ checkpointBlock: 12, rolledBackTo: 4, eventsRemoved: 1 });
+  });
+});
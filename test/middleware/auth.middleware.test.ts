@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { authenticateRequest, requireScope } from '../../src/middleware/auth.middleware.js';
+import { createClient, revokeClient } from '../../src/auth/key.registry.js';
+import { mockRequest, mockResponse, runMiddleware } from '../support/http.js';
+
+async function authenticate(key?: string) {
+  const req = mockRequest({ headers: key === undefined ? {} : { 'X-API-Key': key } });
+  const response = mockResponse();
+  const passed = await runMiddleware(authenticateRequest, req, response.res);
+  return { req, passed, ...response };
+}
+
+describe('authenticateRequest()', () => {
+  it('resolves a registry key to its client', async () => {
+    const { key } = await createClient({ name: 'backend', scopes: ['read'] });
+
+    const { passed, req } = await authenticate(key);
+
+    expect(passed).toBe(true);
+    expect(req.apiClient).toMatchObject({ name: 'backend', scopes: ['read'] });
+  });
+
+  it('accepts RELAYER_API_KEY as the legacy client with every scope', async () => {
+    const { passed, req } = await authenticate(process.env.RELAYER_API_KEY);
+
+    expect(passed).toBe(true);
+    expect(req.apiClient).toEqual({ name: 'legacy', scopes: ['read', 'raffle:write', 'compliance:write', 'system:admin'] });
+  });
+
+  it('answers 401 for missing, unknown, revoked and expired keys', async () => {
+    const { key: revokedKey } = await createClient({ name: 'backend', scopes: ['read'] });
+    await revokeClient('backend');
+    const { key: expiredKey } = await createClient({ name: 'partner', scopes: ['read'], expiresAt: new Date(Date.now() - 1000).toISOString() });
+
+    const missing = await authenticate();
+    const unknown = await authenticate('rly_unknown');
+    const revoked = await authenticate(revokedKey);
+    const expired = await authenticate(expiredKey);
+
+    expect([missing, unknown, revoked, expired].map(result => [result.passed, result.statusCode])).toEqual([
+      [false, 401], [false, 401], [false, 401], [false, 401]
+    ]);
+    expect(revoked.body.message).toBeUndefined();
+    expect(expired.body.message).toBe('API key expired');
+  });
+});
+
+describe('requireScope()', () => {
+  it('lets a client with the scope through and refuses others with 403', async () => {
+    const reader = mockRequest({ apiClient: { name: 'prometheus', scopes: ['read'] } });
+    const allowed = mockResponse();
+    const refused = mockResponse();
+
+    expect(await runMiddleware(requireScope('read'), reader, allowed.res)).toBe(true);
+    expect(await runMiddleware(requireScope('system:admin'), reader, refused.res)).toBe(false);
+    expect(refused.statusCode).toBe(403);
+    expect(refused.body.message).toBe('API key lacks scope system:admin');
+  });
+});
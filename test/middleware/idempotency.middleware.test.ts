@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+import { idempotent } from '../../src/middleware/idempotency.middleware.js';
+import { mockRequest, mockResponse, runMiddleware } from '../support/http.js';
+
+// job.lookup.ts → error.classifier.ts reads the contract from the app entry point
+vi.mock('../../src/index.js', () => ({ contract: {}, signer: {} }));
+
+const backend = { name: 'backend', scopes: ['raffle:write'] as const };
+const partner = { name: 'partner', scopes: ['raffle:write'] as const };
+
+const middleware = idempotent('execute-raffle', body => body?.raffleId?.toString());
+
+/**
+ * Send a request through the middleware; the "controller" answers 202 with a jobId
+ */
+async function send(client: typeof backend, body: any, key?: string) {
+  const req = mockRequest({ body, apiClient: client, headers: key ? { 'Idempotency-Key': key } : {} });
+  const response = mockResponse();
+
+  const reachedController = await runMiddleware(middleware, req, response.res);
+  if (reachedController) {
+    response.res.status(202).json({ success: true, jobId: `${client.name}-job` });
+    // settleRecord runs in the background
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+
+  return { reachedController, ...response };
+}
+
+describe('idempotent()', () => {
+  it('replays the stored response for the same key and payload', async () => {
+    const first = await send(backend, { raffleId: 1 }, 'abc');
+    const second = await send(backend, { raffleId: 1 }, 'abc');
+
+    expect(first.reachedController).toBe(true);
+    expect(second.reachedController).toBe(false);
+    expect(second.headers['idempotent-replayed']).toBe('true');
+    expect(second.body).toMatchObject({ jobId: 'backend-job', replayed: true, idempotencyKey: 'abc' });
+  });
+
+  it('rejects a reused key with a different payload', async () => {
+    await send(backend, { raffleId: 1 }, 'abc');
+    const conflict = await send(backend, { raffleId: 2 }, 'abc');
+
+    expect(conflict.statusCode).toBe(409);
+    expect(conflict.body.error).toBe('IDEMPOTENCY_KEY_CONFLICT');
+  });
+
+  it('keeps keys per API client', async () => {
+    await send(backend, { raffleId: 1 }, 'abc');
+    const other = await send(partner, { raffleId: 1 }, 'abc');
+
+    expect(other.reachedController).toBe(true);
+    expect(other.body).toEqual({ success: true, jobId: 'partner-job' });
+  });
+
+  it('keeps derived fallback keys per API client', async () => {
+    await send(backend, { raffleId: 9 });
+
+    expect((await send(backend, { raffleId: 9 })).body.replayed).toBe(true);
+    expect((await send(partner, { raffleId: 9 })).reachedController).toBe(true);
+  });
+
+  it('never claims a key for dry runs', async () => {
+    await send(backend, { raffleId: 1, dryRun: true }, 'abc');
+
+    expect((await send(backend, { raffleId: 1 }, 'abc')).reachedController).toBe(true);
+  });
+});
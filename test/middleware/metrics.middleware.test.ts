@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { EventEmitter } from 'node:events';
+import type { Request, Response } from 'express';
+import { recordHttpMetrics } from '../../src/middleware/metrics.middleware.js';
+import { registry } from '../../src/monitoring/metrics.js';
+import { runMiddleware } from '../support/http.js';
+
+async function serve(request: { method: string; routePath?: string }, statusCode: number) {
+  const req = { method: request.method, route: request.routePath ? { path: request.routePath } : undefined } as unknown as Request;
+  const res = Object.assign(new EventEmitter(), { statusCode });
+
+  const passed = await runMiddleware(recordHttpMetrics, req, res as unknown as Response);
+  res.emit('finish');
+  return passed;
+}
+
+describe('recordHttpMetrics()', () => {
+  it('labels requests with the matched route pattern and status', async () => {
+    expect(await serve({ method: 'GET', routePath: '/jobs/:jobId' }, 200)).toBe(true);
+    await serve({ method: 'GET', routePath: '/jobs/:jobId' }, 404);
+    await serve({ method: 'GET' }, 401);
+
+    const text = await registry.metrics();
+
+    expect(text).toContain('relayer_http_requests_total{method="GET",route="/jobs/:jobId",status="200"} 1');
+    expect(text).toContain('relayer_http_requests_total{method="GET",route="/jobs/:jobId",status="404"} 1');
+    expect(text).toContain('relayer_http_requests_total{method="GET",route="unmatched",status="401"} 1');
+    expect(text).toContain('relayer_http_request_duration_seconds_count{method="GET",route="/jobs/:jobId"} 2');
+  });
+});
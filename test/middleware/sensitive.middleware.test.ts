@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { proposalLimiter, emergencyPauseLimiter } from '../../src/middleware/sensitive.middleware.js';
+import { mockRequest, mockResponse, runMiddleware } from '../support/http.js';
+
+async function limit(limiter: typeof proposalLimiter) {
+  const response = mockResponse();
+  const passed = await runMiddleware(limiter, mockRequest({ ip: '203.0.113.20' }), response.res);
+  return { passed, ...response };
+}
+
+describe('sensitive rate limits', () => {
+  it('keeps emergency-pause out of the proposal bucket', async () => {
+    const proposal = await limit(proposalLimiter);
+    const secondProposal = await limit(proposalLimiter);
+    const pause = await limit(emergencyPauseLimiter);
+
+    expect(proposal.passed).toBe(true);
+    expect([secondProposal.passed, secondProposal.statusCode]).toEqual([false, 429]);
+    expect(pause.passed).toBe(true);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Alert } from '../../src/monitoring/alert.notifiers.js';
+
+const notifiers = vi.hoisted(() => {
+  process.env.ALERT_DEDUP_WINDOW_MS = '60000';
+  process.env.ALERT_MAX_PER_HOUR = '3';
+  process.env.ALERT_QUIET_HOURS = '22:00-06:00';
+
+  return [
+    { name: 'pager', minSeverity: 'critical', send: vi.fn<(alert: Alert) => Promise<void>>(async () => {}) },
+    { name: 'chat', minSeverity: 'warning', send: vi.fn<(alert: Alert) => Promise<void>>(async () => {}) }
+  ];
+});
+
+vi.mock('../../src/monitoring/alert.notifiers.js', () => ({ createNotifiers: () => notifiers }));
+
+import { sendCritical, sendWarning, sendInfo, getAlertLog } from '../../src/monitoring/alerting.js';
+
+const NOON = new Date('2026-10-19T12:00:00Z').getTime();
+const HOUR = 3600 * 1000;
+
+async function outcomes() {
+  return (await getAlertLog({ limit: 100 })).map(entry => entry.outcome).reverse();
+}
+
+describe('alerting', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOON, toFake: ['Date'] });
+    for (const notifier of notifiers) {
+      notifier.send.mockClear();
+    }
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends a dedup key once per window and reports the repeats with the next notification', async () => {
+    await sendWarning('SIGNER_BALANCE_LOW', { wallet: 'op1' }, 'SIGNER_BALANCE_LOW:op1');
+    await sendWarning('SIGNER_BALANCE_LOW', { wallet: 'op1' }, 'SIGNER_BALANCE_LOW:op1');
+    await sendWarning('SIGNER_BALANCE_LOW', { wallet: 'op2' }, 'SIGNER_BALANCE_LOW:op2');
+
+    vi.setSystemTime(NOON + 60_001);
+    await sendWarning('SIGNER_BALANCE_LOW', { wallet: 'op1' }, 'SIGNER_BALANCE_LOW:op1');
+
+    expect(await outcomes()).toEqual(['sent', 'deduplicated', 'sent', 'sent']);
+    expect(notifiers[1].send.mock.calls.map(([alert]) => [alert.dedupKey, alert.repeats])).toEqual([
+      ['SIGNER_BALANCE_LOW:op1', 0],
+      ['SIGNER_BALANCE_LOW:op2', 0],
+      ['SIGNER_BALANCE_LOW:op1', 1]
+    ]);
+  });
+
+  it('holds everything but criticals during quiet hours, across midnight', async () => {
+    vi.setSystemTime(new Date('2026-10-19T23:30:00Z'));
+    await sendWarning('HEALTH_RULE_WARNING', { rule: 'failure-rate' });
+    await sendCritical('TX_RETRY_EXHAUSTED', { jobId: '7' });
+
+    vi.setSystemTime(new Date('2026-10-20T05:59:00Z'));
+    await sendWarning('SIGNER_BALANCE_LOW', { wallet: 'op1' });
+
+    expect(await outcomes()).toEqual(['quiet', 'sent', 'quiet']);
+    expect(notifiers.map(notifier => notifier.send.mock.calls.length)).toEqual([1, 1]);
+  });
+
+  it('throttles notifications above the hourly budget, criticals included', async () => {
+    for (const jobId of ['1', '2', '3', '4']) {
+      await sendCritical('TX_RETRY_EXHAUSTED', { jobId }, `TX_RETRY_EXHAUSTED:${jobId}`);
+    }
+
+    vi.setSystemTime(NOON + HOUR);
+    await sendCritical('TX_RETRY_EXHAUSTED', { jobId: '5' }, 'TX_RETRY_EXHAUSTED:5');
+
+    expect(await outcomes()).toEqual(['sent', 'sent', 'sent', 'throttled', 'sent']);
+  });
+
+  it('routes by severity and logs alerts no notifier takes', async () => {
+    await sendInfo('APPROVAL_EXECUTED', { proposalId: 'p1' });
+    await sendWarning('SIGNER_BALANCE_LOW', { wallet: 'op1' });
+
+    expect(await outcomes()).toEqual(['no-notifiers', 'sent']);
+    expect(notifiers[0].send).not.toHaveBeenCalled();
+    expect(notifiers[1].send).toHaveBeenCalledTimes(1);
+  });
+
+  it('records a failing notifier without failing the alert', async () => {
+    notifiers[1].send.mockRejectedValueOnce(new Error('Receiver responded with HTTP 500'));
+
+    await expect(sendCritical('TX_RETRY_EXHAUSTED', { jobId: '7' })).resolves.toBeUndefined();
+
+    const [entry] = await getAlertLog({ limit: 1 });
+    expect(entry).toMatchObject({
+      outcome: 'sent',
+      alert: { code: 'TX_RETRY_EXHAUSTED', title: 'Transaction job failed permanently', severity: 'critical' },
+      notifiers: [
+        { name: 'pager', delivered: true },
+        { name: 'chat', delivered: false, error: 'Receiver responded with HTTP 500' }
+      ]
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ethers } from 'ethers';
+
+const { provider, wallets } = vi.hoisted(() => ({
+  provider: { getBalance: vi.fn() },
+  wallets: [
+    { id: 'owner', address: '0x00000000000000000000000000000000000000a1' },
+    { id: 'op1', address: '0x00000000000000000000000000000000000000b2' }
+  ]
+}));
+
+vi.mock('../../src/index.js', () => ({ provider }));
+vi.mock('../../src/blockchain/wallet.pool.js', () => ({ getWallets: () => wallets }));
+vi.mock('../../src/monitoring/alerting.js', () => ({ sendCritical: vi.fn(), sendWarning: vi.fn() }));
+
+import {
+  checkBalances,
+  recordGasCost,
+  isPausedForBalance,
+  getOverallBalanceLevel
+} from '../../src/monitoring/balance.monitor.js';
+import { sendCritical, sendWarning } from '../../src/monitoring/alerting.js';
+
+/**
+ * Run a check with the given ether balance per wallet id (Error → RPC failure)
+ */
+async function check(balances: Record<string, string | Error>) {
+  provider.getBalance.mockImplementation(async (address: string) => {
+    const balance = balances[wallets.find(wallet => wallet.address === address)!.id];
+    if (balance instanceof Error) {
+      throw balance;
+    }
+    return ethers.parseEther(balance);
+  });
+
+  return checkBalances();
+}
+
+describe('balance monitor', () => {
+  beforeEach(async () => {
+    // Every test starts from funded wallets, alerts cleared
+    await check({ owner: '1', op1: '1' });
+    vi.mocked(sendCritical).mockClear();
+    vi.mocked(sendWarning).mockClear();
+  });
+
+  it('warns once when a wallet drops below the warn threshold', async () => {
+    await check({ owner: '1', op1: '0.03' });
+    await check({ owner: '1', op1: '0.02' });
+
+    expect(sendWarning).toHaveBeenCalledTimes(1);
+    expect(sendWarning).toHaveBeenCalledWith('SIGNER_BALANCE_LOW', expect.objectContaining({ wallet: 'op1' }), 'SIGNER_BALANCE_LOW:op1');
+    expect(isPausedForBalance('op1', 'create-raffle')).toBe(false);
+    expect(getOverallBalanceLevel()).toBe('warning');
+  });
+
+  it('pauses only the non-essential types of a critical wallet', async () => {
+    const balances = await check({ owner: '1', op1: '0.005' });
+
+    expect(balances.find(balance => balance.walletId === 'op1')).toMatchObject({
+      level: 'critical',
+      pausedJobTypes: ['create-raffle', 'archive-raffles', 'withdraw-fees']
+    });
+    expect(isPausedForBalance('op1', 'create-raffle')).toBe(true);
+    expect(isPausedForBalance('op1', 'execute-raffle')).toBe(false);
+    expect(isPausedForBalance('owner', 'create-raffle')).toBe(false);
+    expect(sendCritical).toHaveBeenCalledWith('SIGNER_BALANCE_CRITICAL', expect.objectContaining({ wallet: 'op1' }), 'SIGNER_BALANCE_CRITICAL:op1');
+    expect(getOverallBalanceLevel()).toBe('critical');
+  });
+
+  it('keeps the last known level when the balance read fails', async () => {
+    await check({ owner: '1', op1: '0.005' });
+    await check({ owner: '1', op1: new Error('timeout') });
+
+    expect(isPausedForBalance('op1', 'create-raffle')).toBe(true);
+  });
+
+  it('resumes paused types once the wallet is funded', async () => {
+    await check({ owner: '1', op1: '0.005' });
+    await check({ owner: '1', op1: '0.5' });
+
+    expect(isPausedForBalance('op1', 'create-raffle')).toBe(false);
+    expect(getOverallBalanceLevel()).toBe('ok');
+  });
+
+  it('estimates the runway from recent transaction costs', async () => {
+    expect((await check({ owner: '1', op1: '1' }))[0].runway).toEqual({ transactions: null, averageCost: null, samples: 0 });
+
+    await recordGasCost('owner', { fee: ethers.parseEther('0.001') } as ethers.TransactionReceipt);
+    await recordGasCost('owner', { fee: ethers.parseEther('0.003') } as ethers.TransactionReceipt);
+
+    expect((await check({ owner: '1', op1: '1' }))[0].runway).toEqual({
+      transactions: 500,
+      averageCost: ethers.parseEther('0.002').toString(),
+      samples: 2
+    });
+  });
+});
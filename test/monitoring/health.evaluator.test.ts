@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+// balance.monitor.ts reads the provider from the app entry point
+vi.mock('../../src/index.js', () => ({ contract: {}, signer: {}, provider: {} }));
+
+import { evaluateHealth } from '../../src/monitoring/health.evaluator.js';
+import { enqueueTransaction, moveToRetryQueue } from '../../src/queues/tx.queue.js';
+
+const raffleJob = { type: 'retry-randomness', raffleId: 7 };
+
+describe('oldest waiting job', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('ages a delayed job from its due time once that passed', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const job = await moveToRetryQueue('retry-randomness', raffleJob, 1, 'timeout', 5000);
+
+    expect((await evaluateHealth()).oldestWaiting).toBeNull();
+
+    vi.setSystemTime(Date.now() + 400_000);
+    const evaluation = await evaluateHealth();
+
+    expect(evaluation.oldestWaiting).toMatchObject({ jobId: job.id.toString(), queue: 'relayer-tx-retry', ageSeconds: 395 });
+    expect(evaluation.alerts).toEqual([expect.objectContaining({ rule: 'oldest-waiting-seconds', severity: 'warning', value: 395 })]);
+  });
+
+  it('picks the longest-waiting job across waiting and overdue delayed jobs', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const waiting = await enqueueTransaction('retry-randomness', raffleJob);
+    await moveToRetryQueue('retry-randomness', raffleJob, 2, 'timeout', 5000);
+
+    vi.setSystemTime(Date.now() + 60_000);
+
+    expect((await evaluateHealth()).oldestWaiting).toMatchObject({ jobId: waiting.id.toString(), ageSeconds: 60 });
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const chain = vi.hoisted(() => {
+  process.env.INVARIANT_WATCHDOG_ENABLED = 'true';
+  process.env.INVARIANT_CHECK_BLOCKS = '1';
+  process.env.INVARIANT_POLL_INTERVAL_MS = '3600000';
+  process.env.INVARIANT_AUTO_PAUSE = 'true';
+  process.env.INVARIANT_PAUSE_AFTER = '2';
+  process.env.INVARIANT_PAUSE_COOLDOWN_MS = '3600000';
+
+  return {
+    head: 100,
+    balance: 1000n,
+    reserved: 900n,
+    fees: 100n,
+    paused: false,
+    failRead: false
+  };
+});
+
+vi.mock('../../src/index.js', () => {
+  const reader = {
+    checkAccountingInvariant: async () => [chain.balance >= chain.reserved + chain.fees, chain.balance, chain.reserved, chain.fees],
+    getContractFinancials: async () => [chain.balance, chain.reserved, chain.fees, chain.fees],
+    globalReservedUserFunds: async () => chain.reserved,
+    totalPlatformFees: async () => chain.fees,
+    paused: async () => chain.paused
+  };
+
+  return {
+    contract: { connect: () => reader },
+    provider: {
+      getBlockNumber: async () => chain.head,
+      quorumRead: async (read: (runner: unknown, blockTag: number) => Promise<unknown>) => {
+        if (chain.failRead) {
+          throw Object.assign(new Error('Only 1 of 2 endpoints agree'), { code: 'RPC_QUORUM_NOT_REACHED' });
+        }
+        return { value: await read({}, chain.head), blockNumber: chain.head, agreeing: 2, queried: 2 };
+      }
+    }
+  };
+});
+vi.mock('../../src/blockchain/tx.sender.js', () => ({
+  submitContractTransaction: vi.fn(async () => ({ txHash: '0xpause' })),
+  waitForConfirmation: vi.fn(async () => ({ hash: '0xpause', blockNumber: 101 }))
+}));
+vi.mock('../../src/monitoring/alerting.js', () => ({ sendCritical: vi.fn() }));
+
+import {
+  startInvariantWatchdog,
+  stopInvariantWatchdog,
+  getInvariantHistory,
+  getAutoPauseLog,
+  getWatchdogState
+} from '../../src/monitoring/invariant.watchdog.js';
+import { submitContractTransaction } from '../../src/blockchain/tx.sender.js';
+import { sendCritical } from '../../src/monitoring/alerting.js';
+import { redis } from '../../src/utils/redis.js';
+
+/**
+ * Mine a block and run one watchdog check on it
+ * - resolves once the watchdog read the block (the rest of the check may still run)
+ */
+async function checkNextBlock(state: Partial<typeof chain> = {}) {
+  Object.assign(chain, { balance: 1000n, reserved: 900n, fees: 100n, paused: false, failRead: false }, state);
+  chain.head += 1;
+
+  startInvariantWatchdog();
+  stopInvariantWatchdog();
+
+  await vi.waitFor(async () => {
+    const { lastCheckedBlock, lastError } = await getWatchdogState();
+    expect(chain.failRead ? lastError : lastCheckedBlock).toBe(chain.failRead ? 'Only 1 of 2 endpoints agree' : chain.head);
+  });
+}
+
+const shortfall = { balance: 700n };
+
+async function autoPauseOutcomes() {
+  return (await getAutoPauseLog()).map(record => record.outcome).reverse();
+}
+
+describe('invariant watchdog', () => {
+  beforeEach(() => {
+    vi.mocked(submitContractTransaction).mockClear();
+    vi.mocked(sendCritical).mockClear();
+  });
+
+  it('stores every reading in the history, newest first', async () => {
+    await checkNextBlock();
+    await checkNextBlock({ reserved: 800n });
+
+    await vi.waitFor(async () => expect(await getInvariantHistory({ limit: 10 })).toHaveLength(2));
+    const [latest, previous] = await getInvariantHistory({ limit: 10 });
+
+    expect(latest).toMatchObject({
+      blockNumber: chain.head,
+      isValid: true,
+      reservedFunds: '800',
+      withdrawableAmount: '100',
+      shortfall: '0',
+      quorum: { agreeing: 2, queried: 2 }
+    });
+    expect(previous.blockNumber).toBe(chain.head - 1);
+    expect(await getInvariantHistory({ fromBlock: chain.head, limit: 10 })).toHaveLength(1);
+    expect(sendCritical).not.toHaveBeenCalled();
+  });
+
+  it('alerts on the first violation and pauses once it persists', async () => {
+    await checkNextBlock(shortfall);
+    await vi.waitFor(() => expect(sendCritical).toHaveBeenCalledWith('ACCOUNTING_INVARIANT_VIOLATED', expect.objectContaining({ shortfall: '300' })));
+
+    await checkNextBlock(shortfall);
+    await vi.waitFor(async () => expect(await autoPauseOutcomes()).toEqual(['paused']));
+
+    expect(submitContractTransaction).toHaveBeenCalledTimes(1);
+    expect(submitContractTransaction).toHaveBeenCalledWith(`emergency-pause-auto-${chain.head}`, 'emergencyPause', [], { jobType: 'emergency-pause' });
+    expect((await getAutoPauseLog())[0].txHash).toBe('0xpause');
+    await vi.waitFor(() => expect(sendCritical).toHaveBeenCalledWith('INVARIANT_AUTO_PAUSE', expect.objectContaining({ outcome: 'paused' }), `INVARIANT_AUTO_PAUSE:${chain.head}`));
+  });
+
+  it('never pauses after a valid reading breaks the streak', async () => {
+    await checkNextBlock(shortfall);
+    await checkNextBlock();
+    await checkNextBlock(shortfall);
+    await checkNextBlock();
+
+    await vi.waitFor(async () => expect(await getInvariantHistory({ limit: 10 })).toHaveLength(4));
+    expect(await getAutoPauseLog()).toEqual([]);
+    expect(submitContractTransaction).not.toHaveBeenCalled();
+  });
+
+  it('sends no second pause within the cooldown, nor to a paused contract', async () => {
+    await checkNextBlock(shortfall);
+    await checkNextBlock(shortfall);
+    await vi.waitFor(async () => expect(await autoPauseOutcomes()).toEqual(['paused']));
+
+    await checkNextBlock({ ...shortfall, paused: true });
+    await vi.waitFor(async () => expect(await autoPauseOutcomes()).toEqual(['paused', 'already-paused']));
+
+    await checkNextBlock(shortfall);
+    await vi.waitFor(async () => expect(await autoPauseOutcomes()).toEqual(['paused', 'already-paused', 'cooldown']));
+
+    expect(submitContractTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('releases the cooldown when the pause fails, so the next violation retries', async () => {
+    vi.mocked(submitContractTransaction).mockRejectedValueOnce(new Error('replacement fee too low'));
+
+    await checkNextBlock(shortfall);
+    await checkNextBlock(shortfall);
+    await vi.waitFor(async () => expect(await autoPauseOutcomes()).toEqual(['failed']));
+
+    await checkNextBlock(shortfall);
+    await vi.waitFor(async () => expect(await autoPauseOutcomes()).toEqual(['failed', 'paused']));
+
+    expect((await getAutoPauseLog())[1].error).toBe('replacement fee too low');
+  });
+
+  it('skips a block another instance already recorded', async () => {
+    await redis.set(`relayer:invariant:checked:${chain.head + 1}`, '1');
+
+    await checkNextBlock(shortfall);
+    await checkNextBlock();
+
+    await vi.waitFor(async () => expect(await getInvariantHistory({ limit: 10 })).toHaveLength(1));
+    expect((await getInvariantHistory({ limit: 10 }))[0].blockNumber).toBe(chain.head);
+    expect(sendCritical).not.toHaveBeenCalled();
+  });
+
+  it('treats a failed read as an error, not a violation', async () => {
+    await checkNextBlock({ failRead: true });
+
+    expect(await getInvariantHistory({ limit: 10 })).toEqual([]);
+    expect(sendCritical).not.toHaveBeenCalled();
+  });
+});
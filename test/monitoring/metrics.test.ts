@@ -0,0 +1,41 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ethers } from 'ethers';
+import { registry, observeMinedTransaction, confirmationLatency } from '../../src/monitoring/metrics.js';
+
+function receipt(status: number, gasUsed: bigint, fee: string) {
+  return { status, gasUsed, fee: ethers.parseEther(fee) } as unknown as ethers.TransactionReceipt;
+}
+
+describe('metrics', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    registry.resetMetrics();
+  });
+
+  it('records gas, fees and confirmation latency of mined transactions by job type', async () => {
+    vi.useFakeTimers({ now: 100_000, toFake: ['Date'] });
+
+    observeMinedTransaction('execute-raffle', receipt(1, 150000n, '0.0015'), 88_000);
+    observeMinedTransaction('execute-raffle', receipt(0, 50000n, '0.0005'), 95_000);
+
+    const text = await registry.metrics();
+
+    expect(text).toContain('relayer_tx_gas_used_total{type="execute-raffle"} 200000');
+    expect(text).toContain('relayer_tx_fees_native_total{type="execute-raffle"} 0.002');
+    expect(text).toContain('relayer_tx_confirmation_seconds_sum{type="execute-raffle",status="success"} 12');
+    expect(text).toContain('relayer_tx_confirmation_seconds_count{type="execute-raffle",status="reverted"} 1');
+  });
+
+  it('never records a negative latency', async () => {
+    vi.useFakeTimers({ now: 100_000, toFake: ['Date'] });
+
+    observeMinedTransaction('create-raffle', receipt(1, 1n, '0'), 101_000);
+
+    const { values } = await confirmationLatency.get();
+    expect(values.find(value => value.metricName === 'relayer_tx_confirmation_seconds_sum')?.value).toBe(0);
+  });
+
+  it('exposes process metrics under the relayer prefix', async () => {
+    expect(await registry.metrics()).toContain('relayer_process_cpu_seconds_total');
+  });
+});
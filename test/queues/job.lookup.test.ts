@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import { enqueueTransaction, moveToRetryQueue } from '../../src/queues/tx.queue.js';
+import { getJobStatus, listJobs, toOriginalJobId, InvalidJobCursorError } from '../../src/queues/job.lookup.js';
+import { fakeJob, findQueue } from '../support/bull.js';
+
+// error.classifier.ts reads the contract from the app entry point
+vi.mock('../../src/index.js', () => ({ contract: {}, signer: {} }));
+
+const raffleJob = { type: 'execute-raffle', raffleId: 7 };
+
+describe('job lookup', () => {
+  it('reports a waiting main queue job as queued', async () => {
+    const job = await enqueueTransaction('execute-raffle', raffleJob);
+    const report = await getJobStatus(job.id.toString());
+
+    expect(report).toMatchObject({ jobId: job.id.toString(), wallet: 'owner', type: 'execute-raffle', state: 'queued' });
+    expect(report!.attempts).toEqual([]);
+  });
+
+  it('returns null for an unknown job', async () => {
+    expect(await getJobStatus('999')).toBeNull();
+  });
+
+  it('reports a successful main queue job as completed with its receipt fields', async () => {
+    const job = fakeJob(await enqueueTransaction('execute-raffle', raffleJob));
+    job.setState('completed', { returnvalue: { success: true, txHash: '0xabc', blockNumber: 12 } });
+
+    const report = await getJobStatus(job.id.toString());
+
+    expect(report).toMatchObject({ state: 'completed', txHash: '0xabc', blockNumber: 12 });
+    expect(report!.attempts).toEqual([expect.objectContaining({ queue: 'main', outcome: 'succeeded' })]);
+  });
+
+  it('follows a failed job into the retry queue and merges the attempt history', async () => {
+    const job = fakeJob(await enqueueTransaction('execute-raffle', raffleJob));
+    job.setState('completed', { returnvalue: { success: false, movedToRetry: true, error: 'transient-network: timeout' } });
+
+    const retry = fakeJob(await moveToRetryQueue('execute-raffle', raffleJob, job.id, 'timeout'));
+    retry.setState('active', { attemptsMade: 1, stacktrace: ['Error: nonce-conflict: nonce too low\n    at x'] });
+
+    const report = await getJobStatus(job.id.toString());
+
+    expect(report).toMatchObject({ state: 'processing', retryJobId: `retry-${job.id}` });
+    expect(report!.attempts.map(attempt => `${attempt.queue}:${attempt.outcome}`)).toEqual([
+      'main:failed',
+      'retry:failed',
+      'retry:in-progress'
+    ]);
+    expect(report!.errorClass).toBe('nonce-conflict');
+
+    // The retry id resolves to the same job
+    expect((await getJobStatus(`retry-${job.id}`))!.jobId).toBe(job.id.toString());
+  });
+
+  it('reports a non-retryable failure as failed with its revert reason', async () => {
+    const job = fakeJob(await enqueueTransaction('execute-raffle', raffleJob));
+    job.setState('completed', {
+      returnvalue: { success: false, movedToRetry: false, error: 'permanent-revert: RaffleNotExpired()' }
+    });
+
+    const report = await getJobStatus(job.id.toString());
+
+    expect(report).toMatchObject({ state: 'failed', errorClass: 'permanent-revert', revertReason: 'RaffleNotExpired()' });
+  });
+
+  it('lists jobs newest first, filtered by type and state', async () => {
+    const first = fakeJob(await enqueueTransaction('execute-raffle', raffleJob));
+    await enqueueTransaction('cancel-raffle', { type: 'cancel-raffle', raffleId: 8 });
+    first.setState('failed', { failedReason: 'boom' });
+
+    expect((await listJobs({ limit: 10 })).jobs.map(report => report.type)).toHaveLength(2);
+    expect((await listJobs({ type: 'cancel-raffle', limit: 10 })).jobs).toEqual([expect.objectContaining({ state: 'queued' })]);
+    expect((await listJobs({ state: 'failed', limit: 10 })).jobs).toEqual([expect.objectContaining({ jobId: first.id.toString() })]);
+  });
+
+  it('pages through jobs with a cursor, reading bounded ranges', async () => {
+    const main = findQueue('relayer-tx-main');
+    const getJobs = vi.spyOn(main, 'getJobs');
+    const ids: string[] = [];
+    for (let raffleId = 1; raffleId <= 5; raffleId++) {
+      ids.push((await enqueueTransaction('retry-randomness', { type: 'retry-randomness', raffleId })).id.toString());
+    }
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await listJobs({ limit: 2, cursor });
+      expect(page.jobs.length).toBeLessThanOrEqual(2);
+      seen.push(...page.jobs.map(report => report.jobId));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(seen).toEqual([...ids].reverse());
+    expect(getJobs.mock.calls.every(([, start, end]) => end! - start! === 1)).toBe(true);
+    getJobs.mockRestore();
+  });
+
+  it('lists a job once when both its main and retry records are listed', async () => {
+    const job = fakeJob(await enqueueTransaction('execute-raffle', raffleJob));
+    job.setState('completed', { returnvalue: { success: false, movedToRetry: true, error: 'transient-network: timeout' } });
+    await moveToRetryQueue('execute-raffle', raffleJob, job.id, 'timeout');
+
+    const { jobs } = await listJobs({ limit: 10 });
+
+    expect(jobs).toEqual([expect.objectContaining({ jobId: job.id.toString(), state: 'retrying' })]);
+  });
+
+  it('refuses a cursor it did not issue', async () => {
+    await expect(listJobs({ limit: 10, cursor: 'not-a-cursor' })).rejects.toBeInstanceOf(InvalidJobCursorError);
+    await expect(listJobs({ limit: 10, cursor: Buffer.from('{"a":-1}').toString('base64url') })).rejects.toBeInstanceOf(InvalidJobCursorError);
+  });
+
+  it('strips the retry prefix from job ids', () => {
+    expect(toOriginalJobId('retry-42')).toBe('42');
+    expect(toOriginalJobId('op1-3')).toBe('op1-3');
+  });
+});
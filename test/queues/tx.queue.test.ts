@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.hoisted(() => {
+  Object.assign(process.env, {
+    OPERATOR_WALLETS: JSON.stringify([
+      { id: 'op1', backend: 'env', privateKey: '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d' },
+      { id: 'op2', backend: 'env', privateKey: '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a' }
+    ]),
+    // Every relayer job type is owner-only on RifasPlatform - operator routes use
+    // types for methods any account may call (claimRefund, checkAccountingInvariant)
+    WALLET_ROUTES: JSON.stringify({ 'claim-refund': ['op1', 'op2'], 'check-invariant': 'op2', 'withdraw-fees': 'owner' })
+  });
+});
+
+import {
+  enqueueTransaction,
+  getTxLanes,
+  getTxLane,
+  laneForJobId,
+  getRetryJobId,
+  RaffleAlreadyEnqueuedError
+} from '../../src/queues/tx.queue.js';
+import { WALLET_CONFIG } from '../../src/config/app.config.js';
+import { resolveWalletRoute } from '../../src/config/wallets.js';
+import { saveRaffleReference, getRaffleRoutingKey } from '../../src/blockchain/raffle.references.js';
+
+function created(raffleId: string, referenceId: string) {
+  return saveRaffleReference(
+    { raffleId, referenceId, templateId: '1', ticketPrice: '1', maxTickets: '10', minTickets: '1', expiresAt: '0' },
+    { jobId: '1', txHash: '0x01', blockNumber: 1 }
+  );
+}
+
+describe('tx queue lanes', () => {
+  it('creates one lane per wallet, owner first', () => {
+    expect(getTxLanes().map(lane => [lane.walletId, lane.mainQueue.name, lane.retryQueue.name])).toEqual([
+      ['owner', 'relayer-tx-main', 'relayer-tx-retry'],
+      ['op1', 'relayer-tx-main-op1', 'relayer-tx-retry-op1'],
+      ['op2', 'relayer-tx-main-op2', 'relayer-tx-retry-op2']
+    ]);
+  });
+
+  it('keeps unrouted and owner-only jobs on the owner lane with numeric ids', async () => {
+    const unrouted = await enqueueTransaction('execute-raffle', { type: 'execute-raffle', raffleId: 1 });
+    const pinned = await enqueueTransaction('withdraw-fees', { type: 'withdraw-fees' });
+
+    expect(getTxLane('owner')!.mainQueue.name).toBe('relayer-tx-main');
+    expect([unrouted.queue.name, pinned.queue.name]).toEqual(['relayer-tx-main', 'relayer-tx-main']);
+    expect(unrouted.id.toString()).toMatch(/^\d+$/);
+    expect(laneForJobId(unrouted.id).walletId).toBe('owner');
+  });
+
+  it('prefixes operator job ids with the wallet id', async () => {
+    const first = await enqueueTransaction('check-invariant', { type: 'check-invariant' });
+    const second = await enqueueTransaction('check-invariant', { type: 'check-invariant' });
+
+    expect([first.id, second.id]).toEqual(['op2-1', 'op2-2']);
+    expect(first.queue.name).toBe('relayer-tx-main-op2');
+    expect(laneForJobId('op2-1').walletId).toBe('op2');
+    expect(laneForJobId(getRetryJobId('op2-1')).walletId).toBe('op2');
+  });
+
+  it('sends every job of a raffle to the same wallet of a pool', async () => {
+    const jobs = await Promise.all(
+      [1, 2, 3].map(() => enqueueTransaction('claim-refund', { type: 'claim-refund', referenceId: 'raffle-42' }))
+    );
+
+    expect(new Set(jobs.map(job => job.queue.name)).size).toBe(1);
+  });
+
+  it('routes raffleId jobs on the referenceId the raffle was created with', async () => {
+    const routes = { 'claim-refund': ['op1', 'op2'] };
+    const references = Array.from({ length: 8 }, (_, index) => `raffle-${index}`);
+    await Promise.all(references.map((referenceId, index) => created(String(100 + index), referenceId)));
+
+    const byReference = await Promise.all(references.map(referenceId =>
+      resolveWalletRoute(routes, 'claim-refund', { referenceId }, getRaffleRoutingKey)));
+    const byRaffleId = await Promise.all(references.map((_, index) =>
+      resolveWalletRoute(routes, 'claim-refund', { raffleId: 100 + index }, getRaffleRoutingKey)));
+
+    expect(byRaffleId).toEqual(byReference);
+    expect(new Set(byReference).size).toBe(2);
+    expect(await getRaffleRoutingKey({ raffleIds: ['103', '104'] })).toBe('raffle-3');
+    expect(await getRaffleRoutingKey({ raffleId: 999 })).toBe('999');
+    expect(await getRaffleRoutingKey({ address: '0x01' })).toBeUndefined();
+  });
+
+  it('never routes an owner-only job type away from the owner', async () => {
+    const routingKey = vi.fn(async () => 'raffle-1');
+
+    expect(await resolveWalletRoute({ 'create-raffle': ['op1', 'op2'], 'execute-raffle': 'op1' }, 'create-raffle', {}, routingKey)).toBe('owner');
+    expect(await resolveWalletRoute({ 'execute-raffle': 'op1' }, 'execute-raffle', { raffleId: 1 }, routingKey)).toBe('owner');
+    expect(routingKey).not.toHaveBeenCalled();
+  });
+
+  it('fails with an explicit error for a route without a lane', async () => {
+    const routes = WALLET_CONFIG.routes;
+    WALLET_CONFIG.routes = { 'claim-refund': 'op9' };
+
+    try {
+      await expect(enqueueTransaction('claim-refund', { type: 'claim-refund' }))
+        .rejects.toThrow('No queue lane for wallet "op9" (job type claim-refund)');
+    } finally {
+      WALLET_CONFIG.routes = routes;
+    }
+  });
+});
+
+describe('one-shot raffle jobs', () => {
+  it('enqueues execute-raffle or cancel-raffle once per raffle', async () => {
+    await enqueueTransaction('execute-raffle', { type: 'execute-raffle', raffleId: 7 });
+
+    const again = await enqueueTransaction('execute-raffle', { type: 'execute-raffle', raffleId: '7' }).catch(error => error);
+    const cancel = await enqueueTransaction('cancel-raffle', { type: 'cancel-raffle', raffleId: 7 }).catch(error => error);
+
+    expect(again).toBeInstanceOf(RaffleAlreadyEnqueuedError);
+    expect(cancel).toMatchObject({ code: 'RAFFLE_ALREADY_ENQUEUED', raffleId: '7', claimedBy: 'execute-raffle' });
+    await expect(enqueueTransaction('execute-raffle', { type: 'execute-raffle', raffleId: 8 })).resolves.toBeDefined();
+  });
+
+  it('leaves refunds and randomness retries unclaimed', async () => {
+    await enqueueTransaction('execute-raffle', { type: 'execute-raffle', raffleId: 7 });
+
+    await expect(enqueueTransaction('retry-randomness', { type: 'retry-randomness', raffleId: 7 })).resolves.toBeDefined();
+    await expect(enqueueTransaction('execute-refund', { type: 'execute-refund', raffleId: 7 })).resolves.toBeDefined();
+    await expect(enqueueTransaction('execute-refund', { type: 'execute-refund', raffleId: 7 })).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import crypto from 'crypto';
+import type { Job } from 'bull';
+
+vi.hoisted(() => {
+  process.env.WEBHOOK_SECRET = 'test-webhook-secret-0123456789abcdef';
+  process.env.WEBHOOK_URL = 'https://hooks.example.com/relayer';
+});
+
+import {
+  notifyJobEvent,
+  signPayload,
+  recordDelivery,
+  getDeliveryLog,
+  webhookQueue,
+  DeliveryLogEntry
+} from '../../src/queues/webhook.queue.js';
+import { WEBHOOK_CONFIG } from '../../src/config/app.config.js';
+import { findQueue } from '../support/bull.js';
+
+function txJob(data: Record<string, unknown>, attemptsMade = 0): Job {
+  return { data, attemptsMade } as unknown as Job;
+}
+
+function deliveries() {
+  return [...findQueue('relayer-webhooks').jobs.values()].map(job => job.data);
+}
+
+describe('notifyJobEvent()', () => {
+  afterEach(() => {
+    WEBHOOK_CONFIG.enabled = true;
+  });
+
+  it('queues one delivery per target with the job and its domain ids', async () => {
+    const job = txJob({ type: 'execute-refund', raffleId: 7n, callbackUrl: 'https://backend.example.com/hooks' }, 1);
+
+    await notifyJobEvent('job.retrying', job, { jobId: '42', queue: 'main', retrying: true, error: '[transient-network] socket hang up' });
+
+    expect(deliveries().map(delivery => delivery.url)).toEqual(['https://hooks.example.com/relayer', 'https://backend.example.com/hooks']);
+    expect(deliveries()[0].payload).toMatchObject({
+      event: 'job.retrying',
+      job: { jobId: '42', queue: 'main', type: 'execute-refund', attempt: 2, retrying: true },
+      raffleId: '7',
+      error: '[transient-network] socket hang up'
+    });
+    expect(deliveries()[0].payload.id).toBe(deliveries()[1].payload.id);
+  });
+
+  it('adds the raffleId assigned on-chain to create-raffle events', async () => {
+    await notifyJobEvent('job.mined', txJob({ type: 'create-raffle', referenceId: 9001n }), {
+      jobId: '43',
+      queue: 'main',
+      retrying: false,
+      txHash: '0x' + 'ab'.repeat(32),
+      blockNumber: 120,
+      raffleId: '8'
+    });
+
+    expect(deliveries()[0].payload).toMatchObject({ referenceId: '9001', raffleId: '8', blockNumber: 120 });
+  });
+
+  it('delivers once when the callback URL is the global URL', async () => {
+    await notifyJobEvent('job.mined', txJob({ type: 'pause-contract', callbackUrl: 'https://hooks.example.com/relayer' }), {
+      jobId: '44',
+      queue: 'main',
+      retrying: false
+    });
+
+    expect(deliveries()).toHaveLength(1);
+  });
+
+  it('does nothing while webhooks are disabled', async () => {
+    WEBHOOK_CONFIG.enabled = false;
+
+    await notifyJobEvent('job.mined', txJob({ type: 'pause-contract' }), { jobId: '45', queue: 'main', retrying: false });
+
+    expect(deliveries()).toEqual([]);
+  });
+
+  it('never throws when the delivery cannot be queued', async () => {
+    const add = vi.spyOn(webhookQueue, 'add').mockRejectedValueOnce(new Error('Connection is closed.'));
+
+    try {
+      await expect(notifyJobEvent('job.exhausted', txJob({ type: 'pause-contract' }), { jobId: '46', queue: 'retry', retrying: false }))
+        .resolves.toBeUndefined();
+    } finally {
+      add.mockRestore();
+    }
+  });
+});
+
+describe('signPayload()', () => {
+  it('signs the timestamp and body with WEBHOOK_SECRET', () => {
+    const body = JSON.stringify({ id: 'delivery-1' });
+    const expected = crypto.createHmac('sha256', 'test-webhook-secret-0123456789abcdef').update(`1700000000.${body}`).digest('hex');
+
+    expect(signPayload(body, 1_700_000_000)).toBe(`sha256=${expected}`);
+    expect(signPayload(body, 1_700_000_001)).not.toBe(`sha256=${expected}`);
+  });
+});
+
+describe('delivery log', () => {
+  it('lists attempts newest first, filtered by job', async () => {
+    const attempt = (jobId: string, attemptNumber: number, status: DeliveryLogEntry['status']): DeliveryLogEntry => ({
+      deliveryId: `delivery-${jobId}`,
+      event: 'job.mined',
+      jobId,
+      url: 'https://hooks.example.com/relayer',
+      attempt: attemptNumber,
+      status,
+      timestamp: new Date().toISOString()
+    });
+
+    await recordDelivery(attempt('42', 1, 'failed'));
+    await recordDelivery(attempt('43', 1, 'delivered'));
+    await recordDelivery(attempt('42', 2, 'delivered'));
+
+    expect((await getDeliveryLog({ jobId: '42', limit: 10 })).map(entry => [entry.attempt, entry.status])).toEqual([[2, 'delivered'], [1, 'failed']]);
+    expect(await getDeliveryLog({ limit: 1 })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Test environment - loaded before every test file (vitest.config.ts)
+ *
+ * - Minimal valid configuration for config/env.ts (hardhat profile, env signer)
+ * - ioredis → ioredis-mock and bull → test/support/bull.ts, so modules that
+ *   open connections at import time work without a Redis server
+ * - Redis is flushed and fake queues emptied before each test
+ */
+
+import { vi, beforeEach } from 'vitest';
+
+Object.assign(process.env, {
+  NODE_ENV: 'test',
+  RELAYER_API_KEY: 'test-relayer-api-key-0123456789abcdef',
+  REDIS_URL: 'redis://127.0.0.1:6379',
+  RPC_URL: 'http://127.0.0.1:8545',
+  CONTRACT_ADDRESS: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+  // Hardhat's first dev account - never holds real funds
+  ADMIN_PRIVATE_KEY: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  EXECUTOR_ENABLED: 'false',
+  INDEXER_ENABLED: 'false',
+  VRF_WATCHER_ENABLED: 'false',
+  INVARIANT_WATCHDOG_ENABLED: 'false'
+});
+
+vi.mock('ioredis', async () => {
+  const { default: RedisMock } = await import('ioredis-mock');
+  return { default: RedisMock, Redis: RedisMock };
+});
+
+vi.mock('bull', async () => {
+  const { FakeQueue } = await import('./support/bull.js');
+  return { default: FakeQueue };
+});
+
+beforeEach(async () => {
+  const [{ redis }, { clearQueues }] = await Promise.all([
+    import('../src/utils/redis.js'),
+    import('./support/bull.js')
+  ]);
+
+  await redis.flushall();
+  clearQueues();
+});
@@ -0,0 +1,153 @@
+/**
+ * In-memory stand-in for Bull queues (tests never reach a Redis server)
+ *
+ * Covers what the relayer calls on a queue: add, getJob, getJobs, getWaiting,
+ * count, process and on. Tests drive job state with setState(), run the
+ * registered handler with runHandler() and fire queue events with emit().
+ * Delayed jobs are also scored in Redis (client/toKey), like Bull does.
+ */
+
+import Redis from 'ioredis';
+
+export type FakeJobState = 'waiting' | 'active' | 'delayed' | 'completed' | 'failed';
+
+export class FakeJob<T = any> {
+  state: FakeJobState = 'waiting';
+  returnvalue: any = null;
+  failedReason?: string;
+  stacktrace: string[] = [];
+  attemptsMade = 0;
+  processedOn?: number;
+  finishedOn?: number;
+  discarded = false;
+  readonly timestamp = Date.now();
+  queue?: FakeQueue;
+
+  constructor(
+    readonly id: string | number,
+    readonly data: T,
+    readonly opts: Record<string, any> = {}
+  ) {}
+
+  async getState(): Promise<FakeJobState> {
+    return this.state;
+  }
+
+  async discard(): Promise<void> {
+    this.discarded = true;
+  }
+
+  setState(state: FakeJobState, fields: Partial<Pick<FakeJob, 'returnvalue' | 'failedReason' | 'stacktrace' | 'attemptsMade'>> = {}): this {
+    this.state = state;
+    Object.assign(this, fields);
+    this.processedOn = state === 'waiting' || state === 'delayed' ? undefined : this.timestamp;
+    this.finishedOn = state === 'completed' || state === 'failed' ? this.timestamp : undefined;
+    return this;
+  }
+}
+
+export class FakeQueue {
+  readonly jobs = new Map<string, FakeJob>();
+  private counter = 0;
+  private handler?: (job: FakeJob) => Promise<any>;
+  private readonly listeners = new Map<string, Array<(...args: any[]) => void>>();
+  readonly client: Redis;
+
+  constructor(readonly name: string, url?: string, readonly options: Record<string, any> = {}) {
+    // ioredis-mock (test/setup.ts) - shares data with src/utils/redis.ts
+    this.client = new Redis(url ?? process.env.REDIS_URL!);
+    queues.push(this);
+  }
+
+  toKey(type: string): string {
+    return `bull:${this.name}:${type}`;
+  }
+
+  async add(data: any, opts: Record<string, any> = {}): Promise<FakeJob> {
+    const id = opts.jobId ?? ++this.counter;
+    const job = new FakeJob(id, data, opts);
+
+    job.state = opts.delay ? 'delayed' : 'waiting';
+    job.queue = this;
+    this.jobs.set(id.toString(), job);
+
+    if (opts.delay) {
+      await this.client.zadd(this.toKey('delayed'), (job.timestamp + opts.delay) * 0x1000, id.toString());
+    }
+    return job;
+  }
+
+  async getJob(id: string | number): Promise<FakeJob | null> {
+    return this.jobs.get(id.toString()) ?? null;
+  }
+
+  // Newest first, start/end inclusive like Bull's default ranges
+  async getJobs(states: FakeJobState[], start = 0, end = -1): Promise<FakeJob[]> {
+    const jobs = [...this.jobs.values()].filter(job => states.includes(job.state)).reverse();
+    return jobs.slice(start, end < 0 ? undefined : end + 1);
+  }
+
+  // Oldest first, like Bull's getWaiting()
+  async getWaiting(start = 0, end = -1): Promise<FakeJob[]> {
+    const jobs = [...this.jobs.values()].filter(job => job.state === 'waiting');
+    return jobs.slice(start, end < 0 ? undefined : end + 1);
+  }
+
+  // wait + paused + delayed
+  async count(): Promise<number> {
+    return [...this.jobs.values()].filter(job => job.state === 'waiting' || job.state === 'delayed').length;
+  }
+
+  on(event: string, listener: (...args: any[]) => void): this {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+    return this;
+  }
+
+  emit(event: string, ...args: any[]): void {
+    for (const listener of this.listeners.get(event) ?? []) {
+      listener(...args);
+    }
+  }
+
+  process(concurrency: number | ((job: FakeJob) => Promise<any>), handler?: (job: FakeJob) => Promise<any>): void {
+    this.handler = typeof concurrency === 'function' ? concurrency : handler;
+  }
+
+  /**
+   * Run the handler registered with process() on a job, as Bull would
+   */
+  async runHandler(job: FakeJob): Promise<any> {
+    if (!this.handler) {
+      throw new Error(`No handler registered on ${this.name}`);
+    }
+    return this.handler(job);
+  }
+
+  async close(): Promise<void> {}
+}
+
+/**
+ * Every queue created since the last reset, in creation order
+ */
+export const queues: FakeQueue[] = [];
+
+export function findQueue(name: string): FakeQueue {
+  const queue = queues.find(candidate => candidate.name === name);
+  if (!queue) {
+    throw new Error(`No fake queue named ${name}`);
+  }
+  return queue;
+}
+
+export function clearQueues(): void {
+  for (const queue of queues) {
+    queue.jobs.clear();
+  }
+}
+
+/**
+ * A job returned by the code under test, seen as the fake it is
+ */
+export function fakeJob(job: unknown): FakeJob {
+  return job as FakeJob;
+}
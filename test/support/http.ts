@@ -0,0 +1,80 @@
+/**
+ * Minimal Express request/response doubles for middleware and controller tests
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import type { AuthenticatedClient } from '../../src/auth/key.registry.js';
+
+export interface MockResponse {
+  res: Response;
+  statusCode: number;
+  body: any;
+  headers: Record<string, string>;
+}
+
+export function mockRequest(options: {
+  body?: any;
+  headers?: Record<string, string>;
+  apiClient?: AuthenticatedClient;
+  ip?: string;
+  path?: string;
+  params?: Record<string, string>;
+} = {}): Request {
+  const headers = Object.fromEntries(
+    Object.entries(options.headers ?? {}).map(([name, value]) => [name.toLowerCase(), value])
+  );
+
+  return {
+    body: options.body ?? {},
+    headers,
+    params: options.params ?? {},
+    query: {},
+    apiClient: options.apiClient,
+    ip: options.ip ?? '203.0.113.10',
+    path: options.path ?? '/',
+    originalUrl: options.path ?? '/',
+    method: 'POST',
+    socket: {},
+    get: (name: string) => headers[name.toLowerCase()]
+  } as unknown as Request;
+}
+
+export function mockResponse(): MockResponse {
+  const mock = { statusCode: 200, body: undefined, headers: {} } as MockResponse;
+
+  const res = {
+    get statusCode() {
+      return mock.statusCode;
+    },
+    status(code: number) {
+      mock.statusCode = code;
+      return res;
+    },
+    json(body: any) {
+      mock.body = body;
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      mock.headers[name.toLowerCase()] = value;
+      return res;
+    }
+  };
+
+  mock.res = res as unknown as Response;
+  return mock;
+}
+
+/**
+ * Run one middleware; resolves true when it called next()
+ */
+export async function runMiddleware(
+  middleware: (req: Request, res: Response, next: NextFunction) => unknown,
+  req: Request,
+  res: Response
+): Promise<boolean> {
+  let nextCalled = false;
+  await middleware(req, res, () => {
+    nextCalled = true;
+  });
+  return nextCalled;
+}
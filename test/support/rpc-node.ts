@@ -0,0 +1,80 @@
+/**
+ * Local JSON-RPC stand-in node for provider tests
+ *
+ * Answers eth_chainId, eth_blockNumber, eth_call and eth_sendRawTransaction
+ * from its settings; mode 'down' answers HTTP 503 to everything.
+ * Settings can be changed between requests.
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+
+export interface RpcNode {
+  url: string;
+  chainId: number;
+  blockNumber: number;
+  mode: 'ok' | 'down';
+  callResult: string;
+  knownTransactions: boolean;     // eth_sendRawTransaction answers "already known"
+  methods: string[];              // Methods received, in order
+  close(): Promise<void>;
+}
+
+function answer(node: RpcNode, request: { id: number; method: string; params: unknown[] }) {
+  node.methods.push(request.method);
+
+  switch (request.method) {
+    case 'eth_chainId':
+      return { jsonrpc: '2.0', id: request.id, result: ethers.toQuantity(node.chainId) };
+    case 'eth_blockNumber':
+      return { jsonrpc: '2.0', id: request.id, result: ethers.toQuantity(node.blockNumber) };
+    case 'eth_call':
+      return { jsonrpc: '2.0', id: request.id, result: node.callResult };
+    case 'eth_sendRawTransaction':
+      return node.knownTransactions
+        ? { jsonrpc: '2.0', id: request.id, error: { code: -32000, message: 'already known' } }
+        : { jsonrpc: '2.0', id: request.id, result: ethers.keccak256(request.params[0] as string) };
+    default:
+      return { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: `${request.method} not supported` } };
+  }
+}
+
+export async function startRpcNode(settings: Partial<Pick<RpcNode, 'chainId' | 'blockNumber' | 'mode' | 'callResult'>> = {}): Promise<RpcNode> {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      if (node.mode === 'down') {
+        res.writeHead(503);
+        res.end();
+        return;
+      }
+
+      const request = JSON.parse(body);
+      const result = Array.isArray(request) ? request.map(item => answer(node, item)) : answer(node, request);
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(result));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  const node: RpcNode = {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    chainId: 31337,
+    blockNumber: 100,
+    mode: 'ok',
+    callResult: ethers.toBeHex(1, 32),
+    knownTransactions: false,
+    methods: [],
+    ...settings,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+
+  return node;
+}
@@ -0,0 +1,97 @@
+/**
+ * Local signing service for remote signer tests
+ *
+ * Speaks protocol v1 from src/blockchain/remote.signer.ts like the dev stub,
+ * with switches for the misbehaviour the relayer must catch:
+ * - mode 'refuse'  → 403 POLICY_REFUSED to every signing request
+ * - mode 'tamper'  → signs the transaction with a different recipient
+ * - mode 'hang'    → never answers signing requests
+ * - signingKey     → key that actually signs (defaults to the advertised one)
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+
+export interface SignerNode {
+  url: string;
+  wallet: ethers.Wallet;            // Address reported by GET /v1/address
+  signingKey: ethers.BaseWallet;
+  address?: string;                 // Overrides the reported address
+  mode: 'ok' | 'refuse' | 'tamper' | 'hang';
+  authorization: Array<string | undefined>;   // Authorization header of every request
+  close(): Promise<void>;
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function handle(node: SignerNode, req: http.IncomingMessage, res: http.ServerResponse, body: string): Promise<void> {
+  node.authorization.push(req.headers.authorization);
+
+  if (req.method === 'GET' && req.url === '/v1/address') {
+    send(res, 200, { address: node.address ?? node.wallet.address });
+    return;
+  }
+
+  if (node.mode === 'hang') return;
+
+  if (node.mode === 'refuse') {
+    send(res, 403, { error: 'POLICY_REFUSED', message: 'Recipient not allowed' });
+    return;
+  }
+
+  const request = JSON.parse(body);
+
+  switch (req.url) {
+    case '/v1/sign-transaction': {
+      const tx = ethers.Transaction.from(request.unsignedTransaction);
+      if (node.mode === 'tamper') {
+        tx.to = ethers.Wallet.createRandom().address;
+      }
+      tx.signature = node.signingKey.signingKey.sign(tx.unsignedHash);
+      send(res, 200, { signedTransaction: tx.serialized });
+      return;
+    }
+
+    case '/v1/sign-message':
+      send(res, 200, { signature: await node.signingKey.signMessage(ethers.getBytes(request.message)) });
+      return;
+
+    case '/v1/sign-typed-data':
+      send(res, 200, { signature: await node.signingKey.signTypedData(request.domain, request.types, request.value) });
+      return;
+
+    default:
+      send(res, 404, { error: 'NOT_FOUND', message: `${req.method} ${req.url}` });
+  }
+}
+
+export async function startSignerNode(): Promise<SignerNode> {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      handle(node, req, res, body).catch((error: Error) => send(res, 400, { error: 'BAD_REQUEST', message: error.message }));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  const wallet = ethers.Wallet.createRandom();
+  const node: SignerNode = {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    wallet: new ethers.Wallet(wallet.privateKey),
+    signingKey: new ethers.Wallet(wallet.privateKey),
+    mode: 'ok',
+    authorization: [],
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+
+  return node;
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { WEBHOOK_CONFIG } from '../../src/config/app.config.js';
+import { checkCallbackTarget, resolveCallbackTarget, isPublicAddress } from '../../src/utils/callback-target.js';
+
+describe('callback targets', () => {
+  afterEach(() => {
+    WEBHOOK_CONFIG.allowedHosts = [];
+  });
+
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.10', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+    '::1', '::', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1', '::ffff:169.254.169.254'
+  ])('treats %s as non-public', address => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it.each(['93.184.216.34', '1.1.1.1', '2606:4700:4700::1111'])('treats %s as public', address => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+
+  it('refuses loopback, private and link-local targets', async () => {
+    for (const url of [
+      'http://127.0.0.1:8080/hook',
+      'http://localhost/hook',
+      'http://10.0.0.5/hook',
+      'http://169.254.169.254/latest/meta-data',
+      'http://[::1]/hook'
+    ]) {
+      expect(await checkCallbackTarget(url), url).toMatch(/non-public address/);
+    }
+  });
+
+  it('accepts public hosts and refuses other schemes', async () => {
+    expect(await checkCallbackTarget('https://93.184.216.34/hook')).toBeUndefined();
+    expect(await checkCallbackTarget('ftp://93.184.216.34/hook')).toMatch(/http\(s\)/);
+    expect(await checkCallbackTarget('not a url')).toMatch(/http\(s\)/);
+  });
+
+  it('keeps the checked address for the delivery to connect to', async () => {
+    expect(await resolveCallbackTarget('https://93.184.216.34/hook')).toEqual({ address: { address: '93.184.216.34', family: 4 } });
+    expect(await resolveCallbackTarget('http://127.0.0.1/hook')).toEqual({ refusal: expect.stringMatching(/non-public address/) });
+  });
+
+  it('only accepts listed hosts when WEBHOOK_ALLOWED_HOSTS is set, internal ones included', async () => {
+    WEBHOOK_CONFIG.allowedHosts = ['backend.internal', '*.example.com'];
+
+    expect(await checkCallbackTarget('http://backend.internal/hooks')).toBeUndefined();
+    expect(await checkCallbackTarget('https://api.example.com/hooks')).toBeUndefined();
+    expect(await checkCallbackTarget('https://example.com.evil.io/hooks')).toMatch(/WEBHOOK_ALLOWED_HOSTS/);
+    expect(await checkCallbackTarget('https://93.184.216.34/hook')).toMatch(/WEBHOOK_ALLOWED_HOSTS/);
+  });
+});
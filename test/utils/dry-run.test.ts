@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ethers } from 'ethers';
+
+const calls = vi.hoisted(() => ({
+  staticCall: vi.fn(),
+  estimateGas: vi.fn()
+}));
+
+vi.mock('../../src/index.js', async () => {
+  const { readFileSync } = await import('fs');
+  const { abi } = JSON.parse(readFileSync('abi/RifasPlatform.json', 'utf-8'));
+  const target = new Proxy({}, { get: () => calls });
+  return { contract: { interface: new ethers.Interface(abi), connect: () => target }, signer: {} };
+});
+
+vi.mock('../../src/blockchain/wallet.pool.js', () => ({ getWallet: () => ({ signer: {} }) }));
+
+import { respondWithDryRun, isDryRun } from '../../src/utils/dry-run.js';
+import { executeRaffle } from '../../src/controllers/raffle.controller.js';
+import { contract } from '../../src/index.js';
+import { redis } from '../../src/utils/redis.js';
+import { mockRequest, mockResponse } from '../support/http.js';
+import { findQueue } from '../support/bull.js';
+
+const executeJob = { type: 'execute-raffle', raffleId: 7 };
+
+describe('dry runs', () => {
+  beforeEach(() => {
+    calls.staticCall.mockReset();
+    calls.estimateGas.mockReset();
+  });
+
+  it('answers 200 with the gas estimate when the call would succeed', async () => {
+    calls.staticCall.mockResolvedValue(undefined);
+    calls.estimateGas.mockResolvedValue(183000n);
+    const response = mockResponse();
+
+    await respondWithDryRun(response.res, 'execute-raffle', executeJob);
+
+    expect(calls.staticCall).toHaveBeenCalledWith(7n, { blockTag: 'pending' });
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toMatchObject({ dryRun: true, simulation: { method: 'executeRaffle', gasEstimate: '183000' } });
+  });
+
+  it('answers 422 with the decoded reason when the call would revert', async () => {
+    calls.staticCall.mockRejectedValue({ code: 'CALL_EXCEPTION', data: contract.interface.encodeErrorResult('EnforcedPause', []) });
+    const response = mockResponse();
+
+    await respondWithDryRun(response.res, 'execute-raffle', executeJob);
+
+    expect(response.statusCode).toBe(422);
+    expect(response.body).toMatchObject({ error: 'SIMULATION_REVERTED', errorClass: 'permanent-revert', reason: 'EnforcedPause()' });
+    expect(calls.estimateGas).not.toHaveBeenCalled();
+  });
+
+  it('answers 502 when the simulation itself fails', async () => {
+    calls.staticCall.mockRejectedValue({ code: 'ECONNREFUSED', message: 'connect ECONNREFUSED' });
+    const response = mockResponse();
+
+    await respondWithDryRun(response.res, 'execute-raffle', executeJob);
+
+    expect(response.statusCode).toBe(502);
+    expect(response.body).toMatchObject({ error: 'SIMULATION_FAILED', errorClass: 'transient-network' });
+  });
+
+  it('only takes a strict boolean and never enqueues or claims the raffle', async () => {
+    calls.staticCall.mockResolvedValue(undefined);
+    calls.estimateGas.mockResolvedValue(183000n);
+    const response = mockResponse();
+
+    expect(isDryRun(mockRequest({ body: { dryRun: 'true' } }))).toBe(false);
+    await executeRaffle(mockRequest({ body: { raffleId: 7, dryRun: true } }), response.res);
+
+    expect(response.body).toMatchObject({ success: true, dryRun: true });
+    expect(findQueue('relayer-tx-main').jobs.size).toBe(0);
+    expect(await redis.exists('relayer:raffles:enqueued:7')).toBe(0);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const chain = vi.hoisted(() => ({
+  time: 1_000_000,
+  raffles: [] as Array<{ id: bigint; maxTickets: bigint; minTickets: bigint; currentTickets: bigint; expiresAt: bigint; status: number }>
+}));
+
+vi.mock('../../src/index.js', () => ({
+  contract: {
+    nextRaffleId: async () => BigInt(chain.raffles.length),
+    scanRaffles: async (start: bigint, end: bigint) => {
+      const batch = chain.raffles.slice(Number(start), Number(end));
+      return [batch.map((_, index) => start + BigInt(index)), batch.map(raffle => raffle.status)];
+    },
+    getRaffle: async (raffleId: bigint) => ({ ticketPrice: 10n, ...chain.raffles[Number(raffleId)] }),
+    runner: { provider: { getBlock: async () => ({ timestamp: chain.time }) } }
+  }
+}));
+
+import { runExecutorScan } from '../../src/workers/raffle.executor.js';
+import { enqueueTransaction } from '../../src/queues/tx.queue.js';
+import { EXECUTOR_CONFIG } from '../../src/config/app.config.js';
+import { findQueue } from '../support/bull.js';
+
+const FILLING = 0;
+const DRAWING = 1;
+
+function raffle(id: number, fields: { currentTickets: number; expiresAt?: number; status?: number }) {
+  return {
+    id: BigInt(id),
+    maxTickets: 10n,
+    minTickets: 3n,
+    currentTickets: BigInt(fields.currentTickets),
+    expiresAt: BigInt(fields.expiresAt ?? chain.time - 60),
+    status: fields.status ?? FILLING
+  };
+}
+
+// getRaffle() of a completed, refunded or archived raffle (the contract deletes it)
+const deleted = { id: 0n, maxTickets: 0n, minTickets: 0n, currentTickets: 0n, expiresAt: 0n, status: FILLING };
+
+describe('raffle executor', () => {
+  beforeEach(() => {
+    EXECUTOR_CONFIG.dryRun = false;
+    chain.raffles = [
+      raffle(0, { currentTickets: 0 }),
+      raffle(1, { currentTickets: 2 }),
+      raffle(2, { currentTickets: 3 }),
+      raffle(3, { currentTickets: 5, expiresAt: chain.time + 60 }),
+      raffle(4, { currentTickets: 10 }),
+      raffle(5, { currentTickets: 4, status: DRAWING }),
+      deleted
+    ];
+  });
+
+  it('cancels, refunds or executes expired FILLING raffles that are not full', async () => {
+    const report = await runExecutorScan();
+
+    expect(report).toMatchObject({ scanned: 7, filling: 6, expired: 3 });
+    expect(report.decisions.map(decision => [decision.raffleId, decision.action, decision.outcome])).toEqual([
+      ['0', 'cancel-raffle', 'enqueued'],
+      ['1', 'execute-refund', 'enqueued'],
+      ['2', 'execute-raffle', 'enqueued']
+    ]);
+    expect([...findQueue('relayer-tx-main').jobs.values()].map(job => job.data)).toEqual([
+      { type: 'cancel-raffle', raffleId: '0' },
+      { type: 'execute-refund', raffleId: '1' },
+      { type: 'execute-raffle', raffleId: '2' }
+    ]);
+  });
+
+  it('never enqueues the same raffle twice', async () => {
+    await runExecutorScan();
+    const second = await runExecutorScan();
+
+    expect(second.decisions.map(decision => decision.outcome)).toEqual(['already-enqueued', 'already-enqueued', 'already-enqueued']);
+    expect(findQueue('relayer-tx-main').jobs.size).toBe(3);
+  });
+
+  it('skips a raffle the execute-raffle route already enqueued', async () => {
+    await enqueueTransaction('execute-raffle', { type: 'execute-raffle', raffleId: '2' });
+
+    const report = await runExecutorScan();
+
+    expect(report.decisions.map(decision => [decision.raffleId, decision.outcome])).toEqual([
+      ['0', 'enqueued'],
+      ['1', 'enqueued'],
+      ['2', 'already-enqueued']
+    ]);
+    expect(findQueue('relayer-tx-main').jobs.size).toBe(3);
+  });
+
+  it('only reports decisions in dry-run mode', async () => {
+    EXECUTOR_CONFIG.dryRun = true;
+
+    const report = await runExecutorScan();
+
+    expect(report.decisions.map(decision => decision.outcome)).toEqual(['dry-run', 'dry-run', 'dry-run']);
+    expect(findQueue('relayer-tx-main').jobs.size).toBe(0);
+  });
+});
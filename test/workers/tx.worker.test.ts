@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+
+vi.mock('../../src/index.js', () => ({ contract: {}, signer: {} }));
+vi.mock('../../src/blockchain/tx.sender.js', () => ({
+  submitContractTransaction: vi.fn(),
+  waitForConfirmation: vi.fn()
+}));
+vi.mock('../../src/blockchain/gas.strategy.js', () => ({
+  shouldDefer: vi.fn(async () => ({ defer: false })),
+  describeCost: () => ({})
+}));
+vi.mock('../../src/monitoring/balance.monitor.js', () => ({ isPausedForBalance: vi.fn(() => false) }));
+vi.mock('../../src/queues/webhook.queue.js', () => ({ notifyJobEvent: vi.fn() }));
+
+import { startTransactionWorker, stopTransactionWorker } from '../../src/workers/tx.worker.js';
+import { submitContractTransaction, waitForConfirmation } from '../../src/blockchain/tx.sender.js';
+import { shouldDefer } from '../../src/blockchain/gas.strategy.js';
+import { isPausedForBalance } from '../../src/monitoring/balance.monitor.js';
+import { notifyJobEvent } from '../../src/queues/webhook.queue.js';
+import { findQueue } from '../support/bull.js';
+
+const submitted = {
+  jobId: '1',
+  walletId: 'owner',
+  jobType: 'execute-raffle',
+  broadcastAt: Date.now(),
+  nonce: 7,
+  txHash: '0x' + 'ab'.repeat(32),
+  resumed: false
+};
+
+const receipt = { hash: submitted.txHash, blockNumber: 120, gasUsed: 21000n };
+
+// Bull's error for a job that ran past its timeout option
+const timeoutError = new Error('Promise timed out after 900000 milliseconds');
+
+/**
+ * Start the handler on a main queue job and hold its broadcast until released
+ */
+async function startHeldJob() {
+  const main = findQueue('relayer-tx-main');
+  const job = await main.add({ type: 'execute-raffle', raffleId: 1 });
+  let release!: (outcome: { error?: Error }) => void;
+
+  vi.mocked(submitContractTransaction).mockImplementationOnce(() => new Promise((resolve, reject) => {
+    release = ({ error }) => (error ? reject(error) : resolve(submitted));
+  }));
+
+  const handled = main.runHandler(job);
+  await vi.waitFor(() => expect(submitContractTransaction).toHaveBeenCalled());
+
+  return { main, job, handled, release };
+}
+
+describe('tx worker job timeout', () => {
+  beforeAll(() => {
+    startTransactionWorker();
+  });
+
+  afterAll(async () => {
+    await stopTransactionWorker();
+  });
+
+  it('moves a timed-out job to retry once when its handler fails later', async () => {
+    const { main, job, handled, release } = await startHeldJob();
+
+    main.emit('failed', job, timeoutError);
+    await vi.waitFor(() => expect(notifyJobEvent).toHaveBeenCalledTimes(1));
+    release({ error: Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }) });
+
+    expect(await handled).toEqual({ success: false, timedOut: true });
+    expect([...findQueue('relayer-tx-retry').jobs.keys()]).toEqual(['retry-1']);
+    expect(vi.mocked(notifyJobEvent).mock.calls.map(([event]) => event)).toEqual(['job.retrying']);
+  });
+
+  it('leaves the mined webhook to the retry job when the handler succeeds after the timeout', async () => {
+    vi.mocked(notifyJobEvent).mockClear();
+    vi.mocked(waitForConfirmation).mockResolvedValueOnce(receipt as any);
+    const { main, job, handled, release } = await startHeldJob();
+
+    main.emit('failed', job, timeoutError);
+    await vi.waitFor(() => expect(notifyJobEvent).toHaveBeenCalledTimes(1));
+    release({});
+
+    expect(await handled).toEqual({ success: false, timedOut: true });
+    expect(vi.mocked(notifyJobEvent).mock.calls.map(([event]) => event)).toEqual(['job.retrying']);
+  });
+
+  it('ignores the failed event when the handler already moved the job to retry', async () => {
+    vi.mocked(notifyJobEvent).mockClear();
+    const { main, job, handled, release } = await startHeldJob();
+
+    release({ error: Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }) });
+    expect(await handled).toMatchObject({ success: false, movedToRetry: true, errorClass: 'transient-network' });
+    main.emit('failed', job, timeoutError);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(vi.mocked(notifyJobEvent).mock.calls.map(([event]) => event)).toEqual(['job.retrying']);
+  });
+});
+
+describe('tx worker gas deferral', () => {
+  beforeAll(() => {
+    startTransactionWorker();
+  });
+
+  afterAll(async () => {
+    await stopTransactionWorker();
+  });
+
+  it('moves a deferred job to the retry queue with the defer delay without sending it', async () => {
+    vi.mocked(submitContractTransaction).mockClear();
+    vi.mocked(shouldDefer).mockResolvedValueOnce({ defer: true, currentFeeGwei: '12.0', thresholdGwei: '10', delayMs: 600000 });
+    const main = findQueue('relayer-tx-main');
+    const job = await main.add({ type: 'archive-raffles', raffleIds: [1, 2] });
+
+    expect(await main.runHandler(job)).toMatchObject({
+      success: false,
+      movedToRetry: true,
+      deferred: true,
+      retryJobId: `retry-${job.id}`,
+      reason: 'Network fee 12.0 gwei above defer threshold 10 gwei'
+    });
+    expect(findQueue('relayer-tx-retry').jobs.get(`retry-${job.id}`)).toMatchObject({ state: 'delayed', opts: { delay: 600000 } });
+    expect(submitContractTransaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('tx worker low balance pause', () => {
+  beforeAll(() => {
+    startTransactionWorker();
+  });
+
+  afterAll(async () => {
+    await stopTransactionWorker();
+  });
+
+  it('holds a paused job in the retry queue for the pause delay without sending it', async () => {
+    vi.mocked(submitContractTransaction).mockClear();
+    vi.mocked(isPausedForBalance).mockReturnValueOnce(true);
+    const main = findQueue('relayer-tx-main');
+    const job = await main.add({ type: 'create-raffle', referenceId: 'ref-1' });
+
+    expect(await main.runHandler(job)).toMatchObject({
+      success: false,
+      movedToRetry: true,
+      deferred: true,
+      reason: 'Wallet owner balance below critical threshold 0.01 ETH'
+    });
+    expect(vi.mocked(isPausedForBalance).mock.calls.at(-1)).toEqual(['owner', 'create-raffle']);
+    expect(findQueue('relayer-tx-retry').jobs.get(`retry-${job.id}`)).toMatchObject({ state: 'delayed', opts: { delay: 900000 } });
+    expect(submitContractTransaction).not.toHaveBeenCalled();
+  });
+
+  it('fails the retry job as insufficient-funds when the wallet is still critical', async () => {
+    vi.mocked(submitContractTransaction).mockClear();
+    vi.mocked(notifyJobEvent).mockClear();
+    vi.mocked(isPausedForBalance).mockReturnValueOnce(true);
+    const retry = findQueue('relayer-tx-retry');
+    const job = await retry.add({ type: 'create-raffle', referenceId: 'ref-1' }, { jobId: 'retry-41', attempts: 3 });
+
+    await expect(retry.runHandler(job)).rejects.toThrow(/insufficient-funds/);
+    expect(job.discarded).toBe(true);
+    expect(vi.mocked(notifyJobEvent).mock.calls.map(([event]) => event)).toEqual(['job.exhausted']);
+    expect(submitContractTransaction).not.toHaveBeenCalled();
+  });
+});
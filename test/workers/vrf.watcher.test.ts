@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const chain = vi.hoisted(() => {
+  process.env.VRF_STUCK_BLOCKS = '10';
+  process.env.VRF_MAX_RETRIES = '2';
+
+  return {
+    head: 100,
+    statuses: [] as number[],
+    vrfRequestIds: new Map<string, bigint>()
+  };
+});
+
+vi.mock('../../src/index.js', () => ({
+  contract: {
+    nextRaffleId: async () => BigInt(chain.statuses.length),
+    scanRaffles: async (start: bigint, end: bigint) => {
+      const batch = chain.statuses.slice(Number(start), Number(end));
+      return [batch.map((_, index) => start + BigInt(index)), batch];
+    },
+    getRaffleVRFRequestId: async (raffleId: string) => chain.vrfRequestIds.get(raffleId) ?? 0n
+  },
+  provider: { getBlockNumber: async () => chain.head }
+}));
+vi.mock('../../src/monitoring/alerting.js', () => ({ sendWarning: vi.fn(), sendCritical: vi.fn() }));
+
+import { runVrfWatcherScan, getVrfWatcherState } from '../../src/workers/vrf.watcher.js';
+import { storeEvents } from '../../src/indexer/event.store.js';
+import { sendWarning, sendCritical } from '../../src/monitoring/alerting.js';
+import { redis } from '../../src/utils/redis.js';
+import { findQueue } from '../support/bull.js';
+
+const FILLING = 0;
+const DRAWING = 1;
+const COMPLETED = 2;
+
+/**
+ * Index the event that issued a VRF request
+ */
+async function indexRequest(raffleId: string, vrfRequestId: string, blockNumber: number) {
+  await storeEvents([{
+    id: `${blockNumber}-0`,
+    name: 'RandomnessRequested',
+    blockNumber,
+    blockHash: '0x' + '11'.repeat(32),
+    blockTimestamp: 1_700_000_000,
+    transactionHash: '0x' + '22'.repeat(32),
+    logIndex: 0,
+    args: { raffleId, vrfRequestId }
+  }]);
+}
+
+async function scanAt(head: number) {
+  chain.head = head;
+  const report = await runVrfWatcherScan();
+  return report.decisions.map(decision => [decision.raffleId, decision.outcome, decision.pendingBlocks]);
+}
+
+function retryJobs() {
+  return [...findQueue('relayer-tx-main').jobs.values()].filter(job => job.data.type === 'retry-randomness');
+}
+
+describe('VRF watcher', () => {
+  beforeEach(() => {
+    chain.statuses = [FILLING, DRAWING];
+    chain.vrfRequestIds = new Map([['1', 555n]]);
+    vi.mocked(sendWarning).mockClear();
+    vi.mocked(sendCritical).mockClear();
+  });
+
+  it('retries randomness once the request is pending for VRF_STUCK_BLOCKS', async () => {
+    await indexRequest('1', '555', 100);
+
+    expect(await scanAt(109)).toEqual([]);
+    expect(await scanAt(110)).toEqual([['1', 'enqueued', 10]]);
+
+    expect(retryJobs().map(job => job.data)).toEqual([{ type: 'retry-randomness', raffleId: '1', automatic: true }]);
+    expect(sendWarning).toHaveBeenCalledWith('VRF_REQUEST_STUCK', expect.objectContaining({ raffleId: '1', retry: 1 }), 'VRF_REQUEST_STUCK:1:555');
+    expect((await getVrfWatcherState()).pending).toMatchObject([{ raffleId: '1', requestedBlock: 100, blockSource: 'event', retries: 1 }]);
+  });
+
+  it('counts from the first sighting when the request is not indexed', async () => {
+    expect(await scanAt(200)).toEqual([]);
+    expect(await scanAt(209)).toEqual([]);
+    expect(await scanAt(210)).toEqual([['1', 'enqueued', 10]]);
+
+    expect((await getVrfWatcherState()).pending).toMatchObject([{ requestedBlock: 200, blockSource: 'first-seen' }]);
+  });
+
+  it('waits for the previous retry job before sending another', async () => {
+    await indexRequest('1', '555', 100);
+    await scanAt(110);
+
+    expect(await scanAt(120)).toEqual([['1', 'retry-in-flight', 20]]);
+    expect(retryJobs()).toHaveLength(1);
+  });
+
+  it('tracks the new request of a retry and stops after VRF_MAX_RETRIES', async () => {
+    await indexRequest('1', '555', 100);
+    await scanAt(110);
+
+    // First retry mined: new request, callback still missing
+    retryJobs()[0].setState('completed', { returnvalue: { success: true } });
+    chain.vrfRequestIds.set('1', 556n);
+    expect(await scanAt(111)).toEqual([]);
+    expect(await scanAt(121)).toEqual([['1', 'enqueued', 10]]);
+
+    retryJobs()[1].setState('completed', { returnvalue: { success: true } });
+    chain.vrfRequestIds.set('1', 557n);
+    await scanAt(122);
+    expect(await scanAt(132)).toEqual([['1', 'exhausted', 10]]);
+
+    expect(retryJobs()).toHaveLength(2);
+    expect(sendCritical).toHaveBeenCalledWith('VRF_RETRY_EXHAUSTED', expect.objectContaining({ raffleId: '1', retries: 2 }), 'VRF_RETRY_EXHAUSTED:1');
+  });
+
+  it('leaves a retry claimed by another instance alone', async () => {
+    await indexRequest('1', '555', 100);
+    await redis.set('relayer:vrf:retry-claim:1:1', '555');
+
+    expect(await scanAt(110)).toEqual([['1', 'retry-in-flight', 10]]);
+    expect(retryJobs()).toHaveLength(0);
+  });
+
+  it('forgets a raffle once the callback arrived', async () => {
+    await indexRequest('1', '555', 100);
+    await scanAt(110);
+
+    chain.statuses = [FILLING, COMPLETED];
+    await scanAt(111);
+
+    expect((await getVrfWatcherState()).pending).toEqual([]);
+    expect(await redis.get('relayer:vrf:raffle:1')).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+vi.hoisted(() => {
+  process.env.WEBHOOK_SECRET = 'test-webhook-secret-0123456789abcdef';
+});
+
+vi.mock('../../src/utils/callback-target.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../../src/utils/callback-target.js')>(),
+  resolveCallbackTarget: vi.fn()
+}));
+
+import { startWebhookWorker, WebhookDeliveryError } from '../../src/workers/webhook.worker.js';
+import { getDeliveryLog, WebhookPayload } from '../../src/queues/webhook.queue.js';
+import { resolveCallbackTarget } from '../../src/utils/callback-target.js';
+import { findQueue } from '../support/bull.js';
+
+const payload: WebhookPayload = {
+  id: 'delivery-1',
+  event: 'job.mined',
+  timestamp: new Date().toISOString(),
+  job: { jobId: '42', queue: 'main', type: 'execute-raffle', attempt: 1, retrying: false },
+  raffleId: '7'
+};
+
+const received: Array<{ host?: string; signature?: string; body: string }> = [];
+let status = 200;
+let server: http.Server;
+let port: number;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      received.push({ host: req.headers.host, signature: req.headers['x-relayer-signature'] as string, body });
+      res.statusCode = status;
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+  startWebhookWorker();
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+async function deliver(url: string) {
+  const queue = findQueue('relayer-webhooks');
+  const job = await queue.add({ url, payload }, { attempts: 6 });
+  return queue.runHandler(job);
+}
+
+describe('webhook worker', () => {
+  it('connects to the address that passed the check, not a new DNS answer', async () => {
+    received.length = 0;
+    status = 200;
+    // .invalid never resolves - the delivery only arrives through the pinned address
+    vi.mocked(resolveCallbackTarget).mockResolvedValue({ address: { address: '127.0.0.1', family: 4 } });
+
+    const result = await deliver(`http://hooks.invalid:${port}/relayer`);
+
+    expect(result).toEqual({ delivered: true, httpStatus: 200 });
+    expect(received).toEqual([{ host: `hooks.invalid:${port}`, signature: expect.stringMatching(/^sha256=/), body: JSON.stringify(payload) }]);
+    expect(await getDeliveryLog({ limit: 1 })).toEqual([expect.objectContaining({ status: 'delivered', httpStatus: 200 })]);
+  });
+
+  it('fails a non-2xx answer with its status for the delivery log', async () => {
+    status = 503;
+    vi.mocked(resolveCallbackTarget).mockResolvedValue({ address: { address: '127.0.0.1', family: 4 } });
+
+    const error = await deliver(`http://hooks.invalid:${port}/relayer`).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(WebhookDeliveryError);
+    expect(error.httpStatus).toBe(503);
+    expect(await getDeliveryLog({ limit: 1 })).toEqual([expect.objectContaining({ status: 'failed', httpStatus: 503 })]);
+  });
+
+  it('sends nothing to a refused target', async () => {
+    received.length = 0;
+    vi.mocked(resolveCallbackTarget).mockResolvedValue({ refusal: 'callbackUrl host hooks.invalid resolves to a non-public address (10.0.0.1)' });
+
+    await expect(deliver(`http://hooks.invalid:${port}/relayer`)).rejects.toThrow(/Callback target refused/);
+    expect(received).toEqual([]);
+  });
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    setupFiles: ['test/setup.ts'],
+    // Modules read config/env.ts at import time - keep each file's graph separate
+    isolate: true,
+    // Startup logging of config/env.ts is noise unless a test fails
+    silent: 'passed-only'
+  }
+});